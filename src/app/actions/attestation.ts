@@ -0,0 +1,218 @@
+'use server'
+
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { revalidatePath } from 'next/cache'
+import { AttestationView } from '@/lib/attestation'
+
+// ============================================
+// TYPES
+// ============================================
+
+interface ActionResult {
+  success: boolean
+  error?: string
+}
+
+// A round waiting for the current user to attest as marker
+export interface AttestationRequest {
+  id: string
+  date_of_round: string
+  player_name: string
+  course_name: string
+  total_strokes: number | null
+  total_par: number | null
+  holes_played: number | null
+  has_scorecard: boolean
+  holes: { hole_number: number; par: number; strokes: number | null }[]
+}
+
+interface AttestationRequestsResult extends ActionResult {
+  requests?: AttestationRequest[]
+}
+
+interface RequestRow {
+  id: string
+  date_of_round: string
+  total_strokes: number | null
+  total_par: number | null
+  holes_played: number | null
+  scorecard_path: string | null
+  profiles: { full_name: string | null } | null
+  courses: { name: string } | null
+  round_scores: { hole_number: number; par: number; strokes: number | null }[] | null
+}
+
+// ============================================
+// HELPER: Create Supabase client
+// ============================================
+
+async function createClient() {
+  const cookieStore = await cookies()
+
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // Ignore - called from Server Component
+          }
+        },
+      },
+    }
+  )
+}
+
+// ============================================
+// LIST REQUESTS FOR THE CURRENT MARKER
+// ============================================
+
+export async function getAttestationRequests(): Promise<AttestationRequestsResult> {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return { success: false, error: 'Not authenticated. Please log in.' }
+    }
+
+    const { data, error } = await supabase
+      .from('rounds')
+      .select(`
+        id, date_of_round, total_strokes, total_par, holes_played, scorecard_path,
+        profiles!user_id(full_name),
+        courses(name),
+        round_scores(hole_number, par, strokes)
+      `)
+      .eq('marker_id', user.id)
+      .eq('attestation_status', 'pending')
+      .order('date_of_round', { ascending: false })
+
+    if (error) {
+      return { success: false, error: error.message }
+    }
+
+    const requests = ((data || []) as unknown as RequestRow[]).map((row) => ({
+      id: row.id,
+      date_of_round: row.date_of_round,
+      player_name: row.profiles?.full_name || 'Unknown Player',
+      course_name: row.courses?.name || 'Unknown Course',
+      total_strokes: row.total_strokes,
+      total_par: row.total_par,
+      holes_played: row.holes_played,
+      has_scorecard: !!row.scorecard_path,
+      holes: (row.round_scores || []).sort((a, b) => a.hole_number - b.hole_number),
+    }))
+
+    return { success: true, requests }
+  } catch (error) {
+    console.error('Get attestation requests error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'An unexpected error occurred' }
+  }
+}
+
+// ============================================
+// ATTEST OR DISPUTE A CARD
+// ============================================
+
+export async function respondToAttestation(
+  roundId: string,
+  attest: boolean,
+  note?: string
+): Promise<ActionResult> {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return { success: false, error: 'Not authenticated. Please log in.' }
+    }
+
+    if (!attest && !note?.trim()) {
+      return { success: false, error: 'Please say what is wrong with the card.' }
+    }
+
+    const { data, error } = await supabase.rpc('respond_to_attestation', {
+      p_round_id: roundId,
+      p_attest: attest,
+      p_note: note || null,
+    })
+
+    if (error) {
+      return { success: false, error: error.message }
+    }
+
+    const result = data as ActionResult
+
+    if (!result.success) {
+      return { success: false, error: result.error || 'Failed to record your response' }
+    }
+
+    revalidatePath('/dashboard/attestations')
+    revalidatePath('/dashboard/leaderboard')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Respond to attestation error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'An unexpected error occurred' }
+  }
+}
+
+// ============================================
+// ADMIN: DO UNATTESTED ROUNDS COUNT IN A VIEW?
+// ============================================
+
+export async function setIncludeUnattested(
+  view: AttestationView,
+  includeUnattested: boolean
+): Promise<ActionResult> {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    const normalizedRole = (profile?.role || '').toLowerCase().replace(/\s+/g, '_')
+    if (!['admin', 'super_admin'].includes(normalizedRole)) {
+      return { success: false, error: 'Only admins can change this setting' }
+    }
+
+    const { error } = await supabase
+      .from('view_settings')
+      .update({
+        include_unattested: includeUnattested,
+        updated_by: user.id,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('view_key', view)
+
+    if (error) {
+      return { success: false, error: error.message }
+    }
+
+    revalidatePath('/dashboard/leaderboard')
+    revalidatePath('/dashboard/simulator')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Set include unattested error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'An unexpected error occurred' }
+  }
+}
@@ -3,6 +3,9 @@
 import { createServerClient } from '@supabase/ssr'
 import { cookies } from 'next/headers'
 import { revalidatePath } from 'next/cache'
+import { TeeGender, TeeHoleYardage } from '@/lib/course-tees'
+import { normalizeCourseType } from '@/lib/course-types'
+import { fetchRatingVersions, recordRatingVersion, repinRoundRatings } from '@/lib/course-ratings'
 
 // ============================================
 // TYPES
@@ -21,6 +24,36 @@ interface UpdateCourseData {
   location?: string | null
   course_type?: string | null
   tee_color?: string | null
+  rating_effective_from?: string   // Date a changed rating applies from (defaults to today)
+}
+
+interface CourseTeeData {
+  name: string
+  gender: TeeGender
+  par: number | null
+  rating: number | null
+  slope: number | null
+  yardages: TeeHoleYardage[]       // Holes left blank use the course's distances
+  rating_effective_from?: string   // Date a changed rating applies from (defaults to today)
+}
+
+interface SaveTeeResult extends ActionResult {
+  teeId?: string
+}
+
+interface MergeCoursesResult extends ActionResult {
+  roundsMoved?: number
+  parConflicts?: number[]          // Holes where the merged course had a different par
+}
+
+interface MergeFunctionResult {
+  success: boolean
+  error?: string
+  rounds_moved?: number
+  holes_added?: number
+  par_conflicts?: number[]
+  source_name?: string
+  target_name?: string
 }
 
 // ============================================
@@ -78,6 +111,31 @@ async function getCurrentUserWithPermissions() {
   return { user, isAdmin, isSuperAdmin }
 }
 
+// ============================================
+// HELPER: Log audit action
+// ============================================
+
+// Course actions have no target user; the courses involved go in the details
+async function logAuditAction(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  actorId: string,
+  action: string,
+  details: Record<string, unknown>
+) {
+  try {
+    await supabase.from('audit_log').insert({
+      actor_id: actorId,
+      action,
+      target_user_id: null,
+      details,
+      created_at: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('Failed to log audit action:', error)
+    // Don't fail the main operation if audit logging fails
+  }
+}
+
 // ============================================
 // DELETE COURSE (with safety check)
 // ============================================
@@ -155,12 +213,18 @@ export async function updateCourse(courseId: string, data: UpdateCourseData): Pr
       return { success: false, error: 'Only administrators can edit courses' }
     }
 
+    // Only types on the shared list can be stored
+    const courseType = data.course_type ? normalizeCourseType(data.course_type) : null
+    if (data.course_type && !courseType) {
+      return { success: false, error: `Unknown course type: ${data.course_type}` }
+    }
+
     const supabase = await createClient()
 
     // Check if course exists
     const { data: existingCourse, error: fetchError } = await supabase
       .from('courses')
-      .select('id')
+      .select('id, rating, slope')
       .eq('id', courseId)
       .single()
 
@@ -168,6 +232,15 @@ export async function updateCourse(courseId: string, data: UpdateCourseData): Pr
       return { success: false, error: 'Course not found' }
     }
 
+    // A changed rating or slope is a re-rating from its effective date, not an overwrite
+    const rating = data.rating !== undefined ? data.rating : existingCourse.rating
+    const slope = data.slope !== undefined ? data.slope : existingCourse.slope
+    const isReRated = rating !== existingCourse.rating || slope !== existingCourse.slope
+
+    if (isReRated && rating === null && slope === null) {
+      return { success: false, error: 'A re-rated course needs a rating or slope' }
+    }
+
     // If renaming, check for duplicate names
     if (data.name) {
       const { data: duplicateCourse } = await supabase
@@ -188,10 +261,8 @@ export async function updateCourse(courseId: string, data: UpdateCourseData): Pr
       .update({
         ...(data.name && { name: data.name }),
         ...(data.par !== undefined && { par: data.par }),
-        ...(data.rating !== undefined && { rating: data.rating }),
-        ...(data.slope !== undefined && { slope: data.slope }),
         ...(data.location !== undefined && { location: data.location }),
-        ...(data.course_type !== undefined && { course_type: data.course_type }),
+        ...(data.course_type !== undefined && { course_type: courseType }),
         ...(data.tee_color !== undefined && { tee_color: data.tee_color }),
       })
       .eq('id', courseId)
@@ -200,6 +271,20 @@ export async function updateCourse(courseId: string, data: UpdateCourseData): Pr
       return { success: false, error: `Failed to update course: ${updateError.message}` }
     }
 
+    if (isReRated) {
+      const ratingError = await recordRatingVersion(
+        supabase,
+        { courseId, teeId: null },
+        { rating, slope },
+        data.rating_effective_from || new Date().toISOString().split('T')[0],
+        user.id
+      )
+
+      if (ratingError) {
+        return { success: false, error: ratingError }
+      }
+    }
+
     // Revalidate relevant pages
     revalidatePath('/dashboard')
     revalidatePath('/dashboard/courses')
@@ -212,3 +297,304 @@ export async function updateCourse(courseId: string, data: UpdateCourseData): Pr
     return { success: false, error: error.message || 'An unexpected error occurred' }
   }
 }
+
+// ============================================
+// ADD OR EDIT A TEE SET
+// ============================================
+
+export async function saveCourseTee(
+  courseId: string,
+  data: CourseTeeData,
+  teeId?: string
+): Promise<SaveTeeResult> {
+  try {
+    const { user, isAdmin } = await getCurrentUserWithPermissions()
+
+    if (!user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    // Only admins can change a course's tees
+    if (!isAdmin) {
+      return { success: false, error: 'Only administrators can edit tees' }
+    }
+
+    if (!data.name.trim()) {
+      return { success: false, error: 'Tee name is required' }
+    }
+
+    if (data.slope !== null && (data.slope < 55 || data.slope > 155)) {
+      return { success: false, error: 'Slope must be between 55 and 155' }
+    }
+
+    const supabase = await createClient()
+
+    // Men's and ladies' ratings for the same tees are separate tee sets
+    let duplicateQuery = supabase
+      .from('course_tees')
+      .select('id')
+      .eq('course_id', courseId)
+      .eq('name', data.name.trim())
+      .eq('gender', data.gender)
+
+    if (teeId) {
+      duplicateQuery = duplicateQuery.neq('id', teeId)
+    }
+
+    const { data: duplicateTee } = await duplicateQuery.maybeSingle()
+
+    if (duplicateTee) {
+      return { success: false, error: 'These tees are already rated for this course' }
+    }
+
+    // Existing tees are re-rated from a date rather than overwritten
+    let isReRated = data.rating !== null || data.slope !== null
+
+    if (teeId) {
+      const { data: existingTee } = await supabase
+        .from('course_tees')
+        .select('rating, slope')
+        .eq('id', teeId)
+        .eq('course_id', courseId)
+        .maybeSingle()
+
+      if (!existingTee) {
+        return { success: false, error: 'Failed to save tees: Tees not found' }
+      }
+
+      isReRated = data.rating !== existingTee.rating || data.slope !== existingTee.slope
+
+      if (isReRated && data.rating === null && data.slope === null) {
+        return { success: false, error: 'Re-rated tees need a rating or slope' }
+      }
+    }
+
+    const teeFields = {
+      name: data.name.trim(),
+      gender: data.gender,
+      par: data.par,
+    }
+
+    const { data: saved, error: saveError } = teeId
+      ? await supabase.from('course_tees').update(teeFields).eq('id', teeId).eq('course_id', courseId).select('id').single()
+      : await supabase
+          .from('course_tees')
+          .insert({ ...teeFields, course_id: courseId, rating: data.rating, slope: data.slope })
+          .select('id')
+          .single()
+
+    if (saveError || !saved) {
+      return { success: false, error: `Failed to save tees: ${saveError?.message || 'Tees not found'}` }
+    }
+
+    if (isReRated) {
+      const ratingError = await recordRatingVersion(
+        supabase,
+        { courseId, teeId: saved.id },
+        { rating: data.rating, slope: data.slope },
+        data.rating_effective_from || new Date().toISOString().split('T')[0],
+        user.id
+      )
+
+      if (ratingError) {
+        return { success: false, error: ratingError }
+      }
+    }
+
+    // Replace the tee set's yardages
+    await supabase.from('course_tee_holes').delete().eq('tee_id', saved.id)
+
+    const yardages = data.yardages.filter((y) => y.distance > 0)
+
+    if (yardages.length > 0) {
+      const { error: holesError } = await supabase
+        .from('course_tee_holes')
+        .insert(yardages.map((y) => ({ tee_id: saved.id, hole_number: y.hole_number, distance: y.distance })))
+
+      if (holesError) {
+        return { success: false, error: `Tees saved but yardages failed: ${holesError.message}` }
+      }
+    }
+
+    revalidatePath('/dashboard/courses')
+    revalidatePath('/dashboard/add-round')
+
+    return { success: true, teeId: saved.id }
+
+  } catch (error) {
+    console.error('Save course tee error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'An unexpected error occurred' }
+  }
+}
+
+// ============================================
+// DELETE A TEE SET
+// ============================================
+
+export async function deleteCourseTee(teeId: string): Promise<ActionResult> {
+  try {
+    const { user, isAdmin } = await getCurrentUserWithPermissions()
+
+    if (!user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    if (!isAdmin) {
+      return { success: false, error: 'Only administrators can delete tees' }
+    }
+
+    const supabase = await createClient()
+
+    // Safety check: rounds played from these tees keep their rating
+    const { count, error: countError } = await supabase
+      .from('rounds')
+      .select('*', { count: 'exact', head: true })
+      .eq('tee_id', teeId)
+
+    if (countError) {
+      return { success: false, error: `Failed to check tee usage: ${countError.message}` }
+    }
+
+    if (count && count > 0) {
+      return {
+        success: false,
+        error: `Cannot delete these tees. ${count} round${count === 1 ? ' was' : 's were'} played from them. Edit them instead.`
+      }
+    }
+
+    const { error: deleteError } = await supabase
+      .from('course_tees')
+      .delete()
+      .eq('id', teeId)
+
+    if (deleteError) {
+      return { success: false, error: `Failed to delete tees: ${deleteError.message}` }
+    }
+
+    revalidatePath('/dashboard/courses')
+    revalidatePath('/dashboard/add-round')
+
+    return { success: true }
+
+  } catch (error) {
+    console.error('Delete course tee error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'An unexpected error occurred' }
+  }
+}
+
+// ============================================
+// APPROVE A SUBMITTED COURSE
+// ============================================
+
+export async function approveCourse(courseId: string): Promise<ActionResult> {
+  try {
+    const { user, isAdmin } = await getCurrentUserWithPermissions()
+
+    if (!user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    if (!isAdmin) {
+      return { success: false, error: 'Only administrators can approve courses' }
+    }
+
+    const supabase = await createClient()
+
+    const { data: course, error: updateError } = await supabase
+      .from('courses')
+      .update({
+        status: 'approved',
+        reviewed_by: user.id,
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq('id', courseId)
+      .eq('status', 'pending')
+      .select('name')
+      .maybeSingle()
+
+    if (updateError) {
+      return { success: false, error: `Failed to approve course: ${updateError.message}` }
+    }
+
+    if (!course) {
+      return { success: false, error: 'Course is not awaiting review' }
+    }
+
+    await logAuditAction(supabase, user.id, 'COURSE_APPROVED', {
+      course_id: courseId,
+      course_name: course.name,
+    })
+
+    revalidatePath('/dashboard/admin/courses')
+    revalidatePath('/dashboard/courses')
+    revalidatePath('/dashboard/add-round')
+
+    return { success: true }
+
+  } catch (error) {
+    console.error('Approve course error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'An unexpected error occurred' }
+  }
+}
+
+// ============================================
+// MERGE A DUPLICATE COURSE INTO ANOTHER
+// ============================================
+
+export async function mergeCourses(sourceId: string, targetId: string): Promise<MergeCoursesResult> {
+  try {
+    const { user, isAdmin } = await getCurrentUserWithPermissions()
+
+    if (!user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    if (!isAdmin) {
+      return { success: false, error: 'Only administrators can merge courses' }
+    }
+
+    const supabase = await createClient()
+
+    // Move rounds, drafts, events and tees across, fill in missing holes, delete the duplicate
+    const { data, error } = await supabase.rpc('merge_courses', {
+      p_source_id: sourceId,
+      p_target_id: targetId,
+    })
+
+    if (error) {
+      return { success: false, error: `Failed to merge courses: ${error.message}` }
+    }
+
+    const result = data as MergeFunctionResult
+
+    if (!result.success) {
+      return { success: false, error: result.error || 'Failed to merge courses' }
+    }
+
+    // Moved rounds were scored with the duplicate's rating: rescore them and refresh the players' indexes
+    const roundsRescored = await repinRoundRatings(supabase, targetId, await fetchRatingVersions(supabase, targetId))
+
+    await logAuditAction(supabase, user.id, 'COURSE_MERGED', {
+      source_course_id: sourceId,
+      source_course_name: result.source_name,
+      target_course_id: targetId,
+      target_course_name: result.target_name,
+      rounds_moved: result.rounds_moved,
+      rounds_rescored: roundsRescored,
+      holes_added: result.holes_added,
+      par_conflicts: result.par_conflicts,
+    })
+
+    revalidatePath('/dashboard')
+    revalidatePath('/dashboard/admin/courses')
+    revalidatePath('/dashboard/courses')
+    revalidatePath('/dashboard/rounds')
+    revalidatePath('/dashboard/add-round')
+
+    return { success: true, roundsMoved: result.rounds_moved, parConflicts: result.par_conflicts }
+
+  } catch (error) {
+    console.error('Merge courses error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'An unexpected error occurred' }
+  }
+}
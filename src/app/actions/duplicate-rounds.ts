@@ -0,0 +1,250 @@
+'use server'
+
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { revalidatePath } from 'next/cache'
+import { refreshHandicapIndex } from '@/lib/handicap'
+import { DuplicateCandidate, DuplicateGroup, groupProbableDuplicates } from '@/lib/duplicates'
+import { removeScorecardImages } from '@/lib/scorecard-images'
+
+// ============================================
+// TYPES
+// ============================================
+
+interface ActionResult {
+  success: boolean
+  error?: string
+}
+
+// A round as shown in the duplicate review
+export interface DuplicateRound extends DuplicateCandidate {
+  player_name: string
+  course_name: string
+  total_strokes: number | null
+  holes_played: number | null
+  attestation_status: string | null
+  round_type: string | null
+  has_scorecard: boolean
+}
+
+interface DuplicateListResult extends ActionResult {
+  groups?: DuplicateGroup<DuplicateRound>[]
+}
+
+interface MergeResult extends ActionResult {
+  removed?: number
+}
+
+interface RoundRow {
+  id: string
+  user_id: string
+  course_id: string
+  date_of_round: string
+  total_strokes: number | null
+  holes_played: number | null
+  attestation_status: string | null
+  round_type: string | null
+  scorecard_path: string | null
+  profiles: { full_name: string | null } | null
+  courses: { name: string } | null
+}
+
+interface MergeFunctionResult {
+  success: boolean
+  error?: string
+  removed?: number
+  user_id?: string
+}
+
+// ============================================
+// HELPER: Create Supabase client
+// ============================================
+
+async function createClient() {
+  const cookieStore = await cookies()
+
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // Ignore - called from Server Component
+          }
+        },
+      },
+    }
+  )
+}
+
+// ============================================
+// HELPER: Check if user is admin
+// ============================================
+
+async function getCurrentUserWithPermissions() {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { user: null, isAdmin: false }
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  const rawRole = profile?.role || ''
+  const normalizedRole = rawRole.toLowerCase().replace(/\s+/g, '_')
+  const isAdmin = ['admin', 'super_admin'].includes(normalizedRole)
+
+  return { user, isAdmin }
+}
+
+// ============================================
+// LIST PROBABLE DUPLICATES
+// ============================================
+
+export async function findDuplicateRounds(): Promise<DuplicateListResult> {
+  try {
+    const { user, isAdmin } = await getCurrentUserWithPermissions()
+
+    if (!user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    if (!isAdmin) {
+      return { success: false, error: 'Only administrators can review duplicate rounds' }
+    }
+
+    const supabase = await createClient()
+
+    const { data: rounds, error: roundsError } = await supabase
+      .from('rounds')
+      .select('id, user_id, course_id, date_of_round, total_strokes, holes_played, attestation_status, round_type, scorecard_path, profiles!user_id(full_name), courses(name)')
+      .order('date_of_round', { ascending: false })
+
+    if (roundsError) {
+      return { success: false, error: roundsError.message }
+    }
+
+    // Only rounds sharing a player, course and day need their cards compared
+    const candidates = groupProbableDuplicates(
+      ((rounds || []) as unknown as RoundRow[]).map((r) => ({ ...r, holes: [] }))
+    ).flatMap((g) => g.rounds)
+
+    if (candidates.length === 0) {
+      return { success: true, groups: [] }
+    }
+
+    const { data: scores, error: scoresError } = await supabase
+      .from('round_scores')
+      .select('round_id, hole_number, strokes')
+      .in('round_id', candidates.map((r) => r.id))
+
+    if (scoresError) {
+      return { success: false, error: scoresError.message }
+    }
+
+    const holesByRound = new Map<string, { hole_number: number; strokes: number | null }[]>()
+    ;(scores || []).forEach((s) => {
+      holesByRound.set(s.round_id, [...(holesByRound.get(s.round_id) || []), { hole_number: s.hole_number, strokes: s.strokes }])
+    })
+
+    const groups = groupProbableDuplicates<DuplicateRound>(
+      candidates.map((r) => ({
+        id: r.id,
+        user_id: r.user_id,
+        course_id: r.course_id,
+        date_of_round: r.date_of_round,
+        holes: (holesByRound.get(r.id) || []).sort((a, b) => a.hole_number - b.hole_number),
+        player_name: r.profiles?.full_name || 'Unknown Player',
+        course_name: r.courses?.name || 'Unknown Course',
+        total_strokes: r.total_strokes,
+        holes_played: r.holes_played,
+        attestation_status: r.attestation_status,
+        round_type: r.round_type,
+        has_scorecard: !!r.scorecard_path,
+      }))
+    )
+
+    // Identical cards first: they are almost certainly the same round saved twice
+    groups.sort((a, b) => Number(b.identical) - Number(a.identical))
+
+    return { success: true, groups }
+  } catch (error) {
+    console.error('Find duplicate rounds error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'An unexpected error occurred' }
+  }
+}
+
+// ============================================
+// MERGE DUPLICATES INTO ONE ROUND
+// ============================================
+
+export async function mergeDuplicateRounds(keepId: string, removeIds: string[]): Promise<MergeResult> {
+  try {
+    const { user, isAdmin } = await getCurrentUserWithPermissions()
+
+    if (!user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    if (!isAdmin) {
+      return { success: false, error: 'Only administrators can merge rounds' }
+    }
+
+    if (removeIds.length === 0) {
+      return { success: false, error: 'Select at least one duplicate to merge' }
+    }
+
+    const supabase = await createClient()
+
+    const { data: removed } = await supabase
+      .from('rounds')
+      .select('scorecard_path')
+      .in('id', removeIds)
+
+    // Keep one round, copy across anything only the duplicates had, delete the rest
+    const { data, error } = await supabase.rpc('merge_duplicate_rounds', {
+      p_keep_id: keepId,
+      p_remove_ids: removeIds,
+    })
+
+    if (error) {
+      return { success: false, error: `Failed to merge rounds: ${error.message}` }
+    }
+
+    const result = data as MergeFunctionResult
+
+    if (!result.success) {
+      return { success: false, error: result.error || 'Failed to merge rounds' }
+    }
+
+    // Scorecard images the kept round did not take over
+    await removeScorecardImages(supabase, (removed || []).map((r) => r.scorecard_path))
+
+    // The player's scoring record lost rounds, so their Handicap Index may have changed
+    if (result.user_id) {
+      await refreshHandicapIndex(supabase, result.user_id)
+    }
+
+    revalidatePath('/dashboard')
+    revalidatePath('/dashboard/rounds')
+    revalidatePath('/dashboard/stats')
+
+    return { success: true, removed: result.removed }
+  } catch (error) {
+    console.error('Merge duplicate rounds error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'An unexpected error occurred' }
+  }
+}
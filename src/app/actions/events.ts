@@ -0,0 +1,174 @@
+'use server'
+
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { revalidatePath } from 'next/cache'
+import { PlayingFormat, PLAYING_FORMATS } from '@/lib/handicap'
+import { GolfEvent, ROUND_TYPES } from '@/lib/round-types'
+
+// ============================================
+// TYPES
+// ============================================
+
+interface ActionResult {
+  success: boolean
+  error?: string
+}
+
+export interface CreateEventInput {
+  name: string
+  event_date: string
+  course_id: string | null
+  playing_format: PlayingFormat
+  round_type: GolfEvent['round_type']
+}
+
+interface CreateEventResult extends ActionResult {
+  event?: GolfEvent
+}
+
+// ============================================
+// HELPER: Create Supabase client
+// ============================================
+
+async function createClient() {
+  const cookieStore = await cookies()
+
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // Ignore - called from Server Component
+          }
+        },
+      },
+    }
+  )
+}
+
+// ============================================
+// HELPER: Check if user is admin
+// ============================================
+
+async function getCurrentUserWithPermissions() {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { user: null, isAdmin: false }
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  const rawRole = profile?.role || ''
+  const normalizedRole = rawRole.toLowerCase().replace(/\s+/g, '_')
+  const isAdmin = ['admin', 'super_admin'].includes(normalizedRole)
+
+  return { user, isAdmin }
+}
+
+// ============================================
+// CREATE EVENT
+// ============================================
+
+export async function createEvent(input: CreateEventInput): Promise<CreateEventResult> {
+  try {
+    const { user, isAdmin } = await getCurrentUserWithPermissions()
+
+    if (!user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    if (!isAdmin) {
+      return { success: false, error: 'Only administrators can create events' }
+    }
+
+    if (!input.name.trim()) {
+      return { success: false, error: 'Event name is required' }
+    }
+
+    if (!input.event_date) {
+      return { success: false, error: 'Event date is required' }
+    }
+
+    if (!PLAYING_FORMATS[input.playing_format] || !ROUND_TYPES[input.round_type]?.competitive) {
+      return { success: false, error: 'Invalid event format or type' }
+    }
+
+    const supabase = await createClient()
+
+    const { data: event, error } = await supabase
+      .from('events')
+      .insert({
+        name: input.name.trim(),
+        event_date: input.event_date,
+        course_id: input.course_id || null,
+        playing_format: input.playing_format,
+        round_type: input.round_type,
+        created_by: user.id,
+      })
+      .select('id, name, event_date, course_id, playing_format, round_type')
+      .single()
+
+    if (error || !event) {
+      return { success: false, error: `Failed to create event: ${error?.message || 'Unknown error'}` }
+    }
+
+    revalidatePath('/dashboard/events')
+
+    return { success: true, event: event as GolfEvent }
+  } catch (error) {
+    console.error('Create event error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'An unexpected error occurred' }
+  }
+}
+
+// ============================================
+// DELETE EVENT (linked rounds keep their type)
+// ============================================
+
+export async function deleteEvent(eventId: string): Promise<ActionResult> {
+  try {
+    const { user, isAdmin } = await getCurrentUserWithPermissions()
+
+    if (!user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    if (!isAdmin) {
+      return { success: false, error: 'Only administrators can delete events' }
+    }
+
+    const supabase = await createClient()
+
+    const { error } = await supabase
+      .from('events')
+      .delete()
+      .eq('id', eventId)
+
+    if (error) {
+      return { success: false, error: `Failed to delete event: ${error.message}` }
+    }
+
+    revalidatePath('/dashboard/events')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Delete event error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'An unexpected error occurred' }
+  }
+}
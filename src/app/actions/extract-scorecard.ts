@@ -0,0 +1,183 @@
+'use server';
+
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import {
+  CardPage,
+  countPdfPages,
+  ExtractedScorecard,
+  getExtractionProvider,
+  MAX_PDF_PAGES,
+  MAX_SCORECARD_BYTES,
+  PDF_MIME_TYPE,
+  readCardPages,
+  SCORECARD_IMAGE_TYPES,
+  ScorecardExtractionProvider,
+  splitExtractedCards,
+} from '@/lib/scorecard-extraction';
+import { ExtractionConfidence, validateExtractedScorecard } from '@/lib/scorecard-validation';
+import { storeScorecardImage } from '@/lib/scorecard-images';
+
+// Types
+export type { ExtractedScorecard } from '@/lib/scorecard-extraction';
+export type { ConfidenceFlag, ExtractionConfidence } from '@/lib/scorecard-validation';
+
+export interface ExtractScorecardResult {
+  success: boolean;
+  data?: ExtractedScorecard;
+  confidence?: ExtractionConfidence;
+  scorecardPath?: string;    // Stored copy of the upload, linked to the round when it is saved
+  error?: string;
+}
+
+// One card from an uploaded file (a PDF may hold several)
+export interface ExtractedCard extends ExtractScorecardResult {
+  page: number | null;       // PDF page, null for a photo
+}
+
+export interface ExtractScorecardsResult {
+  success: boolean;
+  cards?: ExtractedCard[];
+  error?: string;
+}
+
+// Create server-side Supabase client
+async function createClient() {
+  const cookieStore = await cookies();
+
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll();
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            );
+          } catch {
+            // Ignore - called from Server Component
+          }
+        },
+      },
+    }
+  );
+}
+
+// Keep the uploaded card in the player's scorecard folder (skipped when signed out)
+async function keepScorecardImage(mimeType: string, bytes: Buffer): Promise<string | undefined> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) return undefined;
+  return (await storeScorecardImage(supabase, user.id, mimeType, bytes)) || undefined;
+}
+
+// Configured provider, or the reason there is none
+function resolveProvider(): { provider?: ScorecardExtractionProvider; error?: string } {
+  const provider = getExtractionProvider();
+
+  if (!provider) {
+    return {
+      error: `Unknown scorecard extraction provider "${process.env.SCORECARD_EXTRACTION_PROVIDER}". Use "gemini" or "local".`,
+    };
+  }
+  return { provider };
+}
+
+export async function extractRoundFromImage(formData: FormData): Promise<ExtractScorecardResult> {
+  const file = formData.get('image') as File | null;
+
+  if (!file) {
+    return { success: false, error: 'No file uploaded' };
+  }
+
+  const { provider, error } = resolveProvider();
+
+  if (!provider) {
+    return { success: false, error };
+  }
+
+  const bytes = Buffer.from(await file.arrayBuffer());
+  const result = await provider.extract({ name: file.name, mimeType: file.type, bytes });
+
+  if (!result.success) {
+    console.warn(`Scorecard extraction failed (${provider.name}):`, result.error);
+    return { success: false, error: result.error || 'Could not read the scorecard.' };
+  }
+
+  // Never pass the provider's JSON on unchecked
+  const validated = validateExtractedScorecard(result.raw);
+
+  if (!validated.success) {
+    console.warn(`Scorecard extraction rejected (${provider.name}):`, validated.error);
+    return { success: false, error: validated.error };
+  }
+
+  const scorecardPath = await keepScorecardImage(file.type, bytes);
+
+  return { success: true, data: validated.data, confidence: validated.confidence, scorecardPath };
+}
+
+// Every card in one uploaded photo or PDF, each validated on its own
+export async function extractScorecards(formData: FormData): Promise<ExtractScorecardsResult> {
+  const file = formData.get('file') as File | null;
+
+  if (!file) {
+    return { success: false, error: 'No file uploaded' };
+  }
+
+  const isPdf = file.type === PDF_MIME_TYPE;
+
+  if (!isPdf && !SCORECARD_IMAGE_TYPES.includes(file.type)) {
+    return { success: false, error: `${file.name} is not a scorecard image or PDF` };
+  }
+
+  if (file.size > MAX_SCORECARD_BYTES) {
+    return { success: false, error: `${file.name} is over 10MB` };
+  }
+
+  const { provider, error } = resolveProvider();
+
+  if (!provider) {
+    return { success: false, error };
+  }
+
+  const bytes = Buffer.from(await file.arrayBuffer());
+  const pageCount = isPdf ? countPdfPages(bytes) : 1;
+
+  if (pageCount > MAX_PDF_PAGES) {
+    return { success: false, error: `${file.name} has ${pageCount} pages; upload PDFs of up to ${MAX_PDF_PAGES} scorecards` };
+  }
+
+  const result = await provider.extract({ name: file.name, mimeType: file.type, bytes });
+
+  if (!result.success) {
+    console.warn(`Scorecard extraction failed (${provider.name}, ${file.name}):`, result.error);
+    return { success: false, error: result.error || 'Could not read the scorecard.' };
+  }
+
+  const rawCards = splitExtractedCards(result.raw);
+  const pages: CardPage[] = isPdf ? readCardPages(rawCards, pageCount) : rawCards.map(() => ({ page: null }));
+
+  const cards: ExtractedCard[] = rawCards.map((raw, index) => {
+    const { page, error: pageError } = pages[index];
+    const validated = validateExtractedScorecard(raw);
+    const success = validated.success && !pageError;
+    return {
+      page,
+      success,
+      data: success ? validated.data : undefined,
+      confidence: success ? validated.confidence : undefined,
+      error: pageError || validated.error,
+    };
+  });
+
+  // Every card read from the file links to the one stored copy
+  const scorecardPath = cards.some((c) => c.success) ? await keepScorecardImage(file.type, bytes) : undefined;
+
+  return { success: true, cards: cards.map((c) => (c.success ? { ...c, scorecardPath } : c)) };
+}
@@ -1,144 +0,0 @@
-﻿'use server';
-
-import { GoogleGenerativeAI } from '@google/generative-ai';
-
-// Types
-export interface GeminiExtractedData {
-  round_details: {
-    course_name: string;
-    date_of_round: string;
-    course_rating: number;
-    slope_rating: number;
-    total_adj_gross: number;
-  };
-  grounded_info: {
-    course_type: string;
-    location: string;
-    weather_conditions: string;
-  };
-  hole_data: Array<{
-    hole: number;
-    par: number;
-    distance: number;
-    strokes: number;
-  }>;
-}
-
-// Initialize Gemini
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
-
-export async function extractRoundFromImage(formData: FormData) {
-  const file = formData.get('image') as File;
-
-  if (!file) {
-    return { success: false, error: 'No file uploaded' };
-  }
-
-  // --- 1. PREPARE THE PROMPT ---
-  const systemPrompt = `
-    You are a Golf Scorecard Parser.
-    Extract data from this Golf Ireland scorecard image.
-    
-    REQUIRED OUTPUT (JSON ONLY):
-    {
-      "round_details": {
-        "course_name": "string (extract from text)",
-        "date_of_round": "YYYY-MM-DD (default to today if missing)",
-        "course_rating": number (from header),
-        "slope_rating": number (from header),
-        "total_adj_gross": number (final score)
-      },
-      "grounded_info": {
-        "course_type": "string (Links/Parkland/Heath/Cliffside - infer from name)",
-        "location": "string (infer from name)",
-        "weather_conditions": "string (infer from date/location e.g., 'Windy, 14°C')"
-      },
-      "hole_data": [
-        // Array of 18 objects
-        // IMPORTANT: Map the scorecard "GROSS" column to the "strokes" key
-        { "hole": 1, "par": number, "distance": number, "strokes": number }
-        // ... through 18
-      ]
-    }
-  `;
-
-  // --- 2. ATTEMPT REAL API CALL ---
-  try {
-    console.log('🚀 Attempting Real Gemini API Call...');
-    
-    // Check for API Key
-    if (!process.env.GEMINI_API_KEY) {
-      throw new Error('Missing GEMINI_API_KEY');
-    }
-
-    const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
-
-    // Convert file to bytes
-    const arrayBuffer = await file.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-    const base64Image = buffer.toString('base64');
-
-    const result = await model.generateContent([
-      systemPrompt,
-      {
-        inlineData: {
-          data: base64Image,
-          mimeType: file.type,
-        },
-      },
-    ]);
-
-    const response = await result.response;
-    const text = response.text();
-
-    // Clean markdown if present
-    const jsonString = text.replace(/```json/g, '').replace(/```/g, '').trim();
-    const data = JSON.parse(jsonString);
-    
-    console.log('✅ Real API Success');
-    return { success: true, data };
-
-  } catch (error: any) {
-    // --- 3. FAIL-SAFE FALLBACK (SIMULATION MODE) ---
-    console.warn('⚠️ API Error or Rate Limit Hit. Switching to Simulation Data.');
-
-    // Return the "Portmarnock Test 1" Mock Data
-    return {
-      success: true,
-      data: {
-        round_details: {
-          course_name: "Portmarnock Golf Club",
-          date_of_round: "2026-02-03",
-          course_rating: 73.3,
-          slope_rating: 133,
-          total_adj_gross: 72
-        },
-        grounded_info: {
-          course_type: "Links",
-          location: "Dublin, Ireland",
-          weather_conditions: "Windy, 14°C"
-        },
-        hole_data: [
-          { hole: 1, par: 4, distance: 393, strokes: 4 },
-          { hole: 2, par: 4, distance: 457, strokes: 5 },
-          { hole: 3, par: 4, distance: 462, strokes: 4 },
-          { hole: 4, par: 3, distance: 166, strokes: 3 },
-          { hole: 5, par: 5, distance: 532, strokes: 5 },
-          { hole: 6, par: 4, distance: 406, strokes: 4 },
-          { hole: 7, par: 3, distance: 213, strokes: 3 },
-          { hole: 8, par: 4, distance: 372, strokes: 4 },
-          { hole: 9, par: 4, distance: 471, strokes: 4 },
-          { hole: 10, par: 3, distance: 166, strokes: 3 },
-          { hole: 11, par: 4, distance: 392, strokes: 4 },
-          { hole: 12, par: 4, distance: 424, strokes: 7 },
-          { hole: 13, par: 4, distance: 467, strokes: 4 },
-          { hole: 14, par: 4, distance: 456, strokes: 5 },
-          { hole: 15, par: 3, distance: 218, strokes: 3 },
-          { hole: 16, par: 4, distance: 431, strokes: 4 },
-          { hole: 17, par: 3, distance: 172, strokes: 3 },
-          { hole: 18, par: 5, distance: 537, strokes: 4 }
-        ]
-      }
-    };
-  }
-}
\ No newline at end of file
@@ -0,0 +1,402 @@
+'use server'
+
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { PlayingFormat } from '@/lib/handicap'
+import { HoleData } from '@/lib/rounds'
+import { RoundType } from '@/lib/round-types'
+import { applyTeeYardages, TeeHoleYardage } from '@/lib/course-tees'
+import { saveRound, SaveRoundOptions, SaveRoundResult } from '@/app/actions/save-round'
+
+// ============================================
+// TYPES
+// ============================================
+
+interface ActionResult {
+  success: boolean
+  error?: string
+}
+
+// A round being scored live, saved hole by hole
+export interface RoundDraft {
+  id: string
+  course_id: string
+  course_name: string
+  date: string
+  round_length: 9 | 18
+  playing_format: PlayingFormat
+  weather: string
+  wind_conditions: string
+  marker_id: string | null
+  tee_id: string | null
+  round_type: RoundType
+  event_id: string | null
+  holes: HoleData[]
+  current_hole: number
+  updated_at: string
+}
+
+export interface StartDraftInput {
+  course_id: string
+  date: string
+  round_length: 9 | 18
+  playing_format: PlayingFormat
+  weather: string
+  wind_conditions: string
+  marker_id?: string | null
+  tee_id?: string | null
+  round_type?: RoundType
+  event_id?: string | null
+}
+
+interface DraftResult extends ActionResult {
+  draft?: RoundDraft
+}
+
+interface DraftListResult extends ActionResult {
+  drafts?: RoundDraft[]
+}
+
+interface DraftRow {
+  id: string
+  course_id: string
+  date_of_round: string
+  round_length: number
+  playing_format: string
+  weather: string | null
+  wind_conditions: string | null
+  marker_id: string | null
+  tee_id: string | null
+  round_type: string
+  event_id: string | null
+  holes: HoleData[]
+  current_hole: number
+  updated_at: string
+  courses: { name: string } | null
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const DRAFT_COLUMNS =
+  'id, course_id, date_of_round, round_length, playing_format, weather, wind_conditions, marker_id, tee_id, round_type, event_id, holes, current_hole, updated_at, courses(name)'
+
+// ============================================
+// HELPER: Create Supabase client
+// ============================================
+
+async function createClient() {
+  const cookieStore = await cookies()
+
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // Ignore - called from Server Component
+          }
+        },
+      },
+    }
+  )
+}
+
+// ============================================
+// HELPER: Map a stored draft row
+// ============================================
+
+function toRoundDraft(row: DraftRow): RoundDraft {
+  return {
+    id: row.id,
+    course_id: row.course_id,
+    course_name: row.courses?.name || 'Unknown Course',
+    date: row.date_of_round,
+    round_length: row.round_length === 9 ? 9 : 18,
+    playing_format: row.playing_format as PlayingFormat,
+    weather: row.weather || '',
+    wind_conditions: row.wind_conditions || '',
+    marker_id: row.marker_id,
+    tee_id: row.tee_id,
+    round_type: (row.round_type || 'general_play') as RoundType,
+    event_id: row.event_id,
+    holes: row.holes || [],
+    current_hole: row.current_hole,
+    updated_at: row.updated_at,
+  }
+}
+
+// ============================================
+// START A LIVE ROUND
+// ============================================
+
+export async function startDraft(input: StartDraftInput): Promise<DraftResult> {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return { success: false, error: 'Not authenticated. Please log in.' }
+    }
+
+    const { data: course, error: courseError } = await supabase
+      .from('courses')
+      .select('hole_count')
+      .eq('id', input.course_id)
+      .single()
+
+    if (courseError || !course) {
+      return { success: false, error: 'Course not found' }
+    }
+
+    // A nine-hole course can't be played as 18
+    if (input.round_length > (course.hole_count || 18)) {
+      return { success: false, error: 'This is a 9-hole course. Start a 9-hole round.' }
+    }
+
+    // Seed the scorecard from the course's holes
+    const { data: courseHoles, error: holesError } = await supabase
+      .from('course_holes')
+      .select('hole_number, par, stroke_index, distance')
+      .eq('course_id', input.course_id)
+      .order('hole_number')
+
+    if (holesError || !courseHoles || courseHoles.length === 0) {
+      return { success: false, error: 'This course has no hole data yet.' }
+    }
+
+    let holes: HoleData[] = courseHoles.slice(0, input.round_length).map((ch) => ({
+      hole: ch.hole_number,
+      par: ch.par,
+      distance: ch.distance,
+      strokeIndex: ch.stroke_index,
+      strokes: null,
+    }))
+
+    // Distances from the tees played
+    if (input.tee_id) {
+      const { data: tee, error: teeError } = await supabase
+        .from('course_tees')
+        .select('id, course_tee_holes(hole_number, distance)')
+        .eq('id', input.tee_id)
+        .eq('course_id', input.course_id)
+        .single()
+
+      if (teeError || !tee) {
+        return { success: false, error: 'Those tees are not on this course.' }
+      }
+
+      holes = applyTeeYardages(holes, (tee.course_tee_holes || []) as TeeHoleYardage[])
+    }
+
+    const { data: draft, error: insertError } = await supabase
+      .from('round_drafts')
+      .insert({
+        user_id: user.id,
+        course_id: input.course_id,
+        date_of_round: input.date,
+        round_length: input.round_length,
+        playing_format: input.playing_format,
+        weather: input.weather || null,
+        wind_conditions: input.wind_conditions || null,
+        marker_id: input.marker_id || null,
+        tee_id: input.tee_id || null,
+        round_type: input.round_type || 'general_play',
+        event_id: input.event_id || null,
+        holes,
+        current_hole: 1,
+      })
+      .select(DRAFT_COLUMNS)
+      .single()
+
+    if (insertError || !draft) {
+      return { success: false, error: insertError?.message || 'Failed to start round' }
+    }
+
+    return { success: true, draft: toRoundDraft(draft as unknown as DraftRow) }
+  } catch (error) {
+    console.error('Start draft error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'An unexpected error occurred' }
+  }
+}
+
+// ============================================
+// LIST / LOAD DRAFTS (resume on any device)
+// ============================================
+
+export async function getActiveDrafts(): Promise<DraftListResult> {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return { success: false, error: 'Not authenticated. Please log in.' }
+    }
+
+    const { data: drafts, error } = await supabase
+      .from('round_drafts')
+      .select(DRAFT_COLUMNS)
+      .eq('user_id', user.id)
+      .order('updated_at', { ascending: false })
+
+    if (error) {
+      return { success: false, error: error.message }
+    }
+
+    return { success: true, drafts: ((drafts || []) as unknown as DraftRow[]).map(toRoundDraft) }
+  } catch (error) {
+    console.error('Get drafts error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'An unexpected error occurred' }
+  }
+}
+
+// ============================================
+// SAVE A HOLE
+// ============================================
+
+export async function saveDraftHole(
+  draftId: string,
+  hole: HoleData,
+  currentHole: number
+): Promise<DraftResult> {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return { success: false, error: 'Not authenticated. Please log in.' }
+    }
+
+    // Merge into the stored card so holes saved from another device are kept
+    const { data: existing, error: fetchError } = await supabase
+      .from('round_drafts')
+      .select('holes')
+      .eq('id', draftId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (fetchError || !existing) {
+      return { success: false, error: 'Draft round not found' }
+    }
+
+    const holes = ((existing.holes || []) as HoleData[]).map((h) => (h.hole === hole.hole ? hole : h))
+
+    const { data: draft, error: updateError } = await supabase
+      .from('round_drafts')
+      .update({ holes, current_hole: currentHole, updated_at: new Date().toISOString() })
+      .eq('id', draftId)
+      .eq('user_id', user.id)
+      .select(DRAFT_COLUMNS)
+      .single()
+
+    if (updateError || !draft) {
+      return { success: false, error: updateError?.message || 'Failed to save hole' }
+    }
+
+    return { success: true, draft: toRoundDraft(draft as unknown as DraftRow) }
+  } catch (error) {
+    console.error('Save draft hole error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'An unexpected error occurred' }
+  }
+}
+
+// ============================================
+// DISCARD A DRAFT
+// ============================================
+
+export async function discardDraft(draftId: string): Promise<ActionResult> {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return { success: false, error: 'Not authenticated. Please log in.' }
+    }
+
+    const { error } = await supabase
+      .from('round_drafts')
+      .delete()
+      .eq('id', draftId)
+      .eq('user_id', user.id)
+
+    if (error) {
+      return { success: false, error: error.message }
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Discard draft error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'An unexpected error occurred' }
+  }
+}
+
+// ============================================
+// FINALISE INTO A ROUND
+// ============================================
+
+export async function finaliseDraft(
+  draftId: string,
+  options: Pick<SaveRoundOptions, 'allowConflict'> = {}
+): Promise<SaveRoundResult> {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return { success: false, error: 'Not authenticated. Please log in.' }
+    }
+
+    const { data: row, error: fetchError } = await supabase
+      .from('round_drafts')
+      .select(DRAFT_COLUMNS)
+      .eq('id', draftId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (fetchError || !row) {
+      return { success: false, error: 'Draft round not found' }
+    }
+
+    const draft = toRoundDraft(row as unknown as DraftRow)
+
+    if (!draft.holes.some((h) => h.strokes !== null && h.strokes > 0)) {
+      return { success: false, error: 'Enter at least one hole score before finishing the round.' }
+    }
+
+    // Same path as a round entered after the fact
+    const result = await saveRound({
+      course_id: draft.course_id,
+      course_name: draft.course_name,
+      date: draft.date,
+      weather: draft.weather,
+      wind_conditions: draft.wind_conditions,
+      course_rating: null,
+      slope_rating: null,
+      holes: draft.holes,
+      round_length: draft.round_length,
+      playing_format: draft.playing_format,
+      marker_id: draft.marker_id,
+      tee_id: draft.tee_id,
+      round_type: draft.round_type,
+      event_id: draft.event_id,
+    }, options)
+
+    if (result.success) {
+      await supabase.from('round_drafts').delete().eq('id', draftId).eq('user_id', user.id)
+    }
+
+    return result
+  } catch (error) {
+    console.error('Finalise draft error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'An unexpected error occurred' }
+  }
+}
@@ -0,0 +1,271 @@
+'use server'
+
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { HoleData, RoundData } from '@/lib/rounds'
+import { normaliseCourseName } from '@/lib/course-matching'
+import { ImportFormat, parseRoundImport } from '@/lib/round-import'
+import { refreshHandicapIndex } from '@/lib/handicap'
+import { saveRound } from '@/app/actions/save-round'
+
+// ============================================
+// TYPES
+// ============================================
+
+interface ActionResult {
+  success: boolean
+  error?: string
+}
+
+// One row of the dry run, as shown in the preview table
+export interface ImportPreviewRow {
+  row: number
+  course_name: string
+  matched_course: string | null
+  date: string | null
+  holes_played: number
+  total_strokes: number
+  errors: string[]
+  data?: RoundData               // Present only when the row is ready to import
+}
+
+interface PreviewResult extends ActionResult {
+  rows?: ImportPreviewRow[]
+}
+
+export type ImportRowStatus = 'imported' | 'duplicate' | 'conflict' | 'failed'
+
+export interface ImportRowResult {
+  row: number
+  status: ImportRowStatus
+  message?: string
+  roundId?: string
+}
+
+interface CommitResult extends ActionResult {
+  results?: ImportRowResult[]
+}
+
+interface CourseRow {
+  id: string
+  name: string
+  hole_count: number | null
+  rating: number | null
+  standard_scratch: number | null
+}
+
+interface CourseHoleRow {
+  course_id: string
+  hole_number: number
+  par: number
+  stroke_index: number
+  distance: number
+}
+
+// ============================================
+// HELPER: Create Supabase client
+// ============================================
+
+async function createClient() {
+  const cookieStore = await cookies()
+
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // Ignore - called from Server Component
+          }
+        },
+      },
+    }
+  )
+}
+
+// ============================================
+// HELPER: Validate rows against the course directory
+// ============================================
+
+async function buildPreview(content: string, format: ImportFormat): Promise<PreviewResult> {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated. Please log in.' }
+  }
+
+  const parsed = parseRoundImport(content, format)
+
+  if (parsed.error) {
+    return { success: false, error: parsed.error }
+  }
+
+  const { data: courses, error: coursesError } = await supabase
+    .from('courses')
+    .select('id, name, hole_count, rating, standard_scratch')
+    .or(`status.eq.approved,submitted_by.eq.${user.id}`)
+
+  if (coursesError) {
+    return { success: false, error: coursesError.message }
+  }
+
+  const coursesByName = new Map<string, CourseRow>()
+  ;((courses || []) as CourseRow[]).forEach((c) => coursesByName.set(normaliseCourseName(c.name), c))
+
+  const matchedIds = Array.from(new Set(
+    parsed.rows
+      .map((r) => coursesByName.get(normaliseCourseName(r.course_name))?.id)
+      .filter((id): id is string => !!id)
+  ))
+
+  const holesByCourse = new Map<string, CourseHoleRow[]>()
+
+  if (matchedIds.length > 0) {
+    const { data: courseHoles, error: holesError } = await supabase
+      .from('course_holes')
+      .select('course_id, hole_number, par, stroke_index, distance')
+      .in('course_id', matchedIds)
+      .order('hole_number')
+
+    if (holesError) {
+      return { success: false, error: holesError.message }
+    }
+
+    ;((courseHoles || []) as CourseHoleRow[]).forEach((h) => {
+      holesByCourse.set(h.course_id, [...(holesByCourse.get(h.course_id) || []), h])
+    })
+  }
+
+  const today = new Date().toISOString().split('T')[0]
+
+  const rows = parsed.rows.map((parsedRow): ImportPreviewRow => {
+    const errors = [...parsedRow.errors]
+    const course = parsedRow.course_name ? coursesByName.get(normaliseCourseName(parsedRow.course_name)) : undefined
+    const courseHoles = course ? holesByCourse.get(course.id) || [] : []
+
+    if (parsedRow.course_name && !course) {
+      errors.push(`No course named "${parsedRow.course_name}" in the course directory`)
+    } else if (course && courseHoles.length < parsedRow.scores.length) {
+      errors.push(`${course.name} has hole data for ${courseHoles.length} holes, not ${parsedRow.scores.length}`)
+    } else if (course && parsedRow.scores.length === 9 && !course.rating && !course.standard_scratch) {
+      // A nine is scored from the course's rating (halved on an 18-hole course)
+      errors.push(`${course.name} has no rating to score a 9-hole round from`)
+    }
+
+    if (parsedRow.date && parsedRow.date > today) {
+      errors.push('Date is in the future')
+    }
+
+    const playedScores = parsedRow.scores.filter((s): s is number => s !== null)
+    const preview: ImportPreviewRow = {
+      row: parsedRow.row,
+      course_name: parsedRow.course_name,
+      matched_course: course?.name || null,
+      date: parsedRow.date,
+      holes_played: playedScores.length,
+      total_strokes: playedScores.reduce((sum, s) => sum + s, 0),
+      errors,
+    }
+
+    if (errors.length > 0 || !course || !parsedRow.date) {
+      return preview
+    }
+
+    const holes: HoleData[] = courseHoles.slice(0, parsedRow.scores.length).map((ch, i) => ({
+      hole: ch.hole_number,
+      par: ch.par,
+      distance: ch.distance,
+      strokeIndex: ch.stroke_index,
+      strokes: parsedRow.scores[i],
+    }))
+
+    preview.data = {
+      course_id: course.id,
+      course_name: course.name,
+      date: parsedRow.date,
+      weather: parsedRow.weather || '',
+      wind_conditions: '',
+      course_rating: null,
+      slope_rating: null,
+      holes,
+      round_length: parsedRow.scores.length === 9 ? 9 : 18,
+      playing_format: parsedRow.playing_format,
+      round_type: parsedRow.round_type,
+    }
+
+    return preview
+  })
+
+  return { success: true, rows }
+}
+
+// ============================================
+// DRY RUN
+// ============================================
+
+export async function previewRoundImport(content: string, format: ImportFormat): Promise<PreviewResult> {
+  try {
+    return await buildPreview(content, format)
+  } catch (error) {
+    console.error('Preview round import error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'An unexpected error occurred' }
+  }
+}
+
+// ============================================
+// IMPORT READY ROWS
+// ============================================
+
+export async function commitRoundImport(content: string, format: ImportFormat): Promise<CommitResult> {
+  try {
+    // Validate again on the server rather than trusting the previewed rows
+    const preview = await buildPreview(content, format)
+
+    if (!preview.success || !preview.rows) {
+      return { success: false, error: preview.error }
+    }
+
+    const ready = preview.rows.filter((r) => r.data)
+
+    if (ready.length === 0) {
+      return { success: false, error: 'No rows are ready to import' }
+    }
+
+    // One at a time, through the same path as a round entered by hand
+    const results: ImportRowResult[] = []
+    for (const row of ready) {
+      const saved = await saveRound(row.data!, { deferIndexRefresh: true })
+
+      if (saved.success) {
+        results.push({ row: row.row, status: 'imported', roundId: saved.roundId })
+      } else if (saved.duplicateOf) {
+        results.push({ row: row.row, status: 'duplicate', message: 'Already saved with the same hole scores' })
+      } else if (saved.conflict) {
+        results.push({ row: row.row, status: 'conflict', message: 'Another round is recorded for this course and day' })
+      } else {
+        results.push({ row: row.row, status: 'failed', message: saved.error })
+      }
+    }
+
+    // The index is refreshed once for the import, so it records a single history entry
+    if (results.some((r) => r.status === 'imported')) {
+      const supabase = await createClient()
+      const { data: { user } } = await supabase.auth.getUser()
+      if (user) await refreshHandicapIndex(supabase, user.id)
+    }
+
+    return { success: true, results }
+  } catch (error) {
+    console.error('Commit round import error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'An unexpected error occurred' }
+  }
+}
@@ -3,6 +3,9 @@
 import { createServerClient } from '@supabase/ssr'
 import { cookies } from 'next/headers'
 import { revalidatePath } from 'next/cache'
+import { refreshHandicapIndex } from '@/lib/handicap'
+import { buildRoundRecord, RoundData, RoundFunctionResult, RoundValidationError } from '@/lib/rounds'
+import { removeScorecardImages } from '@/lib/scorecard-images'
 
 // ============================================
 // TYPES
@@ -13,6 +16,15 @@ interface ActionResult {
   error?: string
 }
 
+interface UpdateRoundResult extends ActionResult {
+  validationErrors?: RoundValidationError[]
+  totalStrokes?: number
+  adjustedGrossScore?: number
+  scoreToPar?: number
+  netStrokes?: number
+  stablefordPoints?: number
+}
+
 // ============================================
 // HELPER: Create Supabase client
 // ============================================
@@ -85,7 +97,7 @@ export async function deleteRound(roundId: string): Promise<ActionResult> {
     // First, check if the round exists and get its owner
     const { data: round, error: fetchError } = await supabase
       .from('rounds')
-      .select('id, user_id')
+      .select('id, user_id, scorecard_path')
       .eq('id', roundId)
       .single()
 
@@ -99,18 +111,7 @@ export async function deleteRound(roundId: string): Promise<ActionResult> {
       return { success: false, error: 'You do not have permission to delete this round' }
     }
 
-    // Delete associated scores first (cascade should handle this, but being explicit)
-    const { error: scoresError } = await supabase
-      .from('round_scores')
-      .delete()
-      .eq('round_id', roundId)
-
-    if (scoresError) {
-      console.error('Error deleting round scores:', scoresError)
-      // Continue anyway - the round delete might still work
-    }
-
-    // Delete the round
+    // Delete the round (its scores go with it; a marked card's scores cannot be deleted on their own)
     const { error: deleteError } = await supabase
       .from('rounds')
       .delete()
@@ -120,6 +121,12 @@ export async function deleteRound(roundId: string): Promise<ActionResult> {
       return { success: false, error: `Failed to delete round: ${deleteError.message}` }
     }
 
+    // The stored scorecard goes with the round (unless another page of the same PDF still uses it)
+    await removeScorecardImages(supabase, [round.scorecard_path])
+
+    // The owner's scoring record changed, so their Handicap Index may have too
+    await refreshHandicapIndex(supabase, round.user_id)
+
     // Revalidate relevant pages
     revalidatePath('/dashboard')
     revalidatePath('/dashboard/rounds')
@@ -132,3 +139,92 @@ export async function deleteRound(roundId: string): Promise<ActionResult> {
     return { success: false, error: error.message || 'An unexpected error occurred' }
   }
 }
+
+// ============================================
+// UPDATE ROUND
+// ============================================
+
+export async function updateRound(roundId: string, data: RoundData): Promise<UpdateRoundResult> {
+  try {
+    const { user, isAdmin } = await getCurrentUserWithPermissions()
+
+    if (!user) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    const supabase = await createClient()
+
+    // First, check if the round exists and get its owner
+    const { data: round, error: fetchError } = await supabase
+      .from('rounds')
+      .select('id, user_id, course_id, date_of_round, pcc')
+      .eq('id', roundId)
+      .single()
+
+    if (fetchError || !round) {
+      return { success: false, error: 'Round not found' }
+    }
+
+    // Check permissions: must be owner or admin
+    const isOwner = round.user_id === user.id
+    if (!isOwner && !isAdmin) {
+      return { success: false, error: 'You do not have permission to edit this round' }
+    }
+
+    // The day's PCC still applies unless the round moved to another course or date
+    const sameCourseDay = round.course_id === data.course_id && round.date_of_round === data.date
+    const pcc = sameCourseDay ? round.pcc : null
+
+    // Recompute totals, home/away and weather against the owner's profile
+    const built = await buildRoundRecord(supabase, round.user_id, data, pcc)
+
+    if (!built.success) {
+      return { success: false, error: built.error }
+    }
+
+    const { round: roundFields, scores, totals } = built.record
+
+    // Update the round and replace its hole scores in one transaction
+    const { data: updated, error: updateError } = await supabase.rpc('update_round_with_scores', {
+      p_round_id: roundId,
+      p_round: roundFields,
+      p_scores: scores,
+    })
+
+    if (updateError) {
+      return { success: false, error: `Failed to update round: ${updateError.message}` }
+    }
+
+    const result = updated as RoundFunctionResult
+
+    if (!result.success) {
+      const validationErrors = result.errors || []
+      return {
+        success: false,
+        error: validationErrors.map((e) => e.message).join('. ') || 'Failed to update round',
+        validationErrors,
+      }
+    }
+
+    // The owner's scoring record changed, so their Handicap Index may have too
+    await refreshHandicapIndex(supabase, round.user_id)
+
+    // Revalidate relevant pages
+    revalidatePath('/dashboard')
+    revalidatePath('/dashboard/rounds')
+    revalidatePath('/dashboard/stats')
+
+    return {
+      success: true,
+      totalStrokes: totals.totalStrokes,
+      adjustedGrossScore: totals.adjustedGrossScore,
+      scoreToPar: totals.scoreToPar,
+      netStrokes: totals.netStrokes,
+      stablefordPoints: totals.stablefordPoints,
+    }
+
+  } catch (error) {
+    console.error('Update round error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'An unexpected error occurred' }
+  }
+}
@@ -3,33 +3,33 @@
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
 import { revalidatePath } from 'next/cache';
-import { fetchHistoricalWeather } from '@/lib/weather';
+import { refreshHandicapIndex } from '@/lib/handicap';
+import { buildRoundRecord, RoundData, RoundFunctionResult, RoundValidationError } from '@/lib/rounds';
+import { HoleStrokes, holeScoresMatch } from '@/lib/duplicates';
 
 // Types
-export interface HoleData {
-  hole: number;
-  par: number;
-  distance: number;
-  strokeIndex?: number;
-  strokes: number | null;
-}
-
-export interface RoundData {
-  course_id: string;
-  course_name: string;
-  date: string;
-  weather: string;
-  wind_conditions: string;
-  course_rating: number | null;
-  slope_rating: number | null;
-  holes: HoleData[];
-  round_length?: 9 | 18;
-}
+export type { HoleData, RoundData, RoundValidationError } from '@/lib/rounds';
 
 export interface SaveRoundResult {
   success: boolean;
   error?: string;
+  validationErrors?: RoundValidationError[];
   roundId?: string;
+  totalStrokes?: number;
+  adjustedGrossScore?: number;
+  scoreToPar?: number;
+  netStrokes?: number;
+  stablefordPoints?: number;
+  conflict?: boolean;        // Another round is already recorded for this course and day
+  duplicate?: boolean;       // This queued round had already been saved
+  duplicateOf?: string;      // Blocked: an identical card (same hole scores) is already saved
+}
+
+export interface SaveRoundOptions {
+  clientRef?: string;        // Offline queue id; resubmitting it never creates a second round
+  allowConflict?: boolean;   // Save even if a different round exists for the course and day
+  playerId?: string;         // Offline queue: the player who entered the round
+  deferIndexRefresh?: boolean; // Batch import: the index is refreshed once, after the last round
 }
 
 // Create server-side Supabase client
@@ -58,7 +58,7 @@ async function createClient() {
   );
 }
 
-export async function saveRound(data: RoundData): Promise<SaveRoundResult> {
+export async function saveRound(data: RoundData, options: SaveRoundOptions = {}): Promise<SaveRoundResult> {
   try {
     const supabase = await createClient();
 
@@ -69,113 +69,94 @@ export async function saveRound(data: RoundData): Promise<SaveRoundResult> {
       return { success: false, error: 'Not authenticated. Please log in.' };
     }
 
-    // 2. Verify the course exists
-    const { data: course, error: courseError } = await supabase
-      .from('courses')
-      .select('id, name, location')
-      .eq('id', data.course_id)
-      .single();
-
-    if (courseError || !course) {
-      return { success: false, error: 'Selected course not found. Please select a valid course.' };
+    // A round queued on a shared device is only ever saved to the player who entered it
+    if (options.playerId && options.playerId !== user.id) {
+      return { success: false, error: 'This round was entered by another player. They need to sign in to sync it.' };
     }
 
-    const courseId = course.id;
-    const courseLocation = course.location;
-
-    // 2b. Determine home/away using startsWith against user's home_club
-    let isHome: boolean | null = null;
-    const { data: userProfile } = await supabase
-      .from('profiles')
-      .select('home_club')
-      .eq('id', user.id)
-      .single();
+    // 2-4. Course, home/away, weather, WHS adjustments and totals
+    const built = await buildRoundRecord(supabase, user.id, data);
 
-    if (userProfile?.home_club && course.name) {
-      isHome = course.name.startsWith(userProfile.home_club);
+    if (!built.success) {
+      return { success: false, error: built.error };
     }
 
-    // 3. Fetch weather data automatically
-    let weatherCategory = data.weather || 'Other';
-    let tempC: number | null = null;
-    let windSpeedKph: number | null = null;
+    const { round, scores, totals } = built.record;
 
-    if (courseLocation && data.date) {
-      try {
-        const weatherData = await fetchHistoricalWeather(data.date, courseLocation);
-
-        if (weatherData) {
-          if (!data.weather || data.weather === '' || data.weather === 'Other') {
-            weatherCategory = weatherData.weather;
-          }
-          tempC = weatherData.temp_c;
-          windSpeedKph = weatherData.wind_speed_kph;
+    // 4b. Same course and day already recorded: block an identical card, warn about any other
+    const { data: sameDay } = await supabase
+      .from('rounds')
+      .select('id, client_ref, round_scores(hole_number, strokes)')
+      .eq('user_id', user.id)
+      .eq('course_id', data.course_id)
+      .eq('date_of_round', data.date);
+
+    const alreadySynced = !!options.clientRef && (sameDay || []).some((r) => r.client_ref === options.clientRef);
+
+    if (!alreadySynced && sameDay && sameDay.length > 0) {
+      const cardStrokes: HoleStrokes[] = data.holes
+        .slice(0, data.round_length || 18)
+        .map((h) => ({ hole_number: h.hole, strokes: h.strokes }));
+      const identical = sameDay.find((r) =>
+        holeScoresMatch((r.round_scores || []) as HoleStrokes[], cardStrokes)
+      );
+
+      if (identical) {
+        return {
+          success: false,
+          duplicateOf: identical.id,
+          error: `This card is already saved: your round at ${data.course_name} on ${data.date} has the same hole scores.`,
+        };
+      }
 
-          console.log(`Weather auto-populated: ${weatherCategory}, ${tempC}°C, ${windSpeedKph} kph`);
-        }
-      } catch (weatherError) {
-        console.warn('Weather lookup failed, using manual input:', weatherError);
+      if (!options.allowConflict) {
+        return {
+          success: false,
+          conflict: true,
+          error: `A round at ${data.course_name} on ${data.date} is already recorded.`,
+        };
       }
     }
 
-    // 4. Apply triple bogey rule and calculate totals
-    const holesPlayed = data.round_length || 18;
-    const activeHoles = data.holes.slice(0, holesPlayed);
+    // 5-6. Insert the round and its hole scores in one transaction
+    const { data: saved, error: saveError } = await supabase.rpc('save_round_with_scores', {
+      p_round: options.clientRef ? { ...round, client_ref: options.clientRef } : round,
+      p_scores: scores,
+    });
 
-    // Triple bogey rule: blank/null strokes = par + 3
-    const finalHoles = activeHoles.map((h) => ({
-      ...h,
-      strokes: h.strokes !== null && h.strokes > 0 ? h.strokes : h.par + 3,
-    }));
+    if (saveError) {
+      return { success: false, error: `Failed to save round: ${saveError.message}` };
+    }
 
-    const totalStrokes = finalHoles.reduce((sum, h) => sum + h.strokes, 0);
-    const totalPar = finalHoles.reduce((sum, h) => sum + h.par, 0);
+    const result = saved as RoundFunctionResult;
 
-    // 5. Insert Round
-    const { data: newRound, error: roundError } = await supabase
-      .from('rounds')
-      .insert({
-        user_id: user.id,
-        course_id: courseId,
-        date_of_round: data.date,
-        weather: weatherCategory,
-        wind_conditions: data.wind_conditions || null,
-        temp_c: tempC,
-        wind_speed_kph: windSpeedKph,
-        total_strokes: totalStrokes,
-        total_par: totalPar,
-        score_to_par: totalStrokes - totalPar,
-        holes_played: holesPlayed,
-        is_home: isHome,
-      })
-      .select('id')
-      .single();
-
-    if (roundError || !newRound) {
-      return { success: false, error: `Failed to create round: ${roundError?.message}` };
+    if (!result.success || !result.round_id) {
+      const validationErrors = result.errors || [];
+      return {
+        success: false,
+        error: validationErrors.map((e) => e.message).join('. ') || 'Failed to save round',
+        validationErrors,
+      };
     }
 
-    // 6. Bulk Insert Scores
-    const scoreRows = finalHoles.map((hole) => ({
-      round_id: newRound.id,
-      hole_number: hole.hole,
-      par: hole.par,
-      distance: hole.distance,
-      strokes: hole.strokes,
-    }));
-
-    const { error: scoresError } = await supabase
-      .from('round_scores')
-      .insert(scoreRows);
-
-    if (scoresError) {
-      return { success: false, error: `Failed to save hole scores: ${scoresError.message}` };
+    // 7. Recalculate Handicap Index from the updated scoring record
+    if (totals.scoreDifferential !== null && !result.duplicate && !options.deferIndexRefresh) {
+      await refreshHandicapIndex(supabase, user.id);
     }
 
-    // 7. Revalidate dashboard
+    // 8. Revalidate dashboard
     revalidatePath('/dashboard');
 
-    return { success: true, roundId: newRound.id };
+    return {
+      success: true,
+      roundId: result.round_id,
+      totalStrokes: totals.totalStrokes,
+      adjustedGrossScore: totals.adjustedGrossScore,
+      scoreToPar: totals.scoreToPar,
+      netStrokes: totals.netStrokes,
+      stablefordPoints: totals.stablefordPoints,
+      duplicate: result.duplicate,
+    };
 
   } catch (error: any) {
     console.error('Save round error:', error);
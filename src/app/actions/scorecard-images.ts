@@ -0,0 +1,122 @@
+'use server'
+
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import {
+  isPdfScorecard,
+  removeScorecardImages,
+  SCORECARD_BUCKET,
+  SCORECARD_URL_TTL_SECONDS,
+} from '@/lib/scorecard-images'
+
+// ============================================
+// TYPES
+// ============================================
+
+interface ActionResult {
+  success: boolean
+  error?: string
+}
+
+interface ScorecardImageResult {
+  success: boolean
+  error?: string
+  url?: string               // Signed link, valid for SCORECARD_URL_TTL_SECONDS
+  isPdf?: boolean
+}
+
+// ============================================
+// HELPER: Create Supabase client
+// ============================================
+
+async function createClient() {
+  const cookieStore = await cookies()
+
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // Ignore - called from Server Component
+          }
+        },
+      },
+    }
+  )
+}
+
+// ============================================
+// LINK TO A ROUND'S SCORECARD IMAGE
+// ============================================
+
+// The player, the round's marker and admins can view the card (storage policies decide)
+export async function getScorecardImageUrl(roundId: string): Promise<ScorecardImageResult> {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return { success: false, error: 'Not authenticated. Please log in.' }
+    }
+
+    const { data: round, error: fetchError } = await supabase
+      .from('rounds')
+      .select('scorecard_path')
+      .eq('id', roundId)
+      .single()
+
+    if (fetchError || !round) {
+      return { success: false, error: 'Round not found' }
+    }
+
+    if (!round.scorecard_path) {
+      return { success: false, error: 'No scorecard image was kept for this round' }
+    }
+
+    const { data, error } = await supabase.storage
+      .from(SCORECARD_BUCKET)
+      .createSignedUrl(round.scorecard_path, SCORECARD_URL_TTL_SECONDS)
+
+    if (error || !data) {
+      return { success: false, error: 'You do not have permission to view this scorecard' }
+    }
+
+    return { success: true, url: data.signedUrl, isPdf: isPdfScorecard(round.scorecard_path) }
+  } catch (error) {
+    console.error('Get scorecard image error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'An unexpected error occurred' }
+  }
+}
+
+// ============================================
+// DISCARD UPLOADS THAT WERE NOT SAVED
+// ============================================
+
+// Cards skipped or abandoned in review: their stored upload goes unless a saved round links to it
+export async function discardScorecardImages(paths: string[]): Promise<ActionResult> {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return { success: false, error: 'Not authenticated. Please log in.' }
+    }
+
+    // Only the player's own uploads
+    await removeScorecardImages(supabase, paths.filter((p) => p.startsWith(`${user.id}/`)))
+
+    return { success: true }
+  } catch (error) {
+    console.error('Discard scorecard images error:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'An unexpected error occurred' }
+  }
+}
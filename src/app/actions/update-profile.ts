@@ -50,12 +50,21 @@ export async function updateProfile(data: UpdateProfileData): Promise<ActionResu
       return { success: false, error: 'Not authenticated' }
     }
 
+    // Once the index is calculated from rounds, the player can no longer overwrite it
+    const { data: currentProfile } = await supabase
+      .from('profiles')
+      .select('handicap_index_source')
+      .eq('id', user.id)
+      .single()
+
+    const isCalculated = currentProfile?.handicap_index_source === 'calculated'
+
     const { error: updateError } = await supabase
       .from('profiles')
       .update({
         full_name: data.full_name,
         home_club: data.home_club,
-        handicap_index: data.handicap_index,
+        ...(!isCalculated && { handicap_index: data.handicap_index }),
         gui_number: data.gui_number,
       })
       .eq('id', user.id)
@@ -0,0 +1,288 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import {
+  calculatePlayingConditions,
+  calculateScoreDifferential,
+  getPlayedCourseRating,
+  getRoundHandicapIndex,
+  HandicapHistoryEntry,
+  refreshHandicapIndex,
+  PlayingConditionsScore,
+} from '@/lib/handicap'
+
+// ============================================
+// TYPES
+// ============================================
+
+interface Round {
+  id: string
+  user_id: string
+  course_id: string
+  date_of_round: string
+  adjusted_gross_score: number | null
+  holes_played: number | null
+  pcc: number | null
+  score_differential: number | null
+  courses: {
+    rating: number | null
+    slope: number | null
+    standard_scratch: number | null
+    hole_count: number | null
+  } | null
+  course_tees: {
+    rating: number | null
+    slope: number | null
+  } | null
+  course_ratings: {                 // Rating version pinned to the round (in force on its date)
+    rating: number | null
+    slope: number | null
+  } | null
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Days back to (re)calculate when no ?days= is given
+const DEFAULT_LOOKBACK_DAYS = 7
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function getSinceDate(days: number): string {
+  const since = new Date()
+  since.setDate(since.getDate() - days)
+  return since.toISOString().split('T')[0]
+}
+
+// Rating and slope of the day the round was played; rounds without a pinned
+// version use the tees played, falling back to the course's (and SSS)
+function getRoundRating(round: Round): { courseRating: number | null; slopeRating: number | null } {
+  if (round.course_ratings) {
+    const pinned = round.course_ratings.rating ?? round.courses?.standard_scratch
+    return {
+      courseRating: pinned ? Number(pinned) : null,
+      slopeRating: round.course_ratings.slope,
+    }
+  }
+
+  const rating = round.course_tees?.rating ?? round.courses?.rating ?? round.courses?.standard_scratch
+  return {
+    courseRating: rating ? Number(rating) : null,
+    slopeRating: round.course_tees?.slope ?? round.courses?.slope ?? null,
+  }
+}
+
+// ============================================
+// API ROUTE HANDLER
+// ============================================
+
+export async function GET(request: NextRequest) {
+  try {
+    // ============================================
+    // SECURITY CHECK - Verify CRON_SECRET
+    // ============================================
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret) {
+      console.error('[PCC] CRON_SECRET not configured')
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      )
+    }
+
+    const providedSecret = authHeader?.replace('Bearer ', '') ||
+      request.nextUrl.searchParams.get('secret')
+
+    if (providedSecret !== cronSecret) {
+      console.error('[PCC] Invalid or missing CRON_SECRET')
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // ============================================
+    // INITIALIZE CLIENT
+    // ============================================
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error('[PCC] Missing Supabase credentials')
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      )
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // ============================================
+    // FETCH ROUNDS IN THE LOOKBACK WINDOW
+    // ============================================
+    const days = parseInt(request.nextUrl.searchParams.get('days') || '', 10) || DEFAULT_LOOKBACK_DAYS
+    const since = getSinceDate(days)
+
+    console.log(`[PCC] Calculating playing conditions for rounds since ${since}`)
+
+    const { data: roundsData, error: roundsError } = await supabase
+      .from('rounds')
+      .select('id, user_id, course_id, date_of_round, adjusted_gross_score, holes_played, pcc, score_differential, courses(rating, slope, standard_scratch, hole_count), course_tees(rating, slope), course_ratings(rating, slope)')
+      .gte('date_of_round', since)
+      .not('adjusted_gross_score', 'is', null)
+
+    if (roundsError) {
+      console.error('[PCC] Error fetching rounds:', roundsError)
+      return NextResponse.json(
+        { error: 'Failed to fetch rounds', details: roundsError.message },
+        { status: 500 }
+      )
+    }
+
+    const rounds = (roundsData || []) as unknown as Round[]
+
+    // Index history for every player in the window, oldest first, and their profile index
+    // for players without a calculated one (as when their rounds are saved)
+    const userIds = [...new Set(rounds.map((r) => r.user_id))]
+    const historyByUser = new Map<string, HandicapHistoryEntry[]>()
+    const profileIndexByUser = new Map<string, number | null>()
+
+    if (userIds.length > 0) {
+      const [{ data: historyData }, { data: profilesData }] = await Promise.all([
+        supabase
+          .from('handicap_history')
+          .select('user_id, handicap_index, effective_date')
+          .in('user_id', userIds)
+          .order('effective_date', { ascending: true }),
+        supabase.from('profiles').select('id, handicap_index').in('id', userIds),
+      ])
+
+      ;(historyData || []).forEach((entry: HandicapHistoryEntry) => {
+        const existing = historyByUser.get(entry.user_id) || []
+        existing.push(entry)
+        historyByUser.set(entry.user_id, existing)
+      })
+      ;(profilesData || []).forEach((profile: { id: string; handicap_index: number | null }) => {
+        profileIndexByUser.set(profile.id, profile.handicap_index)
+      })
+    }
+
+    const indexFor = (round: Round) => getRoundHandicapIndex(
+      historyByUser.get(round.user_id) || [],
+      round.date_of_round,
+      profileIndexByUser.get(round.user_id)
+    )
+
+    // ============================================
+    // GROUP BY COURSE AND DAY, THEN APPLY PCC
+    // ============================================
+    const groups = new Map<string, Round[]>()
+    rounds.forEach((round) => {
+      const key = `${round.course_id}|${round.date_of_round}`
+      groups.set(key, [...(groups.get(key) || []), round])
+    })
+
+    const affectedUsers = new Set<string>()
+    const results: { courseId: string; date: string; rounds: number; pcc: number }[] = []
+    let updatedRounds = 0
+
+    for (const groupRounds of groups.values()) {
+      // Rounds from any tees on the course count towards the day's PCC
+      const ratedRounds = groupRounds.filter((round) => getRoundRating(round).courseRating !== null)
+
+      if (ratedRounds.length === 0) continue
+
+      // 18-hole scores from players with an index decide the day's PCC
+      const scores: PlayingConditionsScore[] = []
+      ratedRounds.forEach((round) => {
+        const handicapIndex = indexFor(round)
+        if (round.holes_played === 9 || handicapIndex === null) return
+
+        const { courseRating, slopeRating } = getRoundRating(round)
+        scores.push({
+          differential: calculateScoreDifferential({
+            adjustedGross: round.adjusted_gross_score!,
+            courseRating: courseRating!,
+            slopeRating,
+            holesPlayed: 18,
+          }),
+          handicapIndex,
+        })
+      })
+
+      const pcc = calculatePlayingConditions(scores)
+
+      results.push({
+        courseId: groupRounds[0].course_id,
+        date: groupRounds[0].date_of_round,
+        rounds: ratedRounds.length,
+        pcc,
+      })
+
+      // Re-apply to every round played that day, 9-hole rounds included
+      for (const round of ratedRounds) {
+        const holesPlayed = round.holes_played === 9 ? 9 : 18
+        const { courseRating, slopeRating } = getRoundRating(round)
+        const scoreDifferential = calculateScoreDifferential({
+          adjustedGross: round.adjusted_gross_score!,
+          courseRating: getPlayedCourseRating(courseRating!, holesPlayed, round.courses?.hole_count ?? null),
+          slopeRating,
+          holesPlayed,
+          pcc,
+          handicapIndex: indexFor(round),
+        })
+
+        if (round.pcc === pcc && Number(round.score_differential) === scoreDifferential) continue
+
+        const { error: updateError } = await supabase
+          .from('rounds')
+          .update({ pcc, score_differential: scoreDifferential })
+          .eq('id', round.id)
+
+        if (updateError) {
+          console.error(`[PCC] Failed to update round ${round.id}:`, updateError)
+          continue
+        }
+
+        updatedRounds++
+        affectedUsers.add(round.user_id)
+      }
+    }
+
+    // ============================================
+    // RECALCULATE AFFECTED HANDICAP INDEXES
+    // ============================================
+    for (const userId of affectedUsers) {
+      await refreshHandicapIndex(supabase, userId)
+    }
+
+    console.log(`[PCC] Updated ${updatedRounds} rounds across ${results.length} course days`)
+
+    return NextResponse.json({
+      success: true,
+      message: `PCC applied to ${updatedRounds} rounds`,
+      stats: {
+        since,
+        courseDays: results.length,
+        updatedRounds,
+        playersRecalculated: affectedUsers.size,
+      },
+      results,
+    })
+  } catch (error) {
+    console.error('[PCC] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Also support POST for some cron services
+export async function POST(request: NextRequest) {
+  return GET(request)
+}
@@ -4,6 +4,8 @@ import { Resend } from 'resend'
 import { createElement } from 'react'
 import { render } from '@react-email/render'
 import WeeklyDigest, { getWeeklyDigestPlainText } from '@/components/emails/WeeklyDigest'
+import { compareScores, getRoundScore, parseScoringMode } from '@/lib/scoring'
+import { countsTowardsView, getIncludeUnattested } from '@/lib/attestation'
 
 // ============================================
 // TYPES
@@ -22,6 +24,9 @@ interface Round {
   course_id: string
   date_of_round: string
   total_strokes: number | null
+  net_strokes: number | null
+  stableford_points: number | null
+  attestation_status: string | null
 }
 
 interface Course {
@@ -147,17 +152,21 @@ export async function GET(request: NextRequest) {
     // ============================================
     const { startDate, endDate, startDateFormatted, endDateFormatted } = getDateRange()
 
+    // Scoring mode: ?mode= on the request, else WEEKLY_DIGEST_SCORING_MODE, else gross
+    const scoringMode = parseScoringMode(
+      request.nextUrl.searchParams.get('mode') || process.env.WEEKLY_DIGEST_SCORING_MODE
+    )
+
     console.log(`[Weekly Digest] Fetching data for ${startDate} to ${endDate}`)
 
     // Fetch all required data in parallel
     const [roundsRes, profilesRes, coursesRes, squadsRes, membersRes] = await Promise.all([
       supabase
         .from('rounds')
-        .select('id, user_id, course_id, date_of_round, total_strokes')
+        .select('id, user_id, course_id, date_of_round, total_strokes, net_strokes, stableford_points, attestation_status')
         .gte('date_of_round', startDate)
         .lte('date_of_round', endDate)
-        .not('total_strokes', 'is', null)
-        .order('total_strokes', { ascending: true }),
+        .not('total_strokes', 'is', null),
       supabase.from('profiles').select('id, full_name, email, role'),
       supabase.from('courses').select('id, name'),
       supabase.from('squads').select('id, name'),
@@ -180,7 +189,13 @@ export async function GET(request: NextRequest) {
       console.error('[Weekly Digest] Error fetching members:', membersRes.error)
     }
 
-    const rounds = (roundsRes.data || []) as Round[]
+    // Admins choose whether rounds still awaiting their marker count
+    const includeUnattested = await getIncludeUnattested(supabase, 'weekly_digest')
+
+    // Best score first for the scoring mode; rounds without a score in that mode drop out
+    const rounds = ((roundsRes.data || []) as Round[])
+      .filter((r) => countsTowardsView(r.attestation_status, includeUnattested) && getRoundScore(r, scoringMode) !== null)
+      .sort((a, b) => compareScores(getRoundScore(a, scoringMode)!, getRoundScore(b, scoringMode)!, scoringMode))
     const profiles = (profilesRes.data || []) as Profile[]
     const courses = (coursesRes.data || []) as Course[]
     const squads = (squadsRes.data || []) as Squad[]
@@ -196,15 +211,15 @@ export async function GET(request: NextRequest) {
     let playerOfTheWeek: PlayerOfTheWeek | null = null
 
     if (rounds.length > 0) {
-      // Rounds are already sorted by total_strokes ascending
+      // Rounds are already sorted best score first for the scoring mode
       const bestRound = rounds[0]
       const player = profileMap.get(bestRound.user_id)
       const course = courseMap.get(bestRound.course_id)
 
-      if (player && bestRound.total_strokes) {
+      if (player) {
         playerOfTheWeek = {
           name: player.full_name || 'Unknown Player',
-          score: bestRound.total_strokes,
+          score: getRoundScore(bestRound, scoringMode)!,
           courseName: course?.name || 'Unknown Course',
           date: new Date(bestRound.date_of_round).toLocaleDateString('en-IE', {
             day: 'numeric',
@@ -231,11 +246,12 @@ export async function GET(request: NextRequest) {
     const squadRoundsMap = new Map<string, number[]>()
 
     rounds.forEach((round) => {
-      if (round.total_strokes) {
+      const score = getRoundScore(round, scoringMode)
+      if (score !== null) {
         const userSquads = userSquadMap.get(round.user_id) || []
         userSquads.forEach((squadId) => {
           const existing = squadRoundsMap.get(squadId) || []
-          existing.push(round.total_strokes!)
+          existing.push(score)
           squadRoundsMap.set(squadId, existing)
         })
       }
@@ -253,8 +269,8 @@ export async function GET(request: NextRequest) {
       }
     })
 
-    // Sort squads by average score (ascending)
-    squadStats.sort((a, b) => a.avgScore - b.avgScore)
+    // Sort squads best average first for the scoring mode
+    squadStats.sort((a, b) => compareScores(a.avgScore, b.avgScore, scoringMode))
 
     // ============================================
     // GET ADMIN RECIPIENTS
@@ -288,6 +304,7 @@ export async function GET(request: NextRequest) {
       totalRoundsThisWeek: rounds.length,
       weekStartDate: startDateFormatted,
       weekEndDate: endDateFormatted,
+      scoringMode,
     }
 
     // ============================================
@@ -333,6 +350,7 @@ export async function GET(request: NextRequest) {
       message: `Weekly digest sent to ${successCount} recipients`,
       stats: {
         totalRounds: rounds.length,
+        scoringMode,
         playerOfTheWeek: playerOfTheWeek?.name || null,
         squadStats: squadStats.length,
         recipients: {
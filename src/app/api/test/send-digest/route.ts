@@ -4,6 +4,8 @@ import { Resend } from 'resend'
 import { createElement } from 'react'
 import { render } from '@react-email/render'
 import WeeklyDigest, { getWeeklyDigestPlainText } from '@/components/emails/WeeklyDigest'
+import { compareScores, getRoundScore, parseScoringMode } from '@/lib/scoring'
+import { countsTowardsView, getIncludeUnattested } from '@/lib/attestation'
 
 // ============================================
 // TEST ENDPOINT - Send digest to Super Admin
@@ -22,6 +24,9 @@ export async function GET(request: NextRequest) {
     const cronSecret = process.env.CRON_SECRET
     // Allow overriding recipient for testing (Resend test mode only sends to registered email)
     const overrideEmail = request.nextUrl.searchParams.get('to')
+    const scoringMode = parseScoringMode(
+      request.nextUrl.searchParams.get('mode') || process.env.WEEKLY_DIGEST_SCORING_MODE
+    )
 
     if (!isDev && testSecret !== cronSecret) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
@@ -78,13 +83,17 @@ export async function GET(request: NextRequest) {
     const startDate = new Date(now)
     startDate.setDate(startDate.getDate() - 7)
 
-    const { data: rounds } = await supabase
+    const { data: allRounds } = await supabase
       .from('rounds')
-      .select('id, user_id, course_id, date_of_round, total_strokes')
+      .select('id, user_id, course_id, date_of_round, total_strokes, net_strokes, stableford_points, attestation_status')
       .gte('date_of_round', startDate.toISOString().split('T')[0])
       .lte('date_of_round', now.toISOString().split('T')[0])
       .not('total_strokes', 'is', null)
-      .order('total_strokes', { ascending: true })
+
+    const includeUnattested = await getIncludeUnattested(supabase, 'weekly_digest')
+    const rounds = allRounds
+      ?.filter(r => countsTowardsView(r.attestation_status, includeUnattested) && getRoundScore(r, scoringMode) !== null)
+      .sort((a, b) => compareScores(getRoundScore(a, scoringMode)!, getRoundScore(b, scoringMode)!, scoringMode))
 
     const { data: courses } = await supabase.from('courses').select('id, name')
     const { data: squads } = await supabase.from('squads').select('id, name')
@@ -101,10 +110,10 @@ export async function GET(request: NextRequest) {
       const player = profileMap.get(bestRound.user_id)
       const course = courseMap.get(bestRound.course_id)
 
-      if (player && bestRound.total_strokes) {
+      if (player) {
         playerOfTheWeek = {
           name: player.full_name || 'Unknown Player',
-          score: bestRound.total_strokes,
+          score: getRoundScore(bestRound, scoringMode)!,
           courseName: course?.name || 'Unknown Course',
           date: new Date(bestRound.date_of_round).toLocaleDateString('en-IE', {
             day: 'numeric',
@@ -124,11 +133,12 @@ export async function GET(request: NextRequest) {
 
     const squadRoundsMap = new Map<string, number[]>()
     rounds?.forEach(round => {
-      if (round.total_strokes) {
+      const score = getRoundScore(round, scoringMode)
+      if (score !== null) {
         const userSquads = userSquadMap.get(round.user_id) || []
         userSquads.forEach(squadId => {
           const existing = squadRoundsMap.get(squadId) || []
-          existing.push(round.total_strokes!)
+          existing.push(score)
           squadRoundsMap.set(squadId, existing)
         })
       }
@@ -145,7 +155,7 @@ export async function GET(request: NextRequest) {
         })
       }
     })
-    squadStats.sort((a, b) => a.avgScore - b.avgScore)
+    squadStats.sort((a, b) => compareScores(a.avgScore, b.avgScore, scoringMode))
 
     // Prepare email data
     const emailData = {
@@ -154,6 +164,7 @@ export async function GET(request: NextRequest) {
       totalRoundsThisWeek: rounds?.length || 0,
       weekStartDate: startDate.toLocaleDateString('en-IE', { day: 'numeric', month: 'short', year: 'numeric' }),
       weekEndDate: now.toLocaleDateString('en-IE', { day: 'numeric', month: 'short', year: 'numeric' }),
+      scoringMode,
     }
 
     // Send test email
@@ -1,10 +1,13 @@
 'use client'
 
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { createClient } from '@/lib/supabase'
 import Link from 'next/link'
 import { ArrowLeft, Check, AlertCircle } from 'lucide-react'
+import { markPendingCourseAdded, readPendingScorecard } from '@/lib/pending-scorecard'
+import { CourseLoopWithHoles, getLoopHoles, LOOP_HOLE_COUNT } from '@/lib/course-loops'
+import { COURSE_TYPES, COURSE_TYPE_CONFIG, CourseType, normalizeCourseType } from '@/lib/course-types'
 
 // ============================================
 // TYPES - STRICT SCHEMA MATCH
@@ -29,6 +32,12 @@ interface Course {
   tee_color: string | null
 }
 
+// A nine's loop: one already defined at the venue, or a new one named here
+interface LoopChoice {
+  loopId: string
+  newName: string
+}
+
 interface CourseHole {
   id: string
   course_id: string
@@ -52,7 +61,7 @@ export default function AddCoursePage() {
   const [name, setName] = useState('')
   const [location, setLocation] = useState('')
   const [teeColor, setTeeColor] = useState('White')
-  const [courseType, setCourseType] = useState('Parkland')
+  const [courseType, setCourseType] = useState<CourseType>('Parkland')
   const [slope, setSlope] = useState<number | ''>('')
   const [standardScratch, setStandardScratch] = useState<number | ''>('')
   const [holeCount, setHoleCount] = useState<9 | 18>(18)
@@ -66,9 +75,62 @@ export default function AddCoursePage() {
     }))
   )
 
+  // Nine-hole loops (27-hole venues): each nine is an existing loop or defines a new one
+  const [useLoops, setUseLoops] = useState(false)
+  const [venue, setVenue] = useState('')
+  const [loops, setLoops] = useState<CourseLoopWithHoles[]>([])
+  const [loopChoices, setLoopChoices] = useState<LoopChoice[]>([
+    { loopId: '', newName: '' },
+    { loopId: '', newName: '' },
+  ])
+
+  useEffect(() => {
+    const fetchLoops = async () => {
+      const supabase = createClient()
+      const { data } = await supabase
+        .from('course_loops')
+        .select('id, venue, name, location, course_loop_holes(hole_number, par, distance)')
+        .order('name')
+      setLoops((data || []) as CourseLoopWithHoles[])
+    }
+    fetchLoops()
+  }, [])
+
+  const venueLoops = loops.filter((l) => l.venue.toLowerCase() === venue.trim().toLowerCase())
+  const loopNines = holeCount === 18 ? [0, 1] : [0]
+
+  // Pars and distances of an existing loop are already defined
+  const lockedNines = [0, 1].map((nine) => useLoops && !!loopChoices[nine].loopId)
+
+  // Pre-filled from a scorecard photo whose course was not in the directory
+  const [fromScorecard, setFromScorecard] = useState(false)
+
+  useEffect(() => {
+    const pending = readPendingScorecard()
+    if (!pending || pending.courseAdded) return
+
+    const card = pending.data
+    const count: 9 | 18 = card.hole_data.length <= 9 ? 9 : 18
+    const cardType = normalizeCourseType(card.grounded_info.course_type)
+
+    setFromScorecard(true)
+    setName(card.round_details.course_name)
+    setLocation(card.grounded_info.location)
+    if (cardType) setCourseType(cardType)
+    if (card.round_details.slope_rating) setSlope(card.round_details.slope_rating)
+    setHoleCount(count)
+    setHoles(
+      Array.from({ length: count }, (_, i) => {
+        const hole = card.hole_data.find((h) => h.hole === i + 1)
+        return { par: hole?.par ?? 4, strokeIndex: i + 1, distance: hole?.distance ?? 0 }
+      })
+    )
+  }, [])
+
   // When hole count changes, reset holes array
   const handleHoleCountChange = (count: 9 | 18) => {
     setHoleCount(count)
+    setLoopChoices([{ loopId: '', newName: '' }, { loopId: '', newName: '' }])
     setHoles(
       Array.from({ length: count }, (_, i) => ({
         par: 4,
@@ -84,6 +146,44 @@ export default function AddCoursePage() {
   const frontNinePar = renderedHoles.slice(0, 9).reduce((sum, h) => sum + h.par, 0)
   const backNinePar = holeCount === 18 ? renderedHoles.slice(9, 18).reduce((sum, h) => sum + h.par, 0) : 0
 
+  // Picking an existing loop fills that nine's pars and distances from it
+  const handleLoopChoice = (nine: number, choice: LoopChoice) => {
+    setLoopChoices((prev) => prev.map((c, i) => (i === nine ? choice : c)))
+
+    const loop = loops.find((l) => l.id === choice.loopId)
+    if (!loop) return
+
+    setHoles((prev) => {
+      const updated = [...prev]
+      getLoopHoles(loop).forEach((lh, i) => {
+        const index = nine * LOOP_HOLE_COUNT + i
+        updated[index] = { ...updated[index], par: lh.par, distance: lh.distance ?? 0 }
+      })
+      return updated
+    })
+  }
+
+  // Loop setup problem, if any (shared by the completeness check and submit validation)
+  const getLoopError = (): string | null => {
+    if (!useLoops) return null
+    if (!venue.trim()) return 'Venue is required for a course built from loops'
+
+    const chosen = loopNines.map((nine) => loopChoices[nine])
+    if (chosen.some((c) => !c.loopId && !c.newName.trim())) return 'Choose or name the loop for each nine'
+
+    const keys = chosen.map((c) => c.loopId || c.newName.trim().toLowerCase())
+    if (new Set(keys).size !== keys.length) return 'The front and back nine must be different loops'
+
+    const taken = chosen.find(
+      (c) => !c.loopId && venueLoops.some((l) => l.name.toLowerCase() === c.newName.trim().toLowerCase())
+    )
+    if (taken) return `${venue.trim()} already has a "${taken.newName.trim()}" loop. Choose it from the list instead.`
+
+    return null
+  }
+
+  const loopError = getLoopError()
+
   const updateHole = (index: number, field: keyof HoleInput, value: number) => {
     setHoles(prev => {
       const updated = [...prev]
@@ -113,8 +213,10 @@ export default function AddCoursePage() {
     if (uniqueSI.size !== holeCount) return false
     if (siValues.some(si => si < 1 || si > holeCount)) return false
 
+    if (loopError) return false
+
     return true
-  }, [name, teeColor, slope, standardScratch, holeCount, holes])
+  }, [name, teeColor, slope, standardScratch, holeCount, holes, loopError])
 
   const validateForm = (): boolean => {
     if (!name.trim()) {
@@ -152,6 +254,11 @@ export default function AddCoursePage() {
       return false
     }
 
+    if (loopError) {
+      setError(loopError)
+      return false
+    }
+
     return true
   }
 
@@ -179,8 +286,65 @@ export default function AddCoursePage() {
         return
       }
 
+      // Courses added by players wait for an admin to review them
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', user.id)
+        .single()
+
+      const normalizedRole = (profile?.role || '').toLowerCase().replace(/\s+/g, '_')
+      const isAdmin = ['admin', 'super_admin'].includes(normalizedRole)
+
       // ============================================
-      // STEP 1: INSERT INTO courses TABLE
+      // STEP 1: LOOPS (new loops are defined once, from this course's nines)
+      // ============================================
+      const loopIds: (string | null)[] = [null, null]
+
+      if (useLoops) {
+        for (const nine of loopNines) {
+          const choice = loopChoices[nine]
+          if (choice.loopId) {
+            loopIds[nine] = choice.loopId
+            continue
+          }
+
+          const { data: loop, error: loopSaveError } = await supabase
+            .from('course_loops')
+            .insert({ venue: venue.trim(), name: choice.newName.trim(), location: location.trim() || null })
+            .select('id')
+            .single()
+
+          if (loopSaveError || !loop) {
+            console.error('Supabase Error:', JSON.stringify(loopSaveError, null, 2))
+            setError(`Failed to save the ${choice.newName.trim()} loop: ${loopSaveError?.message || 'Unknown error'}`)
+            setIsSubmitting(false)
+            return
+          }
+
+          const { error: loopHolesError } = await supabase
+            .from('course_loop_holes')
+            .insert(
+              renderedHoles.slice(nine * LOOP_HOLE_COUNT, (nine + 1) * LOOP_HOLE_COUNT).map((hole, i) => ({
+                loop_id: loop.id,
+                hole_number: i + 1,
+                par: Number(hole.par),
+                distance: Number(hole.distance),
+              }))
+            )
+
+          if (loopHolesError) {
+            console.error('Supabase Error:', JSON.stringify(loopHolesError, null, 2))
+            setError(`Failed to save the ${choice.newName.trim()} loop holes: ${loopHolesError.message || 'Unknown error'}`)
+            setIsSubmitting(false)
+            return
+          }
+          loopIds[nine] = loop.id
+        }
+      }
+
+      // ============================================
+      // STEP 2: INSERT INTO courses TABLE
       // ============================================
       const courseData = {
         name: name.trim(),
@@ -191,6 +355,10 @@ export default function AddCoursePage() {
         slope: Number(slope),
         standard_scratch: Number(standardScratch),
         hole_count: holeCount,
+        front_loop_id: loopIds[0],
+        back_loop_id: loopIds[1],
+        status: isAdmin ? 'approved' : 'pending',
+        submitted_by: user.id,
       }
 
       console.log('Inserting course:', JSON.stringify(courseData, null, 2))
@@ -218,7 +386,7 @@ export default function AddCoursePage() {
       console.log('Course created with ID:', course.id)
 
       // ============================================
-      // STEP 2: BULK INSERT INTO course_holes TABLE
+      // STEP 3: BULK INSERT INTO course_holes TABLE
       // ============================================
       const holesData = renderedHoles.map((hole, index) => ({
         course_id: course.id,
@@ -241,11 +409,47 @@ export default function AddCoursePage() {
         return
       }
 
+      // ============================================
+      // STEP 4: FIRST TEE SET (more can be added from Courses)
+      // ============================================
+      const { data: tee, error: teeError } = await supabase
+        .from('course_tees')
+        .insert({
+          course_id: course.id,
+          name: teeColor.trim(),
+          gender: 'men',
+          par: totalPar,
+          rating: Number(standardScratch),
+          slope: Number(slope),
+        })
+        .select('id')
+        .single()
+
+      const { error: teeHolesError } = tee
+        ? await supabase
+            .from('course_tee_holes')
+            .insert(holesData.map((h) => ({ tee_id: tee.id, hole_number: h.hole_number, distance: h.distance })))
+        : { error: null }
+
+      if (teeError || teeHolesError) {
+        console.error('Supabase Error:', JSON.stringify(teeError || teeHolesError, null, 2))
+        setError(`Course saved but tee data failed: ${(teeError || teeHolesError)?.message || 'Unknown error'}`)
+        setIsSubmitting(false)
+        return
+      }
+
       // ============================================
       // SUCCESS
       // ============================================
       console.log(`All ${holeCount} holes saved successfully`)
-      setSuccess(`"${name}" added successfully with all ${holeCount} holes!`)
+      setSuccess(
+        isAdmin
+          ? `"${name}" added successfully with all ${holeCount} holes!`
+          : `"${name}" added with all ${holeCount} holes. You can use it now; an admin will review it shortly.`
+      )
+
+      // Add Round picks the scorecard back up with its new course
+      if (fromScorecard) markPendingCourseAdded()
 
       setTimeout(() => {
         router.push('/dashboard/add-round')
@@ -307,6 +511,23 @@ export default function AddCoursePage() {
           </div>
 
           <form onSubmit={handleSubmit} className="p-6">
+            {/* Pre-filled from a scorecard photo */}
+            {fromScorecard && (
+              <div
+                className="mb-6 p-4 rounded-lg flex items-start gap-3"
+                style={{
+                  backgroundColor: 'rgba(201, 162, 39, 0.15)',
+                  border: '1px solid rgba(201, 162, 39, 0.3)',
+                }}
+              >
+                <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" style={{ color: '#C9A227' }} />
+                <span className="text-sm" style={{ color: '#C9A227' }}>
+                  Pre-filled from your scorecard photo. Check the pars and distances, and enter the stroke indexes and
+                  Standard Scratch. Your round will be waiting once the course is saved.
+                </span>
+              </div>
+            )}
+
             {/* Error Message */}
             {error && (
               <div
@@ -408,15 +629,15 @@ export default function AddCoursePage() {
                   </label>
                   <select
                     value={courseType}
-                    onChange={(e) => setCourseType(e.target.value)}
+                    onChange={(e) => setCourseType(e.target.value as CourseType)}
                     className="w-full px-3 py-2 rounded-lg bg-white/10 text-white focus:outline-none focus:ring-2"
                     style={inputStyle}
                   >
-                    <option value="Parkland" className="bg-[#1B4D3E] text-white">Parkland</option>
-                    <option value="Links" className="bg-[#1B4D3E] text-white">Links</option>
-                    <option value="Heathland" className="bg-[#1B4D3E] text-white">Heathland</option>
-                    <option value="Desert" className="bg-[#1B4D3E] text-white">Desert</option>
-                    <option value="Resort" className="bg-[#1B4D3E] text-white">Resort</option>
+                    {COURSE_TYPES.map((type) => (
+                      <option key={type} value={type} className="bg-[#1B4D3E] text-white">
+                        {COURSE_TYPE_CONFIG[type].label}
+                      </option>
+                    ))}
                   </select>
                 </div>
 
@@ -473,6 +694,82 @@ export default function AddCoursePage() {
               </div>
             </div>
 
+            {/* Nine-Hole Loops */}
+            <div className="space-y-4 mb-8">
+              <label className="flex items-center gap-2 text-sm text-white/80">
+                <input
+                  type="checkbox"
+                  checked={useLoops}
+                  onChange={(e) => setUseLoops(e.target.checked)}
+                  className="accent-[#C9A227]"
+                />
+                Built from nine-hole loops (venues with three or more nines)
+              </label>
+
+              {useLoops && (
+                <div className="grid md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-white/80 mb-1">
+                      Venue <span className="text-red-400">*</span>
+                    </label>
+                    <input
+                      type="text"
+                      value={venue}
+                      onChange={(e) => {
+                        setVenue(e.target.value)
+                        setLoopChoices((prev) => prev.map((c) => ({ ...c, loopId: '' })))
+                      }}
+                      className="w-full px-3 py-2 rounded-lg bg-white/10 text-white placeholder-white/40 focus:outline-none focus:ring-2"
+                      style={inputStyle}
+                      placeholder="e.g., Portmarnock Golf Club"
+                      list="loop-venues"
+                    />
+                    <datalist id="loop-venues">
+                      {[...new Set(loops.map((l) => l.venue))].map((v) => (
+                        <option key={v} value={v} />
+                      ))}
+                    </datalist>
+                  </div>
+
+                  {loopNines.map((nine) => (
+                    <div key={nine}>
+                      <label className="block text-sm font-medium text-white/80 mb-1">
+                        {nine === 0 ? 'Holes 1-9' : 'Holes 10-18'} <span className="text-red-400">*</span>
+                      </label>
+                      <select
+                        value={loopChoices[nine].loopId}
+                        onChange={(e) => handleLoopChoice(nine, { ...loopChoices[nine], loopId: e.target.value })}
+                        className="w-full px-3 py-2 rounded-lg bg-white/10 text-white focus:outline-none focus:ring-2"
+                        style={inputStyle}
+                      >
+                        <option value="" className="bg-[#1B4D3E] text-white">New loop...</option>
+                        {venueLoops.map((loop) => (
+                          <option key={loop.id} value={loop.id} className="bg-[#1B4D3E] text-white">
+                            {loop.name}
+                          </option>
+                        ))}
+                      </select>
+                      {!loopChoices[nine].loopId && (
+                        <input
+                          type="text"
+                          value={loopChoices[nine].newName}
+                          onChange={(e) => handleLoopChoice(nine, { loopId: '', newName: e.target.value })}
+                          className="w-full mt-2 px-3 py-2 rounded-lg bg-white/10 text-white placeholder-white/40 focus:outline-none focus:ring-2"
+                          style={inputStyle}
+                          placeholder="Loop name, e.g., Red"
+                        />
+                      )}
+                    </div>
+                  ))}
+
+                  <p className="md:col-span-3 text-xs text-white/50">
+                    A new loop takes its pars and distances from the holes below. An existing loop fills them in, and
+                    this course only sets its own rating, slope and stroke indexes.
+                  </p>
+                </div>
+              )}
+            </div>
+
             {/* Hole-by-Hole Grid */}
             <div style={{ borderTop: '1px solid rgba(201, 162, 39, 0.3)' }} className="pt-6">
               <div className="flex items-center justify-between mb-4">
@@ -507,6 +804,7 @@ export default function AddCoursePage() {
                           <select
                             value={hole.par}
                             onChange={(e) => updateHole(i, 'par', parseInt(e.target.value, 10))}
+                            disabled={lockedNines[0]}
                             className="w-full p-1 rounded text-center text-sm bg-white/10 text-white"
                             style={selectCellStyle}
                           >
@@ -544,6 +842,7 @@ export default function AddCoursePage() {
                             type="number"
                             value={hole.distance || ''}
                             onChange={(e) => updateHole(i, 'distance', e.target.value === '' ? 0 : parseInt(e.target.value, 10))}
+                            disabled={lockedNines[0]}
                             className="w-full p-1 rounded text-center text-sm bg-white/10 text-white placeholder-white/30"
                             style={selectCellStyle}
                             placeholder="yds"
@@ -578,6 +877,7 @@ export default function AddCoursePage() {
                             <select
                               value={hole.par}
                               onChange={(e) => updateHole(i + 9, 'par', parseInt(e.target.value, 10))}
+                              disabled={lockedNines[1]}
                               className="w-full p-1 rounded text-center text-sm bg-white/10 text-white"
                               style={selectCellStyle}
                             >
@@ -615,6 +915,7 @@ export default function AddCoursePage() {
                               type="number"
                               value={hole.distance || ''}
                               onChange={(e) => updateHole(i + 9, 'distance', e.target.value === '' ? 0 : parseInt(e.target.value, 10))}
+                              disabled={lockedNines[1]}
                               className="w-full p-1 rounded text-center text-sm bg-white/10 text-white placeholder-white/30"
                               style={selectCellStyle}
                               placeholder="yds"
@@ -647,6 +948,7 @@ export default function AddCoursePage() {
                         <select
                           value={hole.par}
                           onChange={(e) => updateHole(i, 'par', parseInt(e.target.value, 10))}
+                          disabled={lockedNines[0]}
                           className="text-xs p-1 rounded text-center bg-white/10 text-white"
                           style={selectCellStyle}
                         >
@@ -668,6 +970,7 @@ export default function AddCoursePage() {
                           type="number"
                           value={hole.distance || ''}
                           onChange={(e) => updateHole(i, 'distance', e.target.value === '' ? 0 : parseInt(e.target.value, 10))}
+                          disabled={lockedNines[0]}
                           className="text-xs p-1 rounded text-center bg-white/10 text-white placeholder-white/30"
                           style={selectCellStyle}
                           placeholder="yds"
@@ -698,6 +1001,7 @@ export default function AddCoursePage() {
                           <select
                             value={hole.par}
                             onChange={(e) => updateHole(i + 9, 'par', parseInt(e.target.value, 10))}
+                            disabled={lockedNines[1]}
                             className="text-xs p-1 rounded text-center bg-white/10 text-white"
                             style={selectCellStyle}
                           >
@@ -719,6 +1023,7 @@ export default function AddCoursePage() {
                             type="number"
                             value={hole.distance || ''}
                             onChange={(e) => updateHole(i + 9, 'distance', e.target.value === '' ? 0 : parseInt(e.target.value, 10))}
+                            disabled={lockedNines[1]}
                             className="text-xs p-1 rounded text-center bg-white/10 text-white placeholder-white/30"
                             style={selectCellStyle}
                             placeholder="yds"
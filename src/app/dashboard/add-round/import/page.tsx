@@ -0,0 +1,297 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, CheckCircle, FileUp, Loader2, XCircle } from 'lucide-react'
+import { ImportFormat } from '@/lib/round-import'
+import {
+  commitRoundImport,
+  ImportPreviewRow,
+  ImportRowResult,
+  ImportRowStatus,
+  previewRoundImport,
+} from '@/app/actions/round-import'
+
+// ============================================
+// HELPERS
+// ============================================
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-IE', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  })
+
+const RESULT_LABELS: Record<ImportRowStatus, { label: string; color: string }> = {
+  imported: { label: 'Imported', color: '#4ADE80' },
+  duplicate: { label: 'Skipped (already saved)', color: '#C9A227' },
+  conflict: { label: 'Skipped (round exists that day)', color: '#C9A227' },
+  failed: { label: 'Failed', color: '#F87171' },
+}
+
+const CSV_EXAMPLE = `date,course,format,h1,h2,h3,...,h18
+18/05/2024,Portmarnock Golf Club,stableford,5,4,3,...,5`
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export default function ImportRoundsPage() {
+  const [format, setFormat] = useState<ImportFormat>('csv')
+  const [content, setContent] = useState('')
+  const [fileName, setFileName] = useState('')
+  const [preview, setPreview] = useState<ImportPreviewRow[] | null>(null)
+  const [results, setResults] = useState<ImportRowResult[] | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+  const [error, setError] = useState('')
+
+  const readyCount = preview?.filter((r) => r.data).length || 0
+
+  // ============================================
+  // HANDLERS
+  // ============================================
+
+  const resetPreview = () => {
+    setPreview(null)
+    setResults(null)
+    setError('')
+  }
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name)
+    setFormat(file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv')
+    setContent(await file.text())
+    resetPreview()
+  }
+
+  const handlePreview = async () => {
+    setIsBusy(true)
+    resetPreview()
+
+    const result = await previewRoundImport(content, format)
+    if (result.success) {
+      setPreview(result.rows || [])
+    } else {
+      setError(result.error || 'Failed to read the file')
+    }
+    setIsBusy(false)
+  }
+
+  const handleImport = async () => {
+    if (!window.confirm(`Import ${readyCount} ${readyCount === 1 ? 'round' : 'rounds'}? Rows with errors are left out.`)) return
+
+    setIsBusy(true)
+    setError('')
+
+    const result = await commitRoundImport(content, format)
+    if (result.success) {
+      setResults(result.results || [])
+    } else {
+      setError(result.error || 'Failed to import rounds')
+    }
+    setIsBusy(false)
+  }
+
+  // ============================================
+  // RENDER
+  // ============================================
+
+  const resultsByRow = new Map((results || []).map((r) => [r.row, r]))
+  const importedCount = (results || []).filter((r) => r.status === 'imported').length
+
+  return (
+    <div className="min-h-screen" style={{ backgroundColor: '#1B4D3E' }}>
+      {/* Back Link */}
+      <div className="max-w-5xl mx-auto px-4 py-4">
+        <Link
+          href="/dashboard/add-round"
+          className="inline-flex items-center gap-2 text-white/70 hover:text-white text-sm transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to Add Round
+        </Link>
+      </div>
+
+      <div className="max-w-5xl mx-auto px-4 pb-8 space-y-6">
+        {/* Page Header */}
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold" style={{ color: '#C9A227' }}>
+            Import Past Rounds
+          </h1>
+          <p className="text-white/60 mt-1">
+            Upload a Golf Ireland export or spreadsheet of rounds with hole-by-hole scores. Check the preview, then import.
+          </p>
+        </div>
+
+        {/* Upload */}
+        <div className="glass-card p-5 space-y-4">
+          <div className="flex flex-col sm:flex-row gap-3">
+            <label
+              className="flex-1 py-3 px-4 rounded-xl flex items-center justify-center gap-3 cursor-pointer transition-all hover:bg-white/10"
+              style={{
+                backgroundColor: 'rgba(255, 255, 255, 0.05)',
+                border: '1px dashed rgba(201, 162, 39, 0.5)',
+              }}
+            >
+              <input
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+                className="hidden"
+                disabled={isBusy}
+              />
+              <FileUp className="w-4 h-4" style={{ color: '#C9A227' }} />
+              <span className="text-white/80 text-sm">{fileName || 'Choose a CSV or JSON file'}</span>
+            </label>
+            <select
+              value={format}
+              onChange={(e) => {
+                setFormat(e.target.value as ImportFormat)
+                resetPreview()
+              }}
+              className="px-4 py-3 rounded-xl text-white text-sm border border-white/20"
+              style={{ backgroundColor: '#1B4D3E' }}
+            >
+              <option value="csv">CSV</option>
+              <option value="json">JSON</option>
+            </select>
+          </div>
+
+          <textarea
+            value={content}
+            onChange={(e) => {
+              setContent(e.target.value)
+              resetPreview()
+            }}
+            placeholder={`...or paste the rows here, e.g.\n${CSV_EXAMPLE}`}
+            rows={6}
+            className="w-full px-4 py-3 rounded-xl text-white text-sm font-mono border border-white/20 placeholder-white/30"
+            style={{ backgroundColor: 'rgba(255, 255, 255, 0.05)' }}
+          />
+
+          <p className="text-xs text-white/40">
+            Columns: date, course, H1 to H18 (leave H10 to H18 blank for 9 holes), and optionally format, round type and weather.
+            Course names must match a course in the directory.
+          </p>
+
+          <div className="flex justify-end">
+            <button
+              onClick={handlePreview}
+              disabled={isBusy || !content.trim()}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold disabled:opacity-50"
+              style={{ backgroundColor: '#C9A227', color: '#0D4D2B' }}
+            >
+              {isBusy && !preview ? <Loader2 className="w-4 h-4 animate-spin" /> : null}
+              Preview Import
+            </button>
+          </div>
+        </div>
+
+        {/* Error Message */}
+        {error && (
+          <div
+            className="p-4 rounded-xl"
+            style={{
+              backgroundColor: 'rgba(239, 68, 68, 0.2)',
+              border: '1px solid rgba(239, 68, 68, 0.5)',
+            }}
+          >
+            <span className="text-red-200 text-sm">{error}</span>
+          </div>
+        )}
+
+        {/* Results Summary */}
+        {results && (
+          <div
+            className="p-4 rounded-xl flex items-center gap-2"
+            style={{
+              backgroundColor: 'rgba(34, 197, 94, 0.2)',
+              border: '1px solid rgba(34, 197, 94, 0.5)',
+            }}
+          >
+            <CheckCircle className="w-4 h-4 text-green-300" />
+            <span className="text-green-200 text-sm">
+              Imported {importedCount} of {results.length} {results.length === 1 ? 'round' : 'rounds'}.{' '}
+              <Link href="/dashboard/rounds" className="underline">View rounds</Link>
+            </span>
+          </div>
+        )}
+
+        {/* Preview */}
+        {preview && (
+          <div className="glass-card p-5 space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+              <p className="text-white text-sm">
+                <span className="font-bold" style={{ color: '#C9A227' }}>{readyCount}</span>
+                {' of '}
+                {preview.length} rows ready to import
+              </p>
+              {!results && (
+                <button
+                  onClick={handleImport}
+                  disabled={isBusy || readyCount === 0}
+                  className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold disabled:opacity-50"
+                  style={{ backgroundColor: '#C9A227', color: '#0D4D2B' }}
+                >
+                  {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileUp className="w-4 h-4" />}
+                  Import {readyCount} {readyCount === 1 ? 'Round' : 'Rounds'}
+                </button>
+              )}
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-white/50 border-b border-white/10">
+                    <th className="py-2 pr-3">Row</th>
+                    <th className="py-2 pr-3">Date</th>
+                    <th className="py-2 pr-3">Course</th>
+                    <th className="py-2 pr-3">Holes</th>
+                    <th className="py-2 pr-3">Gross</th>
+                    <th className="py-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.map((row) => {
+                    const result = resultsByRow.get(row.row)
+                    return (
+                      <tr key={row.row} className="border-b border-white/5 align-top">
+                        <td className="py-2 pr-3 text-white/50">{row.row}</td>
+                        <td className="py-2 pr-3 text-white">{row.date ? formatDate(row.date) : '—'}</td>
+                        <td className="py-2 pr-3 text-white">{row.matched_course || row.course_name || '—'}</td>
+                        <td className="py-2 pr-3 text-white/70">{row.holes_played}</td>
+                        <td className="py-2 pr-3 font-bold" style={{ color: '#C9A227' }}>{row.total_strokes || '—'}</td>
+                        <td className="py-2">
+                          {result ? (
+                            <span style={{ color: RESULT_LABELS[result.status].color }}>
+                              {RESULT_LABELS[result.status].label}
+                              {result.status === 'failed' && result.message && (
+                                <span className="block text-xs text-white/50">{result.message}</span>
+                              )}
+                            </span>
+                          ) : row.errors.length > 0 ? (
+                            <ul className="space-y-1">
+                              {row.errors.map((message) => (
+                                <li key={message} className="flex items-start gap-1 text-red-300 text-xs">
+                                  <XCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                                  {message}
+                                </li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <span className="text-green-300">Ready</span>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,17 +1,20 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import Link from 'next/link'
-import { ArrowLeft, Upload } from 'lucide-react'
+import { ArrowLeft, FileUp, Play, Upload } from 'lucide-react'
 import ScorecardUploader from '@/components/ScorecardUploader'
+import ScorecardBatchReview from '@/components/ScorecardBatchReview'
 import RoundEntryForm from '@/components/RoundEntryForm'
-import { GeminiExtractedData } from '@/app/actions/gemini-upload'
+import { ExtractedScorecard, ExtractionConfidence } from '@/app/actions/extract-scorecard'
+import { discardScorecardImages } from '@/app/actions/scorecard-images'
+import { takeCompletedScorecard } from '@/lib/pending-scorecard'
 
 // ============================================
 // TYPES
 // ============================================
 
-type ViewState = 'upload' | 'form'
+type ViewState = 'upload' | 'form' | 'batch'
 
 // ============================================
 // COMPONENT
@@ -19,20 +22,54 @@ type ViewState = 'upload' | 'form'
 
 export default function AddRoundPage() {
   const [view, setView] = useState<ViewState>('upload')
-  const [extractedData, setExtractedData] = useState<GeminiExtractedData | null>(null)
+  const [extractedData, setExtractedData] = useState<ExtractedScorecard | null>(null)
+  const [confidence, setConfidence] = useState<ExtractionConfidence | null>(null)
+  const [scorecardPath, setScorecardPath] = useState<string | null>(null)
+  const [batchFiles, setBatchFiles] = useState<File[]>([])
+
+  // Back from adding the scorecard's course: carry on with the same card
+  useEffect(() => {
+    const restore = async () => {
+      const pending = takeCompletedScorecard()
+      if (!pending) return
+
+      setExtractedData(pending.data)
+      setConfidence(pending.confidence)
+      setScorecardPath(pending.scorecardPath ?? null)
+      setView('form')
+    }
+    restore()
+  }, [])
 
   // ============================================
   // HANDLERS
   // ============================================
 
-  const handleDataExtracted = (data: GeminiExtractedData) => {
+  const handleDataExtracted = (
+    data: ExtractedScorecard,
+    extractionConfidence: ExtractionConfidence | null,
+    storedPath: string | null
+  ) => {
     setExtractedData(data)
+    setConfidence(extractionConfidence)
+    setScorecardPath(storedPath)
     setView('form')
   }
 
+  const handleFilesQueued = (files: File[]) => {
+    setBatchFiles(files)
+    setView('batch')
+  }
+
   const handleBackToUpload = () => {
+    // A card read but not saved leaves its upload behind (kept if the round was saved)
+    if (view === 'form' && scorecardPath) discardScorecardImages([scorecardPath])
+
+    setBatchFiles([])
     setView('upload')
     setExtractedData(null)
+    setConfidence(null)
+    setScorecardPath(null)
   }
 
   const handleSaveRound = (formData: unknown) => {
@@ -66,6 +103,8 @@ export default function AddRoundPage() {
           <p className="text-white/70 text-sm mt-1">
             {view === 'upload'
               ? 'Upload a scorecard screenshot or enter scores manually'
+              : view === 'batch'
+              ? 'Confirm each scorecard before it is saved'
               : 'Review and edit your round details'}
           </p>
         </div>
@@ -96,7 +135,7 @@ export default function AddRoundPage() {
                 </h2>
               </div>
 
-              <ScorecardUploader onDataExtracted={handleDataExtracted} />
+              <ScorecardUploader onDataExtracted={handleDataExtracted} onFilesQueued={handleFilesQueued} />
             </div>
 
             {/* Divider */}
@@ -118,6 +157,32 @@ export default function AddRoundPage() {
               <span className="text-white/80">Enter Scores Manually</span>
               <ArrowLeft className="w-4 h-4 text-white/60 rotate-180" />
             </button>
+
+            {/* Live Scoring Option */}
+            <Link
+              href="/dashboard/live-round"
+              className="w-full py-4 px-6 rounded-xl flex items-center justify-center gap-3 transition-all hover:bg-white/10"
+              style={{
+                backgroundColor: 'rgba(255, 255, 255, 0.05)',
+                border: '1px solid rgba(201, 162, 39, 0.3)',
+              }}
+            >
+              <Play className="w-4 h-4" style={{ color: '#C9A227' }} />
+              <span className="text-white/80">Score Live, Hole by Hole</span>
+            </Link>
+
+            {/* Import Option */}
+            <Link
+              href="/dashboard/add-round/import"
+              className="w-full py-4 px-6 rounded-xl flex items-center justify-center gap-3 transition-all hover:bg-white/10"
+              style={{
+                backgroundColor: 'rgba(255, 255, 255, 0.05)',
+                border: '1px solid rgba(201, 162, 39, 0.3)',
+              }}
+            >
+              <FileUp className="w-4 h-4" style={{ color: '#C9A227' }} />
+              <span className="text-white/80">Import Past Rounds (CSV or JSON)</span>
+            </Link>
           </div>
         )}
 
@@ -152,14 +217,25 @@ export default function AddRoundPage() {
                 </div>
                 <span className="text-sm" style={{ color: '#C9A227' }}>
                   Pre-filled from scorecard image
+                  {confidence && ` • ${confidence.score}% read confidently`}
                 </span>
               </div>
             )}
 
             {/* Round Entry Form */}
-            <RoundEntryForm initialData={extractedData} onSave={handleSaveRound} />
+            <RoundEntryForm
+              initialData={extractedData}
+              extractionConfidence={confidence}
+              scorecardPath={scorecardPath}
+              onSave={handleSaveRound}
+            />
           </div>
         )}
+
+        {/* Batch View: several scorecards or a PDF */}
+        {view === 'batch' && (
+          <ScorecardBatchReview files={batchFiles} onCancel={handleBackToUpload} />
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,421 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { CheckCircle, GitMerge, MapPinned, Trash2, Loader2 } from 'lucide-react'
+import { createClient } from '@/lib/supabase'
+import { nameSimilarity } from '@/lib/course-matching'
+import { approveCourse, deleteCourse, mergeCourses } from '@/app/actions/course-management'
+
+// ============================================
+// TYPES
+// ============================================
+
+interface ReviewCourse {
+  id: string
+  name: string
+  location: string | null
+  par: number | null
+  hole_count: number | null
+  status: 'pending' | 'approved'
+  created_at: string
+  submitter: { full_name: string | null } | null
+  rounds: { count: number }[]
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Names at least this similar (ignoring "Golf Club" etc.) are offered as merge targets
+const DUPLICATE_NAME_SCORE = 0.6
+const MAX_SUGGESTIONS = 3
+
+const selectStyle = { border: '1px solid rgba(201, 162, 39, 0.3)', '--tw-ring-color': '#C9A227' } as React.CSSProperties
+
+// ============================================
+// HELPERS
+// ============================================
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-IE', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  })
+
+const roundsCount = (course: ReviewCourse) => course.rounds[0]?.count || 0
+
+const courseLabel = (course: ReviewCourse) =>
+  `${course.name}${course.location ? ` (${course.location})` : ''} • ${course.hole_count || 18} holes`
+
+// Approved courses with the same number of holes and a similar name, closest first
+const findLikelyDuplicates = (course: ReviewCourse, courses: ReviewCourse[]) =>
+  courses
+    .filter((c) => c.status === 'approved' && (c.hole_count || 18) === (course.hole_count || 18))
+    .map((c) => ({ course: c, score: nameSimilarity(course.name, c.name) }))
+    .filter((m) => m.score >= DUPLICATE_NAME_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SUGGESTIONS)
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export default function CourseReviewPage() {
+  const router = useRouter()
+  const [courses, setCourses] = useState<ReviewCourse[]>([])
+  const [mergeTargets, setMergeTargets] = useState<Record<string, string>>({})
+  const [mergeSourceId, setMergeSourceId] = useState('')
+  const [mergeTargetId, setMergeTargetId] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+
+  // ============================================
+  // LOAD COURSES (admin only)
+  // ============================================
+
+  useEffect(() => {
+    const load = async () => {
+      const supabase = createClient()
+      const { data: { user } } = await supabase.auth.getUser()
+
+      if (!user) {
+        router.push('/login')
+        return
+      }
+
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', user.id)
+        .single()
+
+      const normalizedRole = (profile?.role || '').toLowerCase().replace(/\s+/g, '_')
+      if (!['admin', 'super_admin'].includes(normalizedRole)) {
+        router.push('/dashboard')
+        return
+      }
+
+      const { data, error: coursesError } = await supabase
+        .from('courses')
+        .select('id, name, location, par, hole_count, status, created_at, submitter:profiles!submitted_by(full_name), rounds(count)')
+        .order('name')
+
+      if (coursesError) {
+        setError(`Failed to load courses: ${coursesError.message}`)
+      } else {
+        const loaded = (data || []) as unknown as ReviewCourse[]
+        setCourses(loaded)
+        setMergeTargets(
+          Object.fromEntries(
+            loaded
+              .filter((c) => c.status === 'pending')
+              .map((c) => [c.id, findLikelyDuplicates(c, loaded)[0]?.course.id || ''])
+          )
+        )
+      }
+      setIsLoading(false)
+    }
+    load()
+  }, [router])
+
+  const pendingCourses = courses.filter((c) => c.status === 'pending')
+
+  // ============================================
+  // HANDLERS
+  // ============================================
+
+  const handleApprove = async (course: ReviewCourse) => {
+    setBusyId(course.id)
+    setError('')
+    setMessage('')
+
+    const result = await approveCourse(course.id)
+    if (result.success) {
+      setCourses((prev) => prev.map((c) => (c.id === course.id ? { ...c, status: 'approved' } : c)))
+      setMessage(`Approved ${course.name}`)
+    } else {
+      setError(result.error || 'Failed to approve course')
+    }
+    setBusyId(null)
+  }
+
+  const handleMerge = async (sourceId: string, targetId: string) => {
+    const source = courses.find((c) => c.id === sourceId)
+    const target = courses.find((c) => c.id === targetId)
+    if (!source || !target) return
+
+    const count = roundsCount(source)
+    if (!window.confirm(
+      `Merge "${source.name}" into "${target.name}"? ` +
+      `${count} round${count === 1 ? '' : 's'} will move across and "${source.name}" will be deleted.`
+    )) return
+
+    setBusyId(sourceId)
+    setError('')
+    setMessage('')
+
+    const result = await mergeCourses(sourceId, targetId)
+    if (result.success) {
+      setCourses((prev) =>
+        prev
+          .filter((c) => c.id !== sourceId)
+          .map((c) => (c.id === targetId ? { ...c, rounds: [{ count: roundsCount(c) + count }] } : c))
+      )
+      setMergeSourceId('')
+      setMergeTargetId('')
+
+      const conflicts = result.parConflicts || []
+      setMessage(
+        `Merged ${source.name} into ${target.name} (${result.roundsMoved ?? 0} round${result.roundsMoved === 1 ? '' : 's'} moved)` +
+        (conflicts.length > 0 ? `. Par differed on hole${conflicts.length === 1 ? '' : 's'} ${conflicts.join(', ')}; ${target.name}'s pars were kept.` : '')
+      )
+    } else {
+      setError(result.error || 'Failed to merge courses')
+    }
+    setBusyId(null)
+  }
+
+  const handleReject = async (course: ReviewCourse) => {
+    if (!window.confirm(`Delete "${course.name}"? This action cannot be undone.`)) return
+
+    setBusyId(course.id)
+    setError('')
+    setMessage('')
+
+    const result = await deleteCourse(course.id)
+    if (result.success) {
+      setCourses((prev) => prev.filter((c) => c.id !== course.id))
+      setMessage(`Deleted ${course.name}`)
+    } else {
+      setError(result.error || 'Failed to delete course')
+    }
+    setBusyId(null)
+  }
+
+  // ============================================
+  // LOADING STATE
+  // ============================================
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div
+            className="w-10 h-10 border-4 border-white/20 rounded-full animate-spin mx-auto mb-4"
+            style={{ borderTopColor: '#C9A227' }}
+          />
+          <p className="text-white/60">Loading courses...</p>
+        </div>
+      </div>
+    )
+  }
+
+  // ============================================
+  // RENDER
+  // ============================================
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl md:text-3xl font-bold" style={{ color: '#C9A227' }}>
+          Course Review
+        </h1>
+        <p className="text-white/60 mt-1">
+          Courses added by players wait here until they are approved, or merged into the course they duplicate.
+        </p>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div
+          className="p-4 rounded-xl"
+          style={{
+            backgroundColor: 'rgba(239, 68, 68, 0.2)',
+            border: '1px solid rgba(239, 68, 68, 0.5)',
+          }}
+        >
+          <span className="text-red-200 text-sm">{error}</span>
+        </div>
+      )}
+
+      {/* Success Message */}
+      {message && (
+        <div
+          className="p-4 rounded-xl flex items-center gap-2"
+          style={{
+            backgroundColor: 'rgba(34, 197, 94, 0.2)',
+            border: '1px solid rgba(34, 197, 94, 0.5)',
+          }}
+        >
+          <CheckCircle className="w-4 h-4 text-green-300" />
+          <span className="text-green-200 text-sm">{message}</span>
+        </div>
+      )}
+
+      {/* Pending Courses */}
+      {pendingCourses.length === 0 ? (
+        <div className="glass-card p-8 text-center">
+          <div
+            className="w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4"
+            style={{ backgroundColor: 'rgba(201, 162, 39, 0.2)' }}
+          >
+            <MapPinned className="w-8 h-8" style={{ color: '#C9A227' }} />
+          </div>
+          <h3 className="text-xl font-bold text-white mb-2">Nothing to Review</h3>
+          <p className="text-white/60 max-w-md mx-auto">
+            Every course has been approved.
+          </p>
+        </div>
+      ) : (
+        pendingCourses.map((course) => {
+          const suggestions = findLikelyDuplicates(course, courses)
+          const targetId = mergeTargets[course.id] || ''
+
+          return (
+            <div key={course.id} className="glass-card p-5 space-y-4">
+              {/* Course Header */}
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                <div>
+                  <h2 className="text-lg font-semibold text-white">{course.name}</h2>
+                  <p className="text-sm text-white/60">
+                    {course.location || 'No location'}
+                    {' • '}
+                    {course.hole_count || 18} holes, par {course.par ?? '—'}
+                    {' • '}
+                    {roundsCount(course)} round{roundsCount(course) === 1 ? '' : 's'}
+                  </p>
+                  <p className="text-xs text-white/40">
+                    Added by {course.submitter?.full_name || 'Unknown'} on {formatDate(course.created_at)}
+                  </p>
+                </div>
+                {suggestions.length > 0 && (
+                  <span
+                    className="self-start px-3 py-1 rounded-full text-xs font-semibold"
+                    style={{ backgroundColor: 'rgba(201, 162, 39, 0.2)', color: '#C9A227' }}
+                  >
+                    Possible duplicate
+                  </span>
+                )}
+              </div>
+
+              {/* Actions */}
+              <div className="flex flex-col md:flex-row md:items-center gap-3">
+                <select
+                  value={targetId}
+                  onChange={(e) => setMergeTargets((prev) => ({ ...prev, [course.id]: e.target.value }))}
+                  className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-white/10 text-white text-sm focus:outline-none focus:ring-2"
+                  style={selectStyle}
+                >
+                  <option value="" style={{ backgroundColor: '#1B4D3E' }}>Merge into...</option>
+                  {suggestions.length > 0 && (
+                    <optgroup label="Similar names" style={{ backgroundColor: '#1B4D3E' }}>
+                      {suggestions.map(({ course: c }) => (
+                        <option key={c.id} value={c.id} style={{ backgroundColor: '#1B4D3E' }}>
+                          {courseLabel(c)}
+                        </option>
+                      ))}
+                    </optgroup>
+                  )}
+                  <optgroup label="All courses" style={{ backgroundColor: '#1B4D3E' }}>
+                    {courses
+                      .filter((c) => c.id !== course.id && c.status === 'approved')
+                      .map((c) => (
+                        <option key={c.id} value={c.id} style={{ backgroundColor: '#1B4D3E' }}>
+                          {courseLabel(c)}
+                        </option>
+                      ))}
+                  </optgroup>
+                </select>
+                <div className="flex gap-2 justify-end">
+                  <button
+                    onClick={() => handleMerge(course.id, targetId)}
+                    disabled={busyId === course.id || !targetId}
+                    className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold text-white hover:bg-white/10 disabled:opacity-50"
+                    style={{ border: '1px solid rgba(201, 162, 39, 0.5)' }}
+                  >
+                    <GitMerge className="w-4 h-4" />
+                    Merge
+                  </button>
+                  <button
+                    onClick={() => handleApprove(course)}
+                    disabled={busyId === course.id}
+                    className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold disabled:opacity-50"
+                    style={{ backgroundColor: '#C9A227', color: '#0D4D2B' }}
+                  >
+                    {busyId === course.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => handleReject(course)}
+                    disabled={busyId === course.id}
+                    className="p-2 rounded-lg transition-colors hover:bg-red-500/20 disabled:opacity-50"
+                    title="Delete course"
+                  >
+                    <Trash2 className="w-4 h-4 text-red-400" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          )
+        })
+      )}
+
+      {/* Merge Any Two Courses */}
+      <div className="glass-card p-5 space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Merge Courses</h2>
+          <p className="text-sm text-white/60">
+            Moves every round, tee set and event from the duplicate onto the course to keep, fills in any holes
+            or distances the kept course is missing, then deletes the duplicate.
+          </p>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <select
+            value={mergeSourceId}
+            onChange={(e) => setMergeSourceId(e.target.value)}
+            className="w-full px-3 py-2 rounded-lg bg-white/10 text-white text-sm focus:outline-none focus:ring-2"
+            style={selectStyle}
+          >
+            <option value="" style={{ backgroundColor: '#1B4D3E' }}>Duplicate to remove...</option>
+            {courses.map((c) => (
+              <option key={c.id} value={c.id} style={{ backgroundColor: '#1B4D3E' }}>
+                {courseLabel(c)} • {roundsCount(c)} rounds
+              </option>
+            ))}
+          </select>
+          <select
+            value={mergeTargetId}
+            onChange={(e) => setMergeTargetId(e.target.value)}
+            className="w-full px-3 py-2 rounded-lg bg-white/10 text-white text-sm focus:outline-none focus:ring-2"
+            style={selectStyle}
+          >
+            <option value="" style={{ backgroundColor: '#1B4D3E' }}>Course to keep...</option>
+            {courses
+              .filter((c) => c.id !== mergeSourceId)
+              .map((c) => (
+                <option key={c.id} value={c.id} style={{ backgroundColor: '#1B4D3E' }}>
+                  {courseLabel(c)} • {roundsCount(c)} rounds
+                </option>
+              ))}
+          </select>
+        </div>
+        <div className="flex justify-end">
+          <button
+            onClick={() => handleMerge(mergeSourceId, mergeTargetId)}
+            disabled={!mergeSourceId || !mergeTargetId || busyId === mergeSourceId}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold disabled:opacity-50"
+            style={{ backgroundColor: '#C9A227', color: '#0D4D2B' }}
+          >
+            {busyId === mergeSourceId && mergeSourceId ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitMerge className="w-4 h-4" />}
+            Merge Courses
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
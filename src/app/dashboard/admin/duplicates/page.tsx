@@ -0,0 +1,292 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Copy, CheckCircle, GitMerge, Trash2, Loader2 } from 'lucide-react'
+import { createClient } from '@/lib/supabase'
+import { DuplicateGroup } from '@/lib/duplicates'
+import { ROUND_TYPES, RoundType } from '@/lib/round-types'
+import { DuplicateRound, findDuplicateRounds, mergeDuplicateRounds } from '@/app/actions/duplicate-rounds'
+import { deleteRound } from '@/app/actions/round-management'
+import ScorecardImageLink from '@/components/ScorecardImageLink'
+
+// ============================================
+// HELPERS
+// ============================================
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-IE', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  })
+
+const formatCard = (round: DuplicateRound) =>
+  round.holes.map((h) => h.strokes ?? '-').join(' ')
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export default function DuplicateRoundsPage() {
+  const router = useRouter()
+  const [groups, setGroups] = useState<DuplicateGroup<DuplicateRound>[]>([])
+  const [keepIds, setKeepIds] = useState<Record<string, string>>({})
+  const [isLoading, setIsLoading] = useState(true)
+  const [busyKey, setBusyKey] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+
+  // ============================================
+  // LOAD DUPLICATES (admin only)
+  // ============================================
+
+  useEffect(() => {
+    const load = async () => {
+      const supabase = createClient()
+      const { data: { user } } = await supabase.auth.getUser()
+
+      if (!user) {
+        router.push('/login')
+        return
+      }
+
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', user.id)
+        .single()
+
+      const normalizedRole = (profile?.role || '').toLowerCase().replace(/\s+/g, '_')
+      if (!['admin', 'super_admin'].includes(normalizedRole)) {
+        router.push('/dashboard')
+        return
+      }
+
+      const result = await findDuplicateRounds()
+      if (result.success) {
+        const found = result.groups || []
+        setGroups(found)
+        setKeepIds(Object.fromEntries(found.map((g) => [g.key, g.rounds[0].id])))
+      } else {
+        setError(result.error || 'Failed to load duplicate rounds')
+      }
+      setIsLoading(false)
+    }
+    load()
+  }, [router])
+
+  // ============================================
+  // HANDLERS
+  // ============================================
+
+  const removeFromGroup = (groupKey: string, roundIds: string[]) => {
+    setGroups((prev) =>
+      prev
+        .map((g) => (g.key === groupKey ? { ...g, rounds: g.rounds.filter((r) => !roundIds.includes(r.id)) } : g))
+        .filter((g) => g.rounds.length > 1)
+    )
+  }
+
+  const handleMerge = async (group: DuplicateGroup<DuplicateRound>) => {
+    const keepId = keepIds[group.key]
+    const removeIds = group.rounds.filter((r) => r.id !== keepId).map((r) => r.id)
+
+    if (!window.confirm(`Merge ${removeIds.length + 1} rounds into one? The other ${removeIds.length === 1 ? 'round' : 'rounds'} will be deleted.`)) return
+
+    setBusyKey(group.key)
+    setError('')
+    setMessage('')
+
+    const result = await mergeDuplicateRounds(keepId, removeIds)
+    if (result.success) {
+      removeFromGroup(group.key, removeIds)
+      setMessage(`Merged ${group.rounds[0].player_name}'s rounds at ${group.rounds[0].course_name}`)
+    } else {
+      setError(result.error || 'Failed to merge rounds')
+    }
+    setBusyKey(null)
+  }
+
+  const handleDelete = async (group: DuplicateGroup<DuplicateRound>, round: DuplicateRound) => {
+    if (!window.confirm('Delete this round? This action cannot be undone.')) return
+
+    setBusyKey(group.key)
+    setError('')
+    setMessage('')
+
+    const result = await deleteRound(round.id)
+    if (result.success) {
+      removeFromGroup(group.key, [round.id])
+    } else {
+      setError(result.error || 'Failed to delete round')
+    }
+    setBusyKey(null)
+  }
+
+  // ============================================
+  // LOADING STATE
+  // ============================================
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div
+            className="w-10 h-10 border-4 border-white/20 rounded-full animate-spin mx-auto mb-4"
+            style={{ borderTopColor: '#C9A227' }}
+          />
+          <p className="text-white/60">Looking for duplicate rounds...</p>
+        </div>
+      </div>
+    )
+  }
+
+  // ============================================
+  // RENDER
+  // ============================================
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl md:text-3xl font-bold" style={{ color: '#C9A227' }}>
+          Duplicate Rounds
+        </h1>
+        <p className="text-white/60 mt-1">
+          Rounds by the same player on the same course and day. Merge them into one or delete the extras.
+        </p>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div
+          className="p-4 rounded-xl"
+          style={{
+            backgroundColor: 'rgba(239, 68, 68, 0.2)',
+            border: '1px solid rgba(239, 68, 68, 0.5)',
+          }}
+        >
+          <span className="text-red-200 text-sm">{error}</span>
+        </div>
+      )}
+
+      {/* Success Message */}
+      {message && (
+        <div
+          className="p-4 rounded-xl flex items-center gap-2"
+          style={{
+            backgroundColor: 'rgba(34, 197, 94, 0.2)',
+            border: '1px solid rgba(34, 197, 94, 0.5)',
+          }}
+        >
+          <CheckCircle className="w-4 h-4 text-green-300" />
+          <span className="text-green-200 text-sm">{message}</span>
+        </div>
+      )}
+
+      {groups.length === 0 ? (
+        <div className="glass-card p-8 text-center">
+          <div
+            className="w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4"
+            style={{ backgroundColor: 'rgba(201, 162, 39, 0.2)' }}
+          >
+            <Copy className="w-8 h-8" style={{ color: '#C9A227' }} />
+          </div>
+          <h3 className="text-xl font-bold text-white mb-2">No Duplicates Found</h3>
+          <p className="text-white/60 max-w-md mx-auto">
+            No player has more than one round on the same course and day.
+          </p>
+        </div>
+      ) : (
+        groups.map((group) => (
+          <div key={group.key} className="glass-card p-5 space-y-4">
+            {/* Group Header */}
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+              <div>
+                <h2 className="text-lg font-semibold text-white">{group.rounds[0].player_name}</h2>
+                <p className="text-sm text-white/60">
+                  {group.rounds[0].course_name}
+                  {' • '}
+                  {formatDate(group.rounds[0].date_of_round)}
+                </p>
+              </div>
+              <span
+                className="self-start px-3 py-1 rounded-full text-xs font-semibold"
+                style={group.identical
+                  ? { backgroundColor: 'rgba(239, 68, 68, 0.2)', color: '#F87171' }
+                  : { backgroundColor: 'rgba(201, 162, 39, 0.2)', color: '#C9A227' }}
+              >
+                {group.identical ? 'Identical cards' : 'Same course and day'}
+              </span>
+            </div>
+
+            {/* Rounds */}
+            <div className="space-y-2">
+              {group.rounds.map((round) => (
+                <label
+                  key={round.id}
+                  className="flex items-center gap-3 p-3 rounded-lg cursor-pointer"
+                  style={{ backgroundColor: 'rgba(255, 255, 255, 0.05)' }}
+                >
+                  <input
+                    type="radio"
+                    name={`keep-${group.key}`}
+                    checked={keepIds[group.key] === round.id}
+                    onChange={() => setKeepIds((prev) => ({ ...prev, [group.key]: round.id }))}
+                    className="accent-[#C9A227]"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-white">
+                      <span className="font-bold" style={{ color: '#C9A227' }}>{round.total_strokes ?? '—'}</span>
+                      <span className="text-white/50">
+                        {' • '}
+                        {round.holes_played || 18} holes
+                        {' • '}
+                        {ROUND_TYPES[(round.round_type || 'general_play') as RoundType]?.label}
+                        {round.attestation_status && ` • ${round.attestation_status}`}
+                      </span>
+                    </p>
+                    <p className="text-xs text-white/40 font-mono truncate">{formatCard(round)}</p>
+                  </div>
+                  {round.has_scorecard && <ScorecardImageLink roundId={round.id} />}
+                  <Link
+                    href={`/dashboard/rounds/${round.id}`}
+                    className="text-xs text-white/60 hover:text-[#C9A227]"
+                  >
+                    View
+                  </Link>
+                  <button
+                    onClick={(e) => {
+                      e.preventDefault()
+                      handleDelete(group, round)
+                    }}
+                    disabled={busyKey === group.key}
+                    className="p-2 rounded-lg transition-colors hover:bg-red-500/20 disabled:opacity-50"
+                    title="Delete round"
+                  >
+                    <Trash2 className="w-4 h-4 text-red-400" />
+                  </button>
+                </label>
+              ))}
+            </div>
+
+            {/* Merge */}
+            <div className="flex justify-end">
+              <button
+                onClick={() => handleMerge(group)}
+                disabled={busyKey === group.key}
+                className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold disabled:opacity-50"
+                style={{ backgroundColor: '#C9A227', color: '#0D4D2B' }}
+              >
+                {busyKey === group.key ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitMerge className="w-4 h-4" />}
+                Merge into Selected Round
+              </button>
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,263 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { ClipboardCheck, CheckCircle, XCircle, Loader2 } from 'lucide-react'
+import {
+  AttestationRequest,
+  getAttestationRequests,
+  respondToAttestation,
+} from '@/app/actions/attestation'
+import ScorecardImageLink from '@/components/ScorecardImageLink'
+
+// ============================================
+// HELPERS
+// ============================================
+
+const formatToPar = (value: number) => (value > 0 ? `+${value}` : value === 0 ? 'E' : `${value}`)
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export default function AttestationsPage() {
+  const [requests, setRequests] = useState<AttestationRequest[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [respondingId, setRespondingId] = useState<string | null>(null)
+  const [disputeId, setDisputeId] = useState<string | null>(null)
+  const [disputeNote, setDisputeNote] = useState('')
+
+  // ============================================
+  // LOAD REQUESTS
+  // ============================================
+
+  useEffect(() => {
+    const load = async () => {
+      const result = await getAttestationRequests()
+      if (result.success) {
+        setRequests(result.requests || [])
+      } else {
+        setError(result.error || 'Failed to load attestation requests')
+      }
+      setIsLoading(false)
+    }
+    load()
+  }, [])
+
+  // ============================================
+  // HANDLERS
+  // ============================================
+
+  const handleRespond = async (roundId: string, attest: boolean) => {
+    setRespondingId(roundId)
+    setError('')
+
+    const result = await respondToAttestation(roundId, attest, attest ? undefined : disputeNote)
+
+    if (result.success) {
+      setRequests((prev) => prev.filter((r) => r.id !== roundId))
+      setDisputeId(null)
+      setDisputeNote('')
+    } else {
+      setError(result.error || 'Failed to record your response')
+    }
+    setRespondingId(null)
+  }
+
+  // ============================================
+  // LOADING STATE
+  // ============================================
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div
+            className="w-10 h-10 border-4 border-white/20 rounded-full animate-spin mx-auto mb-4"
+            style={{ borderTopColor: '#C9A227' }}
+          />
+          <p className="text-white/60">Loading attestation requests...</p>
+        </div>
+      </div>
+    )
+  }
+
+  // ============================================
+  // RENDER
+  // ============================================
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl md:text-3xl font-bold" style={{ color: '#C9A227' }}>
+          Attest Cards
+        </h1>
+        <p className="text-white/60 mt-1">
+          Rounds where you were named as marker. Check each card and attest or dispute it.
+        </p>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div
+          className="p-4 rounded-xl"
+          style={{
+            backgroundColor: 'rgba(239, 68, 68, 0.2)',
+            border: '1px solid rgba(239, 68, 68, 0.5)',
+          }}
+        >
+          <span className="text-red-200 text-sm">{error}</span>
+        </div>
+      )}
+
+      {requests.length === 0 ? (
+        <div className="glass-card p-8 text-center">
+          <div
+            className="w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4"
+            style={{ backgroundColor: 'rgba(201, 162, 39, 0.2)' }}
+          >
+            <ClipboardCheck className="w-8 h-8" style={{ color: '#C9A227' }} />
+          </div>
+          <h3 className="text-xl font-bold text-white mb-2">No Cards to Attest</h3>
+          <p className="text-white/60 max-w-md mx-auto">
+            When a playing partner names you as their marker, their card will appear here.
+          </p>
+        </div>
+      ) : (
+        requests.map((request) => (
+          <div key={request.id} className="glass-card p-5 space-y-4">
+            {/* Card Summary */}
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+              <div>
+                <h2 className="text-lg font-semibold text-white">{request.player_name}</h2>
+                <p className="text-sm text-white/60">
+                  {request.course_name}
+                  {' • '}
+                  {new Date(request.date_of_round).toLocaleDateString('en-IE', {
+                    day: 'numeric',
+                    month: 'short',
+                    year: 'numeric',
+                  })}
+                  {' • '}
+                  {request.holes_played || 18} holes
+                </p>
+                {request.has_scorecard && (
+                  <div className="mt-1">
+                    <ScorecardImageLink roundId={request.id} label="Compare with the scorecard" />
+                  </div>
+                )}
+              </div>
+              <div className="text-right">
+                <span className="text-2xl font-bold" style={{ color: '#C9A227' }}>
+                  {request.total_strokes ?? '—'}
+                </span>
+                {request.total_strokes !== null && request.total_par !== null && (
+                  <span className="text-sm text-white/50 ml-2">
+                    ({formatToPar(request.total_strokes - request.total_par)})
+                  </span>
+                )}
+              </div>
+            </div>
+
+            {/* Hole-by-hole Card */}
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr style={{ backgroundColor: 'rgba(201, 162, 39, 0.15)' }}>
+                    <th className="py-2 px-2 text-left text-xs font-semibold uppercase" style={{ color: '#C9A227' }}>
+                      Hole
+                    </th>
+                    {request.holes.map((h) => (
+                      <th key={h.hole_number} className="py-2 px-2 text-center text-xs font-semibold" style={{ color: '#C9A227' }}>
+                        {h.hole_number}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr style={{ borderBottom: '1px solid rgba(201, 162, 39, 0.1)' }}>
+                    <td className="py-2 px-2 text-white/50">Par</td>
+                    {request.holes.map((h) => (
+                      <td key={h.hole_number} className="py-2 px-2 text-center text-white/50">
+                        {h.par}
+                      </td>
+                    ))}
+                  </tr>
+                  <tr>
+                    <td className="py-2 px-2 text-white/70">Score</td>
+                    {request.holes.map((h) => (
+                      <td key={h.hole_number} className="py-2 px-2 text-center font-semibold text-white">
+                        {h.strokes ?? '—'}
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            {/* Dispute Reason */}
+            {disputeId === request.id && (
+              <textarea
+                value={disputeNote}
+                onChange={(e) => setDisputeNote(e.target.value)}
+                placeholder="What is wrong with the card? e.g. hole 7 was a 6, not a 5"
+                rows={2}
+                className="w-full px-3 py-2 rounded-lg bg-white/5 text-white text-sm border border-white/10 focus:outline-none focus:border-[#C9A227]"
+              />
+            )}
+
+            {/* Actions */}
+            <div className="flex flex-wrap gap-2 justify-end">
+              {disputeId === request.id ? (
+                <>
+                  <button
+                    onClick={() => {
+                      setDisputeId(null)
+                      setDisputeNote('')
+                    }}
+                    className="px-4 py-2 rounded-lg text-sm text-white/70 bg-white/5 hover:bg-white/10"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={() => handleRespond(request.id, false)}
+                    disabled={respondingId === request.id || !disputeNote.trim()}
+                    className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold text-white disabled:opacity-50"
+                    style={{ backgroundColor: 'rgba(239, 68, 68, 0.6)' }}
+                  >
+                    {respondingId === request.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <XCircle className="w-4 h-4" />}
+                    Submit Dispute
+                  </button>
+                </>
+              ) : (
+                <>
+                  <button
+                    onClick={() => {
+                      setDisputeId(request.id)
+                      setDisputeNote('')
+                    }}
+                    disabled={respondingId === request.id}
+                    className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm text-red-300 bg-white/5 hover:bg-red-500/20 disabled:opacity-50"
+                  >
+                    <XCircle className="w-4 h-4" />
+                    Dispute
+                  </button>
+                  <button
+                    onClick={() => handleRespond(request.id, true)}
+                    disabled={respondingId === request.id}
+                    className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold disabled:opacity-50"
+                    style={{ backgroundColor: '#C9A227', color: '#0D4D2B' }}
+                  >
+                    {respondingId === request.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+                    Attest Card
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
@@ -5,6 +5,10 @@ import { createClient } from '@/lib/supabase'
 import Link from 'next/link'
 import { Flag, PlusCircle, Trash2, Pencil, X, Check, MapPin, TreePine, Loader2 } from 'lucide-react'
 import { deleteCourse, updateCourse } from '@/app/actions/course-management'
+import CourseTeesEditor from '@/components/CourseTeesEditor'
+import CourseRatingHistory from '@/components/CourseRatingHistory'
+import { CourseLoop, formatLoopPair } from '@/lib/course-loops'
+import { COURSE_TYPES, getCourseTypeColor } from '@/lib/course-types'
 
 // ============================================
 // TYPES
@@ -19,6 +23,9 @@ interface Course {
   location: string | null
   course_type: string | null
   tee_color: string | null
+  front_loop: Pick<CourseLoop, 'name'> | null   // Nine-hole loops the course is composed from
+  back_loop: Pick<CourseLoop, 'name'> | null
+  status: 'pending' | 'approved'
   rounds_count: number
 }
 
@@ -30,13 +37,13 @@ interface EditFormData {
   location: string
   course_type: string
   tee_color: string
+  rating_effective_from: string   // Date a changed rating or slope applies from
 }
 
 // ============================================
 // CONSTANTS
 // ============================================
 
-const COURSE_TYPES = ['Parkland', 'Links', 'Heathland', 'Desert', 'Resort']
 const TEE_COLORS = ['White', 'Blue', 'Yellow', 'Red', 'Green', 'Championship']
 
 const PGC_GOLD = '#C9A227'
@@ -64,6 +71,7 @@ export default function CoursesPage() {
     location: '',
     course_type: 'Parkland',
     tee_color: 'White',
+    rating_effective_from: '',
   })
   const [savingEdit, setSavingEdit] = useState(false)
   const [editError, setEditError] = useState('')
@@ -95,10 +103,12 @@ export default function CoursesPage() {
       const hasAdminAccess = ['admin', 'super_admin'].includes(normalizedRole)
       setIsAdmin(hasAdminAccess)
 
-      // Fetch all courses with course_type and tee_color
+      // Fetch all courses with course_type, tee_color and any loops
       const { data: coursesData, error: coursesError } = await supabase
         .from('courses')
-        .select('id, name, par, rating, slope, location, course_type, tee_color')
+        .select(
+          'id, name, par, rating, slope, location, course_type, tee_color, status, front_loop:course_loops!front_loop_id(name), back_loop:course_loops!back_loop_id(name)'
+        )
         .order('name', { ascending: true })
 
       if (coursesError) {
@@ -110,7 +120,7 @@ export default function CoursesPage() {
       // Count rounds for each course
       const coursesWithCounts: Course[] = []
 
-      for (const course of (coursesData || [])) {
+      for (const course of ((coursesData || []) as unknown as Omit<Course, 'rounds_count'>[])) {
         const { count } = await supabase
           .from('rounds')
           .select('*', { count: 'exact', head: true })
@@ -167,6 +177,7 @@ export default function CoursesPage() {
       location: course.location || '',
       course_type: course.course_type || 'Parkland',
       tee_color: course.tee_color || 'White',
+      rating_effective_from: new Date().toISOString().split('T')[0],
     })
     setEditError('')
     setEditModalOpen(true)
@@ -183,6 +194,7 @@ export default function CoursesPage() {
       location: '',
       course_type: 'Parkland',
       tee_color: 'White',
+      rating_effective_from: '',
     })
     setEditError('')
   }
@@ -207,9 +219,13 @@ export default function CoursesPage() {
         location: editForm.location.trim() || null,
         course_type: editForm.course_type || null,
         tee_color: editForm.tee_color || null,
+        rating_effective_from: editForm.rating_effective_from || undefined,
       })
 
       if (result.success) {
+        // A future re-rating leaves today's rating in place
+        const ratingApplies = editForm.rating_effective_from <= new Date().toISOString().split('T')[0]
+
         // Update local state
         setCourses(prev => prev.map(c =>
           c.id === editingCourse.id
@@ -217,8 +233,8 @@ export default function CoursesPage() {
                 ...c,
                 name: editForm.name.trim(),
                 par: editForm.par ? parseInt(editForm.par) : null,
-                rating: editForm.rating ? parseFloat(editForm.rating) : null,
-                slope: editForm.slope ? parseInt(editForm.slope) : null,
+                rating: ratingApplies ? (editForm.rating ? parseFloat(editForm.rating) : null) : c.rating,
+                slope: ratingApplies ? (editForm.slope ? parseInt(editForm.slope) : null) : c.slope,
                 location: editForm.location.trim() || null,
                 course_type: editForm.course_type || null,
                 tee_color: editForm.tee_color || null,
@@ -237,18 +253,6 @@ export default function CoursesPage() {
     }
   }
 
-  // Get course type badge color
-  const getCourseTypeColor = (type: string | null) => {
-    switch (type) {
-      case 'Links': return '#3B82F6'
-      case 'Parkland': return '#22C55E'
-      case 'Heathland': return '#A855F7'
-      case 'Desert': return '#F59E0B'
-      case 'Resort': return '#EC4899'
-      default: return '#6B7280'
-    }
-  }
-
   // ============================================
   // LOADING STATE
   // ============================================
@@ -392,7 +396,22 @@ export default function CoursesPage() {
                   >
                     <td className="py-4 px-6">
                       <div>
-                        <p className="text-sm font-medium text-white">{course.name}</p>
+                        <p className="text-sm font-medium text-white">
+                          {course.name}
+                          {course.status === 'pending' && (
+                          <span
+                            className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold"
+                            style={{ backgroundColor: 'rgba(201, 162, 39, 0.2)', color: PGC_GOLD }}
+                          >
+                            Pending review
+                          </span>
+                        )}
+                        </p>
+                        {course.front_loop && (
+                          <p className="text-xs text-white/50 mt-1">
+                            Loops: {formatLoopPair(course.front_loop, course.back_loop)}
+                          </p>
+                        )}
                         {course.location && (
                           <p className="text-xs text-white/50 flex items-center gap-1 mt-1">
                             <MapPin className="w-3 h-3" />
@@ -476,7 +495,22 @@ export default function CoursesPage() {
               <div key={course.id} className="p-4">
                 <div className="flex justify-between items-start">
                   <div className="flex-1">
-                    <p className="font-medium text-white">{course.name}</p>
+                    <p className="font-medium text-white">
+                      {course.name}
+                      {course.status === 'pending' && (
+                        <span
+                          className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold"
+                          style={{ backgroundColor: 'rgba(201, 162, 39, 0.2)', color: PGC_GOLD }}
+                        >
+                          Pending review
+                        </span>
+                      )}
+                    </p>
+                    {course.front_loop && (
+                      <p className="text-xs text-white/50 mt-1">
+                        Loops: {formatLoopPair(course.front_loop, course.back_loop)}
+                      </p>
+                    )}
                     {course.location && (
                       <p className="text-xs text-white/50 flex items-center gap-1 mt-1">
                         <MapPin className="w-3 h-3" />
@@ -711,6 +745,33 @@ export default function CoursesPage() {
                   />
                 </div>
               </div>
+
+              {/* Re-rating (earlier rounds keep the rating of their day) */}
+              {(editForm.rating !== (editingCourse.rating?.toString() || '') ||
+                editForm.slope !== (editingCourse.slope?.toString() || '')) && (
+                <div>
+                  <label className="block text-sm font-medium text-white/70 mb-1">
+                    New rating applies from
+                  </label>
+                  <input
+                    type="date"
+                    value={editForm.rating_effective_from}
+                    onChange={(e) => setEditForm(prev => ({ ...prev, rating_effective_from: e.target.value }))}
+                    className="w-full px-4 py-2.5 rounded-lg bg-white/10 text-white focus:outline-none focus:ring-2"
+                    style={{ border: `1px solid ${PGC_GOLD}50`, '--tw-ring-color': PGC_GOLD } as React.CSSProperties}
+                  />
+                  <p className="text-xs text-white/50 mt-1">
+                    Rounds played from this date use the new rating; earlier rounds keep theirs.
+                  </p>
+                </div>
+              )}
+
+              <CourseRatingHistory courseId={editingCourse.id} />
+
+              {/* Tee Sets (saved separately from the course details) */}
+              <div className="pt-4" style={{ borderTop: `1px solid ${PGC_GOLD}30` }}>
+                <CourseTeesEditor courseId={editingCourse.id} />
+              </div>
             </div>
 
             {/* Actions */}
@@ -0,0 +1,344 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { CalendarDays, PlusCircle, Trash2, Loader2 } from 'lucide-react'
+import { createClient } from '@/lib/supabase'
+import { PlayingFormat, PLAYING_FORMATS } from '@/lib/handicap'
+import { GolfEvent, ROUND_TYPES } from '@/lib/round-types'
+import { createEvent, deleteEvent } from '@/app/actions/events'
+
+// ============================================
+// TYPES
+// ============================================
+
+interface CourseOption {
+  id: string
+  name: string
+}
+
+type EventType = GolfEvent['round_type']
+
+// ============================================
+// HELPERS
+// ============================================
+
+const EVENT_TYPES: EventType[] = ['club_competition', 'interclub']
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-IE', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  })
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export default function EventsPage() {
+  const router = useRouter()
+  const [events, setEvents] = useState<GolfEvent[]>([])
+  const [courses, setCourses] = useState<CourseOption[]>([])
+  const [roundCounts, setRoundCounts] = useState<Map<string, number>>(new Map())
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  // New event form
+  const [name, setName] = useState('')
+  const [eventDate, setEventDate] = useState(new Date().toISOString().split('T')[0])
+  const [courseId, setCourseId] = useState('')
+  const [playingFormat, setPlayingFormat] = useState<PlayingFormat>('stroke_play')
+  const [eventType, setEventType] = useState<EventType>('club_competition')
+
+  // ============================================
+  // LOAD EVENTS (admin only)
+  // ============================================
+
+  useEffect(() => {
+    const load = async () => {
+      const supabase = createClient()
+      const { data: { user } } = await supabase.auth.getUser()
+
+      if (!user) {
+        router.push('/login')
+        return
+      }
+
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', user.id)
+        .single()
+
+      const normalizedRole = (profile?.role || '').toLowerCase().replace(/\s+/g, '_')
+      if (!['admin', 'super_admin'].includes(normalizedRole)) {
+        router.push('/dashboard')
+        return
+      }
+
+      const [eventsRes, coursesRes, roundsRes] = await Promise.all([
+        supabase
+          .from('events')
+          .select('id, name, event_date, course_id, playing_format, round_type')
+          .order('event_date', { ascending: false }),
+        supabase.from('courses').select('id, name').order('name'),
+        supabase.from('rounds').select('event_id').not('event_id', 'is', null),
+      ])
+
+      if (eventsRes.error) {
+        setError(`Failed to load events: ${eventsRes.error.message}`)
+      }
+
+      const counts = new Map<string, number>()
+      ;(roundsRes.data || []).forEach((r) => counts.set(r.event_id, (counts.get(r.event_id) || 0) + 1))
+
+      setEvents((eventsRes.data || []) as GolfEvent[])
+      setCourses((coursesRes.data || []) as CourseOption[])
+      setRoundCounts(counts)
+      setIsLoading(false)
+    }
+    load()
+  }, [router])
+
+  // ============================================
+  // HANDLERS
+  // ============================================
+
+  const handleCreate = async () => {
+    setIsSaving(true)
+    setError('')
+
+    const result = await createEvent({
+      name,
+      event_date: eventDate,
+      course_id: courseId || null,
+      playing_format: playingFormat,
+      round_type: eventType,
+    })
+
+    if (result.success && result.event) {
+      setEvents((prev) => [result.event!, ...prev].sort((a, b) => b.event_date.localeCompare(a.event_date)))
+      setName('')
+    } else {
+      setError(result.error || 'Failed to create event')
+    }
+    setIsSaving(false)
+  }
+
+  const handleDelete = async (event: GolfEvent) => {
+    const linked = roundCounts.get(event.id) || 0
+    const message = linked > 0
+      ? `Delete "${event.name}"? ${linked} linked round${linked === 1 ? '' : 's'} will keep their round type.`
+      : `Delete "${event.name}"?`
+    if (!window.confirm(message)) return
+
+    setDeletingId(event.id)
+    const result = await deleteEvent(event.id)
+    if (result.success) {
+      setEvents((prev) => prev.filter((e) => e.id !== event.id))
+    } else {
+      setError(result.error || 'Failed to delete event')
+    }
+    setDeletingId(null)
+  }
+
+  // ============================================
+  // LOADING STATE
+  // ============================================
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div
+            className="w-10 h-10 border-4 border-white/20 rounded-full animate-spin mx-auto mb-4"
+            style={{ borderTopColor: '#C9A227' }}
+          />
+          <p className="text-white/60">Loading events...</p>
+        </div>
+      </div>
+    )
+  }
+
+  // ============================================
+  // RENDER
+  // ============================================
+
+  const courseName = (id: string | null) => courses.find((c) => c.id === id)?.name || '—'
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl md:text-3xl font-bold" style={{ color: '#C9A227' }}>
+          Events
+        </h1>
+        <p className="text-white/60 mt-1">
+          Club competitions and interclub matches that players can link their rounds to
+        </p>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div
+          className="p-4 rounded-xl"
+          style={{
+            backgroundColor: 'rgba(239, 68, 68, 0.2)',
+            border: '1px solid rgba(239, 68, 68, 0.5)',
+          }}
+        >
+          <span className="text-red-200 text-sm">{error}</span>
+        </div>
+      )}
+
+      {/* New Event */}
+      <div className="glass-card p-5">
+        <h2 className="text-lg font-semibold mb-4" style={{ color: '#C9A227' }}>
+          New Event
+        </h2>
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-white/70 mb-2">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Senior Cup - Round 1"
+              className="w-full px-3 py-2 bg-transparent text-white border-b-2 border-[#C9A227] focus:outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-2">Date</label>
+            <input
+              type="date"
+              value={eventDate}
+              onChange={(e) => setEventDate(e.target.value)}
+              className="w-full px-3 py-2 bg-transparent text-white border-b-2 border-[#C9A227] focus:outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-2">Type</label>
+            <select
+              value={eventType}
+              onChange={(e) => setEventType(e.target.value as EventType)}
+              className="w-full px-3 py-2 bg-transparent text-white border-b-2 border-[#C9A227] focus:outline-none"
+              style={{ backgroundColor: '#1B4D3E' }}
+            >
+              {EVENT_TYPES.map((t) => (
+                <option key={t} value={t} className="bg-[#1B4D3E]">
+                  {ROUND_TYPES[t].label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-2">Format</label>
+            <select
+              value={playingFormat}
+              onChange={(e) => setPlayingFormat(e.target.value as PlayingFormat)}
+              className="w-full px-3 py-2 bg-transparent text-white border-b-2 border-[#C9A227] focus:outline-none"
+              style={{ backgroundColor: '#1B4D3E' }}
+            >
+              {(Object.keys(PLAYING_FORMATS) as PlayingFormat[]).map((f) => (
+                <option key={f} value={f} className="bg-[#1B4D3E]">
+                  {PLAYING_FORMATS[f].label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="md:col-span-4">
+            <label className="block text-sm font-medium text-white/70 mb-2">Venue</label>
+            <select
+              value={courseId}
+              onChange={(e) => setCourseId(e.target.value)}
+              className="w-full px-3 py-2 bg-transparent text-white border-b-2 border-[#C9A227] focus:outline-none"
+              style={{ backgroundColor: '#1B4D3E' }}
+            >
+              <option value="" className="bg-[#1B4D3E]">Select venue</option>
+              {courses.map((c) => (
+                <option key={c.id} value={c.id} className="bg-[#1B4D3E]">
+                  {c.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-end">
+            <button
+              onClick={handleCreate}
+              disabled={isSaving || !name.trim()}
+              className="btn-gold w-full inline-flex items-center justify-center gap-2 text-sm py-2 px-4 disabled:opacity-50"
+            >
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <PlusCircle className="w-4 h-4" />}
+              Add Event
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Event List */}
+      {events.length === 0 ? (
+        <div className="glass-card p-8 text-center">
+          <div
+            className="w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4"
+            style={{ backgroundColor: 'rgba(201, 162, 39, 0.2)' }}
+          >
+            <CalendarDays className="w-8 h-8" style={{ color: '#C9A227' }} />
+          </div>
+          <h3 className="text-xl font-bold text-white mb-2">No Events Yet</h3>
+          <p className="text-white/60 max-w-md mx-auto">
+            Add the club&apos;s competitions and interclub fixtures so players can link their rounds.
+          </p>
+        </div>
+      ) : (
+        <div className="glass-card overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr style={{ backgroundColor: 'rgba(201, 162, 39, 0.15)' }}>
+                  {['Date', 'Event', 'Venue', 'Type', 'Format', 'Rounds', ''].map((h) => (
+                    <th key={h} className="py-3 px-4 text-left text-xs font-semibold uppercase" style={{ color: '#C9A227' }}>
+                      {h}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {events.map((event) => (
+                  <tr
+                    key={event.id}
+                    className="hover:bg-white/5 transition-colors"
+                    style={{ borderBottom: '1px solid rgba(201, 162, 39, 0.1)' }}
+                  >
+                    <td className="py-3 px-4 text-sm text-white/70">{formatDate(event.event_date)}</td>
+                    <td className="py-3 px-4 text-sm font-medium text-white">{event.name}</td>
+                    <td className="py-3 px-4 text-sm text-white/70">{courseName(event.course_id)}</td>
+                    <td className="py-3 px-4 text-sm text-white/70">{ROUND_TYPES[event.round_type]?.label}</td>
+                    <td className="py-3 px-4 text-sm text-white/70">{PLAYING_FORMATS[event.playing_format]?.label}</td>
+                    <td className="py-3 px-4 text-sm text-white/70">{roundCounts.get(event.id) || 0}</td>
+                    <td className="py-3 px-4 text-right">
+                      <button
+                        onClick={() => handleDelete(event)}
+                        disabled={deletingId === event.id}
+                        className="p-2 rounded-lg transition-colors hover:bg-red-500/20 disabled:opacity-50"
+                        title="Delete event"
+                      >
+                        {deletingId === event.id ? (
+                          <div className="w-4 h-4 border-2 border-red-400/30 border-t-red-400 rounded-full animate-spin" />
+                        ) : (
+                          <Trash2 className="w-4 h-4 text-red-400" />
+                        )}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -4,6 +4,7 @@ import { useState } from 'react'
 import Sidebar from '@/components/Sidebar'
 import ApprovalGuard from '@/components/ApprovalGuard'
 import MobileHeader from '@/components/MobileHeader'
+import OfflineSyncManager from '@/components/OfflineSyncManager'
 
 export default function DashboardLayout({
   children,
@@ -51,6 +52,9 @@ export default function DashboardLayout({
             {children}
           </main>
         </div>
+
+        {/* Submits rounds saved while offline */}
+        <OfflineSyncManager />
       </div>
     </ApprovalGuard>
   )
@@ -1,23 +1,47 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { createClient } from '@/lib/supabase'
 import { Trophy, Medal, Award } from 'lucide-react'
 import Link from 'next/link'
+import { SCORING_MODES, ScoringMode, compareScores, getBestScore, getRoundScore } from '@/lib/scoring'
+import { countsTowardsView, getIncludeUnattested } from '@/lib/attestation'
+import { matchesRoundType, RoundTypeFilter, ROUND_TYPE_FILTER_OPTIONS } from '@/lib/round-types'
+import AttestationViewToggle from '@/components/AttestationViewToggle'
 
 interface LeaderboardEntry {
   id: string
   full_name: string
   handicap_index: number | null
   rounds_played: number
-  lowest_score: number | null
+  best_score: number | null
   avg_score: number | null
 }
 
+interface PlayerProfile {
+  id: string
+  full_name: string | null
+  handicap_index: number | null
+}
+
+interface RoundScore {
+  user_id: string
+  total_strokes: number | null
+  net_strokes: number | null
+  stableford_points: number | null
+  attestation_status: string | null
+  round_type: string | null
+}
+
 export default function LeaderboardPage() {
-  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([])
+  const [profiles, setProfiles] = useState<PlayerProfile[]>([])
+  const [rounds, setRounds] = useState<RoundScore[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [currentUserId, setCurrentUserId] = useState<string | null>(null)
+  const [scoringMode, setScoringMode] = useState<ScoringMode>('gross')
+  const [includeUnattested, setIncludeUnattested] = useState(true)
+  const [roundTypeFilter, setRoundTypeFilter] = useState<RoundTypeFilter>('all')
+  const [isAdmin, setIsAdmin] = useState(false)
 
   useEffect(() => {
     fetchLeaderboardData()
@@ -33,9 +57,9 @@ export default function LeaderboardPage() {
     }
 
     // Fetch all profiles
-    const { data: profiles, error: profilesError } = await supabase
+    const { data: profileData, error: profilesError } = await supabase
       .from('profiles')
-      .select('id, full_name, handicap_index')
+      .select('id, full_name, handicap_index, role')
 
     if (profilesError) {
       console.error('Error fetching profiles:', profilesError)
@@ -44,9 +68,9 @@ export default function LeaderboardPage() {
     }
 
     // Fetch all rounds with scores
-    const { data: rounds, error: roundsError } = await supabase
+    const { data: roundData, error: roundsError } = await supabase
       .from('rounds')
-      .select('user_id, total_strokes')
+      .select('user_id, total_strokes, net_strokes, stableford_points, attestation_status, round_type')
 
     if (roundsError) {
       console.error('Error fetching rounds:', roundsError)
@@ -54,20 +78,35 @@ export default function LeaderboardPage() {
       return
     }
 
+    // Admins choose whether rounds awaiting their marker count
+    const currentRole = (profileData || []).find((p) => p.id === user?.id)?.role || ''
+    setIsAdmin(['admin', 'super_admin'].includes(currentRole.toLowerCase().replace(/\s+/g, '_')))
+    setIncludeUnattested(await getIncludeUnattested(supabase, 'leaderboard'))
+
+    setProfiles(profileData || [])
+    setRounds(roundData || [])
+    setIsLoading(false)
+  }
+
+  // Rank players in the selected scoring mode
+  const leaderboard = useMemo<LeaderboardEntry[]>(() => {
     // Calculate stats per player
     const playerStats = new Map<string, { scores: number[] }>()
 
-    rounds?.forEach((round) => {
-      if (round.total_strokes && round.total_strokes > 0) {
+    rounds.filter((round) =>
+      countsTowardsView(round.attestation_status, includeUnattested) && matchesRoundType(round.round_type, roundTypeFilter)
+    ).forEach((round) => {
+      const score = getRoundScore(round, scoringMode)
+      if (round.total_strokes && round.total_strokes > 0 && score !== null) {
         if (!playerStats.has(round.user_id)) {
           playerStats.set(round.user_id, { scores: [] })
         }
-        playerStats.get(round.user_id)!.scores.push(round.total_strokes)
+        playerStats.get(round.user_id)!.scores.push(score)
       }
     })
 
     // Build leaderboard entries
-    const entries: LeaderboardEntry[] = (profiles || []).map((profile) => {
+    const entries: LeaderboardEntry[] = profiles.map((profile) => {
       const stats = playerStats.get(profile.id)
       const scores = stats?.scores || []
 
@@ -76,21 +115,18 @@ export default function LeaderboardPage() {
         full_name: profile.full_name || 'Unknown Player',
         handicap_index: profile.handicap_index,
         rounds_played: scores.length,
-        lowest_score: scores.length > 0 ? Math.min(...scores) : null,
+        best_score: getBestScore(scores, scoringMode),
         avg_score: scores.length > 0
           ? Math.round((scores.reduce((a, b) => a + b, 0) / scores.length) * 10) / 10
           : null,
       }
     })
 
-    // Filter to only players with rounds, then sort by lowest score ascending
-    const ranked = entries
-      .filter((e) => e.lowest_score !== null)
-      .sort((a, b) => (a.lowest_score ?? 999) - (b.lowest_score ?? 999))
-
-    setLeaderboard(ranked)
-    setIsLoading(false)
-  }
+    // Filter to only players with rounds, then sort best score first for the mode
+    return entries
+      .filter((e) => e.best_score !== null)
+      .sort((a, b) => compareScores(a.best_score!, b.best_score!, scoringMode))
+  }, [profiles, rounds, scoringMode, includeUnattested, roundTypeFilter])
 
   const getRankStyle = (rank: number) => {
     if (rank === 1) {
@@ -129,14 +165,59 @@ export default function LeaderboardPage() {
             Leaderboard
           </h1>
           <p className="text-white/60 mt-1">
-            Ranked by lowest gross score
+            {scoringMode === 'stableford'
+              ? 'Ranked by most Stableford points'
+              : `Ranked by lowest ${SCORING_MODES[scoringMode].label.toLowerCase()} score`}
           </p>
+          <div className="mt-2">
+            <AttestationViewToggle
+              view="leaderboard"
+              includeUnattested={includeUnattested}
+              isAdmin={isAdmin}
+              onChange={setIncludeUnattested}
+            />
+          </div>
         </div>
-        <div
-          className="w-12 h-12 rounded-xl flex items-center justify-center"
-          style={{ backgroundColor: 'rgba(201, 162, 39, 0.2)' }}
-        >
-          <Trophy className="w-6 h-6" style={{ color: '#C9A227' }} />
+        <div className="flex items-center gap-3">
+          {/* Round Type Filter */}
+          <select
+            value={roundTypeFilter}
+            onChange={(e) => setRoundTypeFilter(e.target.value as RoundTypeFilter)}
+            className="px-3 py-1.5 rounded-lg text-xs font-medium text-white cursor-pointer focus:outline-none"
+            style={{ backgroundColor: 'transparent', border: '1px solid rgba(201, 162, 39, 0.4)' }}
+          >
+            {ROUND_TYPE_FILTER_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value} style={{ backgroundColor: '#153c30' }}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+
+          {/* Scoring Mode Toggle */}
+          <div
+            className="flex rounded-lg overflow-hidden"
+            style={{ border: '1px solid rgba(201, 162, 39, 0.4)' }}
+          >
+            {(Object.keys(SCORING_MODES) as ScoringMode[]).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => setScoringMode(mode)}
+                className="px-3 py-1.5 text-xs font-medium transition-colors"
+                style={{
+                  backgroundColor: scoringMode === mode ? '#C9A227' : 'transparent',
+                  color: scoringMode === mode ? '#153c30' : 'rgba(255, 255, 255, 0.7)',
+                }}
+              >
+                {SCORING_MODES[mode].label}
+              </button>
+            ))}
+          </div>
+          <div
+            className="w-12 h-12 rounded-xl flex items-center justify-center"
+            style={{ backgroundColor: 'rgba(201, 162, 39, 0.2)' }}
+          >
+            <Trophy className="w-6 h-6" style={{ color: '#C9A227' }} />
+          </div>
         </div>
       </div>
 
@@ -210,9 +291,9 @@ export default function LeaderboardPage() {
                   <div className="mt-4 space-y-2">
                     <div>
                       <p className="text-3xl font-bold" style={{ color: '#C9A227' }}>
-                        {entry.lowest_score}
+                        {entry.best_score}
                       </p>
-                      <p className="text-xs text-white/50 uppercase tracking-wide">Best Score</p>
+                      <p className="text-xs text-white/50 uppercase tracking-wide">Best {SCORING_MODES[scoringMode].label}</p>
                     </div>
                     <div className="flex justify-center gap-4 text-sm">
                       <div>
@@ -267,10 +348,10 @@ export default function LeaderboardPage() {
                       Rounds
                     </th>
                     <th className="w-28 px-6 py-3 text-center text-xs font-semibold uppercase" style={{ color: '#C9A227' }}>
-                      Best Score
+                      Best {SCORING_MODES[scoringMode].label}
                     </th>
                     <th className="w-28 px-6 py-3 text-center text-xs font-semibold uppercase" style={{ color: '#C9A227' }}>
-                      Avg Score
+                      Avg {SCORING_MODES[scoringMode].label}
                     </th>
                   </tr>
                 </thead>
@@ -334,7 +415,7 @@ export default function LeaderboardPage() {
                               color: '#C9A227',
                             }}
                           >
-                            {entry.lowest_score ?? '—'}
+                            {entry.best_score ?? '—'}
                           </span>
                         </td>
                         <td className="px-6 py-4 text-center">
@@ -406,7 +487,7 @@ export default function LeaderboardPage() {
                       {/* Score */}
                       <div className="text-right flex-shrink-0">
                         <p className="text-2xl font-bold" style={{ color: '#C9A227' }}>
-                          {entry.lowest_score}
+                          {entry.best_score}
                         </p>
                         <p className="text-xs text-white/50">Avg: {entry.avg_score}</p>
                       </div>
@@ -433,9 +514,9 @@ export default function LeaderboardPage() {
             </div>
             <div className="glass-card p-4 text-center">
               <p className="text-2xl font-bold" style={{ color: '#C9A227' }}>
-                {leaderboard[0]?.lowest_score ?? '—'}
+                {leaderboard[0]?.best_score ?? '—'}
               </p>
-              <p className="text-xs text-white/50 uppercase tracking-wide">Best Score</p>
+              <p className="text-xs text-white/50 uppercase tracking-wide">Best {SCORING_MODES[scoringMode].label}</p>
             </div>
           </div>
         </>
@@ -0,0 +1,736 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import {
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  CheckCircle,
+  Flag,
+  Loader2,
+  Minus,
+  Plus,
+  Play,
+  Trash2,
+} from 'lucide-react'
+import { createClient } from '@/lib/supabase'
+import { PlayingFormat, PLAYING_FORMATS } from '@/lib/handicap'
+import { HoleData } from '@/lib/rounds'
+import { GolfEvent, ROUND_TYPES, RoundType } from '@/lib/round-types'
+import { CourseTee, formatTeeLabel, pickDefaultTee } from '@/lib/course-tees'
+import {
+  discardDraft,
+  finaliseDraft,
+  getActiveDrafts,
+  RoundDraft,
+  saveDraftHole,
+  startDraft,
+} from '@/app/actions/round-drafts'
+import { SaveRoundResult } from '@/app/actions/save-round'
+
+// ============================================
+// TYPES
+// ============================================
+
+type ViewState = 'list' | 'setup' | 'hole' | 'summary' | 'done'
+
+interface CourseOption {
+  id: string
+  name: string
+  hole_count: 9 | 18
+}
+
+interface MarkerOption {
+  id: string
+  full_name: string | null
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const formatToPar = (value: number) => (value > 0 ? `+${value}` : value === 0 ? 'E' : `${value}`)
+
+const getPlayedHoles = (holes: HoleData[]) => holes.filter((h) => h.strokes !== null && h.strokes > 0)
+
+const getRunningToPar = (holes: HoleData[]) =>
+  getPlayedHoles(holes).reduce((sum, h) => sum + (h.strokes! - h.par), 0)
+
+const getFirstUnplayedIndex = (draft: RoundDraft) => {
+  const index = draft.holes.findIndex((h) => h.strokes === null)
+  return index === -1 ? Math.min(draft.current_hole, draft.holes.length) - 1 : index
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export default function LiveRoundPage() {
+  const [view, setView] = useState<ViewState>('list')
+  const [drafts, setDrafts] = useState<RoundDraft[]>([])
+  const [courses, setCourses] = useState<CourseOption[]>([])
+  const [events, setEvents] = useState<GolfEvent[]>([])
+  const [markers, setMarkers] = useState<MarkerOption[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  // Setup state
+  const [courseId, setCourseId] = useState('')
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0])
+  const [roundLength, setRoundLength] = useState<9 | 18>(18)
+  const [playingFormat, setPlayingFormat] = useState<PlayingFormat>('stroke_play')
+  const [tees, setTees] = useState<CourseTee[]>([])
+  const [teeId, setTeeId] = useState('')
+  const [roundType, setRoundType] = useState<RoundType>('general_play')
+  const [eventId, setEventId] = useState('')
+  const [markerId, setMarkerId] = useState('')
+  const selectedCourse = courses.find((c) => c.id === courseId)
+
+  // In-round state
+  const [draft, setDraft] = useState<RoundDraft | null>(null)
+  const [holeIndex, setHoleIndex] = useState(0)
+  const [strokes, setStrokes] = useState<number | null>(null)
+  const [putts, setPutts] = useState<number | null>(null)
+  const [result, setResult] = useState<SaveRoundResult | null>(null)
+
+  // ============================================
+  // LOAD DRAFTS AND COURSES
+  // ============================================
+
+  useEffect(() => {
+    const load = async () => {
+      const supabase = createClient()
+      const { data: { user } } = await supabase.auth.getUser()
+
+      // Courses awaiting review are only offered to the player who added them
+      const [draftResult, coursesResult, eventsResult, markersResult] = await Promise.all([
+        getActiveDrafts(),
+        supabase
+          .from('courses')
+          .select('id, name, hole_count')
+          .or(user ? `status.eq.approved,submitted_by.eq.${user.id}` : 'status.eq.approved')
+          .order('name'),
+        supabase
+          .from('events')
+          .select('id, name, event_date, course_id, playing_format, round_type')
+          .order('event_date', { ascending: false }),
+        // Anyone else can be named as marker
+        supabase
+          .from('profiles')
+          .select('id, full_name')
+          .neq('id', user?.id ?? '')
+          .order('full_name'),
+      ])
+
+      if (draftResult.success) {
+        setDrafts(draftResult.drafts || [])
+      } else {
+        setError(draftResult.error || 'Failed to load rounds in progress')
+      }
+      setCourses((coursesResult.data || []) as CourseOption[])
+      setEvents((eventsResult.data || []) as GolfEvent[])
+      setMarkers((markersResult.data || []) as MarkerOption[])
+      setIsLoading(false)
+    }
+    load()
+  }, [])
+
+  // ============================================
+  // HANDLERS
+  // ============================================
+
+  const openHole = (activeDraft: RoundDraft, index: number) => {
+    const hole = activeDraft.holes[index]
+    setHoleIndex(index)
+    setStrokes(hole.strokes)
+    setPutts(hole.putts ?? null)
+    setView('hole')
+  }
+
+  const handleResume = (resumeDraft: RoundDraft) => {
+    setDraft(resumeDraft)
+    setError('')
+    openHole(resumeDraft, getFirstUnplayedIndex(resumeDraft))
+  }
+
+  // A nine-hole course is played as a nine, from one of its tee sets
+  const handleSelectCourse = async (id: string) => {
+    setCourseId(id)
+    const course = courses.find((c) => c.id === id)
+    if (course?.hole_count === 9) setRoundLength(9)
+
+    setTees([])
+    setTeeId('')
+    if (!id) return
+
+    const { data } = await createClient()
+      .from('course_tees')
+      .select('id, course_id, name, gender, par, rating, slope')
+      .eq('course_id', id)
+      .order('gender')
+      .order('name')
+
+    const courseTees = (data || []) as CourseTee[]
+    setTees(courseTees)
+    setTeeId(pickDefaultTee(courseTees)?.id ?? '')
+  }
+
+  // Linking an event fills in its type, date and format
+  const handleSelectEvent = (id: string) => {
+    setEventId(id)
+    const event = events.find((e) => e.id === id)
+    if (!event) return
+
+    setRoundType(event.round_type)
+    setDate(event.event_date)
+    setPlayingFormat(event.playing_format)
+  }
+
+  const handleStart = async () => {
+    if (!courseId) {
+      setError('Select a course to start scoring')
+      return
+    }
+
+    setIsSaving(true)
+    setError('')
+
+    const started = await startDraft({
+      course_id: courseId,
+      date,
+      round_length: roundLength,
+      playing_format: playingFormat,
+      weather: '',
+      wind_conditions: '',
+      marker_id: markerId || null,
+      tee_id: teeId || null,
+      round_type: roundType,
+      event_id: eventId || null,
+    })
+
+    setIsSaving(false)
+
+    if (!started.success || !started.draft) {
+      setError(started.error || 'Failed to start round')
+      return
+    }
+
+    setDraft(started.draft)
+    openHole(started.draft, 0)
+  }
+
+  const handleDiscard = async (draftId: string) => {
+    if (!window.confirm('Discard this round in progress? Scores entered so far will be lost.')) return
+
+    const discarded = await discardDraft(draftId)
+    if (!discarded.success) {
+      setError(discarded.error || 'Failed to discard round')
+      return
+    }
+    setDrafts((prev) => prev.filter((d) => d.id !== draftId))
+  }
+
+  // Save the hole on screen, then move to another hole (or the summary)
+  const saveAndGo = async (nextIndex: number | 'summary') => {
+    if (!draft) return
+
+    const hole = draft.holes[holeIndex]
+    const changed = strokes !== hole.strokes || putts !== (hole.putts ?? null)
+    let current = draft
+
+    if (changed) {
+      setIsSaving(true)
+      setError('')
+
+      const saved = await saveDraftHole(
+        draft.id,
+        { ...hole, strokes, putts },
+        nextIndex === 'summary' ? draft.holes.length : nextIndex + 1
+      )
+
+      setIsSaving(false)
+
+      if (!saved.success || !saved.draft) {
+        setError(saved.error || 'Failed to save hole')
+        return
+      }
+      current = saved.draft
+      setDraft(current)
+    }
+
+    if (nextIndex === 'summary') {
+      setView('summary')
+    } else {
+      openHole(current, nextIndex)
+    }
+  }
+
+  const handleFinalise = async () => {
+    if (!draft) return
+
+    setIsSaving(true)
+    setError('')
+
+    let finalised = await finaliseDraft(draft.id)
+
+    // Another round that day: only save this one too if the player confirms it is different
+    if (finalised.conflict && window.confirm(`${finalised.error} Save this round as well?`)) {
+      finalised = await finaliseDraft(draft.id, { allowConflict: true })
+    }
+
+    setIsSaving(false)
+
+    if (!finalised.success) {
+      setError(finalised.error || 'Failed to save round')
+      return
+    }
+
+    setResult(finalised)
+    setDrafts((prev) => prev.filter((d) => d.id !== draft.id))
+    setView('done')
+  }
+
+  // ============================================
+  // LOADING STATE
+  // ============================================
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div
+            className="w-10 h-10 border-4 border-white/20 rounded-full animate-spin mx-auto mb-4"
+            style={{ borderTopColor: '#C9A227' }}
+          />
+          <p className="text-white/60">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  const hole = draft?.holes[holeIndex]
+  const isLastHole = draft ? holeIndex === draft.holes.length - 1 : false
+
+  // ============================================
+  // RENDER
+  // ============================================
+
+  return (
+    <div className="max-w-md mx-auto space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl md:text-3xl font-bold" style={{ color: '#C9A227' }}>
+          Live Scoring
+        </h1>
+        <p className="text-white/60 mt-1">
+          {draft && view !== 'done' ? `${draft.course_name}` : 'Score your round hole by hole as you play'}
+        </p>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div
+          className="p-4 rounded-xl"
+          style={{
+            backgroundColor: 'rgba(239, 68, 68, 0.2)',
+            border: '1px solid rgba(239, 68, 68, 0.5)',
+          }}
+        >
+          <span className="text-red-200 text-sm">{error}</span>
+        </div>
+      )}
+
+      {/* ============================================ */}
+      {/* ROUNDS IN PROGRESS */}
+      {/* ============================================ */}
+      {view === 'list' && (
+        <div className="space-y-4">
+          {drafts.map((d) => {
+            const played = getPlayedHoles(d.holes)
+            return (
+              <div key={d.id} className="glass-card p-5">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <p className="font-semibold text-white">{d.course_name}</p>
+                    <p className="text-sm text-white/50">
+                      {new Date(d.date).toLocaleDateString('en-IE', { day: 'numeric', month: 'short', year: 'numeric' })}
+                      {' • '}
+                      {played.length}/{d.holes.length} holes
+                      {played.length > 0 && ` • ${formatToPar(getRunningToPar(d.holes))}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleDiscard(d.id)}
+                    className="p-2 rounded-lg transition-colors hover:bg-red-500/20"
+                    title="Discard round"
+                  >
+                    <Trash2 className="w-4 h-4 text-red-400" />
+                  </button>
+                </div>
+                <button
+                  onClick={() => handleResume(d)}
+                  className="btn-gold w-full mt-4 inline-flex items-center justify-center gap-2"
+                >
+                  <Play className="w-4 h-4" />
+                  Resume Round
+                </button>
+              </div>
+            )
+          })}
+
+          <button
+            onClick={() => setView('setup')}
+            className="w-full py-4 px-6 rounded-xl flex items-center justify-center gap-3 transition-all hover:bg-white/10"
+            style={{
+              backgroundColor: 'rgba(255, 255, 255, 0.05)',
+              border: '1px solid rgba(201, 162, 39, 0.3)',
+            }}
+          >
+            <Flag className="w-5 h-5" style={{ color: '#C9A227' }} />
+            <span className="text-white/80">Start a New Round</span>
+          </button>
+        </div>
+      )}
+
+      {/* ============================================ */}
+      {/* NEW ROUND SETUP */}
+      {/* ============================================ */}
+      {view === 'setup' && (
+        <div className="glass-card p-5 space-y-4">
+          <div>
+            <label className="block text-sm text-white/70 mb-1">Course</label>
+            <select
+              value={courseId}
+              onChange={(e) => handleSelectCourse(e.target.value)}
+              className="w-full p-3 rounded-lg bg-white/10 text-white focus:outline-none focus:ring-1 focus:ring-[#C9A227]"
+            >
+              <option value="" className="bg-[#1B4D3E]">Select a course</option>
+              {courses.map((course) => (
+                <option key={course.id} value={course.id} className="bg-[#1B4D3E]">
+                  {course.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm text-white/70 mb-1">Date</label>
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="w-full p-3 rounded-lg bg-white/10 text-white focus:outline-none focus:ring-1 focus:ring-[#C9A227]"
+            />
+          </div>
+
+          {/* A nine-hole course can only be played as a nine */}
+          <div className="grid grid-cols-2 gap-3">
+            {([18, 9] as const).map((length) => (
+              <button
+                key={length}
+                onClick={() => setRoundLength(length)}
+                disabled={length > (selectedCourse?.hole_count ?? 18)}
+                className="py-3 rounded-lg text-sm font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                style={{
+                  backgroundColor: roundLength === length ? '#C9A227' : 'rgba(255, 255, 255, 0.1)',
+                  color: roundLength === length ? '#0D4D2B' : 'rgba(255, 255, 255, 0.7)',
+                }}
+              >
+                {length} Holes
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-sm text-white/70 mb-1">Format</label>
+            <select
+              value={playingFormat}
+              onChange={(e) => setPlayingFormat(e.target.value as PlayingFormat)}
+              className="w-full p-3 rounded-lg bg-white/10 text-white focus:outline-none focus:ring-1 focus:ring-[#C9A227]"
+            >
+              {(Object.keys(PLAYING_FORMATS) as PlayingFormat[]).map((format) => (
+                <option key={format} value={format} className="bg-[#1B4D3E]">
+                  {PLAYING_FORMATS[format].label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {tees.length > 0 && (
+            <div>
+              <label className="block text-sm text-white/70 mb-1">Tees</label>
+              <select
+                value={teeId}
+                onChange={(e) => setTeeId(e.target.value)}
+                className="w-full p-3 rounded-lg bg-white/10 text-white focus:outline-none focus:ring-1 focus:ring-[#C9A227]"
+              >
+                {tees.map((tee) => (
+                  <option key={tee.id} value={tee.id} className="bg-[#1B4D3E]">
+                    {formatTeeLabel(tee)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm text-white/70 mb-1">Event</label>
+            <select
+              value={eventId}
+              onChange={(e) => handleSelectEvent(e.target.value)}
+              className="w-full p-3 rounded-lg bg-white/10 text-white focus:outline-none focus:ring-1 focus:ring-[#C9A227]"
+            >
+              <option value="" className="bg-[#1B4D3E]">No event</option>
+              {events.map((event) => (
+                <option key={event.id} value={event.id} className="bg-[#1B4D3E]">
+                  {event.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm text-white/70 mb-1">Round Type</label>
+            <select
+              value={roundType}
+              onChange={(e) => setRoundType(e.target.value as RoundType)}
+              disabled={!!eventId}
+              className="w-full p-3 rounded-lg bg-white/10 text-white focus:outline-none focus:ring-1 focus:ring-[#C9A227] disabled:opacity-60"
+            >
+              {(Object.keys(ROUND_TYPES) as RoundType[]).map((type) => (
+                <option key={type} value={type} className="bg-[#1B4D3E]">
+                  {ROUND_TYPES[type].label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm text-white/70 mb-1">Marker</label>
+            <select
+              value={markerId}
+              onChange={(e) => setMarkerId(e.target.value)}
+              className="w-full p-3 rounded-lg bg-white/10 text-white focus:outline-none focus:ring-1 focus:ring-[#C9A227]"
+            >
+              <option value="" className="bg-[#1B4D3E]">Select playing partner</option>
+              {markers.map((marker) => (
+                <option key={marker.id} value={marker.id} className="bg-[#1B4D3E]">
+                  {marker.full_name || 'Unnamed player'}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <button
+              onClick={() => setView('list')}
+              className="flex-1 py-3 rounded-lg text-white/70 bg-white/5 hover:bg-white/10 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleStart}
+              disabled={isSaving}
+              className="btn-gold flex-1 inline-flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+              Tee Off
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* ============================================ */}
+      {/* ONE HOLE PER SCREEN */}
+      {/* ============================================ */}
+      {view === 'hole' && draft && hole && (
+        <div className="space-y-4">
+          <div className="glass-card p-6 text-center">
+            <p className="text-sm uppercase tracking-wide text-white/50">Hole</p>
+            <p className="text-6xl font-bold" style={{ color: '#C9A227' }}>{hole.hole}</p>
+            <p className="text-white/70 mt-2">
+              Par {hole.par}
+              {hole.distance ? ` • ${hole.distance} yds` : ''}
+              {hole.strokeIndex ? ` • SI ${hole.strokeIndex}` : ''}
+            </p>
+          </div>
+
+          {/* Strokes */}
+          <div className="glass-card p-5">
+            <p className="text-sm text-white/60 mb-3 text-center">Strokes</p>
+            <div className="flex items-center justify-center gap-6">
+              <button
+                onClick={() => setStrokes(Math.max(1, (strokes ?? hole.par) - 1))}
+                className="w-16 h-16 rounded-full flex items-center justify-center bg-white/10 active:bg-white/20"
+              >
+                <Minus className="w-7 h-7 text-white" />
+              </button>
+              <span className={`text-5xl font-bold w-16 text-center ${strokes === null ? 'text-white/30' : 'text-white'}`}>
+                {strokes ?? hole.par}
+              </span>
+              <button
+                onClick={() => setStrokes(Math.min(20, (strokes ?? hole.par - 1) + 1))}
+                className="w-16 h-16 rounded-full flex items-center justify-center bg-white/10 active:bg-white/20"
+              >
+                <Plus className="w-7 h-7 text-white" />
+              </button>
+            </div>
+            <div className="flex justify-center gap-3 mt-4">
+              <button
+                onClick={() => setStrokes(hole.par)}
+                className="px-4 py-1.5 rounded-full text-xs font-semibold bg-white/10 text-white/80"
+              >
+                Par
+              </button>
+              <button
+                onClick={() => setStrokes(null)}
+                className="px-4 py-1.5 rounded-full text-xs font-semibold bg-white/10 text-white/50"
+              >
+                Not played
+              </button>
+            </div>
+          </div>
+
+          {/* Putts (optional) */}
+          <div className="glass-card p-4 flex items-center justify-between">
+            <span className="text-sm text-white/60">Putts</span>
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => setPutts(putts === null || putts === 0 ? null : putts - 1)}
+                className="w-10 h-10 rounded-full flex items-center justify-center bg-white/10"
+              >
+                <Minus className="w-5 h-5 text-white" />
+              </button>
+              <span className="text-2xl font-bold text-white w-8 text-center">{putts ?? '-'}</span>
+              <button
+                onClick={() => setPutts(Math.min(10, (putts ?? -1) + 1))}
+                className="w-10 h-10 rounded-full flex items-center justify-center bg-white/10"
+              >
+                <Plus className="w-5 h-5 text-white" />
+              </button>
+            </div>
+          </div>
+
+          {/* Navigation */}
+          <div className="flex gap-3">
+            <button
+              onClick={() => saveAndGo(holeIndex - 1)}
+              disabled={holeIndex === 0 || isSaving}
+              className="flex-1 py-4 rounded-xl inline-flex items-center justify-center gap-1 bg-white/5 text-white/70 disabled:opacity-30"
+            >
+              <ChevronLeft className="w-5 h-5" />
+              Prev
+            </button>
+            <button
+              onClick={() => saveAndGo(isLastHole ? 'summary' : holeIndex + 1)}
+              disabled={isSaving}
+              className="btn-gold flex-[2] py-4 inline-flex items-center justify-center gap-1 disabled:opacity-50"
+            >
+              {isSaving ? (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              ) : (
+                <>
+                  {isLastHole ? 'Finish' : 'Next Hole'}
+                  <ChevronRight className="w-5 h-5" />
+                </>
+              )}
+            </button>
+          </div>
+
+          {/* Hole strip: jump to any hole */}
+          <div className="grid grid-cols-9 gap-1.5">
+            {draft.holes.map((h, i) => (
+              <button
+                key={h.hole}
+                onClick={() => saveAndGo(i)}
+                disabled={isSaving}
+                className="aspect-square rounded-md text-xs font-semibold"
+                style={{
+                  backgroundColor: i === holeIndex ? '#C9A227' : h.strokes ? 'rgba(201, 162, 39, 0.25)' : 'rgba(255, 255, 255, 0.08)',
+                  color: i === holeIndex ? '#0D4D2B' : 'rgba(255, 255, 255, 0.8)',
+                }}
+              >
+                {h.hole}
+              </button>
+            ))}
+          </div>
+
+          <p className="text-center text-sm text-white/50">
+            {getPlayedHoles(draft.holes).length} holes saved • {formatToPar(getRunningToPar(draft.holes))}
+          </p>
+        </div>
+      )}
+
+      {/* ============================================ */}
+      {/* SUMMARY */}
+      {/* ============================================ */}
+      {view === 'summary' && draft && (
+        <div className="space-y-4">
+          <div className="glass-card p-6 text-center">
+            <p className="text-sm uppercase tracking-wide text-white/50">Total</p>
+            <p className="text-5xl font-bold text-white">
+              {getPlayedHoles(draft.holes).reduce((sum, h) => sum + h.strokes!, 0)}
+            </p>
+            <p className="text-lg mt-1" style={{ color: '#C9A227' }}>
+              {formatToPar(getRunningToPar(draft.holes))}
+            </p>
+            {getPlayedHoles(draft.holes).length < draft.holes.length && (
+              <p className="text-xs text-white/50 mt-3">
+                {draft.holes.length - getPlayedHoles(draft.holes).length} hole(s) not played will be recorded as net par.
+              </p>
+            )}
+          </div>
+
+          <div className="glass-card p-4 grid grid-cols-9 gap-1.5">
+            {draft.holes.map((h, i) => (
+              <button
+                key={h.hole}
+                onClick={() => openHole(draft, i)}
+                className="text-center rounded-md py-1 hover:bg-white/10"
+              >
+                <p className="text-[10px] text-white/40">{h.hole}</p>
+                <p className="text-sm font-semibold text-white">{h.strokes ?? '-'}</p>
+              </button>
+            ))}
+          </div>
+
+          <button
+            onClick={handleFinalise}
+            disabled={isSaving}
+            className="btn-gold w-full py-4 inline-flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            {isSaving ? <Loader2 className="w-5 h-5 animate-spin" /> : <CheckCircle className="w-5 h-5" />}
+            Finalise Round
+          </button>
+          <button
+            onClick={() => openHole(draft, draft.holes.length - 1)}
+            className="w-full py-3 rounded-xl inline-flex items-center justify-center gap-2 bg-white/5 text-white/70"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to Scoring
+          </button>
+        </div>
+      )}
+
+      {/* ============================================ */}
+      {/* ROUND SAVED */}
+      {/* ============================================ */}
+      {view === 'done' && result && (
+        <div className="glass-card p-8 text-center">
+          <CheckCircle className="w-14 h-14 mx-auto mb-4 text-green-400" />
+          <h3 className="text-xl font-bold text-white mb-2">Round Saved!</h3>
+          <p className="text-white/60 mb-6">
+            {result.totalStrokes} strokes
+            {result.scoreToPar !== undefined && ` (${formatToPar(result.scoreToPar)})`}
+            {result.stablefordPoints !== undefined && ` • ${result.stablefordPoints} pts`}
+          </p>
+          <Link href="/dashboard/rounds" className="btn-gold inline-flex items-center gap-2">
+            View Round History
+          </Link>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -38,7 +38,7 @@ export default async function ProfilePage() {
 
   const { data: profile } = await supabase
     .from('profiles')
-    .select('full_name, home_club, handicap_index, gui_number')
+    .select('full_name, home_club, handicap_index, handicap_index_source, gui_number')
     .eq('id', user.id)
     .single()
 
@@ -52,6 +52,7 @@ export default async function ProfilePage() {
           handicap_index: profile?.handicap_index ?? null,
           gui_number: profile?.gui_number || '',
         }}
+        handicapCalculated={profile?.handicap_index_source === 'calculated'}
       />
     </div>
   )
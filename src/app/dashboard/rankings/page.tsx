@@ -1,8 +1,9 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { createClient } from '@/lib/supabase'
 import { Trophy } from 'lucide-react'
+import { SCORING_MODES, ScoringMode, compareScores, getRoundScore } from '@/lib/scoring'
 
 interface SquadMember {
   id: string
@@ -11,10 +12,21 @@ interface SquadMember {
   home_club: string | null
 }
 
+interface RoundScore {
+  user_id: string
+  total_strokes: number | null
+  net_strokes: number | null
+  stableford_points: number | null
+}
+
+type RankBy = 'handicap' | ScoringMode
+
 export default function RankingsPage() {
-  const [squadMembers, setSquadMembers] = useState<SquadMember[]>([])
+  const [members, setMembers] = useState<SquadMember[]>([])
+  const [rounds, setRounds] = useState<RoundScore[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [currentUserId, setCurrentUserId] = useState<string | null>(null)
+  const [rankBy, setRankBy] = useState<RankBy>('handicap')
 
   useEffect(() => {
     fetchData()
@@ -30,18 +42,64 @@ export default function RankingsPage() {
 
     const { data: profiles, error } = await supabase
       .from('profiles')
-      .select('id, full_name, handicap_index, home_club')
+      .select('id, full_name, handicap_index, handicap_index_source, home_club')
       .order('handicap_index', { ascending: true, nullsFirst: false })
 
     if (error) {
       console.error('Error fetching squad:', error)
     } else if (profiles) {
-      setSquadMembers(profiles)
+      // Rank on the WHS index calculated from rounds; self-reported values are not ranked
+      setMembers(profiles.map(p => ({
+        id: p.id,
+        full_name: p.full_name,
+        handicap_index: p.handicap_index_source === 'calculated' ? p.handicap_index : null,
+        home_club: p.home_club,
+      })))
+    }
+
+    const { data: roundData, error: roundsError } = await supabase
+      .from('rounds')
+      .select('user_id, total_strokes, net_strokes, stableford_points')
+
+    if (roundsError) {
+      console.error('Error fetching rounds:', roundsError)
+    } else {
+      setRounds(roundData || [])
     }
 
     setIsLoading(false)
   }
 
+  // Average score per player in the selected scoring mode, then rank
+  const squadMembers = useMemo(() => {
+    const averages = new Map<string, number>()
+    if (rankBy !== 'handicap') {
+      const scoresByUser = new Map<string, number[]>()
+      rounds.forEach(round => {
+        const score = getRoundScore(round, rankBy)
+        if (score !== null) {
+          scoresByUser.set(round.user_id, [...(scoresByUser.get(round.user_id) || []), score])
+        }
+      })
+      scoresByUser.forEach((scores, userId) => {
+        averages.set(userId, Math.round((scores.reduce((a, b) => a + b, 0) / scores.length) * 10) / 10)
+      })
+    }
+
+    const ranked = members.map(m => ({ ...m, avg_score: averages.get(m.id) ?? null }))
+
+    if (rankBy === 'handicap') {
+      ranked.sort((a, b) => (a.handicap_index ?? 999) - (b.handicap_index ?? 999))
+    } else {
+      ranked.sort((a, b) => {
+        if (a.avg_score === null) return b.avg_score === null ? 0 : 1
+        if (b.avg_score === null) return -1
+        return compareScores(a.avg_score, b.avg_score, rankBy)
+      })
+    }
+    return ranked
+  }, [members, rounds, rankBy])
+
   const getCategory = (handicap: number | null): { label: string; color: string } => {
     if (handicap === null) return { label: '—', color: '#9CA3AF' }
     if (handicap <= 0) return { label: 'Plus', color: '#7C3AED' }
@@ -52,12 +110,30 @@ export default function RankingsPage() {
     return { label: 'Cat 5', color: '#6B7280' }
   }
 
+  const rankedMembers = squadMembers.filter(m => m.handicap_index !== null)
+
   return (
     <div className="max-w-4xl mx-auto space-y-6">
       {/* Page Header */}
-      <div>
-        <h1 className="text-2xl md:text-3xl font-bold text-gray-900">Squad Rankings</h1>
-        <p className="text-gray-500 mt-1">Performance leaderboard</p>
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-gray-900">Squad Rankings</h1>
+          <p className="text-gray-500 mt-1">
+            {rankBy === 'handicap'
+              ? 'Ranked by WHS Handicap Index calculated from recorded rounds'
+              : `Ranked by average ${SCORING_MODES[rankBy].label} score across recorded rounds`}
+          </p>
+        </div>
+        <select
+          value={rankBy}
+          onChange={(e) => setRankBy(e.target.value as RankBy)}
+          className="px-3 py-2 rounded-lg border border-gray-200 text-sm text-gray-700 bg-white"
+        >
+          <option value="handicap">Handicap Index</option>
+          {(Object.keys(SCORING_MODES) as ScoringMode[]).map(mode => (
+            <option key={mode} value={mode}>Avg {SCORING_MODES[mode].label}</option>
+          ))}
+        </select>
       </div>
 
       {/* Loading State */}
@@ -84,6 +160,11 @@ export default function RankingsPage() {
                     <th className="w-16 py-4 px-4 text-center text-sm font-semibold text-white">Rank</th>
                     <th className="py-4 px-4 text-left text-sm font-semibold text-white">Player</th>
                     <th className="w-32 py-4 px-4 text-center text-sm font-semibold text-white">Handicap</th>
+                    {rankBy !== 'handicap' && (
+                      <th className="w-32 py-4 px-4 text-center text-sm font-semibold text-white">
+                        Avg {SCORING_MODES[rankBy].label}
+                      </th>
+                    )}
                     <th className="w-28 py-4 px-4 text-center text-sm font-semibold text-white">Category</th>
                   </tr>
                 </thead>
@@ -118,6 +199,13 @@ export default function RankingsPage() {
                             {member.handicap_index !== null ? member.handicap_index.toFixed(1) : '—'}
                           </span>
                         </td>
+                        {rankBy !== 'handicap' && (
+                          <td className="py-4 px-4 text-center">
+                            <span className="text-lg font-semibold text-[#1B4D3E]">
+                              {member.avg_score !== null ? member.avg_score.toFixed(1) : '—'}
+                            </span>
+                          </td>
+                        )}
                         <td className="py-4 px-4 text-center">
                           <div className="inline-flex items-center gap-2">
                             <span
@@ -176,12 +264,16 @@ export default function RankingsPage() {
                       </div>
                     </div>
 
-                    {/* Handicap */}
+                    {/* Handicap or average score */}
                     <div className="text-right flex-shrink-0">
                       <p className="text-2xl font-bold text-[#1B4D3E]">
-                        {member.handicap_index !== null ? member.handicap_index.toFixed(1) : '—'}
+                        {rankBy === 'handicap'
+                          ? member.handicap_index !== null ? member.handicap_index.toFixed(1) : '—'
+                          : member.avg_score !== null ? member.avg_score.toFixed(1) : '—'}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {rankBy === 'handicap' ? 'HCP' : `Avg ${SCORING_MODES[rankBy].label}`}
                       </p>
-                      <p className="text-xs text-gray-500">HCP</p>
                     </div>
                   </div>
                 )
@@ -197,14 +289,16 @@ export default function RankingsPage() {
             </div>
             <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4 text-center">
               <p className="text-2xl font-bold text-[#C9A227]">
-                {squadMembers[0]?.handicap_index?.toFixed(1) || '—'}
+                {rankedMembers.length > 0
+                  ? Math.min(...rankedMembers.map(m => m.handicap_index!)).toFixed(1)
+                  : '—'}
               </p>
               <p className="text-xs text-gray-500 uppercase tracking-wide">Lowest</p>
             </div>
             <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4 text-center">
               <p className="text-2xl font-bold text-[#1B4D3E]">
-                {squadMembers.length > 0
-                  ? (squadMembers.reduce((sum, m) => sum + (m.handicap_index || 0), 0) / squadMembers.length).toFixed(1)
+                {rankedMembers.length > 0
+                  ? (rankedMembers.reduce((sum, m) => sum + (m.handicap_index || 0), 0) / rankedMembers.length).toFixed(1)
                   : '—'}
               </p>
               <p className="text-xs text-gray-500 uppercase tracking-wide">Average</p>
@@ -17,8 +17,11 @@ import {
   TrendingUp,
   X,
   ChevronDown,
-  Shield
+  Shield,
+  Trophy
 } from 'lucide-react'
+import { SCORING_MODES, ScoringMode, getBestScore, getRoundScore } from '@/lib/scoring'
+import { matchesRoundType, RoundTypeFilter, ROUND_TYPE_FILTER_OPTIONS } from '@/lib/round-types'
 
 // ============================================
 // TYPES
@@ -51,10 +54,13 @@ interface Round {
   course_id: string
   date_of_round: string
   total_strokes: number | null
+  net_strokes: number | null
+  stableford_points: number | null
   total_par: number | null
   weather: string | null
   temp_c: number | null
   wind_speed_kph: number | null
+  round_type: string | null
 }
 
 interface ReportRow {
@@ -136,16 +142,17 @@ const getDateLimits = () => {
  * Data Transformation:
  * - Maps currently filtered rounds into flat array of objects
  * - Headers: Player Name, Date, Course, Score, Par, Weather, Wind (kph), Temp (C)
+ * - The Score column is labelled with the selected scoring mode
  *
  * Filename Format: PGC-Report-[SquadName]-[CurrentDate].csv
  */
-const exportToCSV = (data: ReportRow[], squadName: string) => {
+const exportToCSV = (data: ReportRow[], squadName: string, scoringMode: ScoringMode) => {
   // PRD-specified headers
   const headers = [
     'Player Name',
     'Date',
     'Course',
-    'Score',
+    `Score (${SCORING_MODES[scoringMode].label})`,
     'Par',
     'Weather',
     'Wind (kph)',
@@ -205,6 +212,8 @@ export default function ReportsPage() {
   const [customStartDate, setCustomStartDate] = useState<string>('')
   const [customEndDate, setCustomEndDate] = useState<string>('')
   const [selectedWeather, setSelectedWeather] = useState<string>('')
+  const [scoringMode, setScoringMode] = useState<ScoringMode>('gross')
+  const [roundTypeFilter, setRoundTypeFilter] = useState<RoundTypeFilter>('all')
 
   const { maxDate, minDate } = getDateLimits()
 
@@ -262,7 +271,7 @@ export default function ReportsPage() {
         supabase.from('squad_members').select('squad_id, user_id'),
         supabase.from('profiles').select('id, full_name, role'),
         supabase.from('courses').select('id, name'),
-        supabase.from('rounds').select('id, user_id, course_id, date_of_round, total_strokes, total_par, weather, temp_c, wind_speed_kph').order('date_of_round', { ascending: false }),
+        supabase.from('rounds').select('id, user_id, course_id, date_of_round, total_strokes, net_strokes, stableford_points, total_par, weather, temp_c, wind_speed_kph, round_type').order('date_of_round', { ascending: false }),
       ])
 
       if (squadsRes.error) console.error('Squads error:', JSON.stringify(squadsRes.error, null, 2))
@@ -325,6 +334,9 @@ export default function ReportsPage() {
       filtered = filtered.filter(r => r.weather === selectedWeather)
     }
 
+    // Filter by round type (competition vs general play)
+    filtered = filtered.filter(r => matchesRoundType(r.round_type, roundTypeFilter))
+
     // Map to report rows
     const reportRows: ReportRow[] = filtered.map(round => {
       const player = profiles.find(p => p.id === round.user_id)
@@ -336,7 +348,7 @@ export default function ReportsPage() {
         courseName: course?.name || 'Unknown Course',
         date: formatDate(round.date_of_round),
         rawDate: round.date_of_round,
-        score: round.total_strokes,
+        score: getRoundScore(round, scoringMode),
         par: round.total_par,
         weather: round.weather,
         tempC: round.temp_c,
@@ -345,14 +357,15 @@ export default function ReportsPage() {
     })
 
     return reportRows
-  }, [rounds, profiles, courses, squadMembers, selectedSquad, dateRange, customStartDate, customEndDate, selectedWeather])
+  }, [rounds, profiles, courses, squadMembers, selectedSquad, dateRange, customStartDate, customEndDate, selectedWeather, scoringMode, roundTypeFilter])
 
   // ============================================
   // INSIGHTS
   // ============================================
 
   const insights = useMemo(() => {
-    const validScores = filteredData.filter(r => r.score !== null && r.score > 0)
+    // Stableford rounds can legitimately score zero points
+    const validScores = filteredData.filter(r => r.score !== null && (scoringMode === 'stableford' || r.score > 0))
 
     if (validScores.length === 0) {
       return {
@@ -374,13 +387,13 @@ export default function ReportsPage() {
     return {
       totalRounds: filteredData.length,
       avgScore: Math.round((scores.reduce((a, b) => a + b, 0) / scores.length) * 10) / 10,
-      bestScore: Math.min(...scores),
-      worstScore: Math.max(...scores),
+      bestScore: getBestScore(scores, scoringMode),
+      worstScore: SCORING_MODES[scoringMode].higherIsBetter ? Math.min(...scores) : Math.max(...scores),
       uniquePlayers,
       avgTemp: temps.length > 0 ? Math.round((temps.reduce((a, b) => a + b, 0) / temps.length) * 10) / 10 : null,
       avgWind: winds.length > 0 ? Math.round((winds.reduce((a, b) => a + b, 0) / winds.length) * 10) / 10 : null,
     }
-  }, [filteredData])
+  }, [filteredData, scoringMode])
 
   // ============================================
   // HANDLERS
@@ -390,7 +403,7 @@ export default function ReportsPage() {
     const squadName = selectedSquad
       ? squads.find(s => s.id === selectedSquad)?.name || 'AllPlayers'
       : 'AllPlayers'
-    exportToCSV(filteredData, squadName)
+    exportToCSV(filteredData, squadName, scoringMode)
   }
 
   const clearFilters = () => {
@@ -399,6 +412,8 @@ export default function ReportsPage() {
     setCustomStartDate('')
     setCustomEndDate('')
     setSelectedWeather('')
+    setScoringMode('gross')
+    setRoundTypeFilter('all')
   }
 
   // ============================================
@@ -556,6 +571,52 @@ export default function ReportsPage() {
             </div>
           </div>
 
+          {/* Round Type Filter */}
+          <div className="flex-1">
+            <label className="flex items-center gap-2 text-sm font-medium text-white/70 mb-2">
+              <Shield className="w-4 h-4" style={{ color: PGC_GOLD }} />
+              Round Type
+            </label>
+            <div className="relative">
+              <select
+                value={roundTypeFilter}
+                onChange={(e) => setRoundTypeFilter(e.target.value as RoundTypeFilter)}
+                className="w-full px-4 py-3 rounded-lg bg-white/10 border border-white/20 text-white appearance-none cursor-pointer focus:outline-none transition-colors"
+                style={{ backgroundColor: '#0a3d22', borderColor: `${PGC_GOLD}40` }}
+              >
+                {ROUND_TYPE_FILTER_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value} style={{ backgroundColor: '#0a3d22' }}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-5 h-5 text-white/50 pointer-events-none" />
+            </div>
+          </div>
+
+          {/* Scoring Mode */}
+          <div className="flex-1">
+            <label className="flex items-center gap-2 text-sm font-medium text-white/70 mb-2">
+              <Trophy className="w-4 h-4" style={{ color: PGC_GOLD }} />
+              Scoring
+            </label>
+            <div className="relative">
+              <select
+                value={scoringMode}
+                onChange={(e) => setScoringMode(e.target.value as ScoringMode)}
+                className="w-full px-4 py-3 rounded-lg bg-white/10 border border-white/20 text-white appearance-none cursor-pointer focus:outline-none transition-colors"
+                style={{ backgroundColor: '#0a3d22', borderColor: `${PGC_GOLD}40` }}
+              >
+                {(Object.keys(SCORING_MODES) as ScoringMode[]).map((mode) => (
+                  <option key={mode} value={mode} style={{ backgroundColor: '#0a3d22' }}>
+                    {SCORING_MODES[mode].label}
+                  </option>
+                ))}
+              </select>
+              <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-5 h-5 text-white/50 pointer-events-none" />
+            </div>
+          </div>
+
           {/* Clear Filters Button */}
           <div className="flex-shrink-0">
             <button
@@ -635,7 +696,7 @@ export default function ReportsPage() {
             <p className="text-3xl font-bold" style={{ color: PGC_GOLD }}>
               {insights.avgScore ?? '—'}
             </p>
-            <p className="text-xs text-white/60 uppercase tracking-wide mt-1">Avg Score</p>
+            <p className="text-xs text-white/60 uppercase tracking-wide mt-1">Avg {SCORING_MODES[scoringMode].label}</p>
           </div>
 
           {/* Best Score */}
@@ -749,7 +810,7 @@ export default function ReportsPage() {
                       Course
                     </th>
                     <th className="px-4 py-3 text-center text-xs font-semibold uppercase" style={{ color: PGC_GOLD }}>
-                      Score
+                      {scoringMode === 'gross' ? 'Score' : SCORING_MODES[scoringMode].label}
                     </th>
                     <th className="px-4 py-3 text-center text-xs font-semibold uppercase" style={{ color: PGC_GOLD }}>
                       Par
@@ -0,0 +1,134 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { ArrowLeft } from 'lucide-react'
+import RoundEntryForm, { EditableRound } from '@/components/RoundEntryForm'
+import { createClient } from '@/lib/supabase'
+import { PlayingFormat } from '@/lib/handicap'
+import { FairwayResult } from '@/lib/rounds'
+import { ShotInput } from '@/lib/strokes-gained'
+import { RoundType } from '@/lib/round-types'
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export default function EditRoundPage() {
+  const params = useParams<{ id: string }>()
+  const [round, setRound] = useState<EditableRound | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  // ============================================
+  // FETCH ROUND AND HOLE SCORES
+  // ============================================
+
+  useEffect(() => {
+    const fetchRound = async () => {
+      const supabase = createClient()
+
+      const { data: roundData, error: roundError } = await supabase
+        .from('rounds')
+        .select('id, course_id, date_of_round, weather, wind_conditions, playing_format, marker_id, round_type, event_id, tee_id')
+        .eq('id', params.id)
+        .single()
+
+      if (roundError || !roundData) {
+        setError('Round not found')
+        setIsLoading(false)
+        return
+      }
+
+      const { data: scores } = await supabase
+        .from('round_scores')
+        .select('hole_number, strokes, putts, fairway, gir, sand_shots, penalty_strokes, shots')
+        .eq('round_id', params.id)
+
+      setRound({
+        id: roundData.id,
+        course_id: roundData.course_id,
+        date: roundData.date_of_round,
+        weather: roundData.weather || '',
+        wind_conditions: roundData.wind_conditions || '',
+        playing_format: (roundData.playing_format || 'stroke_play') as PlayingFormat,
+        marker_id: roundData.marker_id,
+        round_type: (roundData.round_type || 'general_play') as RoundType,
+        event_id: roundData.event_id,
+        tee_id: roundData.tee_id,
+        strokes: new Map((scores || []).map((s) => [s.hole_number, s.strokes])),
+        shotStats: new Map(
+          (scores || [])
+            .filter((s) => s.putts !== null || s.fairway !== null || s.gir !== null || s.sand_shots !== null || s.penalty_strokes !== null)
+            .map((s) => [s.hole_number, {
+              putts: s.putts,
+              fairway: s.fairway as FairwayResult | null,
+              gir: s.gir,
+              sandShots: s.sand_shots,
+              penalties: s.penalty_strokes,
+            }])
+        ),
+        shots: new Map(
+          (scores || [])
+            .filter((s) => Array.isArray(s.shots) && s.shots.length > 0)
+            .map((s) => [s.hole_number, s.shots as ShotInput[]])
+        ),
+      })
+      setIsLoading(false)
+    }
+    fetchRound()
+  }, [params.id])
+
+  // ============================================
+  // RENDER
+  // ============================================
+
+  return (
+    <div className="min-h-screen" style={{ backgroundColor: '#1B4D3E' }}>
+      {/* Back Link */}
+      <div className="max-w-4xl mx-auto px-4 py-4">
+        <Link
+          href="/dashboard/rounds"
+          className="inline-flex items-center gap-2 text-white/70 hover:text-white text-sm transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to Rounds
+        </Link>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 pb-8">
+        {/* Page Header */}
+        <div className="mb-6">
+          <h1 className="text-2xl md:text-3xl font-bold" style={{ color: '#C9A227' }}>
+            Edit Round
+          </h1>
+          <p className="text-white/70 text-sm mt-1">
+            Correct your scores and round details. Totals, weather and handicap are recalculated on save.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <div
+              className="w-10 h-10 border-4 border-white/20 rounded-full animate-spin"
+              style={{ borderTopColor: '#C9A227' }}
+            />
+          </div>
+        ) : error || !round ? (
+          <div
+            className="p-4 rounded-xl"
+            style={{
+              backgroundColor: 'rgba(239, 68, 68, 0.2)',
+              border: '1px solid rgba(239, 68, 68, 0.5)',
+            }}
+          >
+            <span className="text-red-200 text-sm">{error || 'Round not found'}</span>
+          </div>
+        ) : (
+          <RoundEntryForm editRound={round} />
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,277 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { ArrowLeft, Crosshair, Pencil } from 'lucide-react'
+import { createClient } from '@/lib/supabase'
+import {
+  fromStoredStrokesGained,
+  StoredStrokesGained,
+  StrokesGainedBreakdown as Breakdown,
+  STROKES_GAINED_CATEGORIES,
+  sumStrokesGained,
+} from '@/lib/strokes-gained'
+import StrokesGainedBreakdown, {
+  formatStrokesGained,
+  getStrokesGainedColor,
+} from '@/components/StrokesGainedBreakdown'
+import ScorecardImageLink from '@/components/ScorecardImageLink'
+import { CourseTee, formatTeeLabel } from '@/lib/course-tees'
+
+// ============================================
+// TYPES
+// ============================================
+
+interface RoundSummary {
+  id: string
+  user_id: string
+  date_of_round: string
+  total_strokes: number | null
+  score_to_par: number | null
+  holes_played: number | null
+  scorecard_path: string | null
+  courses: {
+    name: string
+  } | null
+  course_tees: Pick<CourseTee, 'name' | 'gender'> | null
+}
+
+interface HoleScore extends StoredStrokesGained {
+  hole_number: number
+  par: number
+  strokes: number
+}
+
+interface HoleStrokesGained {
+  hole: number
+  par: number
+  strokes: number
+  strokesGained: Breakdown | null
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export default function RoundDetailPage() {
+  const params = useParams<{ id: string }>()
+  const [round, setRound] = useState<RoundSummary | null>(null)
+  const [holes, setHoles] = useState<HoleStrokesGained[]>([])
+  const [canEdit, setCanEdit] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  // ============================================
+  // FETCH ROUND AND HOLE SCORES
+  // ============================================
+
+  useEffect(() => {
+    const fetchRound = async () => {
+      const supabase = createClient()
+      const { data: { user } } = await supabase.auth.getUser()
+
+      const { data: roundData, error: roundError } = await supabase
+        .from('rounds')
+        .select('id, user_id, date_of_round, total_strokes, score_to_par, holes_played, scorecard_path, courses(name), course_tees(name, gender)')
+        .eq('id', params.id)
+        .single()
+
+      if (roundError || !roundData) {
+        setError('Round not found')
+        setIsLoading(false)
+        return
+      }
+
+      const { data: scores } = await supabase
+        .from('round_scores')
+        .select('hole_number, par, strokes, sg_off_the_tee, sg_approach, sg_around_green, sg_putting')
+        .eq('round_id', params.id)
+        .order('hole_number')
+
+      const { data: profile } = user
+        ? await supabase.from('profiles').select('role').eq('id', user.id).single()
+        : { data: null }
+      const normalizedRole = (profile?.role || '').toLowerCase().replace(/\s+/g, '_')
+
+      setRound(roundData as unknown as RoundSummary)
+      setCanEdit(roundData.user_id === user?.id || ['admin', 'super_admin'].includes(normalizedRole))
+      setHoles(
+        ((scores || []) as HoleScore[]).map((s) => ({
+          hole: s.hole_number,
+          par: s.par,
+          strokes: s.strokes,
+          strokesGained: fromStoredStrokesGained(s),
+        }))
+      )
+      setIsLoading(false)
+    }
+    fetchRound()
+  }, [params.id])
+
+  const trackedHoles = holes.filter((h) => h.strokesGained !== null)
+  const roundStrokesGained = trackedHoles.length > 0
+    ? sumStrokesGained(trackedHoles.map((h) => h.strokesGained!))
+    : null
+
+  // ============================================
+  // LOADING STATE
+  // ============================================
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div
+            className="w-10 h-10 border-4 border-white/20 rounded-full animate-spin mx-auto mb-4"
+            style={{ borderTopColor: '#C9A227' }}
+          />
+          <p className="text-white/60">Loading round...</p>
+        </div>
+      </div>
+    )
+  }
+
+  // ============================================
+  // RENDER
+  // ============================================
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      {/* Back Link */}
+      <Link
+        href="/dashboard/rounds"
+        className="inline-flex items-center gap-2 text-white/70 hover:text-white text-sm transition-colors"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Back to Rounds
+      </Link>
+
+      {error || !round ? (
+        <div
+          className="p-4 rounded-xl"
+          style={{
+            backgroundColor: 'rgba(239, 68, 68, 0.2)',
+            border: '1px solid rgba(239, 68, 68, 0.5)',
+          }}
+        >
+          <span className="text-red-200 text-sm">{error || 'Round not found'}</span>
+        </div>
+      ) : (
+        <>
+          {/* Page Header */}
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div>
+              <h1 className="text-2xl md:text-3xl font-bold" style={{ color: '#C9A227' }}>
+                {round.courses?.name || 'Unknown Course'}
+              </h1>
+              <p className="text-white/60 mt-1">
+                {new Date(round.date_of_round).toLocaleDateString('en-IE', {
+                  day: 'numeric',
+                  month: 'short',
+                  year: 'numeric',
+                })}
+                {' • '}
+                {round.holes_played || 18} holes
+                {round.course_tees && ` • ${formatTeeLabel(round.course_tees)} tees`}
+                {round.total_strokes !== null && ` • ${round.total_strokes}`}
+                {round.score_to_par !== null && ` (${round.score_to_par > 0 ? '+' : ''}${round.score_to_par})`}
+              </p>
+            </div>
+            <div className="flex items-center gap-3 self-start">
+              {round.scorecard_path && (
+                <ScorecardImageLink
+                  roundId={round.id}
+                  label="View Scorecard"
+                  className="inline-flex items-center gap-2 text-sm py-2 px-4 rounded-lg text-white/80 hover:bg-white/10 disabled:opacity-50"
+                />
+              )}
+              {canEdit && (
+                <Link
+                  href={`/dashboard/rounds/${round.id}/edit`}
+                  className="btn-gold inline-flex items-center gap-2 text-sm py-2 px-4"
+                >
+                  <Pencil className="w-4 h-4" />
+                  Edit Round
+                </Link>
+              )}
+            </div>
+          </div>
+
+          {!roundStrokesGained ? (
+            <div className="glass-card p-8 text-center">
+              <div
+                className="w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4"
+                style={{ backgroundColor: 'rgba(201, 162, 39, 0.2)' }}
+              >
+                <Crosshair className="w-8 h-8" style={{ color: '#C9A227' }} />
+              </div>
+              <h3 className="text-xl font-bold text-white mb-2">No Shot Data</h3>
+              <p className="text-white/60 max-w-md mx-auto">
+                Strokes gained needs shot-by-shot entry. Edit the round and use the crosshair next to a
+                hole&apos;s score to record where each shot was played from.
+              </p>
+            </div>
+          ) : (
+            <>
+              {/* Round Breakdown */}
+              <div className="glass-card p-6">
+                <h2 className="text-lg font-semibold mb-1" style={{ color: '#C9A227' }}>
+                  Strokes Gained
+                </h2>
+                <p className="text-sm text-white/50 mb-6">
+                  Against the tour baseline over {trackedHoles.length} hole{trackedHoles.length === 1 ? '' : 's'} entered shot by shot
+                </p>
+                <StrokesGainedBreakdown breakdown={roundStrokesGained} />
+              </div>
+
+              {/* Hole by Hole */}
+              <div className="glass-card overflow-hidden">
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr style={{ backgroundColor: 'rgba(201, 162, 39, 0.2)' }}>
+                        <th className="py-3 px-3 text-center font-semibold" style={{ color: '#C9A227' }}>Hole</th>
+                        <th className="py-3 px-3 text-center font-semibold" style={{ color: '#C9A227' }}>Par</th>
+                        <th className="py-3 px-3 text-center font-semibold" style={{ color: '#C9A227' }}>Score</th>
+                        {STROKES_GAINED_CATEGORIES.map((category) => (
+                          <th
+                            key={category.key}
+                            className="py-3 px-3 text-center font-semibold"
+                            style={{ color: '#C9A227' }}
+                            title={category.label}
+                          >
+                            {category.shortLabel}
+                          </th>
+                        ))}
+                        <th className="py-3 px-3 text-center font-semibold" style={{ color: '#C9A227' }}>Total</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {trackedHoles.map((hole) => (
+                        <tr key={hole.hole} style={{ borderBottom: '1px solid rgba(201, 162, 39, 0.15)' }}>
+                          <td className="py-2 px-3 text-center font-medium text-white">{hole.hole}</td>
+                          <td className="py-2 px-3 text-center text-white/70">{hole.par}</td>
+                          <td className="py-2 px-3 text-center text-white">{hole.strokes}</td>
+                          {[...STROKES_GAINED_CATEGORIES.map((c) => c.key), 'total' as const].map((key) => (
+                            <td
+                              key={key}
+                              className="py-2 px-3 text-center font-medium"
+                              style={{ color: getStrokesGainedColor(hole.strokesGained![key]) }}
+                            >
+                              {formatStrokesGained(hole.strokesGained![key])}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
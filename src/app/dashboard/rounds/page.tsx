@@ -3,8 +3,20 @@
 import { useEffect, useState } from 'react'
 import { createClient } from '@/lib/supabase'
 import Link from 'next/link'
-import { PlusCircle, Trash2, Sun, Cloud, CloudRain, Wind, Thermometer, History } from 'lucide-react'
+import { PlusCircle, Pencil, Trash2, Sun, Cloud, CloudRain, Wind, Thermometer, History, CloudOff, RefreshCw } from 'lucide-react'
 import { deleteRound } from '@/app/actions/round-management'
+import { getSignedInUserId, submitPendingRound } from '@/components/OfflineSyncManager'
+import {
+  getPendingRounds,
+  PendingRound,
+  PendingRoundStatus,
+  PENDING_ROUNDS_EVENT,
+  removePendingRound,
+  syncPendingRounds,
+  updatePendingRound,
+} from '@/lib/offline-queue'
+import { ATTESTATION_STATUSES, AttestationStatus } from '@/lib/attestation'
+import ScorecardImageLink from '@/components/ScorecardImageLink'
 
 // ============================================
 // TYPES
@@ -22,6 +34,10 @@ interface Round {
   weather: string | null
   temp_c: number | null
   wind_speed_kph: number | null
+  pcc: number | null
+  attestation_status: AttestationStatus
+  attestation_note: string | null
+  scorecard_path: string | null
   courses: {
     name: string
   }
@@ -44,6 +60,32 @@ const getWeatherIcon = (weather: string | null) => {
   return <Cloud className="w-4 h-4 text-gray-400" />
 }
 
+// Playing Conditions Calculation, shown once the daily job has run
+const formatPCC = (pcc: number) => `PCC ${pcc > 0 ? `+${pcc}` : pcc}`
+
+// Offline queue status badges
+const PENDING_STATUS: Record<PendingRoundStatus, { label: string; color: string }> = {
+  pending: { label: 'Waiting to sync', color: '#C9A227' },
+  conflict: { label: 'Possible duplicate', color: '#F97316' },
+  failed: { label: 'Sync failed', color: '#EF4444' },
+}
+
+// Marker sign-off badge
+const renderAttestationBadge = (round: Round) => {
+  const status = ATTESTATION_STATUSES[round.attestation_status] || ATTESTATION_STATUSES.pending
+  return (
+    <span
+      className="inline-block px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase"
+      style={{ backgroundColor: status.bg, color: status.color }}
+      title={round.attestation_status === 'unmarked'
+        ? 'No marker named: edit the round to ask a playing partner to attest it'
+        : round.attestation_note || undefined}
+    >
+      {status.label}
+    </span>
+  )
+}
+
 // ============================================
 // COMPONENT
 // ============================================
@@ -56,11 +98,24 @@ export default function RoundsPage() {
   const [isAdmin, setIsAdmin] = useState(false)
   const [deletingId, setDeletingId] = useState<string | null>(null)
   const [viewMode, setViewMode] = useState<'my' | 'all'>('my')
+  const [pendingRounds, setPendingRounds] = useState<PendingRound[]>([])
+  const [isSyncing, setIsSyncing] = useState(false)
 
   useEffect(() => {
     fetchData()
   }, [viewMode])
 
+  // Rounds the player saved on this device while offline
+  useEffect(() => {
+    const loadPending = () => getSignedInUserId()
+      .then((userId) => (userId ? getPendingRounds(userId) : []))
+      .then(setPendingRounds)
+      .catch(() => setPendingRounds([]))
+    loadPending()
+    window.addEventListener(PENDING_ROUNDS_EVENT, loadPending)
+    return () => window.removeEventListener(PENDING_ROUNDS_EVENT, loadPending)
+  }, [])
+
   const fetchData = async () => {
     setIsLoading(true)
     try {
@@ -89,7 +144,7 @@ export default function RoundsPage() {
       // Fetch rounds based on view mode
       let query = supabase
         .from('rounds')
-        .select('*, courses(name), profiles(full_name)')
+        .select('*, courses(name), profiles!user_id(full_name)')
         .order('date_of_round', { ascending: false })
         .limit(100)
 
@@ -141,6 +196,28 @@ export default function RoundsPage() {
     }
   }
 
+  const handleSyncNow = async () => {
+    if (!currentUserId) return
+    setIsSyncing(true)
+    try {
+      const summary = await syncPendingRounds(currentUserId, submitPendingRound)
+      if (summary.synced > 0) fetchData()
+    } finally {
+      setIsSyncing(false)
+    }
+  }
+
+  // Player confirmed a same-day round is not a duplicate
+  const handleKeepPending = async (round: PendingRound) => {
+    await updatePendingRound({ ...round, status: 'pending', allowConflict: true })
+    handleSyncNow()
+  }
+
+  const handleDiscardPending = async (round: PendingRound) => {
+    if (!window.confirm('Discard this offline round? It has not been saved to your account.')) return
+    await removePendingRound(round.id)
+  }
+
   // Check if user can delete a specific round
   const canDelete = (round: Round) => {
     if (isAdmin) return true
@@ -231,6 +308,75 @@ export default function RoundsPage() {
         </div>
       )}
 
+      {/* Pending Sync (rounds saved offline on this device) */}
+      {pendingRounds.length > 0 && (
+        <div className="glass-card p-5">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-2">
+              <CloudOff className="w-5 h-5" style={{ color: '#C9A227' }} />
+              <h2 className="text-lg font-semibold" style={{ color: '#C9A227' }}>
+                Pending Sync
+              </h2>
+            </div>
+            <button
+              onClick={handleSyncNow}
+              disabled={isSyncing}
+              className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm text-white/80 bg-white/5 hover:bg-white/10 disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 ${isSyncing ? 'animate-spin' : ''}`} />
+              Sync Now
+            </button>
+          </div>
+          <div className="space-y-2">
+            {pendingRounds.map((round) => (
+              <div
+                key={round.id}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 rounded-lg"
+                style={{ backgroundColor: 'rgba(255, 255, 255, 0.05)' }}
+              >
+                <div>
+                  <p className="text-sm font-medium text-white">
+                    {round.data.course_name}
+                    <span className="text-white/50 font-normal">
+                      {' • '}
+                      {new Date(round.data.date).toLocaleDateString('en-IE', {
+                        day: 'numeric',
+                        month: 'short',
+                        year: 'numeric',
+                      })}
+                      {' • '}
+                      {round.data.holes.reduce((sum, h) => sum + (h.strokes || 0), 0)} strokes
+                    </span>
+                  </p>
+                  <p className="text-xs mt-0.5" style={{ color: PENDING_STATUS[round.status].color }}>
+                    {PENDING_STATUS[round.status].label}
+                    {round.lastError && ` - ${round.lastError}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {round.status === 'conflict' && (
+                    <button
+                      onClick={() => handleKeepPending(round)}
+                      className="px-3 py-1.5 rounded-lg text-xs font-semibold"
+                      style={{ backgroundColor: '#C9A227', color: '#0D4D2B' }}
+                    >
+                      Save Anyway
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleDiscardPending(round)}
+                    className="p-2 rounded-lg transition-colors hover:bg-red-500/20"
+                    title="Discard offline round"
+                  >
+                    <Trash2 className="w-4 h-4 text-red-400" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Rounds Table */}
       {rounds.length === 0 ? (
         <div className="glass-card p-8 text-center">
@@ -317,7 +463,14 @@ export default function RoundsPage() {
                       </td>
                     )}
                     <td className="py-4 px-6 text-sm font-medium text-white">
-                      {round.courses?.name || 'Unknown Course'}
+                      <Link href={`/dashboard/rounds/${round.id}`} className="hover:text-[#C9A227] transition-colors">
+                        {round.courses?.name || 'Unknown Course'}
+                      </Link>
+                      {round.scorecard_path && (
+                        <div className="mt-1">
+                          <ScorecardImageLink roundId={round.id} />
+                        </div>
+                      )}
                     </td>
                     <td className="py-4 px-6 text-center text-sm text-white/70">
                       {round.holes_played || 18}
@@ -327,7 +480,7 @@ export default function RoundsPage() {
                         {getWeatherIcon(round.weather)}
                         <div className="text-center">
                           <span className="text-xs text-white/70">{round.weather || '—'}</span>
-                          {(round.temp_c !== null || round.wind_speed_kph !== null) && (
+                          {(round.temp_c !== null || round.wind_speed_kph !== null || round.pcc !== null) && (
                             <div className="flex items-center justify-center gap-2 text-xs text-white/50">
                               {round.temp_c !== null && (
                                 <span className="flex items-center gap-0.5">
@@ -341,6 +494,14 @@ export default function RoundsPage() {
                                   {round.wind_speed_kph}kph
                                 </span>
                               )}
+                              {round.pcc !== null && (
+                                <span
+                                  style={{ color: round.pcc !== 0 ? '#C9A227' : undefined }}
+                                  title="Playing Conditions Calculation applied to the score differential"
+                                >
+                                  {formatPCC(round.pcc)}
+                                </span>
+                              )}
                             </div>
                           )}
                         </div>
@@ -356,8 +517,18 @@ export default function RoundsPage() {
                       >
                         {round.total_strokes ?? '—'}
                       </span>
+                      <div className="mt-1">{renderAttestationBadge(round)}</div>
                     </td>
                     <td className="py-4 px-6 text-center">
+                      {canDelete(round) && (
+                        <Link
+                          href={`/dashboard/rounds/${round.id}/edit`}
+                          className="inline-flex p-2 rounded-lg transition-colors hover:bg-white/10"
+                          title="Edit round"
+                        >
+                          <Pencil className="w-4 h-4" style={{ color: '#C9A227' }} />
+                        </Link>
+                      )}
                       {canDelete(round) && (
                         <button
                           onClick={() => handleDelete(round.id)}
@@ -385,9 +556,9 @@ export default function RoundsPage() {
               <div key={round.id} className="p-4">
                 <div className="flex justify-between items-start">
                   <div className="flex-1">
-                    <p className="font-medium text-white">
+                    <Link href={`/dashboard/rounds/${round.id}`} className="block font-medium text-white">
                       {round.courses?.name || 'Unknown Course'}
-                    </p>
+                    </Link>
                     {viewMode === 'all' && (
                       <p className="text-sm text-white/60">
                         {round.profiles?.full_name || 'Unknown'}
@@ -402,7 +573,11 @@ export default function RoundsPage() {
                       {' • '}
                       {round.holes_played || 18} holes
                     </p>
-                    {(round.weather || round.temp_c !== null || round.wind_speed_kph !== null) && (
+                    <div className="mt-1 flex items-center gap-3">
+                      {renderAttestationBadge(round)}
+                      {round.scorecard_path && <ScorecardImageLink roundId={round.id} />}
+                    </div>
+                    {(round.weather || round.temp_c !== null || round.wind_speed_kph !== null || round.pcc !== null) && (
                       <div className="flex items-center gap-2 mt-1 text-xs text-white/50">
                         {getWeatherIcon(round.weather)}
                         <span>{round.weather || ''}</span>
@@ -418,6 +593,11 @@ export default function RoundsPage() {
                             {round.wind_speed_kph}kph
                           </span>
                         )}
+                        {round.pcc !== null && (
+                          <span style={{ color: round.pcc !== 0 ? '#C9A227' : undefined }}>
+                            {formatPCC(round.pcc)}
+                          </span>
+                        )}
                       </div>
                     )}
                   </div>
@@ -428,6 +608,15 @@ export default function RoundsPage() {
                     >
                       {round.total_strokes ?? '—'}
                     </span>
+                    {canDelete(round) && (
+                      <Link
+                        href={`/dashboard/rounds/${round.id}/edit`}
+                        className="p-2 rounded-lg transition-colors hover:bg-white/10"
+                        title="Edit round"
+                      >
+                        <Pencil className="w-4 h-4" style={{ color: '#C9A227' }} />
+                      </Link>
+                    )}
                     {canDelete(round) && (
                       <button
                         onClick={() => handleDelete(round.id)}
@@ -3,6 +3,7 @@
 import { useState, useEffect, useMemo } from 'react'
 import { useRouter } from 'next/navigation'
 import { createClient } from '@/lib/supabase'
+import { COURSE_TYPES, COURSE_TYPE_CONFIG, CourseType, normalizeCourseType } from '@/lib/course-types'
 import {
   Users,
   Target,
@@ -26,8 +27,12 @@ import {
   Sparkles,
   Home,
   Plane,
-  Globe
+  Globe,
+  Palmtree
 } from 'lucide-react'
+import { countsTowardsView, getIncludeUnattested } from '@/lib/attestation'
+import { matchesRoundType, RoundTypeFilter, ROUND_TYPE_FILTER_OPTIONS } from '@/lib/round-types'
+import AttestationViewToggle from '@/components/AttestationViewToggle'
 
 // ============================================
 // TYPES
@@ -37,6 +42,7 @@ interface Profile {
   id: string
   full_name: string
   handicap_index: number | null
+  handicap_index_source: string | null
   home_club: string | null
 }
 
@@ -53,7 +59,7 @@ interface SquadMember {
 interface Course {
   id: string
   name: string
-  type: string | null
+  course_type: string | null
 }
 
 interface Round {
@@ -66,6 +72,8 @@ interface Round {
   weather: string | null
   is_home: boolean | null
   holes_played: number | null
+  attestation_status: string | null
+  round_type: string | null
 }
 
 interface PlayerStats {
@@ -77,10 +85,7 @@ interface PlayerStats {
   avgScoreCalm: number | null
   avgScoreWindy: number | null
   avgScoreRainy: number | null
-  avgScoreLinks: number | null
-  avgScoreParkland: number | null
-  avgScoreHeath: number | null
-  avgScoreCliffside: number | null
+  avgScoreByVenue: Record<VenueType, number | null>
   avgScoreHome: number | null // Average at home (Portmarnock)
   avgScoreAway: number | null // Average at away venues
   avgScoreToParHome: number | null // Normalized home score
@@ -102,7 +107,7 @@ const PGC_DARK_GREEN = '#0D4D2B'
 const PGC_GOLD = '#C9A227'
 
 type MatchCondition = 'calm' | 'windy' | 'rainy'
-type VenueType = 'links' | 'parkland' | 'heath' | 'cliffside'
+type VenueType = CourseType
 type HomeAwayFilter = 'all' | 'home' | 'away'
 type MatchFormat = '3_home' | '2_home' | '3_away' | '2_away'
 
@@ -125,13 +130,20 @@ const HOME_AWAY_CONFIG: Record<HomeAwayFilter, { label: string; color: string; d
   away: { label: 'Away', color: '#F59E0B', description: 'Away venues' },
 }
 
-const VENUE_CONFIG: Record<VenueType, { label: string; icon: typeof MapPin; color: string; description: string }> = {
-  links: { label: 'Links', icon: Waves, color: '#0EA5E9', description: 'Coastal, windswept' },
-  parkland: { label: 'Parkland', icon: TreePine, color: '#22C55E', description: 'Tree-lined, lush' },
-  heath: { label: 'Heath', icon: Mountain, color: '#A855F7', description: 'Open, heather' },
-  cliffside: { label: 'Cliffside', icon: MapPin, color: '#F59E0B', description: 'Dramatic terrain' },
+const VENUE_ICONS: Record<VenueType, typeof MapPin> = {
+  Links: Waves,
+  Parkland: TreePine,
+  Heathland: Mountain,
+  Cliffside: MapPin,
+  Desert: Sun,
+  Resort: Palmtree,
 }
 
+// Venue types are the shared course types
+const VENUE_CONFIG = Object.fromEntries(
+  COURSE_TYPES.map((type) => [type, { ...COURSE_TYPE_CONFIG[type], icon: VENUE_ICONS[type] }])
+) as Record<VenueType, { label: string; icon: typeof MapPin; color: string; description: string }>
+
 // Threshold for "significant" improvement (in strokes)
 const VENUE_SPECIALIST_THRESHOLD = 2
 
@@ -152,12 +164,14 @@ export default function SimulatorPage() {
   const [profiles, setProfiles] = useState<Profile[]>([])
   const [courses, setCourses] = useState<Course[]>([])
   const [rounds, setRounds] = useState<Round[]>([])
+  const [includeUnattested, setIncludeUnattested] = useState(true)
+  const [roundTypeFilter, setRoundTypeFilter] = useState<RoundTypeFilter>('all')
 
   // Selection State
   const [selectedSquad, setSelectedSquad] = useState<string>('')
   const [selectedPlayers, setSelectedPlayers] = useState<Set<string>>(new Set())
   const [matchCondition, setMatchCondition] = useState<MatchCondition>('calm')
-  const [venueType, setVenueType] = useState<VenueType>('links')
+  const [venueType, setVenueType] = useState<VenueType>('Links')
   const [matchFormat, setMatchFormat] = useState<MatchFormat>('3_home')
 
   // Derived from match format
@@ -217,9 +231,9 @@ export default function SimulatorPage() {
       const [squadsRes, membersRes, profilesRes, coursesRes, roundsRes] = await Promise.all([
         supabase.from('squads').select('id, name').order('name'),
         supabase.from('squad_members').select('squad_id, user_id'),
-        supabase.from('profiles').select('id, full_name, handicap_index, home_club'),
-        supabase.from('courses').select('id, name, type'),
-        supabase.from('rounds').select('id, user_id, course_id, date_of_round, total_strokes, total_par, weather, is_home, holes_played').order('date_of_round', { ascending: false }),
+        supabase.from('profiles').select('id, full_name, handicap_index, handicap_index_source, home_club'),
+        supabase.from('courses').select('id, name, course_type'),
+        supabase.from('rounds').select('id, user_id, course_id, date_of_round, total_strokes, total_par, weather, is_home, holes_played, attestation_status, round_type').order('date_of_round', { ascending: false }),
       ])
 
       if (squadsRes.error) console.error('Squads error:', JSON.stringify(squadsRes.error, null, 2))
@@ -233,6 +247,7 @@ export default function SimulatorPage() {
       setProfiles(profilesRes.data || [])
       setCourses(coursesRes.data || [])
       setRounds(roundsRes.data || [])
+      setIncludeUnattested(await getIncludeUnattested(supabase, 'simulator'))
 
     } catch (err) {
       console.error('Simulator error:', JSON.stringify(err, null, 2))
@@ -247,10 +262,11 @@ export default function SimulatorPage() {
 
   // Create course lookup maps
   const courseTypeMap = useMemo(() => {
-    const map = new Map<string, string>()
+    const map = new Map<string, VenueType>()
     courses.forEach(c => {
-      if (c.type) {
-        map.set(c.id, c.type.toLowerCase())
+      const type = normalizeCourseType(c.course_type)
+      if (type) {
+        map.set(c.id, type)
       }
     })
     return map
@@ -264,6 +280,14 @@ export default function SimulatorPage() {
     return map
   }, [courses])
 
+  // Rounds that count towards selection (attestation setting and round type)
+  const countedRounds = useMemo(
+    () => rounds.filter(r =>
+      countsTowardsView(r.attestation_status, includeUnattested) && matchesRoundType(r.round_type, roundTypeFilter)
+    ),
+    [rounds, includeUnattested, roundTypeFilter]
+  )
+
   // Get members of selected squad
   const squadPlayerIds = useMemo(() => {
     if (!selectedSquad) return []
@@ -290,7 +314,7 @@ export default function SimulatorPage() {
   const playerStats = useMemo((): PlayerStats[] => {
     return squadPlayerIds.map(playerId => {
       const profile = profiles.find(p => p.id === playerId)
-      const allPlayerRounds = rounds.filter(r => r.user_id === playerId && r.total_strokes && r.total_strokes > 0)
+      const allPlayerRounds = countedRounds.filter(r => r.user_id === playerId && r.total_strokes && r.total_strokes > 0)
 
       // Determine home/away using startsWith against player's home_club
       const playerHomeClub = profile?.home_club || ''
@@ -349,11 +373,8 @@ export default function SimulatorPage() {
       }
 
       // Calculate venue-specific averages (normalized)
-      const calcVenueAvg = (venue: string) => {
-        const venueRounds = playerRounds.filter(r => {
-          const courseType = courseTypeMap.get(r.course_id)?.toLowerCase() || ''
-          return courseType.includes(venue)
-        })
+      const calcVenueAvg = (venue: VenueType) => {
+        const venueRounds = playerRounds.filter(r => courseTypeMap.get(r.course_id) === venue)
         return calcNormalizedAvg(venueRounds)
       }
 
@@ -373,16 +394,16 @@ export default function SimulatorPage() {
       return {
         id: playerId,
         name: profile?.full_name || 'Unknown Player',
-        handicap: profile?.handicap_index || null,
+        // Only the WHS index calculated from rounds, never a self-reported one
+        handicap: profile?.handicap_index_source === 'calculated' ? profile.handicap_index : null,
         avgScore,
         avgScoreToPar,
         avgScoreCalm: calcConditionAvg('calm'),
         avgScoreWindy: calcConditionAvg('windy'),
         avgScoreRainy: calcConditionAvg('rainy'),
-        avgScoreLinks: calcVenueAvg('links'),
-        avgScoreParkland: calcVenueAvg('parkland'),
-        avgScoreHeath: calcVenueAvg('heath'),
-        avgScoreCliffside: calcVenueAvg('cliffside'),
+        avgScoreByVenue: Object.fromEntries(
+          COURSE_TYPES.map((type) => [type, calcVenueAvg(type)])
+        ) as Record<VenueType, number | null>,
         avgScoreHome,
         avgScoreAway,
         avgScoreToParHome,
@@ -396,7 +417,7 @@ export default function SimulatorPage() {
         venueDifferential,
       }
     }).sort((a, b) => (a.avgScore ?? 999) - (b.avgScore ?? 999))
-  }, [squadPlayerIds, profiles, rounds, courseTypeMap, courseNameMap, venueType, homeAwayFilter])
+  }, [squadPlayerIds, profiles, countedRounds, courseTypeMap, courseNameMap, venueType, homeAwayFilter])
 
   // Get selected players' stats
   const selectedPlayerStats = useMemo(() => {
@@ -423,15 +444,7 @@ export default function SimulatorPage() {
     }
 
     // Get venue-specific score for a player
-    const getVenueScore = (player: PlayerStats, venue: VenueType) => {
-      switch (venue) {
-        case 'links': return player.avgScoreLinks
-        case 'parkland': return player.avgScoreParkland
-        case 'heath': return player.avgScoreHeath
-        case 'cliffside': return player.avgScoreCliffside
-        default: return null
-      }
-    }
+    const getVenueScore = (player: PlayerStats, venue: VenueType) => player.avgScoreByVenue[venue]
 
     // Get condition-specific scores
     const getConditionScore = (player: PlayerStats) => {
@@ -512,12 +525,9 @@ export default function SimulatorPage() {
         : null
     }
 
-    const venueAverages: Record<VenueType, number | null> = {
-      links: calcTeamVenueAvg('links'),
-      parkland: calcTeamVenueAvg('parkland'),
-      heath: calcTeamVenueAvg('heath'),
-      cliffside: calcTeamVenueAvg('cliffside'),
-    }
+    const venueAverages = Object.fromEntries(
+      COURSE_TYPES.map((type) => [type, calcTeamVenueAvg(type)])
+    ) as Record<VenueType, number | null>
 
     // Find best comparison venue (different from selected)
     let venueComparison: { betterVenue: VenueType; worseVenue: VenueType; difference: number } | null = null
@@ -646,6 +656,14 @@ export default function SimulatorPage() {
               <Shield className="w-5 h-5" style={{ color: PGC_GOLD }} />
             </div>
             <p className="text-white/60 mt-1">Build your optimal Senior Cup lineup</p>
+            <div className="mt-2">
+              <AttestationViewToggle
+                view="simulator"
+                includeUnattested={includeUnattested}
+                isAdmin={isAdmin}
+                onChange={setIncludeUnattested}
+              />
+            </div>
           </div>
         </div>
       </div>
@@ -741,7 +759,7 @@ export default function SimulatorPage() {
                   {playerStats.map((player) => {
                     const isSelected = selectedPlayers.has(player.id)
                     const isDisabled = !isSelected && selectedPlayers.size >= requiredPlayers
-                    const venueScore = player[`avgScore${venueType.charAt(0).toUpperCase() + venueType.slice(1)}` as keyof PlayerStats] as number | null
+                    const venueScore = player.avgScoreByVenue[venueType]
 
                     return (
                       <button
@@ -892,6 +910,36 @@ export default function SimulatorPage() {
             </div>
           </div>
 
+          {/* Round Type Filter */}
+          <div
+            className="rounded-xl p-6"
+            style={{ backgroundColor: PGC_DARK_GREEN, border: `1px solid ${PGC_GOLD}40` }}
+          >
+            <h3 className="text-sm font-semibold uppercase tracking-wide mb-4" style={{ color: PGC_GOLD }}>
+              Rounds Counted
+            </h3>
+            <div className="flex flex-wrap gap-2">
+              {ROUND_TYPE_FILTER_OPTIONS.map((option) => {
+                const isActive = roundTypeFilter === option.value
+
+                return (
+                  <button
+                    key={option.value}
+                    onClick={() => setRoundTypeFilter(option.value)}
+                    className="px-3 py-1.5 rounded-lg text-xs font-medium transition-all"
+                    style={{
+                      backgroundColor: isActive ? `${PGC_GOLD}30` : 'rgba(255,255,255,0.05)',
+                      border: `1px solid ${isActive ? PGC_GOLD : 'transparent'}`,
+                      color: isActive ? PGC_GOLD : 'rgba(255,255,255,0.7)',
+                    }}
+                  >
+                    {option.label}
+                  </button>
+                )
+              })}
+            </div>
+          </div>
+
           {/* Venue Type Toggle */}
           <div
             className="rounded-xl p-6"
@@ -901,7 +949,7 @@ export default function SimulatorPage() {
               Venue Type
             </h3>
             <div className="grid grid-cols-2 gap-2">
-              {(Object.entries(VENUE_CONFIG) as [VenueType, typeof VENUE_CONFIG['links']][]).map(([key, config]) => {
+              {(Object.entries(VENUE_CONFIG) as [VenueType, typeof VENUE_CONFIG['Links']][]).map(([key, config]) => {
                 const Icon = config.icon
                 const isActive = venueType === key
 
@@ -1082,7 +1130,7 @@ export default function SimulatorPage() {
                         {analytics.courseSpecialist.name}
                       </p>
                       <p className="text-xs text-white/40 mt-1">
-                        Avg {analytics.courseSpecialist[`avgScore${venueType.charAt(0).toUpperCase() + venueType.slice(1)}` as keyof PlayerStats]} on {VENUE_CONFIG[venueType].label.toLowerCase()} courses
+                        Avg {analytics.courseSpecialist.avgScoreByVenue[venueType]} on {VENUE_CONFIG[venueType].label.toLowerCase()} courses
                       </p>
                     </>
                   ) : (
@@ -1168,7 +1216,7 @@ export default function SimulatorPage() {
 
               <div className="space-y-2">
                 {selectedPlayerStats.map((player, index) => {
-                  const venueScore = player[`avgScore${venueType.charAt(0).toUpperCase() + venueType.slice(1)}` as keyof PlayerStats] as number | null
+                  const venueScore = player.avgScoreByVenue[venueType]
                   const conditionScore = matchCondition === 'calm'
                     ? player.avgScoreCalm
                     : matchCondition === 'windy'
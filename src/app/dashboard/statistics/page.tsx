@@ -2,6 +2,9 @@
 
 import { useState, useEffect } from 'react'
 import { createClient } from '@/lib/supabase'
+import { ScoreBasis, SCORE_BASIS_OPTIONS } from '@/lib/scoring'
+import { formatTeeLabel } from '@/lib/course-tees'
+import { getCourseTypeColor, normalizeCourseType } from '@/lib/course-types'
 import Link from 'next/link'
 import {
   BarChart3,
@@ -13,6 +16,10 @@ import {
   Wind,
   MapPin,
   TreePine,
+  CircleDot,
+  Target,
+  LifeBuoy,
+  TrendingUp,
 } from 'lucide-react'
 
 // ============================================
@@ -24,6 +31,23 @@ interface HoleScore {
   strokes: number
 }
 
+interface HoleShotScore {
+  round_id: string
+  par: number
+  strokes: number
+  putts: number | null
+  gir: boolean | null
+}
+
+interface ShotStats {
+  puttsPerRound: number | null
+  girPercent: number | null
+  scramblingPercent: number | null
+  upAndDownPercent: number | null
+  girHoles: number
+  missedGreens: number
+}
+
 interface ScoringStats {
   par3Avg: number | null
   par4Avg: number | null
@@ -43,9 +67,41 @@ interface ConditionStat {
   color: string
 }
 
+// One course, whichever tees it was played from
+interface CourseStat {
+  courseId: string
+  label: string
+  avgScore: number
+  roundCount: number
+  tees: string[]
+}
+
+interface LoopHoleScore {
+  par: number
+  strokes: number | null
+  loop_id: string | null
+  loop_hole_number: number | null
+  course_loops: { venue: string; name: string } | null
+}
+
+// One nine-hole loop hole, across every course composition it was played in
+interface LoopHoleStat {
+  holeNumber: number
+  par: number
+  avgScore: number
+  timesPlayed: number
+}
+
+interface LoopStat {
+  loopId: string
+  label: string
+  holes: LoopHoleStat[]
+}
+
 interface EnvironmentalStats {
   byCourseType: ConditionStat[]
   byWeather: ConditionStat[]
+  byCourse: CourseStat[]
 }
 
 // ============================================
@@ -62,12 +118,15 @@ export default function MyStatisticsPage() {
   // My Performance state
   const [stats, setStats] = useState<ScoringStats | null>(null)
   const [envStats, setEnvStats] = useState<EnvironmentalStats | null>(null)
+  const [shotStats, setShotStats] = useState<ShotStats | null>(null)
+  const [loopStats, setLoopStats] = useState<LoopStat[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState('')
+  const [scoreBasis, setScoreBasis] = useState<ScoreBasis>('gross')
 
   useEffect(() => {
     fetchStatistics()
-  }, [])
+  }, [scoreBasis])
 
   const fetchStatistics = async () => {
     try {
@@ -80,10 +139,10 @@ export default function MyStatisticsPage() {
         return
       }
 
-      // Fetch user's rounds with course type and weather
+      // Fetch user's rounds with course, tees and weather
       const { data: rounds, error: roundsError } = await supabase
         .from('rounds')
-        .select('id, total_strokes, weather, courses(type)')
+        .select('id, total_strokes, adjusted_gross_score, weather, course_id, courses(course_type, name), course_tees(name, gender)')
         .eq('user_id', user.id)
 
       if (roundsError) {
@@ -100,8 +159,13 @@ export default function MyStatisticsPage() {
         return
       }
 
-      // Calculate environmental statistics
-      const environmentalStats = calculateEnvironmentalStats(rounds)
+      // Calculate environmental statistics on the selected score basis
+      const environmentalStats = calculateEnvironmentalStats(
+        rounds.map(r => ({
+          ...r,
+          total_strokes: scoreBasis === 'adjusted' ? r.adjusted_gross_score ?? r.total_strokes : r.total_strokes,
+        }))
+      )
       setEnvStats(environmentalStats)
 
       const roundIds = rounds.map(r => r.id)
@@ -109,7 +173,7 @@ export default function MyStatisticsPage() {
       // Fetch all round_scores for user's rounds
       const { data: scores, error: scoresError } = await supabase
         .from('round_scores')
-        .select('par, strokes')
+        .select('round_id, par, strokes, adjusted_strokes, putts, gir, loop_id, loop_hole_number, course_loops(venue, name)')
         .in('round_id', roundIds)
 
       if (scoresError) {
@@ -126,9 +190,24 @@ export default function MyStatisticsPage() {
       }
 
       // Calculate statistics
-      const calculatedStats = calculateScoringStats(scores as HoleScore[])
+      const holeScores: HoleScore[] = scores.map(s => ({
+        par: s.par,
+        strokes: scoreBasis === 'adjusted' ? s.adjusted_strokes ?? s.strokes : s.strokes,
+      }))
+      const calculatedStats = calculateScoringStats(holeScores)
       setStats(calculatedStats)
 
+      // Loop holes line up across the compositions they appear in
+      setLoopStats(calculateLoopStats(
+        (scores as unknown as (LoopHoleScore & { adjusted_strokes: number | null })[]).map(s => ({
+          ...s,
+          strokes: scoreBasis === 'adjusted' ? s.adjusted_strokes ?? s.strokes : s.strokes,
+        }))
+      ))
+
+      // Shot statistics always use the strokes actually played
+      setShotStats(calculateShotStats(scores))
+
     } catch (err) {
       console.error('Statistics error:', err)
       setError('An unexpected error occurred')
@@ -137,16 +216,6 @@ export default function MyStatisticsPage() {
     }
   }
 
-  // Course type colors
-  const courseTypeColors: Record<string, string> = {
-    'Links': '#3B82F6',
-    'Parkland': '#22C55E',
-    'Heathland': '#A855F7',
-    'Desert': '#F59E0B',
-    'Mountain': '#6366F1',
-    'Other': '#6B7280',
-  }
-
   // Weather colors
   const weatherColors: Record<string, string> = {
     'Sunny': '#F59E0B',
@@ -162,10 +231,11 @@ export default function MyStatisticsPage() {
   const calculateEnvironmentalStats = (rounds: any[]): EnvironmentalStats => {
     const courseTypeMap = new Map<string, number[]>()
     const weatherMap = new Map<string, number[]>()
+    const courseMap = new Map<string, { label: string; scores: number[]; tees: Set<string> }>()
 
     rounds.forEach(round => {
       if (round.total_strokes && round.total_strokes > 0) {
-        const courseType = round.courses?.type || 'Other'
+        const courseType = normalizeCourseType(round.courses?.course_type) || 'Other'
         if (!courseTypeMap.has(courseType)) {
           courseTypeMap.set(courseType, [])
         }
@@ -176,6 +246,16 @@ export default function MyStatisticsPage() {
           weatherMap.set(weather, [])
         }
         weatherMap.get(weather)!.push(round.total_strokes)
+
+        // Grouped by course, not by tee set
+        if (round.course_id) {
+          if (!courseMap.has(round.course_id)) {
+            courseMap.set(round.course_id, { label: round.courses?.name || 'Unknown Course', scores: [], tees: new Set() })
+          }
+          const course = courseMap.get(round.course_id)!
+          course.scores.push(round.total_strokes)
+          if (round.course_tees) course.tees.add(formatTeeLabel(round.course_tees))
+        }
       }
     })
 
@@ -184,7 +264,7 @@ export default function MyStatisticsPage() {
         label,
         avgScore: Math.round((scores.reduce((a, b) => a + b, 0) / scores.length) * 10) / 10,
         roundCount: scores.length,
-        color: courseTypeColors[label] || courseTypeColors['Other'],
+        color: getCourseTypeColor(label),
       }))
       .sort((a, b) => a.avgScore - b.avgScore)
 
@@ -197,7 +277,17 @@ export default function MyStatisticsPage() {
       }))
       .sort((a, b) => a.avgScore - b.avgScore)
 
-    return { byCourseType, byWeather }
+    const byCourse: CourseStat[] = Array.from(courseMap.entries())
+      .map(([courseId, { label, scores, tees }]) => ({
+        courseId,
+        label,
+        avgScore: Math.round((scores.reduce((a, b) => a + b, 0) / scores.length) * 10) / 10,
+        roundCount: scores.length,
+        tees: Array.from(tees).sort(),
+      }))
+      .sort((a, b) => b.roundCount - a.roundCount || a.avgScore - b.avgScore)
+
+    return { byCourseType, byWeather, byCourse }
   }
 
   const calculateScoringStats = (scores: HoleScore[]): ScoringStats => {
@@ -245,6 +335,78 @@ export default function MyStatisticsPage() {
     }
   }
 
+  const calculateShotStats = (scores: HoleShotScore[]): ShotStats | null => {
+    const playedScores = scores.filter(s => s.strokes && s.strokes > 0 && s.par)
+    const puttHoles = playedScores.filter(s => s.putts !== null)
+    const girHoles = playedScores.filter(s => s.gir !== null)
+
+    if (puttHoles.length === 0 && girHoles.length === 0) return null
+
+    // Putts per round, scaled to 18 holes for rounds with partial putt data
+    const puttsByRound = new Map<string, { putts: number; holes: number }>()
+    puttHoles.forEach(s => {
+      const entry = puttsByRound.get(s.round_id) || { putts: 0, holes: 0 }
+      entry.putts += s.putts!
+      entry.holes++
+      puttsByRound.set(s.round_id, entry)
+    })
+    const roundPutts = Array.from(puttsByRound.values()).map(r => (r.putts / r.holes) * 18)
+
+    // Scrambling and up-and-down only count greens that were missed
+    const greensHit = girHoles.filter(s => s.gir).length
+    const missedGreens = girHoles.filter(s => !s.gir)
+    const scrambles = missedGreens.filter(s => s.strokes <= s.par).length
+    const missedWithPutts = missedGreens.filter(s => s.putts !== null)
+    const upAndDowns = missedWithPutts.filter(s => s.putts! <= 1).length
+
+    const percent = (count: number, total: number) =>
+      total > 0 ? Math.round((count / total) * 1000) / 10 : null
+
+    return {
+      puttsPerRound: roundPutts.length > 0
+        ? Math.round((roundPutts.reduce((a, b) => a + b, 0) / roundPutts.length) * 10) / 10
+        : null,
+      girPercent: percent(greensHit, girHoles.length),
+      scramblingPercent: percent(scrambles, missedGreens.length),
+      upAndDownPercent: percent(upAndDowns, missedWithPutts.length),
+      girHoles: girHoles.length,
+      missedGreens: missedGreens.length,
+    }
+  }
+
+  const calculateLoopStats = (scores: LoopHoleScore[]): LoopStat[] => {
+    const loopMap = new Map<string, { label: string; holes: Map<number, { par: number; scores: number[] }> }>()
+
+    scores.forEach(score => {
+      if (!score.loop_id || !score.loop_hole_number || !score.strokes || score.strokes <= 0) return
+
+      if (!loopMap.has(score.loop_id)) {
+        const loop = score.course_loops
+        loopMap.set(score.loop_id, { label: loop ? `${loop.venue} ${loop.name}` : 'Unknown Loop', holes: new Map() })
+      }
+      const holes = loopMap.get(score.loop_id)!.holes
+      if (!holes.has(score.loop_hole_number)) {
+        holes.set(score.loop_hole_number, { par: score.par, scores: [] })
+      }
+      holes.get(score.loop_hole_number)!.scores.push(score.strokes)
+    })
+
+    return Array.from(loopMap.entries())
+      .map(([loopId, { label, holes }]) => ({
+        loopId,
+        label,
+        holes: Array.from(holes.entries())
+          .map(([holeNumber, { par, scores }]) => ({
+            holeNumber,
+            par,
+            avgScore: Math.round((scores.reduce((a, b) => a + b, 0) / scores.length) * 100) / 100,
+            timesPlayed: scores.length,
+          }))
+          .sort((a, b) => a.holeNumber - b.holeNumber),
+      }))
+      .sort((a, b) => a.label.localeCompare(b.label))
+  }
+
   const getDistribution = () => {
     if (!stats || stats.totalHoles === 0) return []
 
@@ -292,11 +454,28 @@ export default function MyStatisticsPage() {
           </h1>
           <p className="text-white/60 mt-1">Personal performance analysis</p>
         </div>
-        <div
-          className="w-12 h-12 rounded-xl flex items-center justify-center"
-          style={{ backgroundColor: 'rgba(201, 162, 39, 0.2)' }}
-        >
-          <BarChart3 className="w-6 h-6" style={{ color: PGC_GOLD }} />
+        <div className="flex items-center gap-3">
+          {/* Score Basis Toggle */}
+          <div className="flex gap-1 p-1 rounded-lg" style={{ backgroundColor: 'rgba(255, 255, 255, 0.05)' }}>
+            {SCORE_BASIS_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setScoreBasis(option.value)}
+                className={`px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                  scoreBasis === option.value ? 'text-[#0D4D2B]' : 'text-white/70 hover:text-white'
+                }`}
+                style={scoreBasis === option.value ? { backgroundColor: PGC_GOLD } : {}}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <div
+            className="w-12 h-12 rounded-xl flex items-center justify-center"
+            style={{ backgroundColor: 'rgba(201, 162, 39, 0.2)' }}
+          >
+            <BarChart3 className="w-6 h-6" style={{ color: PGC_GOLD }} />
+          </div>
         </div>
       </div>
 
@@ -408,6 +587,58 @@ export default function MyStatisticsPage() {
             </div>
           </div>
 
+          {/* Shot Statistics */}
+          {shotStats && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                {
+                  label: 'Putts per Round',
+                  sub: '18-hole average',
+                  value: shotStats.puttsPerRound !== null ? shotStats.puttsPerRound.toFixed(1) : '—',
+                  icon: CircleDot,
+                  color: '#22C55E',
+                },
+                {
+                  label: 'Greens in Regulation',
+                  sub: `${shotStats.girHoles} holes recorded`,
+                  value: shotStats.girPercent !== null ? `${shotStats.girPercent.toFixed(1)}%` : '—',
+                  icon: Target,
+                  color: PGC_GOLD,
+                },
+                {
+                  label: 'Scrambling',
+                  sub: `Par or better from ${shotStats.missedGreens} missed greens`,
+                  value: shotStats.scramblingPercent !== null ? `${shotStats.scramblingPercent.toFixed(1)}%` : '—',
+                  icon: LifeBuoy,
+                  color: '#3B82F6',
+                },
+                {
+                  label: 'Up & Down',
+                  sub: 'One putt after a missed green',
+                  value: shotStats.upAndDownPercent !== null ? `${shotStats.upAndDownPercent.toFixed(1)}%` : '—',
+                  icon: TrendingUp,
+                  color: '#A855F7',
+                },
+              ].map((item) => (
+                <div key={item.label} className="glass-card p-6">
+                  <div className="flex items-center gap-3 mb-3">
+                    <div
+                      className="w-10 h-10 rounded-lg flex items-center justify-center"
+                      style={{ backgroundColor: `${item.color}33` }}
+                    >
+                      <item.icon className="w-5 h-5" style={{ color: item.color }} />
+                    </div>
+                    <div>
+                      <p className="text-sm text-white/60 font-medium">{item.label}</p>
+                      <p className="text-xs text-white/40">{item.sub}</p>
+                    </div>
+                  </div>
+                  <p className="text-3xl font-bold text-white">{item.value}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Scoring Distribution */}
           <div className="glass-card p-6">
             <div className="flex items-center justify-between mb-6">
@@ -584,6 +815,85 @@ export default function MyStatisticsPage() {
             </div>
           )}
 
+          {/* Performance by Course */}
+          {envStats && envStats.byCourse.length > 0 && (
+            <div className="glass-card p-6">
+              <div className="mb-6">
+                <h2 className="text-lg font-semibold" style={{ color: PGC_GOLD }}>
+                  Performance by Course
+                </h2>
+                <p className="text-sm text-white/50">Average score at each course, across all tees played</p>
+              </div>
+
+              <div className="space-y-3">
+                {envStats.byCourse.map((item) => {
+                  const maxScore = Math.max(...envStats.byCourse.map(i => i.avgScore))
+                  const minScore = Math.min(...envStats.byCourse.map(i => i.avgScore))
+                  const range = maxScore - minScore || 1
+                  const barPercent = ((item.avgScore - minScore) / range) * 60 + 40
+
+                  return (
+                    <div key={item.courseId}>
+                      <div className="flex items-center justify-between mb-1">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <Flag className="w-3 h-3 flex-shrink-0" style={{ color: PGC_GOLD }} />
+                          <span className="text-sm text-white truncate">{item.label}</span>
+                          <span className="text-xs text-white/40 flex-shrink-0">({item.roundCount} rounds)</span>
+                        </div>
+                        <span className="text-sm font-bold" style={{ color: PGC_GOLD }}>{item.avgScore}</span>
+                      </div>
+                      <div className="h-2 rounded-full overflow-hidden" style={{ backgroundColor: 'rgba(255, 255, 255, 0.1)' }}>
+                        <div className="h-full rounded-full transition-all duration-500" style={{ width: `${barPercent}%`, backgroundColor: PGC_GOLD }} />
+                      </div>
+                      {item.tees.length > 0 && (
+                        <p className="text-xs text-white/40 mt-1">Tees: {item.tees.join(', ')}</p>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          )}
+
+          {/* Performance by Loop Hole */}
+          {loopStats.length > 0 && (
+            <div className="glass-card p-6">
+              <div className="mb-6">
+                <h2 className="text-lg font-semibold" style={{ color: PGC_GOLD }}>
+                  Performance by Loop Hole
+                </h2>
+                <p className="text-sm text-white/50">Average score on each nine, whichever course it was played as part of</p>
+              </div>
+
+              <div className="space-y-6">
+                {loopStats.map((loop) => (
+                  <div key={loop.loopId}>
+                    <h3 className="text-sm font-semibold text-white mb-3">{loop.label}</h3>
+                    <div className="grid grid-cols-3 sm:grid-cols-5 lg:grid-cols-9 gap-2">
+                      {loop.holes.map((hole) => {
+                        const toPar = hole.avgScore - hole.par
+
+                        return (
+                          <div
+                            key={hole.holeNumber}
+                            className="p-3 rounded-lg text-center"
+                            style={{ backgroundColor: 'rgba(255, 255, 255, 0.05)' }}
+                          >
+                            <p className="text-xs text-white/50">Hole {hole.holeNumber} • Par {hole.par}</p>
+                            <p className={`text-lg font-bold ${toPar <= 0 ? 'text-green-400' : toPar < 1 ? 'text-white' : 'text-orange-400'}`}>
+                              {hole.avgScore.toFixed(2)}
+                            </p>
+                            <p className="text-xs text-white/40">{hole.timesPlayed} played</p>
+                          </div>
+                        )
+                      })}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Performance Insight */}
           <div className="glass-card p-6">
             <h2 className="text-lg font-semibold mb-4" style={{ color: PGC_GOLD }}>
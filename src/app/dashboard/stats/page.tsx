@@ -2,7 +2,22 @@
 
 import { useState, useEffect, useMemo } from 'react'
 import { createClient } from '@/lib/supabase'
+import { ScoreBasis, SCORE_BASIS_OPTIONS } from '@/lib/scoring'
+import { matchesRoundType, RoundTypeFilter, ROUND_TYPE_FILTER_OPTIONS } from '@/lib/round-types'
+import { CourseType, getCourseTypeColor, normalizeCourseType } from '@/lib/course-types'
 import { useRouter } from 'next/navigation'
+import {
+  fromStoredStrokesGained,
+  perEighteenHoles,
+  StoredStrokesGained,
+  StrokesGainedBreakdown as Breakdown,
+  STROKES_GAINED_CATEGORIES,
+  sumStrokesGained,
+} from '@/lib/strokes-gained'
+import StrokesGainedBreakdown, {
+  formatStrokesGained,
+  getStrokesGainedColor,
+} from '@/components/StrokesGainedBreakdown'
 import {
   Users,
   TrendingUp,
@@ -12,6 +27,7 @@ import {
   Shield,
   ChevronDown,
   Activity,
+  Crosshair,
 } from 'lucide-react'
 import {
   BarChart,
@@ -34,12 +50,20 @@ interface RoundDetail {
   id: string
   dateOfRound: string
   totalStrokes: number
+  adjustedStrokes: number
   handicapDifferential: number | null
   weatherConditions: string | null
   windConditions: string | null
-  courseType: string | null
+  courseType: CourseType | null
   courseName: string | null
   coursePar: number | null
+  roundType: string | null
+  strokesGained: Breakdown | null       // Holes entered shot by shot only
+  strokesGainedHoles: number
+}
+
+interface StoredHoleStrokesGained extends StoredStrokesGained {
+  round_id: string
 }
 
 interface PlayerStats {
@@ -75,15 +99,6 @@ const CHART_COLORS = [
   '#EF4444', // Red
 ]
 
-const COURSE_TYPE_COLORS: Record<string, string> = {
-  Links: '#3B82F6',
-  Parkland: '#22C55E',
-  Heathland: '#A855F7',
-  Desert: '#F97316',
-  Resort: '#EC4899',
-  Unknown: '#6B7280',
-}
-
 const WEATHER_MAP: Record<string, string> = {
   sunny: 'Sun',
   clear: 'Sun',
@@ -151,6 +166,8 @@ export default function SquadInsightsPage() {
 
   // Filter state
   const [timeframeFilter, setTimeframeFilter] = useState<TimeframeFilter>('all')
+  const [scoreBasis, setScoreBasis] = useState<ScoreBasis>('gross')
+  const [roundTypeFilter, setRoundTypeFilter] = useState<RoundTypeFilter>('all')
 
   useEffect(() => {
     checkAuthAndFetch()
@@ -272,7 +289,29 @@ export default function SquadInsightsPage() {
         return
       }
 
-      // Step 5: Build player stats
+      // Step 5: Strokes gained from holes entered shot by shot
+      const roundIds = (rounds || []).map(r => r.id)
+      const strokesGainedByRound = new Map<string, Breakdown[]>()
+
+      if (roundIds.length > 0) {
+        const { data: sgScores, error: sgError } = await supabase
+          .from('round_scores')
+          .select('round_id, sg_off_the_tee, sg_approach, sg_around_green, sg_putting')
+          .in('round_id', roundIds)
+          .not('sg_putting', 'is', null)
+
+        if (sgError) {
+          console.error('Error fetching strokes gained:', sgError)
+        }
+
+        ;((sgScores || []) as StoredHoleStrokesGained[]).forEach(score => {
+          const breakdown = fromStoredStrokesGained(score)
+          if (!breakdown) return
+          strokesGainedByRound.set(score.round_id, [...(strokesGainedByRound.get(score.round_id) || []), breakdown])
+        })
+      }
+
+      // Step 6: Build player stats
       const playerStatsMap = new Map<string, PlayerStats>()
 
       profiles?.forEach(profile => {
@@ -304,12 +343,18 @@ export default function SquadInsightsPage() {
             id: round.id,
             dateOfRound: round.date_of_round,
             totalStrokes: round.total_strokes,
-            handicapDifferential: round.handicap_differential,
+            adjustedStrokes: round.adjusted_gross_score ?? round.total_strokes,
+            handicapDifferential: round.score_differential,
             weatherConditions: round.weather_conditions,
             windConditions: round.wind_conditions || null,
-            courseType: courseData?.course_type || null,
+            courseType: normalizeCourseType(courseData?.course_type),
             courseName: courseData?.name || null,
             coursePar: courseData?.par || null,
+            roundType: round.round_type || null,
+            strokesGained: strokesGainedByRound.has(round.id)
+              ? sumStrokesGained(strokesGainedByRound.get(round.id)!)
+              : null,
+            strokesGainedHoles: strokesGainedByRound.get(round.id)?.length || 0,
           })
         }
       })
@@ -354,6 +399,8 @@ export default function SquadInsightsPage() {
   const filteredPlayerStats = useMemo(() => {
     return squadPlayerStats.map(player => {
       const filteredRounds = filterRoundsByTimeframe(player.rounds, timeframeFilter)
+        .filter(r => matchesRoundType(r.roundType, roundTypeFilter))
+        .map(r => scoreBasis === 'adjusted' ? { ...r, totalStrokes: r.adjustedStrokes } : r)
       const scores = filteredRounds.map(r => r.totalStrokes)
       return {
         ...player,
@@ -365,7 +412,7 @@ export default function SquadInsightsPage() {
         bestScore: scores.length > 0 ? Math.min(...scores) : null,
       }
     })
-  }, [squadPlayerStats, timeframeFilter])
+  }, [squadPlayerStats, timeframeFilter, scoreBasis, roundTypeFilter])
 
   // Summary stats
   const summaryStats = useMemo(() => {
@@ -497,6 +544,30 @@ export default function SquadInsightsPage() {
     return { byAvgScore, byHandicap }
   }, [filteredPlayerStats])
 
+  // Strokes gained per 18 holes: each player, and the squad as a whole
+  const strokesGainedData = useMemo(() => {
+    const players = filteredPlayerStats
+      .map(player => {
+        const tracked = player.rounds.filter(r => r.strokesGained !== null)
+        const holes = tracked.reduce((sum, r) => sum + r.strokesGainedHoles, 0)
+        const total = sumStrokesGained(tracked.map(r => r.strokesGained!))
+        return {
+          userId: player.userId,
+          fullName: player.fullName,
+          holes,
+          total,
+          perEighteen: perEighteenHoles(total, holes),
+        }
+      })
+      .filter(p => p.perEighteen !== null)
+      .sort((a, b) => b.perEighteen!.total - a.perEighteen!.total)
+
+    const squadHoles = players.reduce((sum, p) => sum + p.holes, 0)
+    const squad = perEighteenHoles(sumStrokesGained(players.map(p => p.total)), squadHoles)
+
+    return { players, squad, squadHoles }
+  }, [filteredPlayerStats])
+
   // ============================================
   // RENDER HELPERS
   // ============================================
@@ -553,6 +624,48 @@ export default function SquadInsightsPage() {
             Admin
           </div>
 
+          {/* Score Basis Filter */}
+          <div className="relative">
+            <select
+              value={scoreBasis}
+              onChange={(e) => setScoreBasis(e.target.value as ScoreBasis)}
+              className="appearance-none px-4 py-2 pr-10 rounded-lg text-sm font-medium text-white cursor-pointer focus:outline-none focus:ring-2"
+              style={{
+                backgroundColor: 'rgba(255, 255, 255, 0.1)',
+                borderColor: PGC_GOLD,
+                border: '1px solid rgba(201, 162, 39, 0.3)',
+              }}
+            >
+              {SCORE_BASIS_OPTIONS.map(option => (
+                <option key={option.value} value={option.value} style={{ backgroundColor: PGC_DARK_GREEN }}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-white/60 pointer-events-none" />
+          </div>
+
+          {/* Round Type Filter */}
+          <div className="relative">
+            <select
+              value={roundTypeFilter}
+              onChange={(e) => setRoundTypeFilter(e.target.value as RoundTypeFilter)}
+              className="appearance-none px-4 py-2 pr-10 rounded-lg text-sm font-medium text-white cursor-pointer focus:outline-none focus:ring-2"
+              style={{
+                backgroundColor: 'rgba(255, 255, 255, 0.1)',
+                borderColor: PGC_GOLD,
+                border: '1px solid rgba(201, 162, 39, 0.3)',
+              }}
+            >
+              {ROUND_TYPE_FILTER_OPTIONS.map(option => (
+                <option key={option.value} value={option.value} style={{ backgroundColor: PGC_DARK_GREEN }}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-white/60 pointer-events-none" />
+          </div>
+
           {/* Timeframe Filter */}
           <div className="relative">
             <select
@@ -843,7 +956,7 @@ export default function SquadInsightsPage() {
                           key={type}
                           dataKey={type}
                           stackId="a"
-                          fill={COURSE_TYPE_COLORS[type] || '#6B7280'}
+                          fill={getCourseTypeColor(type)}
                           radius={[0, 0, 0, 0]}
                         />
                       ))}
@@ -1032,6 +1145,76 @@ export default function SquadInsightsPage() {
               </div>
             </div>
           </div>
+
+          {/* ============================================ */}
+          {/* STROKES GAINED */}
+          {/* ============================================ */}
+          <div className="glass-card p-5">
+            <h3 className="text-lg font-semibold mb-1" style={{ color: PGC_GOLD }}>
+              Strokes Gained
+            </h3>
+            <p className="text-sm text-white/50 mb-4">
+              Per 18 holes against the tour baseline, from holes entered shot by shot
+            </p>
+
+            {!strokesGainedData.squad ? (
+              <div className="h-32 flex flex-col items-center justify-center text-white/40">
+                <Crosshair className="w-6 h-6 mb-2" />
+                <p className="text-sm">No shot-by-shot rounds in this timeframe</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {/* Squad Average */}
+                <div>
+                  <p className="text-sm font-medium text-white/80 mb-3">Squad</p>
+                  <StrokesGainedBreakdown
+                    breakdown={strokesGainedData.squad}
+                    caption={`${strokesGainedData.squadHoles} holes tracked`}
+                  />
+                </div>
+
+                {/* By Player */}
+                <div className="lg:col-span-2 overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr style={{ borderBottom: '1px solid rgba(201, 162, 39, 0.3)' }}>
+                        <th className="py-2 px-2 text-left font-semibold" style={{ color: PGC_GOLD }}>Player</th>
+                        {STROKES_GAINED_CATEGORIES.map(category => (
+                          <th
+                            key={category.key}
+                            className="py-2 px-2 text-center font-semibold"
+                            style={{ color: PGC_GOLD }}
+                            title={category.label}
+                          >
+                            {category.shortLabel}
+                          </th>
+                        ))}
+                        <th className="py-2 px-2 text-center font-semibold" style={{ color: PGC_GOLD }}>Total</th>
+                        <th className="py-2 px-2 text-center font-semibold" style={{ color: PGC_GOLD }}>Holes</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {strokesGainedData.players.map(player => (
+                        <tr key={player.userId} style={{ borderBottom: '1px solid rgba(255, 255, 255, 0.05)' }}>
+                          <td className="py-2 px-2 text-white truncate">{player.fullName}</td>
+                          {[...STROKES_GAINED_CATEGORIES.map(c => c.key), 'total' as const].map(key => (
+                            <td
+                              key={key}
+                              className="py-2 px-2 text-center font-medium"
+                              style={{ color: getStrokesGainedColor(player.perEighteen![key]) }}
+                            >
+                              {formatStrokesGained(player.perEighteen![key])}
+                            </td>
+                          ))}
+                          <td className="py-2 px-2 text-center text-white/50">{player.holes}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </div>
         </>
       )}
     </div>
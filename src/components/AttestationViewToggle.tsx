@@ -0,0 +1,73 @@
+'use client'
+
+import { useState } from 'react'
+import { ClipboardCheck } from 'lucide-react'
+import { setIncludeUnattested } from '@/app/actions/attestation'
+import { AttestationView, ATTESTATION_VIEWS } from '@/lib/attestation'
+
+// ============================================
+// TYPES
+// ============================================
+
+interface AttestationViewToggleProps {
+  view: AttestationView
+  includeUnattested: boolean
+  isAdmin: boolean
+  onChange: (includeUnattested: boolean) => void
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+
+/**
+ * Whether rounds still awaiting their marker count in a view.
+ * Admins can switch it; everyone else just sees which rounds are counted.
+ */
+export default function AttestationViewToggle({ view, includeUnattested, isAdmin, onChange }: AttestationViewToggleProps) {
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const handleToggle = async () => {
+    setIsSaving(true)
+    setError('')
+    const result = await setIncludeUnattested(view, !includeUnattested)
+    if (result.success) {
+      onChange(!includeUnattested)
+    } else {
+      setError(result.error || 'Failed to update setting')
+    }
+    setIsSaving(false)
+  }
+
+  const label = includeUnattested ? 'All rounds except disputed' : 'Attested rounds only'
+
+  if (!isAdmin) {
+    return (
+      <span className="inline-flex items-center gap-1.5 text-xs text-white/50">
+        <ClipboardCheck className="w-3.5 h-3.5" />
+        {label}
+      </span>
+    )
+  }
+
+  return (
+    <div className="inline-flex items-center gap-2 text-xs">
+      <button
+        onClick={handleToggle}
+        disabled={isSaving}
+        className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50"
+        style={{
+          border: '1px solid rgba(201, 162, 39, 0.4)',
+          backgroundColor: includeUnattested ? 'transparent' : 'rgba(201, 162, 39, 0.2)',
+          color: includeUnattested ? 'rgba(255, 255, 255, 0.7)' : '#C9A227',
+        }}
+        title={`Admin: choose whether unattested rounds count in the ${ATTESTATION_VIEWS[view]}`}
+      >
+        <ClipboardCheck className="w-3.5 h-3.5" />
+        {label}
+      </button>
+      {error && <span className="text-red-300">{error}</span>}
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClient } from '@/lib/supabase'
+import { pickRatingVersion, RatingVersion } from '@/lib/course-ratings'
+
+// ============================================
+// TYPES
+// ============================================
+
+interface CourseRatingHistoryProps {
+  courseId: string
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const PGC_GOLD = '#C9A227'
+
+// ============================================
+// HELPERS
+// ============================================
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-IE', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  })
+
+// ============================================
+// COMPONENT
+// ============================================
+
+/**
+ * The course's dated ratings, newest first. Rounds use the rating in force on the day they were played.
+ * Shown to admins in the course edit modal.
+ */
+export default function CourseRatingHistory({ courseId }: CourseRatingHistoryProps) {
+  const [versions, setVersions] = useState<RatingVersion[]>([])
+
+  useEffect(() => {
+    const load = async () => {
+      const { data } = await createClient()
+        .from('course_ratings')
+        .select('id, course_id, tee_id, rating, slope, effective_from')
+        .eq('course_id', courseId)
+        .is('tee_id', null)
+        .order('effective_from', { ascending: false })
+      setVersions((data || []) as RatingVersion[])
+    }
+    load()
+  }, [courseId])
+
+  if (versions.length === 0) return null
+
+  const current = pickRatingVersion(versions, null, new Date().toISOString().split('T')[0])
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-white/50">Rating history</p>
+      {versions.map((version) => (
+        <div key={version.id} className="flex items-center justify-between text-xs text-white/70">
+          <span>From {formatDate(version.effective_from)}</span>
+          <span>
+            Rating {version.rating ?? '—'} • Slope {version.slope ?? '—'}
+            {version.id === current?.id && (
+              <span className="ml-2 font-semibold" style={{ color: PGC_GOLD }}>Current</span>
+            )}
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,370 @@
+'use client'
+
+import { useCallback, useState, useEffect } from 'react'
+import { Loader2, Pencil, Plus, Trash2 } from 'lucide-react'
+import { createClient } from '@/lib/supabase'
+import { deleteCourseTee, saveCourseTee } from '@/app/actions/course-management'
+import { CourseTee, formatTeeLabel, TEE_GENDERS, TEE_NAMES, TeeGender } from '@/lib/course-tees'
+
+// ============================================
+// TYPES
+// ============================================
+
+interface CourseTeesEditorProps {
+  courseId: string
+}
+
+interface TeeForm {
+  id: string | null
+  name: string
+  gender: TeeGender
+  par: string
+  rating: string
+  slope: string
+  yardages: Record<number, string>
+  effectiveFrom: string             // Date a changed rating or slope applies from
+}
+
+interface TeeWithYardages extends CourseTee {
+  yardages: Record<number, number>
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const PGC_GOLD = '#C9A227'
+const PGC_DARK_GREEN = '#0D4D2B'
+
+const EMPTY_FORM: TeeForm = {
+  id: null,
+  name: 'White',
+  gender: 'men',
+  par: '',
+  rating: '',
+  slope: '',
+  yardages: {},
+  effectiveFrom: '',
+}
+
+const inputStyle = { border: `1px solid ${PGC_GOLD}50`, '--tw-ring-color': PGC_GOLD } as React.CSSProperties
+
+// ============================================
+// COMPONENT
+// ============================================
+
+/**
+ * The tee sets a course is rated from, each with its own rating, slope, par and yardages.
+ * Shown to admins in the course edit modal.
+ */
+export default function CourseTeesEditor({ courseId }: CourseTeesEditorProps) {
+  const [tees, setTees] = useState<TeeWithYardages[]>([])
+  const [courseHoles, setCourseHoles] = useState<{ hole_number: number; distance: number | null }[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [form, setForm] = useState<TeeForm | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  const loadTees = useCallback(async () => {
+    const supabase = createClient()
+    const { data: teeData } = await supabase
+      .from('course_tees')
+      .select('id, course_id, name, gender, par, rating, slope, course_tee_holes(hole_number, distance)')
+      .eq('course_id', courseId)
+      .order('gender')
+      .order('name')
+
+    setTees(
+      ((teeData || []) as (CourseTee & { course_tee_holes: { hole_number: number; distance: number }[] })[]).map(
+        ({ course_tee_holes, ...tee }) => ({
+          ...tee,
+          yardages: Object.fromEntries((course_tee_holes || []).map((h) => [h.hole_number, h.distance])),
+        })
+      )
+    )
+  }, [courseId])
+
+  useEffect(() => {
+    const load = async () => {
+      const supabase = createClient()
+      const { data: holeData } = await supabase
+        .from('course_holes')
+        .select('hole_number, distance')
+        .eq('course_id', courseId)
+        .order('hole_number')
+      setCourseHoles(holeData || [])
+
+      await loadTees()
+      setIsLoading(false)
+    }
+    load()
+  }, [courseId, loadTees])
+
+  // ============================================
+  // HANDLERS
+  // ============================================
+
+  const openForm = (tee: TeeWithYardages | null) => {
+    const today = new Date().toISOString().split('T')[0]
+    setError('')
+    setForm(
+      tee
+        ? {
+            id: tee.id,
+            name: tee.name,
+            gender: tee.gender,
+            par: tee.par?.toString() || '',
+            rating: tee.rating?.toString() || '',
+            slope: tee.slope?.toString() || '',
+            yardages: Object.fromEntries(Object.entries(tee.yardages).map(([hole, d]) => [hole, d.toString()])),
+            effectiveFrom: today,
+          }
+        : { ...EMPTY_FORM, effectiveFrom: today }
+    )
+  }
+
+  const handleSave = async () => {
+    if (!form) return
+
+    setBusyId(form.id || 'new')
+    setError('')
+    const result = await saveCourseTee(
+      courseId,
+      {
+        name: form.name,
+        gender: form.gender,
+        par: form.par ? parseInt(form.par) : null,
+        rating: form.rating ? parseFloat(form.rating) : null,
+        slope: form.slope ? parseInt(form.slope) : null,
+        yardages: Object.entries(form.yardages)
+          .filter(([, distance]) => distance !== '')
+          .map(([hole, distance]) => ({ hole_number: Number(hole), distance: parseInt(distance) })),
+        rating_effective_from: form.effectiveFrom || undefined,
+      },
+      form.id || undefined
+    )
+
+    if (result.success) {
+      await loadTees()
+      setForm(null)
+    } else {
+      setError(result.error || 'Failed to save tees')
+    }
+    setBusyId(null)
+  }
+
+  const handleDelete = async (tee: TeeWithYardages) => {
+    if (!window.confirm(`Delete the ${formatTeeLabel(tee)} tees?`)) return
+
+    setBusyId(tee.id)
+    setError('')
+    const result = await deleteCourseTee(tee.id)
+
+    if (result.success) {
+      setTees((prev) => prev.filter((t) => t.id !== tee.id))
+    } else {
+      setError(result.error || 'Failed to delete tees')
+    }
+    setBusyId(null)
+  }
+
+  // ============================================
+  // RENDER
+  // ============================================
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-white/50">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading tees...
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold" style={{ color: PGC_GOLD }}>Tees</h3>
+        {!form && (
+          <button
+            onClick={() => openForm(null)}
+            className="inline-flex items-center gap-1 text-xs font-medium hover:underline"
+            style={{ color: PGC_GOLD }}
+          >
+            <Plus className="w-3 h-3" />
+            Add Tees
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div
+          className="p-3 rounded-lg"
+          style={{
+            backgroundColor: 'rgba(239, 68, 68, 0.2)',
+            border: '1px solid rgba(239, 68, 68, 0.5)',
+          }}
+        >
+          <span className="text-red-200 text-sm">{error}</span>
+        </div>
+      )}
+
+      {tees.length === 0 && !form && (
+        <p className="text-xs text-white/50">No tees rated yet. Rounds use the course rating and slope.</p>
+      )}
+
+      {/* Existing Tee Sets */}
+      {tees.map((tee) => (
+        <div
+          key={tee.id}
+          className="flex items-center justify-between gap-3 p-3 rounded-lg"
+          style={{ backgroundColor: 'rgba(255, 255, 255, 0.05)' }}
+        >
+          <div className="min-w-0">
+            <p className="text-sm text-white font-medium">{formatTeeLabel(tee)}</p>
+            <p className="text-xs text-white/50">
+              Par {tee.par ?? '—'} • Rating {tee.rating ?? '—'} • Slope {tee.slope ?? '—'}
+              {Object.keys(tee.yardages).length > 0 &&
+                ` • ${Object.values(tee.yardages).reduce((sum, d) => sum + d, 0)} yds`}
+            </p>
+          </div>
+          <div className="flex items-center gap-1 flex-shrink-0">
+            <button
+              onClick={() => openForm(tee)}
+              className="p-2 rounded-lg transition-colors hover:bg-white/10"
+              title="Edit tees"
+            >
+              <Pencil className="w-4 h-4" style={{ color: PGC_GOLD }} />
+            </button>
+            <button
+              onClick={() => handleDelete(tee)}
+              disabled={busyId === tee.id}
+              className="p-2 rounded-lg transition-colors hover:bg-red-500/20 disabled:opacity-50"
+              title="Delete tees"
+            >
+              <Trash2 className="w-4 h-4 text-red-400" />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {/* Add / Edit Tee Set */}
+      {form && (
+        <div className="p-3 rounded-lg space-y-3" style={{ border: `1px solid ${PGC_GOLD}50` }}>
+          <div className="grid grid-cols-2 gap-3">
+            <select
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className="w-full px-3 py-2 rounded-lg bg-white/10 text-white text-sm focus:outline-none focus:ring-2"
+              style={inputStyle}
+            >
+              {[...new Set([...TEE_NAMES, form.name])].map((name) => (
+                <option key={name} value={name} style={{ backgroundColor: PGC_DARK_GREEN }}>
+                  {name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={form.gender}
+              onChange={(e) => setForm({ ...form, gender: e.target.value as TeeGender })}
+              className="w-full px-3 py-2 rounded-lg bg-white/10 text-white text-sm focus:outline-none focus:ring-2"
+              style={inputStyle}
+            >
+              {(Object.keys(TEE_GENDERS) as TeeGender[]).map((gender) => (
+                <option key={gender} value={gender} style={{ backgroundColor: PGC_DARK_GREEN }}>
+                  {TEE_GENDERS[gender].label} rating
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <input
+              type="number"
+              value={form.par}
+              onChange={(e) => setForm({ ...form, par: e.target.value })}
+              className="w-full px-3 py-2 rounded-lg bg-white/10 text-white text-sm text-center placeholder-white/30 focus:outline-none focus:ring-2"
+              style={inputStyle}
+              placeholder="Par"
+            />
+            <input
+              type="number"
+              step="0.1"
+              value={form.rating}
+              onChange={(e) => setForm({ ...form, rating: e.target.value })}
+              className="w-full px-3 py-2 rounded-lg bg-white/10 text-white text-sm text-center placeholder-white/30 focus:outline-none focus:ring-2"
+              style={inputStyle}
+              placeholder="Rating"
+            />
+            <input
+              type="number"
+              value={form.slope}
+              onChange={(e) => setForm({ ...form, slope: e.target.value })}
+              className="w-full px-3 py-2 rounded-lg bg-white/10 text-white text-sm text-center placeholder-white/30 focus:outline-none focus:ring-2"
+              style={inputStyle}
+              placeholder="Slope"
+              min={55}
+              max={155}
+            />
+          </div>
+
+          {/* Re-rating (earlier rounds keep the rating of their day) */}
+          {form.id && (
+            <label className="flex items-center justify-between gap-3 text-xs text-white/50">
+              Rating applies from
+              <input
+                type="date"
+                value={form.effectiveFrom}
+                onChange={(e) => setForm({ ...form, effectiveFrom: e.target.value })}
+                className="px-3 py-1.5 rounded-lg bg-white/10 text-white text-sm focus:outline-none focus:ring-2"
+                style={inputStyle}
+              />
+            </label>
+          )}
+
+          {/* Yardages (blank holes use the course distance shown) */}
+          {courseHoles.length > 0 && (
+            <div>
+              <p className="text-xs text-white/50 mb-1">Yardages</p>
+              <div className="grid grid-cols-9 gap-1">
+                {courseHoles.map((hole) => (
+                  <input
+                    key={hole.hole_number}
+                    type="number"
+                    value={form.yardages[hole.hole_number] ?? ''}
+                    onChange={(e) =>
+                      setForm({ ...form, yardages: { ...form.yardages, [hole.hole_number]: e.target.value } })
+                    }
+                    className="w-full p-1 rounded text-center text-xs bg-white/10 text-white placeholder-white/30"
+                    style={inputStyle}
+                    placeholder={hole.distance ? String(hole.distance) : String(hole.hole_number)}
+                    title={`Hole ${hole.hole_number}`}
+                    min={1}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-2 justify-end">
+            <button
+              onClick={() => setForm(null)}
+              className="px-3 py-1.5 rounded-lg text-sm text-white/70 hover:bg-white/10"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={busyId !== null}
+              className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-semibold disabled:opacity-50"
+              style={{ backgroundColor: PGC_GOLD, color: PGC_DARK_GREEN }}
+            >
+              {busyId !== null && <Loader2 className="w-3 h-3 animate-spin" />}
+              {form.id ? 'Save Tees' : 'Add Tees'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
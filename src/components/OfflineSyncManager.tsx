@@ -0,0 +1,104 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { CloudUpload } from 'lucide-react'
+import { saveRound } from '@/app/actions/save-round'
+import { createClient } from '@/lib/supabase'
+import {
+  getPendingRounds,
+  isOfflineQueueAvailable,
+  PendingRound,
+  PENDING_ROUNDS_EVENT,
+  syncPendingRounds,
+  SyncSummary,
+} from '@/lib/offline-queue'
+
+// ============================================
+// HELPERS
+// ============================================
+
+// Submit one queued round through the normal save path. An identical card already
+// saved (e.g. entered again on another device) means there is nothing left to sync.
+export const submitPendingRound = async (round: PendingRound) => {
+  const result = await saveRound(round.data, {
+    clientRef: round.id,
+    allowConflict: round.allowConflict,
+    playerId: round.userId,
+  })
+  return result.duplicateOf ? { success: true } : result
+}
+
+// The signed-in player, from the session stored on the device (works offline)
+export const getSignedInUserId = async () => {
+  const { data: { session } } = await createClient().auth.getSession()
+  return session?.user.id ?? null
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+
+/**
+ * Submits the signed-in player's rounds saved offline whenever the app starts
+ * or comes back online. Shows a small banner while rounds are waiting to sync.
+ */
+export default function OfflineSyncManager() {
+  const isSyncing = useRef(false)
+  const [pendingCount, setPendingCount] = useState(0)
+  const [lastSync, setLastSync] = useState<SyncSummary | null>(null)
+
+  useEffect(() => {
+    if (!isOfflineQueueAvailable()) return
+
+    const refreshCount = async () => {
+      const userId = await getSignedInUserId()
+      const pending = userId ? await getPendingRounds(userId) : []
+      setPendingCount(pending.filter((r) => r.status !== 'conflict' || r.allowConflict).length)
+    }
+
+    const sync = async () => {
+      if (isSyncing.current || !navigator.onLine) return
+      isSyncing.current = true
+      try {
+        const userId = await getSignedInUserId()
+        if (!userId) return
+        const summary = await syncPendingRounds(userId, submitPendingRound)
+        if (summary.synced > 0) setLastSync(summary)
+      } catch (error) {
+        console.error('[OfflineSync] Sync failed:', error)
+      } finally {
+        isSyncing.current = false
+        refreshCount()
+      }
+    }
+
+    sync()
+    window.addEventListener('online', sync)
+    window.addEventListener(PENDING_ROUNDS_EVENT, refreshCount)
+    return () => {
+      window.removeEventListener('online', sync)
+      window.removeEventListener(PENDING_ROUNDS_EVENT, refreshCount)
+    }
+  }, [])
+
+  // Clear the "synced" note after a few seconds
+  useEffect(() => {
+    if (!lastSync) return
+    const timer = setTimeout(() => setLastSync(null), 4000)
+    return () => clearTimeout(timer)
+  }, [lastSync])
+
+  if (pendingCount === 0 && !lastSync) return null
+
+  return (
+    <div
+      className="fixed bottom-4 right-4 z-40 flex items-center gap-2 px-4 py-2 rounded-full text-sm shadow-lg"
+      style={{ backgroundColor: '#0D4D2B', border: '1px solid rgba(201, 162, 39, 0.5)', color: '#C9A227' }}
+    >
+      <CloudUpload className="w-4 h-4" />
+      {pendingCount > 0
+        ? `${pendingCount} round${pendingCount === 1 ? '' : 's'} waiting to sync`
+        : `${lastSync!.synced} offline round${lastSync!.synced === 1 ? '' : 's'} synced`}
+    </div>
+  )
+}
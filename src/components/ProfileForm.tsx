@@ -5,9 +5,10 @@ import { updateProfile, UpdateProfileData } from '@/app/actions/update-profile'
 
 interface ProfileFormProps {
   initialData: UpdateProfileData
+  handicapCalculated?: boolean
 }
 
-export default function ProfileForm({ initialData }: ProfileFormProps) {
+export default function ProfileForm({ initialData, handicapCalculated = false }: ProfileFormProps) {
   const [fullName, setFullName] = useState(initialData.full_name)
   const [homeClub, setHomeClub] = useState(initialData.home_club)
   const [handicapIndex, setHandicapIndex] = useState(
@@ -93,10 +94,16 @@ export default function ProfileForm({ initialData }: ProfileFormProps) {
             step="0.1"
             value={handicapIndex}
             onChange={(e) => setHandicapIndex(e.target.value)}
-            className="w-full px-4 py-3 rounded-lg border focus:outline-none focus:ring-2 focus:ring-[#C9A227]"
+            readOnly={handicapCalculated}
+            className={`w-full px-4 py-3 rounded-lg border focus:outline-none focus:ring-2 focus:ring-[#C9A227] ${handicapCalculated ? 'opacity-60 cursor-not-allowed' : ''}`}
             style={inputStyle}
             placeholder="e.g. 12.4"
           />
+          <p className="text-xs text-white/50 mt-1">
+            {handicapCalculated
+              ? 'Calculated from your rounds (best 8 of your last 20 score differentials)'
+              : 'Used until you have 3 rounds on rated courses, then calculated automatically'}
+          </p>
         </div>
 
         {/* GUI Number */}
@@ -1,11 +1,41 @@
 'use client'
 
-import { useState, useMemo, useEffect, useRef } from 'react'
+import { Fragment, useState, useMemo, useEffect, useRef } from 'react'
 import { useRouter } from 'next/navigation'
-import { Save, Loader2, Trophy, CheckCircle, Search, ChevronDown } from 'lucide-react'
-import { GeminiExtractedData } from '@/app/actions/gemini-upload'
+import { Save, Loader2, Trophy, CheckCircle, Search, ChevronDown, BarChart3, Crosshair, Plus, X, TriangleAlert } from 'lucide-react'
+import { ConfidenceFlag, ExtractedScorecard, ExtractionConfidence } from '@/app/actions/extract-scorecard'
 import { saveRound } from '@/app/actions/save-round'
+import { updateRound } from '@/app/actions/round-management'
 import { createClient } from '@/lib/supabase'
+import { isNetworkError, isOfflineQueueAvailable, queueRound } from '@/lib/offline-queue'
+import {
+  calculateCourseHandicap,
+  calculatePlayingHandicap,
+  PlayingFormat,
+  PLAYING_FORMATS,
+} from '@/lib/handicap'
+import { isGreenInRegulation } from '@/lib/scoring'
+import { FAIRWAY_OPTIONS, FairwayResult, HoleShotStats } from '@/lib/rounds'
+import { GolfEvent, RoundType, ROUND_TYPES } from '@/lib/round-types'
+import { checkParsAgainstCourse } from '@/lib/scorecard-validation'
+import {
+  CourseHoleProfile,
+  CourseMatch,
+  pickAutoMatch,
+  rankCourseMatches,
+  SUGGESTION_THRESHOLD,
+} from '@/lib/course-matching'
+import { savePendingScorecard } from '@/lib/pending-scorecard'
+import { applyTeeYardages, CourseTee, formatTeeLabel, pickDefaultTee, TeeHoleYardage } from '@/lib/course-tees'
+import { pickRatingVersion, RatingVersion } from '@/lib/course-ratings'
+import {
+  calculateHoleStrokesGained,
+  getShotStrokes,
+  ShotInput,
+  ShotLie,
+  SHOT_LIES,
+  validateShots,
+} from '@/lib/strokes-gained'
 
 // ============================================
 // TYPES
@@ -17,11 +47,16 @@ interface CourseOption {
   id: string
   name: string
   hole_count: 9 | 18
+  rating: number | null
   slope: number | null
   standard_scratch: number | null
   location: string | null
 }
 
+interface CourseTeeOption extends CourseTee {
+  course_tee_holes: TeeHoleYardage[]
+}
+
 interface CourseHoleData {
   hole_number: number
   par: number
@@ -35,6 +70,12 @@ interface HoleEntry {
   distance: number
   strokeIndex: number
   strokes: number | null
+  putts: number | null
+  fairway: FairwayResult | null
+  gir: boolean | null
+  sandShots: number | null
+  penalties: number | null
+  shots: ShotInput[] | null
 }
 
 interface FormData {
@@ -47,11 +88,52 @@ interface FormData {
   slope_rating: number | null
   holes: HoleEntry[]
   round_length: RoundLength
+  playing_format: PlayingFormat
+  marker_id: string | null
+  round_type: RoundType
+  event_id: string | null
+  scorecard_path: string | null
+  tee_id: string | null
+}
+
+interface SavedTotals {
+  totalStrokes: number
+  adjustedGrossScore: number | null
+  scoreToPar: number
+  netStrokes: number | null
+  stablefordPoints: number | null
+}
+
+// A saved round opened back up for editing
+export interface EditableRound {
+  id: string
+  course_id: string
+  date: string
+  weather: string
+  wind_conditions: string
+  playing_format: PlayingFormat
+  marker_id: string | null
+  round_type: RoundType
+  event_id: string | null
+  tee_id: string | null
+  strokes: Map<number, number>
+  shotStats: Map<number, HoleShotStats>
+  shots: Map<number, ShotInput[]>
+}
+
+// A playing partner who can mark the card
+interface MarkerOption {
+  id: string
+  full_name: string | null
 }
 
 interface RoundEntryFormProps {
-  initialData?: GeminiExtractedData | null
+  initialData?: ExtractedScorecard | null
+  extractionConfidence?: ExtractionConfidence | null
+  scorecardPath?: string | null              // Stored image of the card, linked to the new round
+  editRound?: EditableRound | null
   onSave?: (data: FormData) => void
+  onComplete?: () => void                    // Replaces the success modal and redirect (batch review)
 }
 
 // ============================================
@@ -61,36 +143,177 @@ interface RoundEntryFormProps {
 const WEATHER_OPTIONS = ['Sunny', 'Cloudy', 'Rainy', 'Windy', 'Cold', 'Mild']
 const WIND_OPTIONS = ['No Wind', '10kmph', '20kmph', '30kmph', '40kmph']
 
+// Scorecard reads the player is asked to confirm (ratings and distances come from the course instead)
+const CONFIRMABLE_FIELDS: ConfidenceFlag['field'][] = ['course_name', 'date_of_round', 'total_adj_gross', 'par', 'strokes', 'putts']
+
+// Confirming a hole confirms every flag on it
+const flagKey = (flag: ConfidenceFlag) => (flag.hole ? `hole-${flag.hole}` : flag.field)
+
+const LOW_CONFIDENCE_STYLE = { boxShadow: '0 0 0 2px #F59E0B' }
+
+// Load a course's holes as scorecard entries, pre-filling any known strokes, shot stats and shots
+const fetchCourseHoles = async (
+  courseId: string,
+  strokes: Map<number, number> | null,
+  shotStats: Map<number, HoleShotStats> | null = null,
+  shots: Map<number, ShotInput[]> | null = null
+): Promise<HoleEntry[] | null> => {
+  const supabase = createClient()
+  const { data: courseHoles, error } = await supabase
+    .from('course_holes')
+    .select('hole_number, par, stroke_index, distance')
+    .eq('course_id', courseId)
+    .order('hole_number')
+
+  if (error || !courseHoles) return null
+
+  return (courseHoles as CourseHoleData[]).map((ch) => ({
+    hole: ch.hole_number,
+    par: ch.par,
+    distance: ch.distance,
+    strokeIndex: ch.stroke_index,
+    strokes: strokes?.get(ch.hole_number) ?? null,
+    putts: shotStats?.get(ch.hole_number)?.putts ?? null,
+    fairway: shotStats?.get(ch.hole_number)?.fairway ?? null,
+    gir: shotStats?.get(ch.hole_number)?.gir ?? null,
+    sandShots: shotStats?.get(ch.hole_number)?.sandShots ?? null,
+    penalties: shotStats?.get(ch.hole_number)?.penalties ?? null,
+    shots: shots?.get(ch.hole_number) ?? null,
+  }))
+}
+
+// Load a course's tee sets with their yardages
+const fetchCourseTees = async (courseId: string): Promise<CourseTeeOption[]> => {
+  const supabase = createClient()
+  const { data } = await supabase
+    .from('course_tees')
+    .select('id, course_id, name, gender, par, rating, slope, course_tee_holes(hole_number, distance)')
+    .eq('course_id', courseId)
+    .order('gender')
+    .order('name')
+
+  return (data || []) as CourseTeeOption[]
+}
+
+// Holes at the distances of the chosen tees
+const withTeeYardages = (holes: HoleEntry[], tee: CourseTeeOption | null): HoleEntry[] =>
+  tee ? applyTeeYardages(holes, tee.course_tee_holes) : holes
+
+// Shot-by-shot entry drives the hole's score, putts, sand shots and penalties
+const applyShots = (hole: HoleEntry, shots: ShotInput[]): HoleEntry => {
+  if (shots.length === 0) return { ...hole, shots: null }
+
+  const secondLie = shots[1]?.lie
+  return {
+    ...hole,
+    shots,
+    strokes: getShotStrokes(shots),
+    putts: shots.filter((s) => s.lie === 'green').length,
+    sandShots: shots.filter((s) => s.lie === 'sand').length,
+    penalties: shots.filter((s) => s.penalty).length,
+    fairway: hole.par > 3 && secondLie === 'fairway' ? 'hit' : hole.fairway,
+  }
+}
+
+// Putts, fairways, greens, sand shots and penalties over a set of holes
+const getShotStatTotals = (holes: HoleEntry[]) => {
+  const fairwayHoles = holes.filter((h) => h.par > 3 && h.fairway !== null)
+  return {
+    putts: holes.reduce((sum, h) => sum + (h.putts || 0), 0),
+    fairwaysHit: fairwayHoles.filter((h) => h.fairway === 'hit').length,
+    fairwaysRecorded: fairwayHoles.length,
+    greens: holes.filter((h) => getHoleGir(h) === true).length,
+    sandShots: holes.reduce((sum, h) => sum + (h.sandShots || 0), 0),
+    penalties: holes.reduce((sum, h) => sum + (h.penalties || 0), 0),
+  }
+}
+
+// GIR as entered, otherwise derived from strokes and putts
+const getHoleGir = (hole: HoleEntry): boolean | null => {
+  if (hole.gir !== null) return hole.gir
+  if (hole.strokes && hole.putts !== null) return isGreenInRegulation(hole.par, hole.strokes, hole.putts)
+  return null
+}
+
 // ============================================
 // COMPONENT
 // ============================================
 
-export default function RoundEntryForm({ initialData, onSave }: RoundEntryFormProps) {
+export default function RoundEntryForm({
+  initialData,
+  extractionConfidence,
+  scorecardPath,
+  editRound,
+  onSave,
+  onComplete,
+}: RoundEntryFormProps) {
   const router = useRouter()
   const [isSaving, setIsSaving] = useState(false)
   const [showSuccess, setShowSuccess] = useState(false)
   const [errorMessage, setErrorMessage] = useState<string | null>(null)
+  const [savedTotals, setSavedTotals] = useState<SavedTotals | null>(null)
+  const [savedOffline, setSavedOffline] = useState(false)
 
   // Course selection state
   const [courses, setCourses] = useState<CourseOption[]>([])
   const [coursesLoading, setCoursesLoading] = useState(true)
   const [selectedCourse, setSelectedCourse] = useState<CourseOption | null>(null)
+  const [tees, setTees] = useState<CourseTeeOption[]>([])
+  const [ratingVersions, setRatingVersions] = useState<RatingVersion[]>([])
+  const [selectedTeeId, setSelectedTeeId] = useState<string | null>(null)
   const [courseSearch, setCourseSearch] = useState('')
   const [dropdownOpen, setDropdownOpen] = useState(false)
   const dropdownRef = useRef<HTMLDivElement>(null)
 
   // Form state
   const [date, setDate] = useState(
-    initialData?.round_details?.date_of_round || new Date().toISOString().split('T')[0]
+    editRound?.date || initialData?.round_details?.date_of_round || new Date().toISOString().split('T')[0]
   )
   const [weather, setWeather] = useState(
-    initialData?.grounded_info?.weather_conditions || ''
+    editRound?.weather || initialData?.grounded_info?.weather_conditions || ''
   )
-  const [windConditions, setWindConditions] = useState('')
+  const [windConditions, setWindConditions] = useState(editRound?.wind_conditions || '')
+  const [playingFormat, setPlayingFormat] = useState<PlayingFormat>(editRound?.playing_format || 'stroke_play')
+  const [markerId, setMarkerId] = useState(editRound?.marker_id || '')
+  const [markers, setMarkers] = useState<MarkerOption[]>([])
+  const [roundType, setRoundType] = useState<RoundType>(editRound?.round_type || 'general_play')
+  const [eventId, setEventId] = useState(editRound?.event_id || '')
+  const [events, setEvents] = useState<GolfEvent[]>([])
   const [holes, setHoles] = useState<HoleEntry[]>([])
+  const [shotEntryIndex, setShotEntryIndex] = useState<number | null>(null)
+  const [showShotStats, setShowShotStats] = useState(
+    !!editRound && editRound.shotStats.size > 0
+  )
+
+  // Player's current Handicap Index (for course/playing handicap)
+  const [handicapIndex, setHandicapIndex] = useState<number | null>(null)
 
   // AI-extracted strokes to apply after course selection
   const [aiStrokes, setAiStrokes] = useState<Map<number, number> | null>(null)
+  const [aiShotStats, setAiShotStats] = useState<Map<number, HoleShotStats> | null>(null)
+
+  // Low-confidence reads from the scorecard photo, highlighted until the player confirms them
+  const [parFlags, setParFlags] = useState<ConfidenceFlag[]>([])
+  const [confirmedFlags, setConfirmedFlags] = useState<Set<string>>(new Set())
+
+  const openFlags = useMemo(
+    () =>
+      [...(extractionConfidence?.flags || []), ...parFlags].filter(
+        (f) => CONFIRMABLE_FIELDS.includes(f.field) && !confirmedFlags.has(flagKey(f))
+      ),
+    [extractionConfidence, parFlags, confirmedFlags]
+  )
+
+  const confirmFlag = (key: string) => {
+    setConfirmedFlags((prev) => (prev.has(key) ? prev : new Set(prev).add(key)))
+  }
+
+  // Courses the scorecard may have been played on (when none is a clear match)
+  const [courseMatches, setCourseMatches] = useState<CourseMatch<CourseOption>[]>([])
+  const [autoMatch, setAutoMatch] = useState<CourseMatch<CourseOption> | null>(null)
+
+  const getHoleFlagReason = (hole: number) =>
+    openFlags.filter((f) => f.hole === hole).map((f) => f.reason).join('\n')
 
   // ============================================
   // FETCH COURSES ON MOUNT
@@ -99,29 +322,98 @@ export default function RoundEntryForm({ initialData, onSave }: RoundEntryFormPr
   useEffect(() => {
     const fetchCourses = async () => {
       const supabase = createClient()
+      const { data: { user } } = await supabase.auth.getUser()
+
+      // Courses awaiting review are only offered to the player who added them
+      const visibleCourses = ['status.eq.approved']
+      if (user) visibleCourses.push(`submitted_by.eq.${user.id}`)
+      if (editRound) visibleCourses.push(`id.eq.${editRound.course_id}`)
+
       const { data, error } = await supabase
         .from('courses')
-        .select('id, name, hole_count, slope, standard_scratch, location')
+        .select('id, name, hole_count, rating, slope, standard_scratch, location')
+        .or(visibleCourses.join(','))
         .order('name')
 
       if (!error && data) {
         setCourses(data as CourseOption[])
+
+        // Editing a saved round: load its course with the recorded strokes
+        const editCourse = editRound && (data as CourseOption[]).find((c) => c.id === editRound.course_id)
+        if (editRound && editCourse) {
+          setSelectedCourse(editCourse)
+          setCourseSearch(editCourse.name)
+          const [holeEntries, courseTees] = await Promise.all([
+            fetchCourseHoles(editCourse.id, editRound.strokes, editRound.shotStats, editRound.shots),
+            fetchCourseTees(editCourse.id),
+          ])
+          const tee = pickDefaultTee(courseTees, editRound.tee_id)
+          setTees(courseTees)
+          setSelectedTeeId(tee?.id ?? null)
+          if (holeEntries) setHoles(withTeeYardages(holeEntries, tee))
+        }
       }
       setCoursesLoading(false)
+
+      const { data: eventData } = await supabase
+        .from('events')
+        .select('id, name, event_date, course_id, playing_format, round_type')
+        .order('event_date', { ascending: false })
+      setEvents((eventData || []) as GolfEvent[])
+
+      if (user) {
+        const { data: profile } = await supabase
+          .from('profiles')
+          .select('handicap_index')
+          .eq('id', user.id)
+          .single()
+        setHandicapIndex(profile?.handicap_index ?? null)
+
+        // Anyone else can be named as marker
+        const { data: others } = await supabase
+          .from('profiles')
+          .select('id, full_name')
+          .neq('id', user.id)
+          .order('full_name')
+        setMarkers((others || []) as MarkerOption[])
+      }
     }
     fetchCourses()
-  }, [])
+  }, [editRound])
 
-  // If AI data provided, stash the strokes for later
+  // Rating history of the selected course, so a backdated round uses the rating of its day
+  const selectedCourseId = selectedCourse?.id ?? null
+  useEffect(() => {
+    if (!selectedCourseId) {
+      setRatingVersions([])
+      return
+    }
+
+    const fetchRatingVersions = async () => {
+      const { data } = await createClient()
+        .from('course_ratings')
+        .select('id, course_id, tee_id, rating, slope, effective_from')
+        .eq('course_id', selectedCourseId)
+      setRatingVersions((data || []) as RatingVersion[])
+    }
+    fetchRatingVersions()
+  }, [selectedCourseId])
+
+  // If AI data provided, stash the strokes (and any putts) for later
   useEffect(() => {
     if (initialData?.hole_data) {
       const strokesMap = new Map<number, number>()
+      const shotStatsMap = new Map<number, HoleShotStats>()
       initialData.hole_data.forEach((h) => {
         if (h.strokes != null) {
           strokesMap.set(h.hole, h.strokes)
         }
+        if (h.putts != null) {
+          shotStatsMap.set(h.hole, { putts: h.putts })
+        }
       })
       setAiStrokes(strokesMap)
+      setAiShotStats(shotStatsMap)
 
       // Try to auto-select a matching course by name
       if (initialData.round_details?.course_name) {
@@ -130,6 +422,56 @@ export default function RoundEntryForm({ initialData, onSave }: RoundEntryFormPr
     }
   }, [initialData])
 
+  // Scorecard photo: rank courses by name, location and hole profile, and pick a clear winner
+  useEffect(() => {
+    if (!initialData || editRound || courses.length === 0) return
+
+    const matchCourse = async () => {
+      const supabase = createClient()
+      const { data: courseHoles } = await supabase
+        .from('course_holes')
+        .select('course_id, hole_number, par, distance')
+
+      const holesByCourse = new Map<string, CourseHoleProfile[]>()
+      ;((courseHoles || []) as (CourseHoleProfile & { course_id: string })[]).forEach((h) => {
+        holesByCourse.set(h.course_id, [...(holesByCourse.get(h.course_id) || []), h])
+      })
+
+      const matches = rankCourseMatches(initialData, courses, holesByCourse)
+      const best = pickAutoMatch(matches)
+
+      if (!best) {
+        setCourseMatches(matches.filter((m) => m.score >= SUGGESTION_THRESHOLD).slice(0, 3))
+        return
+      }
+
+      setAutoMatch(best)
+      setSelectedCourse(best.course)
+      setCourseSearch(best.course.name)
+
+      const strokes = new Map<number, number>()
+      const shotStats = new Map<number, HoleShotStats>()
+      initialData.hole_data.forEach((h) => {
+        if (h.strokes != null) strokes.set(h.hole, h.strokes)
+        if (h.putts != null) shotStats.set(h.hole, { putts: h.putts })
+      })
+
+      const [holeEntries, courseTees] = await Promise.all([
+        fetchCourseHoles(best.course.id, strokes, shotStats),
+        fetchCourseTees(best.course.id),
+      ])
+      const tee = pickDefaultTee(courseTees)
+      setTees(courseTees)
+      setSelectedTeeId(tee?.id ?? null)
+      if (holeEntries) {
+        setHoles(withTeeYardages(holeEntries, tee))
+        setConfirmedFlags((prev) => new Set(prev).add('course_name'))
+        setParFlags(checkParsAgainstCourse(initialData, holeEntries.map((h) => ({ hole_number: h.hole, par: h.par }))))
+      }
+    }
+    matchCourse()
+  }, [courses, initialData, editRound])
+
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (e: MouseEvent) => {
@@ -152,30 +494,58 @@ export default function RoundEntryForm({ initialData, onSave }: RoundEntryFormPr
   }, [courses, courseSearch])
 
   const handleSelectCourse = async (course: CourseOption) => {
+    setCourseMatches([])
     setSelectedCourse(course)
     setCourseSearch(course.name)
     setDropdownOpen(false)
 
-    // Fetch hole data for this course
-    const supabase = createClient()
-    const { data: courseHoles, error } = await supabase
-      .from('course_holes')
-      .select('hole_number, par, stroke_index, distance')
-      .eq('course_id', course.id)
-      .order('hole_number')
-
-    if (!error && courseHoles) {
-      const holeEntries: HoleEntry[] = (courseHoles as CourseHoleData[]).map((ch) => ({
-        hole: ch.hole_number,
-        par: ch.par,
-        distance: ch.distance,
-        strokeIndex: ch.stroke_index,
-        strokes: aiStrokes?.get(ch.hole_number) ?? null,
-      }))
-      setHoles(holeEntries)
+    // Fetch hole data and tees for this course
+    const [holeEntries, courseTees] = await Promise.all([
+      fetchCourseHoles(course.id, aiStrokes, aiShotStats),
+      fetchCourseTees(course.id),
+    ])
+    const tee = pickDefaultTee(courseTees)
+    setTees(courseTees)
+    setSelectedTeeId(tee?.id ?? null)
+    if (holeEntries) {
+      setHoles(withTeeYardages(holeEntries, tee))
+
+      // Pars on the photographed card should match the chosen course
+      if (initialData) {
+        confirmFlag('course_name')
+        setParFlags(checkParsAgainstCourse(initialData, holeEntries.map((h) => ({ hole_number: h.hole, par: h.par }))))
+      }
     }
   }
 
+  // Different tees: same holes and scores, new distances
+  const handleSelectTee = (teeId: string) => {
+    const tee = tees.find((t) => t.id === teeId) || null
+    setSelectedTeeId(tee?.id ?? null)
+    setHoles((prev) => withTeeYardages(prev, tee))
+  }
+
+  // No course fits the scorecard: add one from the card, then come back to this round
+  const handleAddCourseFromCard = () => {
+    if (!initialData) return
+    savePendingScorecard(initialData, extractionConfidence || null, scorecardPath || null)
+    router.push('/dashboard/add-course')
+  }
+
+  // Linking an event fills in its type, date, format and (if not chosen yet) venue
+  const handleSelectEvent = (id: string) => {
+    setEventId(id)
+    const event = events.find((e) => e.id === id)
+    if (!event) return
+
+    setRoundType(event.round_type)
+    setDate(event.event_date)
+    setPlayingFormat(event.playing_format)
+
+    const venue = courses.find((c) => c.id === event.course_id)
+    if (venue && !selectedCourse) handleSelectCourse(venue)
+  }
+
   // ============================================
   // CALCULATIONS
   // ============================================
@@ -193,11 +563,43 @@ export default function RoundEntryForm({ initialData, onSave }: RoundEntryFormPr
     return { totalPar, totalStrokes, holesPlayed, scoreToPar }
   }, [activeHoles])
 
+  // The rating in force on the round's date (tees' before the course's), otherwise today's
+  // tee or course rating; rating falls back to SSS, matching saveRound
+  const selectedTee = tees.find((t) => t.id === selectedTeeId) || null
+  const ratingVersion = pickRatingVersion(ratingVersions, selectedTeeId, date)
+  const courseRating = ratingVersion
+    ? ratingVersion.rating ?? selectedCourse?.standard_scratch ?? null
+    : selectedTee?.rating ?? selectedCourse?.rating ?? selectedCourse?.standard_scratch ?? null
+  const slopeRating = ratingVersion ? ratingVersion.slope : selectedTee?.slope ?? selectedCourse?.slope ?? null
+
+  // Par as buildRoundRecord takes it: the tees' par on a full-length round, else the card's
+  const coursePar = selectedTee?.par && roundLength === (selectedCourse?.hole_count ?? 18)
+    ? selectedTee.par
+    : totals.totalPar
+
+  const handicaps = useMemo(() => {
+    if (!selectedCourse || handicapIndex === null || !courseRating || coursePar === 0) {
+      return null
+    }
+    const courseHandicap = calculateCourseHandicap(
+      handicapIndex,
+      slopeRating,
+      Number(courseRating),
+      coursePar,
+      roundLength
+    )
+    return {
+      courseHandicap,
+      playingHandicap: calculatePlayingHandicap(courseHandicap, playingFormat),
+    }
+  }, [selectedCourse, handicapIndex, courseRating, slopeRating, coursePar, roundLength, playingFormat])
+
   // ============================================
   // HANDLERS
   // ============================================
 
   const updateHoleStrokes = (index: number, value: number | null) => {
+    if (holes[index]) confirmFlag(`hole-${holes[index].hole}`)
     setHoles((prev) => {
       const updated = [...prev]
       updated[index] = { ...updated[index], strokes: value }
@@ -205,62 +607,135 @@ export default function RoundEntryForm({ initialData, onSave }: RoundEntryFormPr
     })
   }
 
+  const updateHoleStat = <K extends keyof HoleShotStats>(index: number, field: K, value: HoleEntry[K]) => {
+    setHoles((prev) => {
+      const updated = [...prev]
+      updated[index] = { ...updated[index], [field]: value }
+      return updated
+    })
+  }
+
+  const updateHoleShots = (index: number, shots: ShotInput[]) => {
+    setHoles((prev) => {
+      const updated = [...prev]
+      updated[index] = applyShots(updated[index], shots)
+      return updated
+    })
+  }
+
+  // Batch review moves on to its next card instead of showing the success modal
+  const finishSave = () => {
+    if (onComplete) onComplete()
+    else setShowSuccess(true)
+  }
+
+  // Keep a new round on the device for the signed-in player (their session is stored locally)
+  const queueOffline = async (data: FormData) => {
+    const { data: { session } } = await createClient().auth.getSession()
+    if (!session) return false
+
+    await queueRound(data, session.user.id)
+    setSavedOffline(true)
+    finishSave()
+    return true
+  }
+
   const handleSave = async () => {
     if (!selectedCourse) return
 
     setIsSaving(true)
     setErrorMessage(null)
 
+    let formData: FormData | null = null
+
     try {
-      // Apply triple bogey rule: blank holes = par + 3
+      // Blank holes are sent as null; saveRound fills them in per WHS rules
       const finalHoles = activeHoles.map((h) => ({
         hole: h.hole,
         par: h.par,
         distance: h.distance,
         strokeIndex: h.strokeIndex,
-        strokes: h.strokes !== null && h.strokes > 0 ? h.strokes : h.par + 3,
+        strokes: h.strokes !== null && h.strokes > 0 ? h.strokes : null,
+        putts: h.putts,
+        fairway: h.fairway,
+        gir: h.gir,
+        sandShots: h.sandShots,
+        penalties: h.penalties,
+        shots: h.shots,
       }))
 
-      const formData: FormData = {
+      formData = {
         course_id: selectedCourse.id,
         course_name: selectedCourse.name,
         date,
         weather,
         wind_conditions: windConditions,
-        course_rating: null,
-        slope_rating: selectedCourse.slope,
+        course_rating: courseRating,
+        slope_rating: slopeRating,
         holes: finalHoles,
         round_length: roundLength,
+        playing_format: playingFormat,
+        marker_id: markerId || null,
+        round_type: roundType,
+        event_id: eventId || null,
+        scorecard_path: scorecardPath || null,
+        tee_id: selectedTeeId,
+      }
+
+      // No signal: keep a new round on the device until the app is back online
+      if (!editRound && !navigator.onLine && isOfflineQueueAvailable() && await queueOffline(formData)) {
+        return
       }
 
-      const result = await saveRound(formData)
+      let result = editRound
+        ? await updateRound(editRound.id, formData)
+        : await saveRound(formData)
+
+      // Another round that day: only save this one too if the player confirms it is different
+      if ('conflict' in result && result.conflict && window.confirm(`${result.error} Save this round as well?`)) {
+        result = await saveRound(formData, { allowConflict: true })
+      }
 
       if (result.success) {
-        setShowSuccess(true)
+        setSavedTotals({
+          totalStrokes: result.totalStrokes ?? 0,
+          adjustedGrossScore: result.adjustedGrossScore ?? null,
+          scoreToPar: result.scoreToPar ?? 0,
+          netStrokes: result.netStrokes ?? null,
+          stablefordPoints: result.stablefordPoints ?? null,
+        })
+        finishSave()
         if (onSave) onSave(formData)
       } else {
         setErrorMessage(result.error || 'Failed to save round')
       }
-    } catch (error: any) {
-      setErrorMessage(error.message || 'Failed to save round')
+    } catch (error) {
+      // Connection dropped mid-save: queue it rather than lose the card
+      if (!editRound && formData && isNetworkError(error) && isOfflineQueueAvailable() && await queueOffline(formData)) {
+        return
+      }
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to save round')
     } finally {
       setIsSaving(false)
     }
   }
 
+  // Edits and offline saves return to the round history, new rounds to the dashboard
+  const doneHref = editRound || savedOffline ? '/dashboard/rounds' : '/dashboard'
+
   // Auto-redirect after success modal shows
   useEffect(() => {
     if (showSuccess) {
       const timer = setTimeout(() => {
-        router.push('/dashboard')
+        router.push(doneHref)
       }, 3000)
       return () => clearTimeout(timer)
     }
-  }, [showSuccess, router])
+  }, [showSuccess, router, doneHref])
 
   const handleSuccessClose = () => {
     setShowSuccess(false)
-    router.push('/dashboard')
+    router.push(doneHref)
   }
 
   // ============================================
@@ -274,21 +749,196 @@ export default function RoundEntryForm({ initialData, onSave }: RoundEntryFormPr
     return 'text-white'
   }
 
+  const parseStat = (value: string): number | null => (value ? parseInt(value) : null)
+
+  // Putts / Fairway / GIR / Sand / Penalty inputs for one hole
+  const renderShotStatCells = (hole: HoleEntry, index: number) => {
+    const gir = getHoleGir(hole)
+    const inputClass =
+      'w-12 p-1.5 rounded text-center bg-white/10 text-white focus:outline-none focus:ring-1 focus:ring-[#C9A227]'
+
+    return (
+      <>
+        <td className="py-2 px-2 text-center">
+          <input
+            type="number"
+            min="0"
+            max="10"
+            value={hole.putts ?? ''}
+            onChange={(e) => updateHoleStat(index, 'putts', parseStat(e.target.value))}
+            className={inputClass}
+            placeholder="-"
+          />
+        </td>
+        <td className="py-2 px-2 text-center">
+          {hole.par > 3 ? (
+            <select
+              value={hole.fairway ?? ''}
+              onChange={(e) => updateHoleStat(index, 'fairway', (e.target.value || null) as FairwayResult | null)}
+              className="p-1.5 rounded bg-white/10 text-white text-xs focus:outline-none focus:ring-1 focus:ring-[#C9A227]"
+            >
+              <option value="" className="bg-[#1B4D3E]">-</option>
+              {FAIRWAY_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value} className="bg-[#1B4D3E]">
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <span className="text-white/30">-</span>
+          )}
+        </td>
+        <td className="py-2 px-2 text-center">
+          <input
+            type="checkbox"
+            checked={gir === true}
+            onChange={(e) => updateHoleStat(index, 'gir', e.target.checked)}
+            className="w-4 h-4 accent-[#C9A227]"
+          />
+        </td>
+        <td className="py-2 px-2 text-center">
+          <input
+            type="number"
+            min="0"
+            max="10"
+            value={hole.sandShots ?? ''}
+            onChange={(e) => updateHoleStat(index, 'sandShots', parseStat(e.target.value))}
+            className={inputClass}
+            placeholder="-"
+          />
+        </td>
+        <td className="py-2 px-2 text-center">
+          <input
+            type="number"
+            min="0"
+            max="10"
+            value={hole.penalties ?? ''}
+            onChange={(e) => updateHoleStat(index, 'penalties', parseStat(e.target.value))}
+            className={inputClass}
+            placeholder="-"
+          />
+        </td>
+      </>
+    )
+  }
+
+  // Shot stat totals for an OUT / IN / TOTAL row
+  const renderShotStatTotals = (rowHoles: HoleEntry[], cellClass: string) => {
+    const stats = getShotStatTotals(rowHoles)
+    return (
+      <>
+        <td className={cellClass}>{stats.putts || '-'}</td>
+        <td className={cellClass}>
+          {stats.fairwaysRecorded > 0 ? `${stats.fairwaysHit}/${stats.fairwaysRecorded}` : '-'}
+        </td>
+        <td className={cellClass}>{stats.greens || '-'}</td>
+        <td className={cellClass}>{stats.sandShots || '-'}</td>
+        <td className={cellClass}>{stats.penalties || '-'}</td>
+      </>
+    )
+  }
+
+  // Shot-by-shot editor shown under a hole: where each shot was played from
+  const renderShotEntryRow = (hole: HoleEntry, index: number) => {
+    const shots = hole.shots || []
+    const shotError = shots.length > 0 ? validateShots(shots) : null
+    const holeStrokesGained = shots.length > 0 && !shotError ? calculateHoleStrokesGained(shots, hole.par) : null
+
+    const setShot = (shotIndex: number, changes: Partial<ShotInput>) =>
+      updateHoleShots(index, shots.map((shot, i) => (i === shotIndex ? { ...shot, ...changes } : shot)))
+
+    const addShot = () =>
+      updateHoleShots(index, [
+        ...shots,
+        shots.length === 0
+          ? { lie: 'tee', distance: hole.distance }
+          : { lie: shots[shots.length - 1].lie === 'green' ? 'green' : 'fairway', distance: 0 },
+      ])
+
+    return (
+      <tr style={{ backgroundColor: 'rgba(0, 0, 0, 0.15)' }}>
+        <td colSpan={showShotStats ? 9 : 4} className="px-4 py-3">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-white/60">
+                Hole {hole.hole}: where each shot was played from. Distances in yards, feet on the green.
+              </p>
+              {holeStrokesGained && (
+                <span
+                  className="text-xs font-semibold"
+                  style={{ color: holeStrokesGained.total >= 0 ? '#22C55E' : '#F97316' }}
+                >
+                  SG {holeStrokesGained.total > 0 ? '+' : ''}
+                  {holeStrokesGained.total.toFixed(2)}
+                </span>
+              )}
+            </div>
+
+            {shots.map((shot, shotIndex) => (
+              <div key={shotIndex} className="flex items-center gap-2 text-xs">
+                <span className="w-12 text-white/50">Shot {shotIndex + 1}</span>
+                <select
+                  value={shot.lie}
+                  onChange={(e) => setShot(shotIndex, { lie: e.target.value as ShotLie })}
+                  className="p-1.5 rounded bg-white/10 text-white focus:outline-none focus:ring-1 focus:ring-[#C9A227]"
+                >
+                  {SHOT_LIES.map((lie) => (
+                    <option key={lie.value} value={lie.value} className="bg-[#1B4D3E]">
+                      {lie.label}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min="0"
+                  value={shot.distance || ''}
+                  onChange={(e) => setShot(shotIndex, { distance: e.target.value ? parseFloat(e.target.value) : 0 })}
+                  className="w-16 p-1.5 rounded text-center bg-white/10 text-white focus:outline-none focus:ring-1 focus:ring-[#C9A227]"
+                  placeholder="-"
+                />
+                <span className="w-6 text-white/40">{shot.lie === 'green' ? 'ft' : 'yds'}</span>
+                <label className="flex items-center gap-1 text-white/60">
+                  <input
+                    type="checkbox"
+                    checked={!!shot.penalty}
+                    onChange={(e) => setShot(shotIndex, { penalty: e.target.checked })}
+                    className="w-3.5 h-3.5 accent-[#C9A227]"
+                  />
+                  Penalty
+                </label>
+                <button
+                  type="button"
+                  onClick={() => updateHoleShots(index, shots.filter((_, i) => i !== shotIndex))}
+                  className="p-1 rounded hover:bg-red-500/20"
+                  title="Remove shot"
+                >
+                  <X className="w-3.5 h-3.5 text-red-400" />
+                </button>
+              </div>
+            ))}
+
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={addShot}
+                className="flex items-center gap-1 px-2 py-1 rounded text-xs font-semibold transition-colors hover:bg-white/10"
+                style={{ color: '#C9A227' }}
+              >
+                <Plus className="w-3.5 h-3.5" />
+                Add Shot
+              </button>
+              {shotError && <span className="text-xs text-red-300">{shotError}</span>}
+            </div>
+          </div>
+        </td>
+      </tr>
+    )
+  }
+
   // ============================================
   // RENDER
   // ============================================
 
-  // Compute totals for the success modal using triple bogey rule
-  const finalTotals = useMemo(() => {
-    const filled = activeHoles.map((h) => ({
-      strokes: h.strokes !== null && h.strokes > 0 ? h.strokes : h.par + 3,
-      par: h.par,
-    }))
-    const totalStrokes = filled.reduce((s, h) => s + h.strokes, 0)
-    const totalPar = filled.reduce((s, h) => s + h.par, 0)
-    return { totalStrokes, scoreToPar: totalStrokes - totalPar }
-  }, [activeHoles])
-
   return (
     <div className="space-y-6">
       {/* Header Fields */}
@@ -318,6 +968,8 @@ export default function RoundEntryForm({ initialData, onSave }: RoundEntryFormPr
                     if (selectedCourse && e.target.value !== selectedCourse.name) {
                       setSelectedCourse(null)
                       setHoles([])
+                      setTees([])
+                      setSelectedTeeId(null)
                     }
                   }}
                   onFocus={() => setDropdownOpen(true)}
@@ -374,22 +1026,99 @@ export default function RoundEntryForm({ initialData, onSave }: RoundEntryFormPr
               )}
             </div>
 
+            {/* Course matched from the scorecard photo */}
+            {autoMatch && selectedCourse?.id === autoMatch.course.id && (
+              <p className="mt-2 text-xs" style={{ color: '#C9A227' }}>
+                Matched from the scorecard ({Math.round(autoMatch.score * 100)}% match). Search above to change it.
+              </p>
+            )}
+
+            {/* No clear match: suggest the closest courses or add a new one */}
+            {initialData && !editRound && !autoMatch && !selectedCourse && !coursesLoading && (
+              <div
+                className="mt-3 p-3 rounded-lg space-y-2"
+                style={{ backgroundColor: 'rgba(255, 255, 255, 0.05)', border: '1px solid rgba(201, 162, 39, 0.3)' }}
+              >
+                <p className="text-white/70 text-sm">
+                  {initialData.round_details.course_name
+                    ? `"${initialData.round_details.course_name}" is not a clear match for a course in the directory.`
+                    : 'The course name could not be read from the scorecard.'}
+                  {courseMatches.length > 0 && ' Did you play one of these?'}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {courseMatches.map((m) => (
+                    <button
+                      key={m.course.id}
+                      type="button"
+                      onClick={() => handleSelectCourse(m.course)}
+                      className="px-3 py-1.5 rounded-full text-xs font-semibold transition-colors hover:bg-white/20"
+                      style={{ backgroundColor: 'rgba(201, 162, 39, 0.2)', color: '#C9A227' }}
+                    >
+                      {m.course.name} • {Math.round(m.score * 100)}%
+                    </button>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={handleAddCourseFromCard}
+                    className="inline-flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-semibold transition-colors hover:bg-white/20"
+                    style={{ backgroundColor: 'rgba(255, 255, 255, 0.1)', color: 'rgba(255, 255, 255, 0.8)' }}
+                  >
+                    <Plus className="w-3 h-3" />
+                    Add as a New Course
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Tees played (their rating, slope and yardages are used) */}
+            {selectedCourse && tees.length > 0 && (
+              <div className="mt-3">
+                <label className="block text-sm font-medium text-white/70 mb-2">Tees</label>
+                <select
+                  value={selectedTeeId || ''}
+                  onChange={(e) => handleSelectTee(e.target.value)}
+                  className="w-full px-3 py-2 bg-transparent text-white border-b-2 border-[#C9A227] focus:outline-none focus:border-[#C9A227]"
+                  style={{ backgroundColor: '#1B4D3E' }}
+                >
+                  {tees.map((tee) => (
+                    <option key={tee.id} value={tee.id} className="bg-[#1B4D3E]">
+                      {formatTeeLabel(tee)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             {/* Selected course info badges */}
             {selectedCourse && (
               <div className="mt-3 flex flex-wrap gap-2">
                 <span className="text-xs px-2 py-1 rounded-full" style={{ backgroundColor: 'rgba(201, 162, 39, 0.15)', color: '#C9A227' }}>
                   {selectedCourse.hole_count} Holes
                 </span>
-                {selectedCourse.slope && (
+                {slopeRating && (
                   <span className="text-xs px-2 py-1 rounded-full" style={{ backgroundColor: 'rgba(201, 162, 39, 0.15)', color: '#C9A227' }}>
-                    Slope: {selectedCourse.slope}
+                    Slope: {slopeRating}
                   </span>
                 )}
-                {selectedCourse.standard_scratch && (
+                {selectedTee?.rating ? (
+                  <span className="text-xs px-2 py-1 rounded-full" style={{ backgroundColor: 'rgba(201, 162, 39, 0.15)', color: '#C9A227' }}>
+                    Rating: {selectedTee.rating}
+                  </span>
+                ) : selectedCourse.standard_scratch && (
                   <span className="text-xs px-2 py-1 rounded-full" style={{ backgroundColor: 'rgba(201, 162, 39, 0.15)', color: '#C9A227' }}>
                     SSS: {selectedCourse.standard_scratch}
                   </span>
                 )}
+                {handicaps && (
+                  <>
+                    <span className="text-xs px-2 py-1 rounded-full" style={{ backgroundColor: 'rgba(34, 197, 94, 0.15)', color: '#22C55E' }}>
+                      Course HCP: {handicaps.courseHandicap}
+                    </span>
+                    <span className="text-xs px-2 py-1 rounded-full" style={{ backgroundColor: 'rgba(34, 197, 94, 0.15)', color: '#22C55E' }}>
+                      Playing HCP: {handicaps.playingHandicap} ({Math.round(PLAYING_FORMATS[playingFormat].allowance * 100)}%)
+                    </span>
+                  </>
+                )}
               </div>
             )}
           </div>
@@ -400,9 +1129,14 @@ export default function RoundEntryForm({ initialData, onSave }: RoundEntryFormPr
             <input
               type="date"
               value={date}
-              onChange={(e) => setDate(e.target.value)}
+              onChange={(e) => {
+                setDate(e.target.value)
+                confirmFlag('date_of_round')
+              }}
               max={new Date().toISOString().split('T')[0]}
               className="w-full px-3 py-2 bg-transparent text-white border-b-2 border-[#C9A227] focus:outline-none focus:border-[#C9A227]"
+              style={openFlags.some((f) => f.field === 'date_of_round') ? LOW_CONFIDENCE_STYLE : undefined}
+              title={openFlags.find((f) => f.field === 'date_of_round')?.reason}
             />
           </div>
 
@@ -441,9 +1175,117 @@ export default function RoundEntryForm({ initialData, onSave }: RoundEntryFormPr
               ))}
             </select>
           </div>
+
+          {/* Playing Format */}
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-2">Format</label>
+            <select
+              value={playingFormat}
+              onChange={(e) => setPlayingFormat(e.target.value as PlayingFormat)}
+              className="w-full px-3 py-2 bg-transparent text-white border-b-2 border-[#C9A227] focus:outline-none focus:border-[#C9A227]"
+              style={{ backgroundColor: '#1B4D3E' }}
+            >
+              {(Object.keys(PLAYING_FORMATS) as PlayingFormat[]).map((f) => (
+                <option key={f} value={f} className="bg-[#1B4D3E]">
+                  {PLAYING_FORMATS[f].label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Round Type */}
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-2">Round Type</label>
+            <select
+              value={roundType}
+              onChange={(e) => setRoundType(e.target.value as RoundType)}
+              disabled={!!eventId}
+              className="w-full px-3 py-2 bg-transparent text-white border-b-2 border-[#C9A227] focus:outline-none focus:border-[#C9A227] disabled:opacity-60"
+              style={{ backgroundColor: '#1B4D3E' }}
+            >
+              {(Object.keys(ROUND_TYPES) as RoundType[]).map((t) => (
+                <option key={t} value={t} className="bg-[#1B4D3E]">
+                  {ROUND_TYPES[t].label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Event */}
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-2">Event</label>
+            <select
+              value={eventId}
+              onChange={(e) => handleSelectEvent(e.target.value)}
+              className="w-full px-3 py-2 bg-transparent text-white border-b-2 border-[#C9A227] focus:outline-none focus:border-[#C9A227]"
+              style={{ backgroundColor: '#1B4D3E' }}
+            >
+              <option value="" className="bg-[#1B4D3E]">No event</option>
+              {events.map((e) => (
+                <option key={e.id} value={e.id} className="bg-[#1B4D3E]">
+                  {e.name} ({new Date(e.event_date).toLocaleDateString('en-IE', { day: 'numeric', month: 'short' })})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Marker */}
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-2">Marker</label>
+            <select
+              value={markerId}
+              onChange={(e) => setMarkerId(e.target.value)}
+              className="w-full px-3 py-2 bg-transparent text-white border-b-2 border-[#C9A227] focus:outline-none focus:border-[#C9A227]"
+              style={{ backgroundColor: '#1B4D3E' }}
+            >
+              <option value="" className="bg-[#1B4D3E]">Select playing partner</option>
+              {markers.map((m) => (
+                <option key={m.id} value={m.id} className="bg-[#1B4D3E]">
+                  {m.full_name || 'Unnamed player'}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-white/40 mt-1">
+              {markerId ? 'They will be asked to attest your card' : 'Without a marker the round is saved unattested'}
+            </p>
+          </div>
         </div>
       </div>
 
+      {/* Low-confidence scorecard reads */}
+      {initialData && openFlags.length > 0 && (
+        <div
+          className="p-4 rounded-xl space-y-2"
+          style={{
+            backgroundColor: 'rgba(245, 158, 11, 0.15)',
+            border: '1px solid rgba(245, 158, 11, 0.5)',
+          }}
+        >
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <TriangleAlert className="w-4 h-4 text-amber-400" />
+              <span className="text-amber-200 text-sm font-semibold">
+                Check {openFlags.length} {openFlags.length === 1 ? 'item' : 'items'} read from the scorecard
+              </span>
+            </div>
+            <button
+              type="button"
+              onClick={() => setConfirmedFlags(new Set([...confirmedFlags, ...openFlags.map(flagKey)]))}
+              className="px-3 py-1 rounded-full text-xs font-semibold"
+              style={{ backgroundColor: 'rgba(245, 158, 11, 0.3)', color: '#FDE68A' }}
+            >
+              All Correct
+            </button>
+          </div>
+          <ul className="text-amber-100/80 text-xs space-y-1 list-disc pl-5">
+            {openFlags.map((f) => (
+              <li key={`${flagKey(f)}-${f.reason}`}>{f.reason}</li>
+            ))}
+          </ul>
+          <p className="text-amber-100/50 text-xs">Highlighted scores are confirmed once you edit them.</p>
+        </div>
+      )}
+
       {/* Scorecard Grid - only render when a course is selected */}
       {selectedCourse && holes.length > 0 && (
         <div
@@ -463,6 +1305,18 @@ export default function RoundEntryForm({ initialData, onSave }: RoundEntryFormPr
               Scorecard
             </h2>
             <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={() => setShowShotStats((prev) => !prev)}
+                className="flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-semibold transition-colors"
+                style={{
+                  backgroundColor: showShotStats ? '#C9A227' : 'rgba(255, 255, 255, 0.1)',
+                  color: showShotStats ? '#0D4D2B' : 'rgba(255, 255, 255, 0.7)',
+                }}
+              >
+                <BarChart3 className="w-3.5 h-3.5" />
+                Shot Stats
+              </button>
               {totals.holesPlayed > 0 && (
                 <div
                   className="px-3 py-1 rounded-full text-sm font-bold"
@@ -488,7 +1342,7 @@ export default function RoundEntryForm({ initialData, onSave }: RoundEntryFormPr
           {/* Blank score hint */}
           <div className="px-6 py-2" style={{ backgroundColor: 'rgba(201, 162, 39, 0.08)' }}>
             <p className="text-white/40 text-xs">
-              Leave a score blank to record a scratched hole (Par + 3)
+              Leave a score blank for a hole you did not play (recorded as net par). Every hole counts for handicap at no more than net double bogey.
             </p>
           </div>
 
@@ -509,36 +1363,72 @@ export default function RoundEntryForm({ initialData, onSave }: RoundEntryFormPr
                   <th className="py-3 px-3 text-center font-semibold w-24" style={{ color: '#C9A227' }}>
                     Score
                   </th>
+                  {showShotStats && (
+                    <>
+                      <th className="py-3 px-2 text-center font-semibold w-16" style={{ color: '#C9A227' }}>
+                        Putts
+                      </th>
+                      <th className="py-3 px-2 text-center font-semibold w-16" style={{ color: '#C9A227' }}>
+                        Fairway
+                      </th>
+                      <th className="py-3 px-2 text-center font-semibold w-16" style={{ color: '#C9A227' }}>
+                        GIR
+                      </th>
+                      <th className="py-3 px-2 text-center font-semibold w-16" style={{ color: '#C9A227' }}>
+                        Sand
+                      </th>
+                      <th className="py-3 px-2 text-center font-semibold w-16" style={{ color: '#C9A227' }}>
+                        Pen
+                      </th>
+                    </>
+                  )}
                 </tr>
               </thead>
               <tbody>
                 {/* Front Nine */}
                 {activeHoles.slice(0, 9).map((hole, index) => (
-                  <tr
-                    key={hole.hole}
-                    style={{ borderBottom: '1px solid rgba(201, 162, 39, 0.15)' }}
-                    className="hover:bg-white/5"
-                  >
-                    <td className="py-2 px-3 text-center font-medium text-white">{hole.hole}</td>
-                    <td className="py-2 px-3 text-center text-white/70">{hole.par}</td>
-                    <td className="py-2 px-3 text-center text-white/50">{hole.distance || '-'}</td>
-                    <td className="py-2 px-3 text-center">
-                      <input
-                        type="number"
-                        min="1"
-                        max="20"
-                        value={hole.strokes ?? ''}
-                        onChange={(e) =>
-                          updateHoleStrokes(index, e.target.value ? parseInt(e.target.value) : null)
-                        }
-                        className={`w-14 p-1.5 rounded text-center bg-white/10 focus:outline-none focus:ring-1 focus:ring-[#C9A227] font-semibold ${getScoreColor(
-                          hole.strokes,
-                          hole.par
-                        )}`}
-                        placeholder="-"
-                      />
-                    </td>
-                  </tr>
+                  <Fragment key={hole.hole}>
+                    <tr
+                      style={{ borderBottom: '1px solid rgba(201, 162, 39, 0.15)' }}
+                      className="hover:bg-white/5"
+                    >
+                      <td className="py-2 px-3 text-center font-medium text-white">{hole.hole}</td>
+                      <td className="py-2 px-3 text-center text-white/70">{hole.par}</td>
+                      <td className="py-2 px-3 text-center text-white/50">{hole.distance || '-'}</td>
+                      <td className="py-2 px-3 text-center whitespace-nowrap">
+                        <input
+                          type="number"
+                          min="1"
+                          max="20"
+                          value={hole.strokes ?? ''}
+                          onChange={(e) =>
+                            updateHoleStrokes(index, e.target.value ? parseInt(e.target.value) : null)
+                          }
+                          readOnly={!!hole.shots}
+                          style={getHoleFlagReason(hole.hole) ? LOW_CONFIDENCE_STYLE : undefined}
+                          title={getHoleFlagReason(hole.hole) || undefined}
+                          className={`w-14 p-1.5 rounded text-center bg-white/10 focus:outline-none focus:ring-1 focus:ring-[#C9A227] font-semibold ${getScoreColor(
+                            hole.strokes,
+                            hole.par
+                          )}`}
+                          placeholder="-"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setShotEntryIndex(shotEntryIndex === index ? null : index)}
+                          className="ml-1 p-1 rounded align-middle transition-colors hover:bg-white/10"
+                          title="Enter shot by shot"
+                        >
+                          <Crosshair
+                            className="w-3.5 h-3.5"
+                            style={{ color: hole.shots ? '#C9A227' : 'rgba(255, 255, 255, 0.4)' }}
+                          />
+                        </button>
+                      </td>
+                      {showShotStats && renderShotStatCells(hole, index)}
+                    </tr>
+                    {shotEntryIndex === index && renderShotEntryRow(hole, index)}
+                  </Fragment>
                 ))}
 
                 {/* Front Nine Subtotal - Only show if 18 holes */}
@@ -554,36 +1444,55 @@ export default function RoundEntryForm({ initialData, onSave }: RoundEntryFormPr
                     <td className="py-2 px-3 text-center font-semibold text-white">
                       {activeHoles.slice(0, 9).reduce((sum, h) => sum + (h.strokes || 0), 0) || '-'}
                     </td>
+                    {showShotStats &&
+                      renderShotStatTotals(activeHoles.slice(0, 9), 'py-2 px-2 text-center font-semibold text-white')}
                   </tr>
                 )}
 
                 {/* Back Nine - Only show if 18 holes */}
                 {roundLength === 18 && activeHoles.slice(9, 18).map((hole, index) => (
-                  <tr
-                    key={hole.hole}
-                    style={{ borderBottom: '1px solid rgba(201, 162, 39, 0.15)' }}
-                    className="hover:bg-white/5"
-                  >
-                    <td className="py-2 px-3 text-center font-medium text-white">{hole.hole}</td>
-                    <td className="py-2 px-3 text-center text-white/70">{hole.par}</td>
-                    <td className="py-2 px-3 text-center text-white/50">{hole.distance || '-'}</td>
-                    <td className="py-2 px-3 text-center">
-                      <input
-                        type="number"
-                        min="1"
-                        max="20"
-                        value={hole.strokes ?? ''}
-                        onChange={(e) =>
-                          updateHoleStrokes(index + 9, e.target.value ? parseInt(e.target.value) : null)
-                        }
-                        className={`w-14 p-1.5 rounded text-center bg-white/10 focus:outline-none focus:ring-1 focus:ring-[#C9A227] font-semibold ${getScoreColor(
-                          hole.strokes,
-                          hole.par
-                        )}`}
-                        placeholder="-"
-                      />
-                    </td>
-                  </tr>
+                  <Fragment key={hole.hole}>
+                    <tr
+                      style={{ borderBottom: '1px solid rgba(201, 162, 39, 0.15)' }}
+                      className="hover:bg-white/5"
+                    >
+                      <td className="py-2 px-3 text-center font-medium text-white">{hole.hole}</td>
+                      <td className="py-2 px-3 text-center text-white/70">{hole.par}</td>
+                      <td className="py-2 px-3 text-center text-white/50">{hole.distance || '-'}</td>
+                      <td className="py-2 px-3 text-center whitespace-nowrap">
+                        <input
+                          type="number"
+                          min="1"
+                          max="20"
+                          value={hole.strokes ?? ''}
+                          onChange={(e) =>
+                            updateHoleStrokes(index + 9, e.target.value ? parseInt(e.target.value) : null)
+                          }
+                          readOnly={!!hole.shots}
+                          style={getHoleFlagReason(hole.hole) ? LOW_CONFIDENCE_STYLE : undefined}
+                          title={getHoleFlagReason(hole.hole) || undefined}
+                          className={`w-14 p-1.5 rounded text-center bg-white/10 focus:outline-none focus:ring-1 focus:ring-[#C9A227] font-semibold ${getScoreColor(
+                            hole.strokes,
+                            hole.par
+                          )}`}
+                          placeholder="-"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setShotEntryIndex(shotEntryIndex === index + 9 ? null : index + 9)}
+                          className="ml-1 p-1 rounded align-middle transition-colors hover:bg-white/10"
+                          title="Enter shot by shot"
+                        >
+                          <Crosshair
+                            className="w-3.5 h-3.5"
+                            style={{ color: hole.shots ? '#C9A227' : 'rgba(255, 255, 255, 0.4)' }}
+                          />
+                        </button>
+                      </td>
+                      {showShotStats && renderShotStatCells(hole, index + 9)}
+                    </tr>
+                    {shotEntryIndex === index + 9 && renderShotEntryRow(hole, index + 9)}
+                  </Fragment>
                 ))}
 
                 {/* Back Nine Subtotal - Only show if 18 holes */}
@@ -599,6 +1508,8 @@ export default function RoundEntryForm({ initialData, onSave }: RoundEntryFormPr
                     <td className="py-2 px-3 text-center font-semibold text-white">
                       {activeHoles.slice(9, 18).reduce((sum, h) => sum + (h.strokes || 0), 0) || '-'}
                     </td>
+                    {showShotStats &&
+                      renderShotStatTotals(activeHoles.slice(9, 18), 'py-2 px-2 text-center font-semibold text-white')}
                   </tr>
                 )}
               </tbody>
@@ -616,6 +1527,7 @@ export default function RoundEntryForm({ initialData, onSave }: RoundEntryFormPr
                   <td className="py-3 px-3 text-center font-bold text-white">
                     {totals.totalStrokes || '-'}
                   </td>
+                  {showShotStats && renderShotStatTotals(activeHoles, 'py-3 px-2 text-center font-bold text-white')}
                 </tr>
               </tfoot>
             </table>
@@ -670,7 +1582,7 @@ export default function RoundEntryForm({ initialData, onSave }: RoundEntryFormPr
         ) : (
           <>
             <Save className="w-5 h-5" />
-            Save Round
+            {editRound ? 'Update Round' : 'Save Round'}
           </>
         )}
       </button>
@@ -704,29 +1616,45 @@ export default function RoundEntryForm({ initialData, onSave }: RoundEntryFormPr
               <Trophy className="w-10 h-10" style={{ color: '#C9A227' }} />
             </div>
             <h2 className="text-2xl font-bold mb-2" style={{ color: '#C9A227' }}>
-              Round Saved!
+              {editRound ? 'Round Updated!' : savedOffline ? 'Saved Offline' : 'Round Saved!'}
             </h2>
             <p className="text-white/70 mb-6">
-              Your scorecard has been recorded successfully.
+              {editRound
+                ? 'Your scorecard changes have been saved.'
+                : savedOffline
+                ? 'No connection right now. The round is stored on this device and will sync automatically when you are back online.'
+                : 'Your scorecard has been recorded successfully.'}
             </p>
-            <div
-              className="rounded-xl p-4 mb-6"
-              style={{ backgroundColor: 'rgba(201, 162, 39, 0.15)' }}
-            >
-              <div className="flex items-center justify-center gap-2 mb-1">
-                <CheckCircle className="w-5 h-5 text-green-400" />
-                <span className="text-white font-medium">
-                  {finalTotals.totalStrokes} strokes
-                </span>
+            {!savedOffline && (
+              <div
+                className="rounded-xl p-4 mb-6"
+                style={{ backgroundColor: 'rgba(201, 162, 39, 0.15)' }}
+              >
+                <div className="flex items-center justify-center gap-2 mb-1">
+                  <CheckCircle className="w-5 h-5 text-green-400" />
+                  <span className="text-white font-medium">
+                    {savedTotals?.totalStrokes} strokes
+                  </span>
+                </div>
+                {savedTotals?.adjustedGrossScore != null && savedTotals.adjustedGrossScore !== savedTotals.totalStrokes && (
+                  <p className="text-xs text-white/50 mb-1">
+                    Adjusted gross (net double bogey): {savedTotals.adjustedGrossScore}
+                  </p>
+                )}
+                <p className="text-sm text-white/50">
+                  {!savedTotals || savedTotals.scoreToPar === 0
+                    ? 'Even par'
+                    : savedTotals.scoreToPar > 0
+                    ? `+${savedTotals.scoreToPar} over par`
+                    : `${savedTotals.scoreToPar} under par`}
+                </p>
+                {savedTotals?.stablefordPoints != null && (
+                  <p className="text-xs text-white/50 mt-1">
+                    Net {savedTotals.netStrokes} · {savedTotals.stablefordPoints} Stableford points
+                  </p>
+                )}
               </div>
-              <p className="text-sm text-white/50">
-                {finalTotals.scoreToPar === 0
-                  ? 'Even par'
-                  : finalTotals.scoreToPar > 0
-                  ? `+${finalTotals.scoreToPar} over par`
-                  : `${finalTotals.scoreToPar} under par`}
-              </p>
-            </div>
+            )}
             <button
               onClick={handleSuccessClose}
               className="w-full py-3 px-6 rounded-xl font-semibold text-lg transition-all hover:opacity-90"
@@ -735,7 +1663,7 @@ export default function RoundEntryForm({ initialData, onSave }: RoundEntryFormPr
               Great!
             </button>
             <p className="text-white/40 text-xs mt-4">
-              Redirecting to dashboard in 3 seconds...
+              Redirecting to {doneHref === '/dashboard' ? 'dashboard' : 'round history'} in 3 seconds...
             </p>
           </div>
         </div>
@@ -0,0 +1,281 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { AlertCircle, CheckCircle, FileText, Loader2, SkipForward, Upload } from 'lucide-react'
+import RoundEntryForm from '@/components/RoundEntryForm'
+import { ExtractedCard, extractScorecards, ExtractScorecardsResult } from '@/app/actions/extract-scorecard'
+import { discardScorecardImages } from '@/app/actions/scorecard-images'
+
+// ============================================
+// TYPES
+// ============================================
+
+type FileStatus = 'queued' | 'reading' | 'read' | 'failed'
+type CardStatus = 'pending' | 'saved' | 'skipped'
+
+interface QueuedFile {
+  file: File
+  status: FileStatus
+  error?: string
+}
+
+interface ReviewCard extends ExtractedCard {
+  id: string
+  fileName: string
+  status: CardStatus
+}
+
+interface ScorecardBatchReviewProps {
+  files: File[]
+  onCancel: () => void
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-IE', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  })
+
+const cardGross = (card: ReviewCard) =>
+  (card.data?.hole_data || []).reduce((sum, h) => sum + (h.strokes || 0), 0)
+
+// Stored uploads none of whose cards are still waiting or saved (a PDF's cards share one)
+const unusedImagePaths = (cards: ReviewCard[]) => {
+  const paths = new Set(cards.map((c) => c.scorecardPath).filter((p): p is string => !!p))
+  return [...paths].filter((path) => cards.every((c) => c.scorecardPath !== path || c.status === 'skipped'))
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export default function ScorecardBatchReview({ files, onCancel }: ScorecardBatchReviewProps) {
+  const [queue, setQueue] = useState<QueuedFile[]>(() => files.map((file) => ({ file, status: 'queued' })))
+  const [cards, setCards] = useState<ReviewCard[]>([])
+  const [openCardId, setOpenCardId] = useState<string | null>(null)
+
+  // ============================================
+  // EXTRACT EACH FILE IN TURN
+  // ============================================
+
+  useEffect(() => {
+    let cancelled = false
+
+    const readQueue = async () => {
+      for (let index = 0; index < files.length; index++) {
+        const file = files[index]
+        if (cancelled) return
+
+        setQueue((prev) => prev.map((q, i) => (i === index ? { ...q, status: 'reading' } : q)))
+
+        const formData = new FormData()
+        formData.append('file', file)
+
+        let result: ExtractScorecardsResult
+        try {
+          result = await extractScorecards(formData)
+        } catch (err) {
+          console.error('Batch extraction error:', err)
+          result = { success: false, error: 'Failed to analyze scorecard. Please try again.' }
+        }
+        if (cancelled) return
+
+        const extracted = result.cards || []
+        setQueue((prev) =>
+          prev.map((q, i) =>
+            i === index
+              ? { ...q, status: result.success ? 'read' : 'failed', error: result.success ? undefined : result.error }
+              : q
+          )
+        )
+        setCards((prev) => [
+          ...prev,
+          ...extracted.map((card) => ({
+            ...card,
+            id: `${index}-${card.page ?? 0}`,
+            fileName: file.name,
+            status: 'pending' as CardStatus,
+          })),
+        ])
+      }
+    }
+    readQueue()
+
+    return () => {
+      cancelled = true
+    }
+  }, [files])
+
+  // ============================================
+  // HANDLERS
+  // ============================================
+
+  const setCardStatus = (id: string, status: CardStatus) => {
+    setCards((prev) => prev.map((c) => (c.id === id ? { ...c, status } : c)))
+    setOpenCardId(null)
+  }
+
+  // A skipped card's upload is removed once no other card from the file can still use it
+  const skipCard = (id: string) => {
+    const next = cards.map((c) => (c.id === id ? { ...c, status: 'skipped' as CardStatus } : c))
+    const card = cards.find((c) => c.id === id)
+
+    setCardStatus(id, 'skipped')
+    if (card?.scorecardPath && unusedImagePaths(next).includes(card.scorecardPath)) {
+      discardScorecardImages([card.scorecardPath])
+    }
+  }
+
+  // Leaving the review skips every card still waiting
+  const handleCancel = () => {
+    const abandoned = cards.map((c) => (c.status === 'pending' ? { ...c, status: 'skipped' as CardStatus } : c))
+    const paths = unusedImagePaths(abandoned)
+    const alreadyDiscarded = unusedImagePaths(cards)
+    const toDiscard = paths.filter((p) => !alreadyDiscarded.includes(p))
+
+    if (toDiscard.length > 0) discardScorecardImages(toDiscard)
+    onCancel()
+  }
+
+  // ============================================
+  // RENDER
+  // ============================================
+
+  const isReading = queue.some((q) => q.status === 'queued' || q.status === 'reading')
+  const savedCount = cards.filter((c) => c.status === 'saved').length
+  const allReviewed = !isReading && cards.every((c) => c.status !== 'pending')
+
+  return (
+    <div className="space-y-4">
+      {/* Queue */}
+      <div className="glass-card p-5 space-y-3">
+        <div className="flex items-center justify-between gap-3">
+          <h2 className="text-lg font-semibold" style={{ color: '#C9A227' }}>
+            {isReading ? 'Reading Scorecards...' : 'Review Scorecards'}
+          </h2>
+          <span className="text-sm text-white/60">
+            {savedCount} of {cards.length} {cards.length === 1 ? 'round' : 'rounds'} saved
+          </span>
+        </div>
+        <ul className="space-y-1.5">
+          {queue.map((q, index) => (
+            <li key={index} className="flex items-center gap-2 text-sm">
+              {q.status === 'reading' ? (
+                <Loader2 className="w-4 h-4 animate-spin" style={{ color: '#C9A227' }} />
+              ) : q.status === 'read' ? (
+                <CheckCircle className="w-4 h-4 text-green-400" />
+              ) : q.status === 'failed' ? (
+                <AlertCircle className="w-4 h-4 text-red-400" />
+              ) : (
+                <FileText className="w-4 h-4 text-white/40" />
+              )}
+              <span className="text-white/80 truncate">{q.file.name}</span>
+              {q.error && <span className="text-red-300 text-xs truncate">{q.error}</span>}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {/* Extracted Cards */}
+      {cards.map((card) => (
+        <div key={card.id} className="glass-card p-5 space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <div className="min-w-0">
+              <p className="text-xs text-white/40 truncate">
+                {card.fileName}
+                {card.page !== null && ` • page ${card.page}`}
+              </p>
+              {card.success && card.data ? (
+                <>
+                  <h3 className="text-white font-semibold truncate">
+                    {card.data.round_details.course_name || 'Course not read'}
+                  </h3>
+                  <p className="text-sm text-white/60">
+                    {card.data.round_details.date_of_round ? formatDate(card.data.round_details.date_of_round) : 'Date not read'}
+                    {' • '}
+                    <span className="font-bold" style={{ color: '#C9A227' }}>{cardGross(card) || '—'}</span>
+                    {card.confidence && ` • ${card.confidence.score}% read confidently`}
+                  </p>
+                </>
+              ) : (
+                <p className="text-sm text-red-300">{card.error || 'Could not read this scorecard.'}</p>
+              )}
+            </div>
+
+            {card.status === 'pending' ? (
+              <div className="flex items-center gap-2 flex-shrink-0">
+                {card.success && card.data && openCardId !== card.id && (
+                  <button
+                    onClick={() => setOpenCardId(card.id)}
+                    className="px-4 py-2 rounded-lg text-sm font-semibold"
+                    style={{ backgroundColor: '#C9A227', color: '#0D4D2B' }}
+                  >
+                    Review & Save
+                  </button>
+                )}
+                <button
+                  onClick={() => skipCard(card.id)}
+                  className="inline-flex items-center gap-1 px-3 py-2 rounded-lg text-sm text-white/70 hover:bg-white/10"
+                >
+                  <SkipForward className="w-4 h-4" />
+                  Skip
+                </button>
+              </div>
+            ) : (
+              <span
+                className="self-start px-3 py-1 rounded-full text-xs font-semibold"
+                style={card.status === 'saved'
+                  ? { backgroundColor: 'rgba(34, 197, 94, 0.2)', color: '#4ADE80' }
+                  : { backgroundColor: 'rgba(255, 255, 255, 0.1)', color: 'rgba(255, 255, 255, 0.6)' }}
+              >
+                {card.status === 'saved' ? 'Saved' : 'Skipped'}
+              </span>
+            )}
+          </div>
+
+          {/* Confirm the round before it is saved */}
+          {openCardId === card.id && card.data && (
+            <RoundEntryForm
+              key={card.id}
+              initialData={card.data}
+              extractionConfidence={card.confidence || null}
+              scorecardPath={card.scorecardPath || null}
+              onComplete={() => setCardStatus(card.id, 'saved')}
+            />
+          )}
+        </div>
+      ))}
+
+      {/* Finished */}
+      <div className="flex flex-col sm:flex-row gap-3">
+        {allReviewed && savedCount > 0 && (
+          <Link
+            href="/dashboard/rounds"
+            className="flex-1 py-3 px-6 rounded-xl flex items-center justify-center gap-2 font-semibold"
+            style={{ backgroundColor: '#C9A227', color: '#0D4D2B' }}
+          >
+            <CheckCircle className="w-4 h-4" />
+            View Saved Rounds
+          </Link>
+        )}
+        <button
+          onClick={handleCancel}
+          className="flex-1 py-3 px-6 rounded-xl flex items-center justify-center gap-2 transition-all hover:bg-white/10"
+          style={{
+            backgroundColor: 'rgba(255, 255, 255, 0.05)',
+            border: '1px solid rgba(201, 162, 39, 0.3)',
+          }}
+        >
+          <Upload className="w-4 h-4 text-white/60" />
+          <span className="text-white/80">{allReviewed ? 'Upload More Scorecards' : 'Back to Upload'}</span>
+        </button>
+      </div>
+    </div>
+  )
+}
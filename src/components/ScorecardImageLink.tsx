@@ -0,0 +1,61 @@
+'use client'
+
+import { useState } from 'react'
+import { Image as ImageIcon, Loader2 } from 'lucide-react'
+import { getScorecardImageUrl } from '@/app/actions/scorecard-images'
+
+// ============================================
+// TYPES
+// ============================================
+
+interface ScorecardImageLinkProps {
+  roundId: string
+  label?: string
+  className?: string
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+
+/**
+ * Opens the scorecard image a round was read from in a new tab.
+ * Links are signed on click, so they never expire before they are used.
+ */
+export default function ScorecardImageLink({ roundId, label = 'Scorecard', className }: ScorecardImageLinkProps) {
+  const [isOpening, setIsOpening] = useState(false)
+
+  const handleOpen = async (e: React.MouseEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+
+    // Open the tab straight away so the browser does not treat it as a pop-up
+    const tab = window.open('', '_blank')
+    setIsOpening(true)
+    const result = await getScorecardImageUrl(roundId)
+    setIsOpening(false)
+
+    if (result.success && result.url) {
+      if (tab) {
+        tab.location.href = result.url
+      } else {
+        window.location.href = result.url
+      }
+    } else {
+      tab?.close()
+      alert(result.error || 'Failed to open scorecard')
+    }
+  }
+
+  return (
+    <button
+      onClick={handleOpen}
+      disabled={isOpening}
+      className={className || 'inline-flex items-center gap-1 text-xs text-white/60 hover:text-[#C9A227] disabled:opacity-50'}
+      title="View scorecard image"
+    >
+      {isOpening ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <ImageIcon className="w-3.5 h-3.5" />}
+      {label}
+    </button>
+  )
+}
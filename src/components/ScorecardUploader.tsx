@@ -2,21 +2,30 @@
 
 import { useState, useRef, useCallback } from 'react'
 import { Upload, X, AlertCircle, Loader2 } from 'lucide-react'
-import { extractRoundFromImage, GeminiExtractedData } from '@/app/actions/gemini-upload'
+import { ExtractedScorecard, ExtractionConfidence, extractRoundFromImage } from '@/app/actions/extract-scorecard'
 
 // ============================================
 // TYPES
 // ============================================
 
 interface ScorecardUploaderProps {
-  onDataExtracted: (data: GeminiExtractedData) => void
+  onDataExtracted: (data: ExtractedScorecard, confidence: ExtractionConfidence | null, scorecardPath: string | null) => void
+  onFilesQueued?: (files: File[]) => void      // Several files, or a PDF, go to the batch review
 }
 
+// ============================================
+// CONSTANTS
+// ============================================
+
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif']
+const PDF_TYPE = 'application/pdf'
+const MAX_FILE_BYTES = 10 * 1024 * 1024
+
 // ============================================
 // COMPONENT
 // ============================================
 
-export default function ScorecardUploader({ onDataExtracted }: ScorecardUploaderProps) {
+export default function ScorecardUploader({ onDataExtracted, onFilesQueued }: ScorecardUploaderProps) {
   const [isDragging, setIsDragging] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -30,14 +39,13 @@ export default function ScorecardUploader({ onDataExtracted }: ScorecardUploader
     setError(null)
 
     // Validate file type
-    const validTypes = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif']
-    if (!validTypes.includes(file.type)) {
+    if (!IMAGE_TYPES.includes(file.type)) {
       setError('Please upload a valid image (JPEG, PNG, or WebP)')
       return
     }
 
     // Validate file size (max 10MB)
-    if (file.size > 10 * 1024 * 1024) {
+    if (file.size > MAX_FILE_BYTES) {
       setError('Image too large. Please upload an image under 10MB.')
       return
     }
@@ -51,12 +59,12 @@ export default function ScorecardUploader({ onDataExtracted }: ScorecardUploader
 
       const result = await extractRoundFromImage(formData)
 
-      if (!result.success) {
-        setError(result.error)
+      if (!result.success || !result.data) {
+        setError(result.error || 'Could not read the scorecard. Please try again or enter scores manually.')
         return
       }
 
-      onDataExtracted(result.data)
+      onDataExtracted(result.data, result.confidence || null, result.scorecardPath || null)
     } catch (err) {
       console.error('Upload error:', err)
       setError('Failed to analyze scorecard. Please try again.')
@@ -65,6 +73,28 @@ export default function ScorecardUploader({ onDataExtracted }: ScorecardUploader
     }
   }, [onDataExtracted])
 
+  // One photo is read straight away; several files or a PDF are queued for review
+  const handleFiles = useCallback((files: File[]) => {
+    if (!onFilesQueued || (files.length === 1 && files[0].type !== PDF_TYPE)) {
+      handleFile(files[0])
+      return
+    }
+
+    setError(null)
+
+    const accepted = files.filter(
+      (f) => (IMAGE_TYPES.includes(f.type) || f.type === PDF_TYPE) && f.size <= MAX_FILE_BYTES
+    )
+    const rejected = files.filter((f) => !accepted.includes(f))
+
+    if (rejected.length > 0) {
+      setError(`Skipped ${rejected.map((f) => f.name).join(', ')}: only images and PDFs under 10MB can be read.`)
+    }
+    if (accepted.length > 0) {
+      onFilesQueued(accepted)
+    }
+  }, [handleFile, onFilesQueued])
+
   // ============================================
   // DRAG & DROP HANDLERS
   // ============================================
@@ -88,9 +118,9 @@ export default function ScorecardUploader({ onDataExtracted }: ScorecardUploader
 
     const files = e.dataTransfer.files
     if (files.length > 0 && !isLoading) {
-      handleFile(files[0])
+      handleFiles(Array.from(files))
     }
-  }, [handleFile, isLoading])
+  }, [handleFiles, isLoading])
 
   // ============================================
   // INPUT HANDLERS
@@ -99,9 +129,9 @@ export default function ScorecardUploader({ onDataExtracted }: ScorecardUploader
   const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files
     if (files && files.length > 0) {
-      handleFile(files[0])
+      handleFiles(Array.from(files))
     }
-  }, [handleFile])
+  }, [handleFiles])
 
   const handleClick = () => {
     if (!isLoading) {
@@ -156,7 +186,8 @@ export default function ScorecardUploader({ onDataExtracted }: ScorecardUploader
         <input
           ref={fileInputRef}
           type="file"
-          accept="image/jpeg,image/png,image/webp,image/heic,image/heif"
+          accept={onFilesQueued ? [...IMAGE_TYPES, PDF_TYPE].join(',') : IMAGE_TYPES.join(',')}
+          multiple={!!onFilesQueued}
           onChange={handleInputChange}
           className="hidden"
           disabled={isLoading}
@@ -179,7 +210,7 @@ export default function ScorecardUploader({ onDataExtracted }: ScorecardUploader
               />
             </div>
             <p className="text-lg font-medium" style={{ color: '#C9A227' }}>
-              Analyzing with Gemini AI...
+              Reading your scorecard...
             </p>
             <p className="text-sm text-white/60 mt-1">
               Extracting scores, ratings, and course data
@@ -197,6 +228,7 @@ export default function ScorecardUploader({ onDataExtracted }: ScorecardUploader
             </p>
             <p className="text-sm text-white/60">
               Golf Ireland App screenshot (JPEG, PNG, WebP)
+              {onFilesQueued && ' or club PDF. Select several cards at once after a trip.'}
             </p>
           </div>
         )}
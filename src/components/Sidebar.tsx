@@ -17,7 +17,12 @@ import {
   UserCog,
   History,
   MapPin,
-  Settings
+  Settings,
+  Play,
+  ClipboardCheck,
+  CalendarDays,
+  Copy,
+  MapPinned
 } from 'lucide-react'
 import { createClient } from '@/lib/supabase'
 
@@ -53,11 +58,21 @@ const navItems: NavItem[] = [
     href: '/dashboard/add-round',
     icon: PlusCircle,
   },
+  {
+    label: 'Live Scoring',
+    href: '/dashboard/live-round',
+    icon: Play,
+  },
   {
     label: 'Round History',
     href: '/dashboard/rounds',
     icon: History,
   },
+  {
+    label: 'Attest Cards',
+    href: '/dashboard/attestations',
+    icon: ClipboardCheck,
+  },
   {
     label: 'Add Course',
     href: '/dashboard/add-course',
@@ -96,12 +111,30 @@ const navItems: NavItem[] = [
     icon: Crosshair,
     adminOnly: true,
   },
+  {
+    label: 'Events',
+    href: '/dashboard/events',
+    icon: CalendarDays,
+    adminOnly: true,
+  },
   {
     label: 'User Management',
     href: '/dashboard/admin/users',
     icon: UserCog,
     adminOnly: true,
   },
+  {
+    label: 'Duplicate Rounds',
+    href: '/dashboard/admin/duplicates',
+    icon: Copy,
+    adminOnly: true,
+  },
+  {
+    label: 'Course Review',
+    href: '/dashboard/admin/courses',
+    icon: MapPinned,
+    adminOnly: true,
+  },
 ]
 
 // ============================================
@@ -0,0 +1,76 @@
+'use client'
+
+import { StrokesGainedBreakdown as Breakdown, STROKES_GAINED_CATEGORIES } from '@/lib/strokes-gained'
+
+// ============================================
+// TYPES
+// ============================================
+
+interface StrokesGainedBreakdownProps {
+  breakdown: Breakdown
+  caption?: string
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Bars are scaled so this many strokes either way fills half the track
+const BAR_SCALE_STROKES = 4
+
+// ============================================
+// HELPERS
+// ============================================
+
+export const formatStrokesGained = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}`
+
+export const getStrokesGainedColor = (value: number) => (value >= 0 ? '#22C55E' : '#F97316')
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export default function StrokesGainedBreakdown({ breakdown, caption }: StrokesGainedBreakdownProps) {
+  return (
+    <div className="space-y-4">
+      {STROKES_GAINED_CATEGORIES.map((category) => {
+        const value = breakdown[category.key]
+        const width = Math.min(Math.abs(value) / BAR_SCALE_STROKES, 1) * 50
+
+        return (
+          <div key={category.key}>
+            <div className="flex items-center justify-between mb-1.5">
+              <span className="text-sm font-medium text-white">{category.label}</span>
+              <span className="text-sm font-bold" style={{ color: getStrokesGainedColor(value) }}>
+                {formatStrokesGained(value)}
+              </span>
+            </div>
+            {/* Centred track: gains grow right, losses grow left */}
+            <div className="relative h-2.5 rounded-full" style={{ backgroundColor: 'rgba(255, 255, 255, 0.1)' }}>
+              <div className="absolute top-0 bottom-0 w-px left-1/2" style={{ backgroundColor: 'rgba(255, 255, 255, 0.3)' }} />
+              <div
+                className="absolute top-0 bottom-0 rounded-full transition-all duration-500"
+                style={{
+                  left: value >= 0 ? '50%' : `${50 - width}%`,
+                  width: `${width}%`,
+                  backgroundColor: getStrokesGainedColor(value),
+                }}
+              />
+            </div>
+          </div>
+        )
+      })}
+
+      <div
+        className="pt-3 flex items-center justify-between"
+        style={{ borderTop: '1px solid rgba(201, 162, 39, 0.2)' }}
+      >
+        <span className="text-sm font-semibold text-white/80">Total</span>
+        <span className="text-lg font-bold" style={{ color: getStrokesGainedColor(breakdown.total) }}>
+          {formatStrokesGained(breakdown.total)}
+        </span>
+      </div>
+      {caption && <p className="text-xs text-white/40">{caption}</p>}
+    </div>
+  )
+}
@@ -11,6 +11,7 @@ import {
   Row,
   Column,
 } from '@react-email/components'
+import { SCORING_MODES, ScoringMode } from '@/lib/scoring'
 
 // ============================================
 // TYPES
@@ -35,6 +36,7 @@ interface WeeklyDigestProps {
   totalRoundsThisWeek: number
   weekStartDate: string
   weekEndDate: string
+  scoringMode?: ScoringMode
 }
 
 // ============================================
@@ -232,7 +234,10 @@ export default function WeeklyDigest({
   totalRoundsThisWeek,
   weekStartDate,
   weekEndDate,
+  scoringMode = 'gross',
 }: WeeklyDigestProps) {
+  const modeLabel = SCORING_MODES[scoringMode].label
+
   return (
     <Html>
       <Head />
@@ -256,7 +261,9 @@ export default function WeeklyDigest({
             </Heading>
             {playerOfTheWeek ? (
               <div style={playerOfWeekBox}>
-                <Text style={playerOfWeekLabel}>Lowest Gross Score</Text>
+                <Text style={playerOfWeekLabel}>
+                  {scoringMode === 'stableford' ? 'Most Stableford Points' : `Lowest ${modeLabel} Score`}
+                </Text>
                 <Text style={playerOfWeekName}>{playerOfTheWeek.name}</Text>
                 <Text style={playerOfWeekScore}>{playerOfTheWeek.score}</Text>
                 <Text style={playerOfWeekDetails}>
@@ -278,7 +285,7 @@ export default function WeeklyDigest({
                 <thead>
                   <tr>
                     <th style={tableHeader}>Squad</th>
-                    <th style={tableHeaderRight}>Avg Score</th>
+                    <th style={tableHeaderRight}>Avg {modeLabel}</th>
                     <th style={tableHeaderRight}>Rounds</th>
                   </tr>
                 </thead>
@@ -335,7 +342,10 @@ export function getWeeklyDigestPlainText({
   totalRoundsThisWeek,
   weekStartDate,
   weekEndDate,
+  scoringMode = 'gross',
 }: WeeklyDigestProps): string {
+  const modeLabel = SCORING_MODES[scoringMode].label
+
   let text = `PGC PERFORMANCE UPDATE\n`
   text += `Weekly Digest: ${weekStartDate} - ${weekEndDate}\n`
   text += `${'='.repeat(50)}\n\n`
@@ -344,7 +354,7 @@ export function getWeeklyDigestPlainText({
   text += `${'-'.repeat(20)}\n`
   if (playerOfTheWeek) {
     text += `${playerOfTheWeek.name}\n`
-    text += `Score: ${playerOfTheWeek.score}\n`
+    text += `${modeLabel}: ${playerOfTheWeek.score}\n`
     text += `${playerOfTheWeek.courseName} - ${playerOfTheWeek.date}\n\n`
   } else {
     text += `No rounds recorded this week\n\n`
@@ -354,7 +364,7 @@ export function getWeeklyDigestPlainText({
   text += `${'-'.repeat(20)}\n`
   if (squadStats.length > 0) {
     squadStats.forEach((stat) => {
-      text += `${stat.squadName}: Avg ${stat.avgScore.toFixed(1)} (${stat.roundsPlayed} rounds)\n`
+      text += `${stat.squadName}: Avg ${modeLabel} ${stat.avgScore.toFixed(1)} (${stat.roundsPlayed} rounds)\n`
     })
     text += `\n`
   } else {
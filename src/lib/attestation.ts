@@ -0,0 +1,68 @@
+/**
+ * Attestation Utility - marker sign-off for submitted rounds
+ *
+ * A round names a playing partner as marker, who attests or disputes the
+ * card. Rounds saved without a marker are unmarked until one is named.
+ * Admins choose per view whether unattested rounds (unmarked or awaiting
+ * the marker) count; disputed rounds never count.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type AttestationStatus = 'unmarked' | 'pending' | 'attested' | 'disputed';
+
+// Views that can exclude unattested rounds
+export type AttestationView = 'leaderboard' | 'weekly_digest' | 'simulator';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const ATTESTATION_STATUSES: Record<AttestationStatus, { label: string; color: string; bg: string }> = {
+  unmarked: { label: 'No Marker', color: 'rgba(255, 255, 255, 0.7)', bg: 'rgba(255, 255, 255, 0.1)' },
+  pending: { label: 'Awaiting Marker', color: '#C9A227', bg: 'rgba(201, 162, 39, 0.2)' },
+  attested: { label: 'Attested', color: '#4ADE80', bg: 'rgba(34, 197, 94, 0.2)' },
+  disputed: { label: 'Disputed', color: '#F87171', bg: 'rgba(239, 68, 68, 0.2)' },
+};
+
+export const ATTESTATION_VIEWS: Record<AttestationView, string> = {
+  leaderboard: 'Leaderboard',
+  weekly_digest: 'Weekly Digest',
+  simulator: 'Simulator',
+};
+
+// ============================================
+// MAIN FUNCTIONS
+// ============================================
+
+/**
+ * Whether a round with this status counts towards a view
+ */
+export function countsTowardsView(
+  status: AttestationStatus | string | null | undefined,
+  includeUnattested: boolean
+): boolean {
+  if (status === 'disputed') return false;
+  if (status === 'pending' || status === 'unmarked') return includeUnattested;
+  return true;
+}
+
+/**
+ * Read a view's setting (defaults to counting unattested rounds)
+ */
+export async function getIncludeUnattested(
+  supabase: SupabaseClient,
+  view: AttestationView
+): Promise<boolean> {
+  const { data } = await supabase
+    .from('view_settings')
+    .select('include_unattested')
+    .eq('view_key', view)
+    .maybeSingle();
+
+  return data?.include_unattested ?? true;
+}
@@ -0,0 +1,86 @@
+/**
+ * Course Loops - nine-hole loops at venues with more than two nines
+ *
+ * A 27-hole venue defines each nine once as a loop (pars and yardages).
+ * Its 18-hole courses are compositions of two loops, each with its own
+ * rating, slope and stroke index. Hole 1-9 of a composition is its front
+ * loop's hole 1-9 and hole 10-18 its back loop's, so a hole's scores can
+ * be compared across every composition it appears in.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface CourseLoop {
+  id: string;
+  venue: string;
+  name: string;
+  location: string | null;
+}
+
+export interface LoopHole {
+  hole_number: number;                       // 1-9 within the loop
+  par: number;
+  distance: number | null;
+}
+
+export interface CourseLoopWithHoles extends CourseLoop {
+  course_loop_holes: LoopHole[];
+}
+
+// Which loop a course hole belongs to
+export interface LoopHolePosition {
+  loopId: string;
+  loopHoleNumber: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const LOOP_HOLE_COUNT = 9;
+
+// ============================================
+// MAIN FUNCTIONS
+// ============================================
+
+/**
+ * Display name for a course's loops, e.g. "Red + Blue"
+ */
+export function formatLoopPair(
+  front: Pick<CourseLoop, 'name'> | null,
+  back: Pick<CourseLoop, 'name'> | null
+): string | null {
+  if (!front) return null;
+  return back ? `${front.name} + ${back.name}` : front.name;
+}
+
+/**
+ * The loop and loop hole a course hole is played on
+ *
+ * @param holeNumber - Hole number on the course (1-18)
+ * @param frontLoopId - Loop played as holes 1-9
+ * @param backLoopId - Loop played as holes 10-18
+ * @returns null when the course is not built from loops
+ */
+export function getLoopHole(
+  holeNumber: number,
+  frontLoopId: string | null,
+  backLoopId: string | null
+): LoopHolePosition | null {
+  const loopId = holeNumber <= LOOP_HOLE_COUNT ? frontLoopId : backLoopId;
+  if (!loopId) return null;
+
+  return { loopId, loopHoleNumber: ((holeNumber - 1) % LOOP_HOLE_COUNT) + 1 };
+}
+
+/**
+ * A loop's holes in order, filling any gaps with a par 4 of unknown length
+ */
+export function getLoopHoles(loop: CourseLoopWithHoles): LoopHole[] {
+  return Array.from({ length: LOOP_HOLE_COUNT }, (_, i) => {
+    const hole = loop.course_loop_holes.find((h) => h.hole_number === i + 1);
+    return hole || { hole_number: i + 1, par: 4, distance: null };
+  });
+}
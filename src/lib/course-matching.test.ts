@@ -0,0 +1,143 @@
+import { describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import {
+  AUTO_SELECT_MARGIN,
+  AUTO_SELECT_THRESHOLD,
+  CourseHoleProfile,
+  CourseMatch,
+  MatchableCourse,
+  nameSimilarity,
+  normaliseCourseName,
+  pickAutoMatch,
+  rankCourseMatches,
+} from './course-matching'
+import type { ExtractedScorecard } from './scorecard-extraction'
+
+// ============================================
+// FIXTURES
+// ============================================
+
+const PARS = [4, 4, 3, 5, 4, 4, 3, 4, 5]
+
+const buildCourse = (id: string, name: string, location: string | null = null): MatchableCourse => ({ id, name, location })
+
+// A match with only the overall score set, as pickAutoMatch reads nothing else
+const buildMatch = (id: string, score: number): CourseMatch => ({
+  course: buildCourse(id, id),
+  score,
+  nameScore: score,
+  locationScore: null,
+  holeScore: null,
+})
+
+const buildCard = (courseName: string, location = '', pars: (number | null)[] = PARS): ExtractedScorecard => ({
+  round_details: {
+    course_name: courseName,
+    date_of_round: '2026-05-01',
+    course_rating: null,
+    slope_rating: null,
+    total_adj_gross: null,
+  },
+  grounded_info: { course_type: '', location, weather_conditions: '' },
+  hole_data: pars.map((par, i) => ({ hole: i + 1, par, distance: null, strokes: 5, putts: null })),
+})
+
+const buildHoles = (pars: number[] = PARS): CourseHoleProfile[] =>
+  pars.map((par, i) => ({ hole_number: i + 1, par, distance: null }))
+
+// ============================================
+// TESTS
+// ============================================
+
+describe('normaliseCourseName', () => {
+  it('ignores case, punctuation and spacing', () => {
+    assert.equal(normaliseCourseName('  Portmarnock G.C. '), 'portmarnock g c')
+    assert.equal(normaliseCourseName("St. Anne's  Links"), 'st anne s links')
+    assert.equal(normaliseCourseName('PORTMARNOCK-LINKS'), normaliseCourseName('portmarnock links'))
+  })
+})
+
+describe('nameSimilarity', () => {
+  it('matches names that differ only by generic words', () => {
+    assert.equal(nameSimilarity('Portmarnock G.C.', 'Portmarnock Golf Club'), 1)
+    assert.equal(nameSimilarity('The Island', 'island golf club'), 1)
+  })
+
+  it('still scores a misread name highly', () => {
+    const score = nameSimilarity('Portmarnok Golf Club', 'Portmarnock Golf Club')
+
+    assert.ok(score > 0.8 && score < 1)
+  })
+
+  it('scores unrelated names low', () => {
+    assert.ok(nameSimilarity('Portmarnock', 'Ballybunion') < 0.2)
+  })
+
+  it('compares generic words when a name has nothing else', () => {
+    assert.equal(nameSimilarity('Golf Club', 'golf club'), 1)
+    assert.equal(nameSimilarity('', 'Portmarnock'), 0)
+  })
+})
+
+describe('rankCourseMatches', () => {
+  it('ranks the course with the closest name first', () => {
+    const courses = [buildCourse('b', 'Ballybunion'), buildCourse('p', 'Portmarnock Golf Club')]
+    const matches = rankCourseMatches(buildCard('Portmarnock G.C.'), courses, new Map())
+
+    assert.deepEqual(matches.map((m) => m.course.id), ['p', 'b'])
+    assert.equal(matches[0].score, 1)
+    assert.equal(matches[0].holeScore, null)
+    assert.equal(matches[0].locationScore, null)
+  })
+
+  it('uses the hole pars and location to separate courses with the same name', () => {
+    const courses = [buildCourse('old', 'Castle', 'Dublin'), buildCourse('new', 'Castle', 'Cork')]
+    const holes = new Map([
+      ['old', buildHoles(PARS.map(() => 4))],
+      ['new', buildHoles()],
+    ])
+    const matches = rankCourseMatches(buildCard('Castle Golf Club', 'Co. Cork'), courses, holes)
+
+    assert.equal(matches[0].course.id, 'new')
+    assert.equal(matches[0].score, 1)
+    assert.equal(matches[0].locationScore, 1)
+    assert.equal(matches[1].locationScore, 0)
+  })
+
+  it('ties courses that nothing on the card tells apart', () => {
+    const courses = [buildCourse('a', 'Castle'), buildCourse('b', 'Castle')]
+    const matches = rankCourseMatches(buildCard('Castle'), courses, new Map())
+
+    assert.equal(matches[0].score, matches[1].score)
+    assert.equal(pickAutoMatch(matches), null)
+  })
+})
+
+describe('pickAutoMatch', () => {
+  it('picks a clear best match', () => {
+    const matches = [buildMatch('a', 0.9), buildMatch('b', 0.5)]
+
+    assert.equal(pickAutoMatch(matches)?.course.id, 'a')
+  })
+
+  it('picks a lone match at the threshold but not below it', () => {
+    assert.equal(pickAutoMatch([buildMatch('a', AUTO_SELECT_THRESHOLD)])?.course.id, 'a')
+    assert.equal(pickAutoMatch([buildMatch('a', AUTO_SELECT_THRESHOLD - 0.01)]), null)
+  })
+
+  it('picks nothing from no matches', () => {
+    assert.equal(pickAutoMatch([]), null)
+  })
+
+  it('picks a match exactly the margin ahead of the next', () => {
+    // 0.85 - 0.75 is 0.09999999999999998 in floating point
+    const matches = [buildMatch('a', 0.85), buildMatch('b', 0.85 - AUTO_SELECT_MARGIN)]
+
+    assert.equal(pickAutoMatch(matches)?.course.id, 'a')
+  })
+
+  it('picks nothing when the next match is within the margin', () => {
+    assert.equal(pickAutoMatch([buildMatch('a', 0.85), buildMatch('b', 0.76)]), null)
+    assert.equal(pickAutoMatch([buildMatch('a', 0.9), buildMatch('b', 0.9)]), null)
+  })
+})
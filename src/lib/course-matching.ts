@@ -0,0 +1,205 @@
+/**
+ * Course Matching - finding the course a scorecard was played on
+ *
+ * Course names read off a scorecard photo are free text ("Portmarnock G.C.",
+ * "Portmarnok Golf Club"), so courses are ranked on three signals:
+ *   - name similarity (letter pairs, so small misreads still match)
+ *   - location, when both the card and the course have one
+ *   - how well the card's pars and distances fit the course's holes
+ */
+
+import type { ExtractedScorecard } from '@/lib/scorecard-extraction';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface MatchableCourse {
+  id: string;
+  name: string;
+  location: string | null;
+}
+
+export interface CourseHoleProfile {
+  hole_number: number;
+  par: number;
+  distance: number | null;
+}
+
+export interface CourseMatch<T extends MatchableCourse = MatchableCourse> {
+  course: T;
+  score: number;                     // 0-1, weighted over the signals available
+  nameScore: number;
+  locationScore: number | null;      // null = no location to compare
+  holeScore: number | null;          // null = no hole data to compare
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const AUTO_SELECT_THRESHOLD = 0.75;
+export const SUGGESTION_THRESHOLD = 0.35;
+
+// The best match must be clearly ahead of the next to be picked automatically
+export const AUTO_SELECT_MARGIN = 0.1;
+
+const WEIGHTS = { name: 0.55, holes: 0.3, location: 0.15 };
+
+// Yardage books and cards differ by tee, so distances only need to be close
+const DISTANCE_TOLERANCE = 0.1;
+
+const NAME_STOP_WORDS = new Set(['golf', 'club', 'gc', 'g', 'c', 'the', 'and', 'of', 'course']);
+const LOCATION_STOP_WORDS = new Set(['ireland', 'co', 'county', 'northern', 'uk']);
+
+// ============================================
+// MAIN FUNCTIONS
+// ============================================
+
+/**
+ * Compare course names ignoring case, punctuation and spacing
+ */
+export function normaliseCourseName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Rank courses by how likely the scorecard was played on them (best first)
+ *
+ * @param card - Validated scorecard
+ * @param courses - Courses to consider
+ * @param holesByCourse - Each course's holes, keyed by course id
+ */
+export function rankCourseMatches<T extends MatchableCourse>(
+  card: ExtractedScorecard,
+  courses: T[],
+  holesByCourse: Map<string, CourseHoleProfile[]>
+): CourseMatch<T>[] {
+  const cardName = card.round_details.course_name;
+  const cardLocation = card.grounded_info.location;
+
+  return courses
+    .map((course) => {
+      const nameScore = cardName ? nameSimilarity(cardName, course.name) : 0;
+      const locationScore = cardLocation && course.location ? locationSimilarity(cardLocation, course.location) : null;
+      const holeScore = holeProfileSimilarity(card.hole_data, holesByCourse.get(course.id) || []);
+
+      let weighted = WEIGHTS.name * nameScore;
+      let totalWeight = WEIGHTS.name;
+      if (holeScore !== null) {
+        weighted += WEIGHTS.holes * holeScore;
+        totalWeight += WEIGHTS.holes;
+      }
+      if (locationScore !== null) {
+        weighted += WEIGHTS.location * locationScore;
+        totalWeight += WEIGHTS.location;
+      }
+
+      return { course, score: weighted / totalWeight, nameScore, locationScore, holeScore };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * The match to select without asking, if one is good enough
+ *
+ * @param matches - Output of rankCourseMatches (best first)
+ */
+export function pickAutoMatch<T extends MatchableCourse>(matches: CourseMatch<T>[]): CourseMatch<T> | null {
+  const [best, runnerUp] = matches;
+
+  if (!best || best.score < AUTO_SELECT_THRESHOLD) return null;
+  // Rounded so a lead of exactly the margin is not lost to floating point (0.85 - 0.75 < 0.1)
+  if (runnerUp && Math.round((best.score - runnerUp.score) * 1000) / 1000 < AUTO_SELECT_MARGIN) return null;
+  return best;
+}
+
+/**
+ * Name similarity from 0 to 1 (Dice coefficient on letter pairs)
+ *
+ * Generic words such as "Golf Club" are ignored so "Portmarnock G.C." and
+ * "Portmarnock Golf Club" are an exact match.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const coreA = coreWords(a, NAME_STOP_WORDS).join(' ');
+  const coreB = coreWords(b, NAME_STOP_WORDS).join(' ');
+
+  if (!coreA || !coreB) return 0;
+  if (coreA === coreB) return 1;
+  return diceCoefficient(letterPairs(coreA), letterPairs(coreB));
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function locationSimilarity(a: string, b: string): number {
+  const wordsA = new Set(coreWords(a, LOCATION_STOP_WORDS));
+  const wordsB = new Set(coreWords(b, LOCATION_STOP_WORDS));
+
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+  const shared = [...wordsA].filter((w) => wordsB.has(w)).length;
+  return shared > 0 ? 1 : 0;
+}
+
+// Share of the card's holes whose par (and distance, when read) fits the course
+function holeProfileSimilarity(
+  cardHoles: ExtractedScorecard['hole_data'],
+  courseHoles: CourseHoleProfile[]
+): number | null {
+  const cardPars = cardHoles.filter((h) => h.par !== null);
+  if (cardPars.length === 0 || courseHoles.length === 0) return null;
+
+  const byHole = new Map(courseHoles.map((h) => [h.hole_number, h]));
+
+  let parMatches = 0;
+  let distanceChecks = 0;
+  let distanceMatches = 0;
+
+  cardPars.forEach((cardHole) => {
+    const courseHole = byHole.get(cardHole.hole);
+    if (!courseHole) return;
+
+    if (courseHole.par === cardHole.par) parMatches++;
+
+    if (cardHole.distance && courseHole.distance) {
+      distanceChecks++;
+      if (Math.abs(cardHole.distance - courseHole.distance) <= courseHole.distance * DISTANCE_TOLERANCE) {
+        distanceMatches++;
+      }
+    }
+  });
+
+  const parScore = parMatches / cardPars.length;
+  if (distanceChecks === 0) return parScore;
+  return 0.7 * parScore + 0.3 * (distanceMatches / distanceChecks);
+}
+
+function coreWords(text: string, stopWords: Set<string>): string[] {
+  const words = normaliseCourseName(text).split(' ').filter(Boolean);
+  const core = words.filter((w) => !stopWords.has(w));
+  return core.length > 0 ? core : words;
+}
+
+function letterPairs(text: string): string[] {
+  const pairs: string[] = [];
+  text.split(' ').forEach((word) => {
+    for (let i = 0; i < word.length - 1; i++) pairs.push(word.slice(i, i + 2));
+  });
+  return pairs;
+}
+
+function diceCoefficient(pairsA: string[], pairsB: string[]): number {
+  if (pairsA.length === 0 || pairsB.length === 0) return 0;
+
+  const remaining = [...pairsB];
+  let shared = 0;
+  pairsA.forEach((pair) => {
+    const index = remaining.indexOf(pair);
+    if (index !== -1) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  });
+  return (2 * shared) / (pairsA.length + pairsB.length);
+}
@@ -0,0 +1,435 @@
+/**
+ * Course Ratings - dated rating and slope versions for courses and tees
+ *
+ * A course (or one of its tee sets) is re-rated from a given date. Each
+ * round pins the version in force on the day it was played, so its
+ * differential and net scores keep using the rating of the day after the
+ * course is re-rated. The rating and slope on `courses` and `course_tees`
+ * are kept as the version in force today.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  calculateCourseHandicap,
+  calculatePlayingHandicap,
+  calculateScoreDifferential,
+  getPlayedCourseRating,
+  getRoundHandicapIndex,
+  HandicapHistoryEntry,
+  PlayingFormat,
+  refreshHandicapIndex,
+} from '@/lib/handicap';
+import { adjustHoleScores, scoreHoles } from '@/lib/scoring';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface RatingVersion {
+  id: string;
+  course_id: string;
+  tee_id: string | null;                     // null = the course's own rating
+  rating: number | null;
+  slope: number | null;
+  effective_from: string;                    // YYYY-MM-DD
+}
+
+export interface RatingValues {
+  rating: number | null;
+  slope: number | null;
+}
+
+// A course's own rating, or one of its tee sets
+export interface RatingScope {
+  courseId: string;
+  teeId: string | null;
+}
+
+interface PinnedRoundRow {
+  id: string;
+  user_id: string;
+  tee_id: string | null;
+  date_of_round: string;
+  rating_id: string | null;
+  total_strokes: number | null;
+  total_par: number | null;
+  adjusted_gross_score: number | null;
+  net_strokes: number | null;
+  stableford_points: number | null;
+  course_handicap: number | null;
+  playing_handicap: number | null;
+  playing_format: string | null;
+  holes_played: number | null;
+  pcc: number | null;
+  score_differential: number | null;
+  round_scores: {
+    id: string;
+    hole_number: number;
+    par: number;
+    stroke_index: number | null;
+    strokes: number | null;
+  }[] | null;
+}
+
+// A round's new rating, and the scores worked out from it (see update_round_ratings)
+interface RoundRatingUpdate {
+  id: string;
+  rating_id: string | null;
+  score_differential: number | null;
+  course_handicap: number | null;
+  playing_handicap: number | null;
+  adjusted_gross_score: number | null;
+  net_strokes: number | null;
+  stableford_points: number | null;
+  scores: {
+    id: string;
+    adjusted_strokes: number;
+    net_strokes: number | null;
+    stableford_points: number;
+  }[];
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+// Decimal columns come back as strings
+function sameDecimal(a: number | string | null, b: number | string | null): boolean {
+  return (a === null ? null : Number(a)) === (b === null ? null : Number(b));
+}
+
+// A round's stored scores, unchanged
+function currentScores(round: PinnedRoundRow): Omit<RoundRatingUpdate, 'rating_id'> {
+  return {
+    id: round.id,
+    score_differential: round.score_differential,
+    course_handicap: round.course_handicap,
+    playing_handicap: round.playing_handicap,
+    adjusted_gross_score: round.adjusted_gross_score,
+    net_strokes: round.net_strokes,
+    stableford_points: round.stableford_points,
+    scores: [],
+  };
+}
+
+/**
+ * Score a round again from the rating and slope of its version, the
+ * same way buildRoundRecord does when the round is saved
+ */
+function rescoreRound(
+  round: PinnedRoundRow,
+  rating: number,
+  slopeRating: number | null,
+  handicapIndex: number | null,
+  courseHoleCount: number | null
+): Omit<RoundRatingUpdate, 'rating_id'> {
+  const holesPlayed = round.holes_played === 9 ? 9 : 18;
+  const courseRating = getPlayedCourseRating(rating, holesPlayed, courseHoleCount);
+
+  const courseHandicap = handicapIndex !== null && round.total_par
+    ? calculateCourseHandicap(handicapIndex, slopeRating, courseRating, round.total_par, holesPlayed)
+    : null;
+  const playingHandicap = courseHandicap !== null
+    ? calculatePlayingHandicap(courseHandicap, (round.playing_format || 'stroke_play') as PlayingFormat)
+    : null;
+
+  // Rounds entered as totals only keep their adjusted gross and Stableford
+  const holes = [...(round.round_scores || [])].sort((a, b) => a.hole_number - b.hole_number);
+  const adjustedHoles = adjustHoleScores(
+    holes.map((h) => ({ hole: h.hole_number, par: h.par, strokeIndex: h.stroke_index ?? undefined, strokes: h.strokes })),
+    courseHandicap,
+    holesPlayed
+  );
+  const scoredHoles = scoreHoles(adjustedHoles, playingHandicap, holesPlayed);
+
+  const adjustedGrossScore = holes.length > 0
+    ? adjustedHoles.reduce((sum, h) => sum + h.adjustedStrokes, 0)
+    : round.adjusted_gross_score;
+
+  const scoreDifferential = adjustedGrossScore !== null
+    ? calculateScoreDifferential({
+        adjustedGross: adjustedGrossScore,
+        courseRating,
+        slopeRating,
+        holesPlayed,
+        pcc: round.pcc ?? 0,
+        handicapIndex,
+      })
+    : round.score_differential;
+
+  return {
+    id: round.id,
+    score_differential: scoreDifferential,
+    course_handicap: courseHandicap,
+    playing_handicap: playingHandicap,
+    adjusted_gross_score: adjustedGrossScore,
+    net_strokes: round.total_strokes !== null ? round.total_strokes - (playingHandicap ?? 0) : round.net_strokes,
+    stableford_points: holes.length > 0
+      ? scoredHoles.reduce((sum, h) => sum + h.stablefordPoints, 0)
+      : round.stableford_points,
+    scores: holes.map((h, i) => ({
+      id: h.id,
+      adjusted_strokes: adjustedHoles[i].adjustedStrokes,
+      net_strokes: scoredHoles[i].netStrokes,
+      stableford_points: scoredHoles[i].stablefordPoints,
+    })),
+  };
+}
+
+// ============================================
+// MAIN FUNCTIONS
+// ============================================
+
+/**
+ * The rating version a round played on the given date uses
+ *
+ * The tees' own versions come before the course's. Of those, the latest
+ * in force on the day is used, or the earliest when the round was played
+ * before any was recorded. Mirrors rating_in_force() in the database.
+ *
+ * @returns null when neither the tees nor the course have a rating history
+ */
+export function pickRatingVersion<T extends Pick<RatingVersion, 'tee_id' | 'effective_from'>>(
+  versions: T[],
+  teeId: string | null,
+  date: string
+): T | null {
+  const teeVersions = teeId ? versions.filter((v) => v.tee_id === teeId) : [];
+  const candidates = (teeVersions.length > 0 ? teeVersions : versions.filter((v) => v.tee_id === null))
+    .sort((a, b) => a.effective_from.localeCompare(b.effective_from));
+
+  if (candidates.length === 0) return null;
+
+  const inForce = candidates.filter((v) => v.effective_from <= date);
+  return inForce.length > 0 ? inForce[inForce.length - 1] : candidates[0];
+}
+
+/**
+ * Every rating version on a course, its own and its tees', oldest first
+ */
+export async function fetchRatingVersions(
+  supabase: SupabaseClient,
+  courseId: string
+): Promise<RatingVersion[]> {
+  const { data, error } = await supabase
+    .from('course_ratings')
+    .select('id, course_id, tee_id, rating, slope, effective_from')
+    .eq('course_id', courseId)
+    .order('effective_from', { ascending: true });
+
+  if (error) {
+    console.error('Ratings: Failed to load rating history:', error);
+    return [];
+  }
+
+  return (data || []) as RatingVersion[];
+}
+
+/**
+ * Record a course or tee re-rating from the given date
+ *
+ * The first re-rating of a course or tee without history records its
+ * existing rating as the version being replaced. Afterwards the current
+ * rating columns show the version in force today, and rounds on the
+ * course are moved onto the version of their day.
+ *
+ * @returns An error message, or null when the rating was recorded
+ */
+export async function recordRatingVersion(
+  supabase: SupabaseClient,
+  scope: RatingScope,
+  values: RatingValues,
+  effectiveFrom: string,
+  createdBy: string
+): Promise<string | null> {
+  const table = scope.teeId ? 'course_tees' : 'courses';
+  const rowId = scope.teeId ?? scope.courseId;
+
+  const { data: current, error: currentError } = await supabase
+    .from(table)
+    .select('rating, slope, created_at')
+    .eq('id', rowId)
+    .single();
+
+  if (currentError || !current) {
+    return `Failed to load the current rating: ${currentError?.message || 'Not found'}`;
+  }
+
+  const scopeVersions = (await fetchRatingVersions(supabase, scope.courseId))
+    .filter((v) => v.tee_id === scope.teeId);
+
+  // Keep the rating being replaced as the version rounds before this date were played under
+  const createdOn = current.created_at ? String(current.created_at).split('T')[0] : null;
+  const hasCurrentRating = current.rating !== null || current.slope !== null;
+  const isChange = Number(current.rating) !== Number(values.rating) || current.slope !== values.slope;
+
+  if (scopeVersions.length === 0 && hasCurrentRating && isChange && createdOn && createdOn < effectiveFrom) {
+    const { error: baseError } = await supabase
+      .from('course_ratings')
+      .insert({
+        course_id: scope.courseId,
+        tee_id: scope.teeId,
+        rating: current.rating,
+        slope: current.slope,
+        effective_from: createdOn,
+      });
+
+    if (baseError) {
+      return `Failed to record the previous rating: ${baseError.message}`;
+    }
+  }
+
+  // A second re-rating on the same date corrects the first
+  const { error: versionError } = await supabase
+    .from('course_ratings')
+    .upsert(
+      {
+        course_id: scope.courseId,
+        tee_id: scope.teeId,
+        rating: values.rating,
+        slope: values.slope,
+        effective_from: effectiveFrom,
+        created_by: createdBy,
+      },
+      { onConflict: 'course_id,tee_id,effective_from' }
+    );
+
+  if (versionError) {
+    return `Failed to record the rating: ${versionError.message}`;
+  }
+
+  const versions = await fetchRatingVersions(supabase, scope.courseId);
+  const today = new Date().toISOString().split('T')[0];
+  const inForceToday = pickRatingVersion(versions.filter((v) => v.tee_id === scope.teeId), scope.teeId, today);
+
+  if (inForceToday) {
+    const { error: updateError } = await supabase
+      .from(table)
+      .update({ rating: inForceToday.rating, slope: inForceToday.slope })
+      .eq('id', rowId);
+
+    if (updateError) {
+      return `Rating recorded but the current rating failed to update: ${updateError.message}`;
+    }
+  }
+
+  await repinRoundRatings(supabase, scope.courseId, versions);
+
+  return null;
+}
+
+/**
+ * Move rounds on a course onto the rating version of their day and
+ * recalculate their differentials (and the players' indexes)
+ *
+ * Rounds are updated when their version changes, or when the version's
+ * own rating or slope was corrected and their scores moved with it. The
+ * course handicap is worked out again from the rating, and with it the
+ * playing handicap, adjusted gross, net and Stableford scores. Also run
+ * after a merge, for the rounds moved onto the course.
+ *
+ * @returns The number of rounds whose version or scores changed
+ */
+export async function repinRoundRatings(
+  supabase: SupabaseClient,
+  courseId: string,
+  versions: RatingVersion[]
+): Promise<number> {
+  const [{ data: course }, { data: teesData }, { data: roundsData, error: roundsError }] = await Promise.all([
+    supabase.from('courses').select('rating, slope, standard_scratch, hole_count').eq('id', courseId).single(),
+    supabase.from('course_tees').select('id, rating, slope').eq('course_id', courseId),
+    supabase
+      .from('rounds')
+      .select(
+        'id, user_id, tee_id, date_of_round, rating_id, total_strokes, total_par, adjusted_gross_score, ' +
+        'net_strokes, stableford_points, course_handicap, playing_handicap, playing_format, holes_played, pcc, ' +
+        'score_differential, round_scores(id, hole_number, par, stroke_index, strokes)'
+      )
+      .eq('course_id', courseId),
+  ]);
+
+  if (roundsError) {
+    console.error('Ratings: Failed to load rounds:', roundsError);
+    return 0;
+  }
+
+  const rounds = ((roundsData || []) as unknown as PinnedRoundRow[])
+    .map((round) => ({ round, version: pickRatingVersion(versions, round.tee_id, round.date_of_round) }));
+
+  if (rounds.length === 0) return 0;
+
+  // Rounds are scored with the player's index going into the round
+  const userIds = [...new Set(rounds.map(({ round }) => round.user_id))];
+  const historyByUser = new Map<string, HandicapHistoryEntry[]>();
+  const [{ data: historyData }, { data: profilesData }] = await Promise.all([
+    supabase
+      .from('handicap_history')
+      .select('user_id, handicap_index, effective_date')
+      .in('user_id', userIds)
+      .order('effective_date', { ascending: true }),
+    supabase.from('profiles').select('id, handicap_index').in('id', userIds),
+  ]);
+
+  ((historyData || []) as HandicapHistoryEntry[]).forEach((entry) => {
+    historyByUser.set(entry.user_id, [...(historyByUser.get(entry.user_id) || []), entry]);
+  });
+  const profileIndex = new Map<string, number | null>(
+    (profilesData || []).map((p) => [p.id, p.handicap_index === null ? null : Number(p.handicap_index)])
+  );
+
+  const tees = new Map<string, RatingValues>(
+    ((teesData || []) as (RatingValues & { id: string })[]).map((t) => [t.id, { rating: t.rating, slope: t.slope }])
+  );
+
+  const repinned = rounds.map(({ round, version }) => {
+    // Rounds on courses without a rating history use today's rating, as when they are saved
+    const tee = round.tee_id ? tees.get(round.tee_id) : undefined;
+    const courseRating = version
+      ? version.rating ?? course?.standard_scratch ?? null
+      : tee?.rating ?? course?.rating ?? course?.standard_scratch ?? null;
+    const slopeRating = version ? version.slope : tee?.slope ?? course?.slope ?? null;
+
+    // Without a rating the round keeps its scores
+    if (!courseRating) {
+      return { round, update: { ...currentScores(round), rating_id: version?.id ?? null } };
+    }
+
+    const handicapIndex = getRoundHandicapIndex(
+      historyByUser.get(round.user_id) || [],
+      round.date_of_round,
+      profileIndex.get(round.user_id)
+    );
+    const rescored = rescoreRound(round, Number(courseRating), slopeRating, handicapIndex, course?.hole_count ?? null);
+
+    return { round, update: { ...rescored, rating_id: version?.id ?? null } };
+  });
+
+  // A same-date correction keeps the version's id, so compare what its rating and slope produce
+  const moved = repinned.filter(({ round, update }) =>
+    update.rating_id !== round.rating_id
+    || !sameDecimal(update.score_differential, round.score_differential)
+    || update.course_handicap !== round.course_handicap
+  );
+
+  if (moved.length === 0) return 0;
+
+  const updates = moved.map(({ update }) => update);
+
+  const { data: result, error: updateError } = await supabase.rpc('update_round_ratings', {
+    p_updates: updates,
+  });
+
+  if (updateError || !result?.success) {
+    console.error('Ratings: Failed to re-pin rounds:', updateError || result?.error);
+    return 0;
+  }
+
+  // Differentials changed, so the players' indexes may have too
+  for (const userId of new Set(moved.map(({ round }) => round.user_id))) {
+    await refreshHandicapIndex(supabase, userId);
+  }
+
+  console.log(`Ratings: ${updates.length} rounds on ${courseId} moved onto the rating of their day`);
+
+  return updates.length;
+}
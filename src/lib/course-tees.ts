@@ -0,0 +1,75 @@
+/**
+ * Course Tees - the tee sets a course can be played from
+ *
+ * Each tee set has its own rating, slope, par and hole yardages. WHS rates
+ * men and ladies separately, so "Red (Ladies')" and "Red (Men's)" are two
+ * tee sets sharing a name. Par and stroke index per hole stay on
+ * `course_holes`; only yardages differ by tee.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type TeeGender = 'men' | 'ladies';
+
+export interface CourseTee {
+  id: string;
+  course_id: string;
+  name: string;
+  gender: TeeGender;
+  par: number | null;
+  rating: number | null;
+  slope: number | null;
+}
+
+export interface TeeHoleYardage {
+  hole_number: number;
+  distance: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const TEE_NAMES = ['White', 'Blue', 'Yellow', 'Red', 'Green', 'Championship'];
+
+export const TEE_GENDERS: Record<TeeGender, { label: string }> = {
+  men: { label: "Men's" },
+  ladies: { label: "Ladies'" },
+};
+
+// ============================================
+// MAIN FUNCTIONS
+// ============================================
+
+/**
+ * Display name, e.g. "White (Men's)"
+ */
+export function formatTeeLabel(tee: Pick<CourseTee, 'name' | 'gender'>): string {
+  return `${tee.name} (${TEE_GENDERS[tee.gender]?.label || tee.gender})`;
+}
+
+/**
+ * Tee set to pre-select: the one already chosen, else the course's only or first men's tees
+ *
+ * @param tees - The course's tee sets
+ * @param preferredId - Tees recorded on the round being edited, if any
+ */
+export function pickDefaultTee<T extends CourseTee>(tees: T[], preferredId: string | null = null): T | null {
+  const preferred = preferredId ? tees.find((t) => t.id === preferredId) : undefined;
+  if (preferred) return preferred;
+  if (tees.length === 1) return tees[0];
+  return tees.find((t) => t.gender === 'men') || tees[0] || null;
+}
+
+/**
+ * Replace hole distances with the yardages from a tee set (holes it has no yardage for keep theirs)
+ */
+export function applyTeeYardages<T extends { hole: number; distance: number }>(
+  holes: T[],
+  yardages: TeeHoleYardage[]
+): T[] {
+  const byHole = new Map(yardages.map((y) => [y.hole_number, y.distance]));
+  return holes.map((h) => ({ ...h, distance: byHole.get(h.hole) ?? h.distance }));
+}
@@ -0,0 +1,69 @@
+/**
+ * Course Types - the one list of course types used everywhere
+ *
+ * Stored in `courses.course_type` exactly as the values below (the
+ * database check constraint matches). Older data and scorecard reads use
+ * other spellings ("heath", "Heath", "seaside"); normalizeCourseType maps
+ * those onto this list so no course drops out of type-based averages.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type CourseType = 'Links' | 'Parkland' | 'Heathland' | 'Cliffside' | 'Desert' | 'Resort';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const COURSE_TYPES: CourseType[] = ['Parkland', 'Links', 'Heathland', 'Cliffside', 'Desert', 'Resort'];
+
+export const COURSE_TYPE_CONFIG: Record<CourseType, { label: string; color: string; description: string }> = {
+  Links: { label: 'Links', color: '#3B82F6', description: 'Coastal, windswept' },
+  Parkland: { label: 'Parkland', color: '#22C55E', description: 'Tree-lined, lush' },
+  Heathland: { label: 'Heathland', color: '#A855F7', description: 'Open, heather' },
+  Cliffside: { label: 'Cliffside', color: '#F59E0B', description: 'Dramatic terrain' },
+  Desert: { label: 'Desert', color: '#F97316', description: 'Arid, target golf' },
+  Resort: { label: 'Resort', color: '#EC4899', description: 'Holiday venue' },
+};
+
+// Courses with no (recognised) type
+export const OTHER_COURSE_TYPE_COLOR = '#6B7280';
+
+// Other spellings seen in saved courses and scorecard reads
+const ALIASES: Record<string, CourseType> = {
+  links: 'Links',
+  seaside: 'Links',
+  parkland: 'Parkland',
+  park: 'Parkland',
+  heath: 'Heathland',
+  heathland: 'Heathland',
+  cliffside: 'Cliffside',
+  cliff: 'Cliffside',
+  clifftop: 'Cliffside',
+  desert: 'Desert',
+  resort: 'Resort',
+};
+
+// ============================================
+// MAIN FUNCTIONS
+// ============================================
+
+/**
+ * Map any stored or extracted course type onto the shared list
+ *
+ * @returns null when the value is empty or not a known course type
+ */
+export function normalizeCourseType(value: string | null | undefined): CourseType | null {
+  if (!value) return null;
+  return ALIASES[value.trim().toLowerCase()] ?? null;
+}
+
+/**
+ * Colour for a course type in charts and badges
+ */
+export function getCourseTypeColor(value: string | null | undefined): string {
+  const type = normalizeCourseType(value);
+  return type ? COURSE_TYPE_CONFIG[type].color : OTHER_COURSE_TYPE_COLOR;
+}
@@ -0,0 +1,82 @@
+/**
+ * Duplicate Rounds - spotting the same card saved twice
+ *
+ * A round is a probable duplicate of another by the same player on the
+ * same course and day. When the hole-by-hole scores also match it is
+ * treated as the same card (e.g. a scorecard photo uploaded twice).
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface HoleStrokes {
+  hole_number: number;
+  strokes: number | null;
+}
+
+export interface DuplicateCandidate {
+  id: string;
+  user_id: string;
+  course_id: string;
+  date_of_round: string;
+  holes: HoleStrokes[];
+}
+
+// Rounds by one player on one course and day
+export interface DuplicateGroup<T extends DuplicateCandidate = DuplicateCandidate> {
+  key: string;
+  rounds: T[];
+  identical: boolean;          // Every round has the same hole scores
+}
+
+// ============================================
+// MAIN FUNCTIONS
+// ============================================
+
+/**
+ * Whether two cards have the same score on every hole
+ */
+export function holeScoresMatch(a: HoleStrokes[], b: HoleStrokes[]): boolean {
+  const scoresA = toScoreMap(a);
+  const scoresB = toScoreMap(b);
+
+  if (scoresA.size === 0 || scoresA.size !== scoresB.size) return false;
+
+  for (const [hole, strokes] of scoresA) {
+    if (scoresB.get(hole) !== strokes) return false;
+  }
+  return true;
+}
+
+/**
+ * Group rounds that share a player, course and date (only groups of two or more)
+ */
+export function groupProbableDuplicates<T extends DuplicateCandidate>(rounds: T[]): DuplicateGroup<T>[] {
+  const groups = new Map<string, T[]>();
+
+  rounds.forEach((round) => {
+    const key = `${round.user_id}|${round.course_id}|${round.date_of_round}`;
+    groups.set(key, [...(groups.get(key) || []), round]);
+  });
+
+  return Array.from(groups.entries())
+    .filter(([, group]) => group.length > 1)
+    .map(([key, group]) => ({
+      key,
+      rounds: group,
+      identical: group.every((round) => holeScoresMatch(round.holes, group[0].holes)),
+    }));
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function toScoreMap(holes: HoleStrokes[]): Map<number, number> {
+  const scores = new Map<number, number>();
+  holes.forEach((h) => {
+    if (h.strokes !== null && h.strokes > 0) scores.set(h.hole_number, h.strokes);
+  });
+  return scores;
+}
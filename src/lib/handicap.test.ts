@@ -0,0 +1,103 @@
+import { describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import {
+  calculateCourseHandicap,
+  calculatePlayingConditions,
+  calculateScoreDifferential,
+  getPlayedCourseRating,
+  PlayingConditionsScore,
+} from './handicap'
+
+// ============================================
+// FIXTURES
+// ============================================
+
+// A day's scores, each the given amount above the player's index
+const buildDay = (overIndex: number, count = 8, handicapIndex = 12.0): PlayingConditionsScore[] =>
+  Array.from({ length: count }, () => ({ differential: handicapIndex + overIndex, handicapIndex }))
+
+// ============================================
+// TESTS
+// ============================================
+
+describe('calculateScoreDifferential', () => {
+  it('scales the score over the rating by the slope', () => {
+    assert.equal(
+      calculateScoreDifferential({ adjustedGross: 85, courseRating: 72.0, slopeRating: 130, holesPlayed: 18 }),
+      11.3
+    )
+  })
+
+  it('assumes the neutral slope when none is held', () => {
+    assert.equal(
+      calculateScoreDifferential({ adjustedGross: 85, courseRating: 72.0, slopeRating: null, holesPlayed: 18 }),
+      13.0
+    )
+  })
+
+  it("takes off the day's PCC", () => {
+    assert.equal(
+      calculateScoreDifferential({ adjustedGross: 85, courseRating: 72.0, slopeRating: 113, holesPlayed: 18, pcc: 2 }),
+      11.0
+    )
+  })
+
+  it('completes a nine with the expected differential for the unplayed nine', () => {
+    // 45 - 36.0 plus 18.0 x 0.52 + 1.2
+    assert.equal(
+      calculateScoreDifferential({ adjustedGross: 45, courseRating: 36.0, slopeRating: 113, holesPlayed: 9, handicapIndex: 18.0 }),
+      19.6
+    )
+  })
+
+  it('doubles a nine when the player has no index', () => {
+    assert.equal(
+      calculateScoreDifferential({ adjustedGross: 45, courseRating: 36.0, slopeRating: 113, holesPlayed: 9, handicapIndex: null }),
+      18.0
+    )
+  })
+})
+
+describe('calculateCourseHandicap', () => {
+  it('adjusts the index for slope and the rating against par', () => {
+    assert.equal(calculateCourseHandicap(18.0, 130, 72.0, 72, 18), 21)
+    assert.equal(calculateCourseHandicap(10.0, null, 71.0, 72, 18), 9)
+  })
+
+  it('halves the index for a nine', () => {
+    assert.equal(calculateCourseHandicap(18.0, 113, 36.0, 36, 9), 9)
+    assert.equal(calculateCourseHandicap(18.0, 130, 36.0, 36, 9), 10)
+  })
+})
+
+describe('getPlayedCourseRating', () => {
+  it('halves the rating for a nine on an 18-hole course', () => {
+    assert.equal(getPlayedCourseRating(72.0, 9, 18), 36.0)
+    assert.equal(getPlayedCourseRating(72.0, 9, null), 36.0)
+  })
+
+  it("keeps a 9-hole course's own rating and an 18-hole round's rating", () => {
+    assert.equal(getPlayedCourseRating(35.5, 9, 9), 35.5)
+    assert.equal(getPlayedCourseRating(72.0, 18, 18), 72.0)
+  })
+})
+
+describe('calculatePlayingConditions', () => {
+  it('makes no adjustment in normal conditions', () => {
+    assert.equal(calculatePlayingConditions(buildDay(3.0)), 0)
+  })
+
+  it('adds the scores above normal, up to +3', () => {
+    assert.equal(calculatePlayingConditions(buildDay(5.0)), 2)
+    assert.equal(calculatePlayingConditions(buildDay(10.0)), 3)
+  })
+
+  it('takes off at most one stroke on an easy day', () => {
+    assert.equal(calculatePlayingConditions(buildDay(0.5)), -1)
+  })
+
+  it('needs 8 scores from players with an index of 36.0 or lower', () => {
+    assert.equal(calculatePlayingConditions(buildDay(10.0, 7)), 0)
+    assert.equal(calculatePlayingConditions([...buildDay(10.0, 7), ...buildDay(10.0, 1, 40.0)]), 0)
+  })
+})
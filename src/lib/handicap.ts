@@ -0,0 +1,239 @@
+/**
+ * Handicap Utility - World Handicap System (WHS) engine
+ *
+ * Works out a score differential for every round and refreshes the
+ * Handicap Index (best 8 of the most recent 20 differentials), which is
+ * calculated in the database from the stored differentials.
+ * Also calculates the daily Playing Conditions Calculation (PCC).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface DifferentialInput {
+  adjustedGross: number;        // Adjusted gross score for the round
+  courseRating: number;         // Course rating (or SSS when no rating is held)
+  slopeRating: number | null;   // Slope rating (113 assumed when missing)
+  holesPlayed: 9 | 18;
+  pcc?: number;                 // Playing Conditions Calculation adjustment
+  handicapIndex?: number | null; // Current index, used to complete 9-hole rounds
+}
+
+export type PlayingFormat =
+  | 'stroke_play'
+  | 'stableford'
+  | 'match_play'
+  | 'fourball_stroke_play'
+  | 'fourball_match_play'
+  | 'foursomes';
+
+export interface PlayingConditionsScore {
+  differential: number;     // 18-hole differential before any PCC
+  handicapIndex: number;    // Player's index going into the round
+}
+
+export interface HandicapHistoryEntry {
+  user_id: string;
+  handicap_index: number;
+  effective_date: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const NEUTRAL_SLOPE = 113;
+export const MAX_HANDICAP_INDEX = 54.0;
+
+// Recommended handicap allowances per format (WHS Appendix C)
+export const PLAYING_FORMATS: Record<PlayingFormat, { label: string; allowance: number }> = {
+  stroke_play: { label: 'Individual Stroke Play', allowance: 0.95 },
+  stableford: { label: 'Individual Stableford', allowance: 0.95 },
+  match_play: { label: 'Individual Match Play', allowance: 1.0 },
+  fourball_stroke_play: { label: 'Fourball Stroke Play', allowance: 0.85 },
+  fourball_match_play: { label: 'Fourball Match Play', allowance: 0.9 },
+  foursomes: { label: 'Foursomes', allowance: 0.5 },
+};
+
+// Playing Conditions Calculation limits (WHS Rule 5.6)
+export const PCC_MIN = -1;
+export const PCC_MAX = 3;
+const PCC_MIN_SCORES = 8;
+const PCC_MAX_INDEX = 36.0;
+// Amount a typical score differential exceeds the player's index in normal conditions
+const PCC_EXPECTED_OVER_INDEX = 3.0;
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Round to the nearest tenth
+ */
+function roundToTenth(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Expected 9-hole score differential for a player of the given index.
+ * Used to turn a 9-hole score into an 18-hole differential.
+ */
+function expectedNineHoleDifferential(handicapIndex: number): number {
+  return handicapIndex * 0.52 + 1.2;
+}
+
+// ============================================
+// MAIN FUNCTIONS
+// ============================================
+
+/**
+ * Calculate the score differential for a single round
+ *
+ * (113 / Slope) x (Adjusted Gross Score - Course Rating - PCC)
+ *
+ * A 9-hole round is completed with the expected differential for the
+ * unplayed nine, or doubled when the player has no index yet.
+ */
+export function calculateScoreDifferential(input: DifferentialInput): number {
+  const slope = input.slopeRating && input.slopeRating > 0 ? input.slopeRating : NEUTRAL_SLOPE;
+  const pcc = input.pcc ?? 0;
+
+  const differential = (NEUTRAL_SLOPE / slope) * (input.adjustedGross - input.courseRating - pcc);
+
+  if (input.holesPlayed === 9) {
+    if (input.handicapIndex !== null && input.handicapIndex !== undefined) {
+      return roundToTenth(differential + expectedNineHoleDifferential(input.handicapIndex));
+    }
+    return roundToTenth(differential * 2);
+  }
+
+  return roundToTenth(differential);
+}
+
+/**
+ * Calculate a player's course handicap
+ *
+ * Handicap Index x (Slope / 113) + (Course Rating - Par), rounded to a whole number.
+ * On a 9-hole course the index is halved and the 9-hole rating and par are used.
+ */
+export function calculateCourseHandicap(
+  handicapIndex: number,
+  slopeRating: number | null,
+  courseRating: number,
+  par: number,
+  holesPlayed: 9 | 18 = 18
+): number {
+  const slope = slopeRating && slopeRating > 0 ? slopeRating : NEUTRAL_SLOPE;
+  const index = holesPlayed === 9 ? handicapIndex / 2 : handicapIndex;
+
+  return Math.round(index * (slope / NEUTRAL_SLOPE) + (courseRating - par));
+}
+
+/**
+ * Course rating for the holes played
+ *
+ * A nine played on an 18-hole course is rated at half the course's 18-hole
+ * rating (the slope is unchanged), to go with the nine's par and the halved
+ * index in the course handicap. A 9-hole course already holds a 9-hole rating.
+ */
+export function getPlayedCourseRating(
+  courseRating: number,
+  holesPlayed: 9 | 18,
+  courseHoleCount: number | null
+): number {
+  return holesPlayed === 9 && (courseHoleCount || 18) === 18 ? courseRating / 2 : courseRating;
+}
+
+/**
+ * Calculate a playing handicap by applying the format's handicap allowance
+ */
+export function calculatePlayingHandicap(courseHandicap: number, format: PlayingFormat): number {
+  return Math.round(courseHandicap * PLAYING_FORMATS[format].allowance);
+}
+
+/**
+ * Playing Conditions Calculation for one course on one day
+ *
+ * Compares how far the day's differentials sit above each player's
+ * index with what is expected in normal conditions. Only players with
+ * an index of 36.0 or lower count, and at least 8 scores are needed.
+ *
+ * @returns PCC between -1 and +3 (0 when there are too few scores)
+ */
+export function calculatePlayingConditions(scores: PlayingConditionsScore[]): number {
+  const eligible = scores.filter((s) => s.handicapIndex <= PCC_MAX_INDEX);
+
+  if (eligible.length < PCC_MIN_SCORES) {
+    return 0;
+  }
+
+  const averageOverIndex = eligible.reduce((sum, s) => sum + (s.differential - s.handicapIndex), 0) / eligible.length;
+  const pcc = Math.round(averageOverIndex - PCC_EXPECTED_OVER_INDEX);
+
+  return Math.min(PCC_MAX, Math.max(PCC_MIN, pcc));
+}
+
+/**
+ * Player's Handicap Index going into a round: the latest history entry
+ * dated before the round (history is sorted oldest first)
+ */
+export function getIndexBefore(history: HandicapHistoryEntry[], date: string): number | null {
+  let index: number | null = null;
+  for (const entry of history) {
+    if (entry.effective_date >= date) break;
+    index = Number(entry.handicap_index);
+  }
+  return index;
+}
+
+/**
+ * Player's Handicap Index for scoring a round: the history entry in force
+ * going into it, else the index on their profile (players with no
+ * calculated index before the round)
+ */
+export function getRoundHandicapIndex(
+  history: HandicapHistoryEntry[],
+  date: string,
+  profileIndex: number | string | null | undefined
+): number | null {
+  return getIndexBefore(history, date)
+    ?? (profileIndex === null || profileIndex === undefined ? null : Number(profileIndex));
+}
+
+/**
+ * Recalculate a player's Handicap Index from their stored differentials,
+ * record it in handicap_history and publish it on the profile
+ *
+ * The calculation runs in refresh_handicap_index() so the history and the
+ * profile's index can only hold what the player's rounds produce. When
+ * deletes or merges leave fewer than 3 scores, a calculated index on the
+ * profile reverts to self-reported so the player can maintain it again.
+ *
+ * @returns The new index, or null when the player has too few scores
+ */
+export async function refreshHandicapIndex(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<number | null> {
+  const { data: result, error } = await supabase.rpc('refresh_handicap_index', {
+    p_user_id: userId,
+  });
+
+  if (error || !result?.success) {
+    console.error('Handicap: Failed to refresh index:', error || result?.error);
+    return null;
+  }
+
+  if (result.handicap_index === null) {
+    return null;
+  }
+
+  const handicapIndex = Number(result.handicap_index);
+
+  console.log(`Handicap: ${userId} -> ${handicapIndex} (best ${result.differentials_used} of ${result.rounds_considered})`);
+
+  return handicapIndex;
+}
@@ -0,0 +1,201 @@
+/**
+ * Offline Queue - rounds entered without a connection
+ *
+ * Rounds that can't reach the server are stored in IndexedDB on the device and
+ * submitted once the browser is back online. Each queued round carries its own
+ * id, sent to the server as `client_ref`, so a round is never saved twice even
+ * if a sync is interrupted and retried. A device can be shared, so each round
+ * also records the player who entered it and only syncs while they are signed in.
+ */
+
+import type { RoundData } from '@/lib/rounds';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type PendingRoundStatus = 'pending' | 'conflict' | 'failed';
+
+export interface PendingRound {
+  id: string;                    // Also the server-side client_ref
+  userId: string;                // Player who entered it (only they can sync it)
+  data: RoundData;
+  createdAt: string;
+  status: PendingRoundStatus;
+  attempts: number;
+  lastError: string | null;
+  allowConflict?: boolean;       // Player chose to keep this round despite a same-day conflict
+}
+
+// What the server said when a queued round was submitted
+export interface SubmitOutcome {
+  success: boolean;
+  conflict?: boolean;
+  error?: string;
+}
+
+export type SubmitPendingRound = (round: PendingRound) => Promise<SubmitOutcome>;
+
+export interface SyncSummary {
+  synced: number;
+  conflicts: number;
+  failed: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const DB_NAME = 'pgc-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'pending_rounds';
+
+// Fired on window whenever the queue changes, so lists can refresh
+export const PENDING_ROUNDS_EVENT = 'pgc:pending-rounds-changed';
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function notifyChanged() {
+  window.dispatchEvent(new Event(PENDING_ROUNDS_EVENT));
+}
+
+// ============================================
+// MAIN FUNCTIONS
+// ============================================
+
+/**
+ * Whether the queue can be used in this browser
+ */
+export function isOfflineQueueAvailable(): boolean {
+  return typeof window !== 'undefined' && 'indexedDB' in window;
+}
+
+/**
+ * Whether a failed save looks like lost connectivity rather than a rejected round
+ *
+ * Server actions reject with a TypeError ("Failed to fetch") when the request
+ * never reaches the server.
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  return error instanceof TypeError || (error instanceof Error && /fetch|network/i.test(error.message));
+}
+
+/**
+ * Store a player's round on the device for later submission
+ */
+export async function queueRound(data: RoundData, userId: string): Promise<PendingRound> {
+  const round: PendingRound = {
+    id: crypto.randomUUID(),
+    userId,
+    data,
+    createdAt: new Date().toISOString(),
+    status: 'pending',
+    attempts: 0,
+    lastError: null,
+  };
+
+  await withStore('readwrite', (store) => store.put(round));
+  notifyChanged();
+  return round;
+}
+
+/**
+ * Every round the player has queued on this device, oldest first
+ */
+export async function getPendingRounds(userId: string): Promise<PendingRound[]> {
+  if (!isOfflineQueueAvailable()) return [];
+
+  const rounds = await withStore<PendingRound[]>('readonly', (store) => store.getAll());
+  return rounds
+    .filter((r) => r.userId === userId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Update a queued round (status, conflict override)
+ */
+export async function updatePendingRound(round: PendingRound): Promise<void> {
+  await withStore('readwrite', (store) => store.put(round));
+  notifyChanged();
+}
+
+/**
+ * Remove a round from the queue (synced or discarded)
+ */
+export async function removePendingRound(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+  notifyChanged();
+}
+
+/**
+ * Submit every round the signed-in player has pending, one at a time
+ *
+ * Rounds other players queued on the device wait until they sign in. Rounds
+ * flagged as same-day conflicts wait for the player to decide, unless they
+ * have already chosen to keep them. Stops early if the connection drops.
+ */
+export async function syncPendingRounds(userId: string, submit: SubmitPendingRound): Promise<SyncSummary> {
+  const summary: SyncSummary = { synced: 0, conflicts: 0, failed: 0 };
+
+  for (const round of await getPendingRounds(userId)) {
+    if (round.status === 'conflict' && !round.allowConflict) {
+      summary.conflicts++;
+      continue;
+    }
+
+    let outcome: SubmitOutcome;
+    try {
+      outcome = await submit(round);
+    } catch (error) {
+      if (isNetworkError(error)) break;
+      outcome = { success: false, error: error instanceof Error ? error.message : 'Sync failed' };
+    }
+
+    if (outcome.success) {
+      await removePendingRound(round.id);
+      summary.synced++;
+    } else if (outcome.conflict) {
+      await updatePendingRound({ ...round, status: 'conflict', attempts: round.attempts + 1, lastError: outcome.error || null });
+      summary.conflicts++;
+    } else {
+      await updatePendingRound({ ...round, status: 'failed', attempts: round.attempts + 1, lastError: outcome.error || null });
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
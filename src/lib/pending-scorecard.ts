@@ -0,0 +1,74 @@
+/**
+ * Pending Scorecard - keeping a photographed card while its course is added
+ *
+ * When a scorecard's course is not in the directory the player is sent to
+ * Add Course, pre-filled from the card. The card waits in sessionStorage and
+ * is handed back to Add Round only once the course has been saved.
+ */
+
+import type { ExtractedScorecard } from '@/lib/scorecard-extraction';
+import type { ExtractionConfidence } from '@/lib/scorecard-validation';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface PendingScorecard {
+  data: ExtractedScorecard;
+  confidence: ExtractionConfidence | null;
+  scorecardPath: string | null;
+  courseAdded: boolean;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const STORAGE_KEY = 'pgc-pending-scorecard';
+
+// ============================================
+// MAIN FUNCTIONS
+// ============================================
+
+/**
+ * Hold a card while the player adds its course
+ */
+export function savePendingScorecard(
+  data: ExtractedScorecard,
+  confidence: ExtractionConfidence | null,
+  scorecardPath: string | null
+): void {
+  const pending: PendingScorecard = { data, confidence, scorecardPath, courseAdded: false };
+  sessionStorage.setItem(STORAGE_KEY, JSON.stringify(pending));
+}
+
+/**
+ * The card waiting for its course, if any (used to pre-fill Add Course)
+ */
+export function readPendingScorecard(): PendingScorecard | null {
+  try {
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as PendingScorecard) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record that the card's course has been saved
+ */
+export function markPendingCourseAdded(): void {
+  const pending = readPendingScorecard();
+  if (pending) {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify({ ...pending, courseAdded: true }));
+  }
+}
+
+/**
+ * Hand back a card whose course is now saved; an abandoned card is discarded
+ */
+export function takeCompletedScorecard(): PendingScorecard | null {
+  const pending = readPendingScorecard();
+  sessionStorage.removeItem(STORAGE_KEY);
+  return pending?.courseAdded ? pending : null;
+}
@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { MAX_IMPORT_ROWS, parseRoundImport } from './round-import'
+
+// ============================================
+// FIXTURES
+// ============================================
+
+const HEADER = ['Date', 'Course', ...Array.from({ length: 18 }, (_, i) => `Hole ${i + 1}`)].join(',')
+
+const buildCsv = (...lines: string[]) => [HEADER, ...lines].join('\n')
+
+const buildLine = (date: string, course: string, scores: (number | string)[]) =>
+  [date, course, ...scores, ...Array(18 - scores.length).fill('')].join(',')
+
+const EIGHTEEN = Array(18).fill(4)
+const NINE = Array(9).fill(5)
+
+// ============================================
+// TESTS
+// ============================================
+
+describe('parseRoundImport', () => {
+  it('reads a CSV round with Irish dates and "Hole n" columns', () => {
+    const { rows, error } = parseRoundImport(buildCsv(buildLine('18/05/2024', 'Portmarnock', EIGHTEEN)), 'csv')
+
+    assert.equal(error, undefined)
+    assert.deepEqual(rows[0], {
+      row: 2,
+      course_name: 'Portmarnock',
+      date: '2024-05-18',
+      scores: EIGHTEEN,
+      playing_format: undefined,
+      round_type: undefined,
+      weather: undefined,
+      errors: [],
+    })
+  })
+
+  it('keeps a quoted course name with a comma in it', () => {
+    const { rows } = parseRoundImport(buildCsv(buildLine('2024-05-18', '"Portmarnock, Links"', EIGHTEEN)), 'csv')
+
+    assert.equal(rows[0].course_name, 'Portmarnock, Links')
+  })
+
+  it('reads a nine in an 18-column sheet as 9 holes', () => {
+    const { rows } = parseRoundImport(buildCsv(buildLine('2024-05-18', 'Lahinch', NINE)), 'csv')
+
+    assert.deepEqual(rows[0].scores, NINE)
+    assert.deepEqual(rows[0].errors, [])
+  })
+
+  it('reads blank, "-" and "x" holes as not played', () => {
+    const scores = [4, '', '-', 'x', ...Array(14).fill(4)]
+    const { rows } = parseRoundImport(buildCsv(buildLine('2024-05-18', 'Lahinch', scores)), 'csv')
+
+    assert.deepEqual(rows[0].scores.slice(0, 5), [4, null, null, null, 4])
+  })
+
+  it('flags out-of-range scores, bad dates and missing details on the row', () => {
+    const { rows } = parseRoundImport(
+      buildCsv(buildLine('31/02/2024', 'Lahinch', [4, 4, 21, ...Array(15).fill(4)]), buildLine('', '', EIGHTEEN)),
+      'csv'
+    )
+
+    assert.deepEqual(rows[0].errors, [
+      'Date "31/02/2024" is not a valid date (use YYYY-MM-DD or DD/MM/YYYY)',
+      'Hole 3: "21" is not a valid score',
+    ])
+    assert.deepEqual(rows[1].errors, ['Course is missing', 'Date is missing'])
+  })
+
+  it('flags a round that is neither 9 nor 18 holes', () => {
+    const twelve = Array(12).fill(4)
+    const csv = `Date,Course,${twelve.map((_, i) => `H${i + 1}`).join(',')}\n2024-05-18,Lahinch,${twelve.join(',')}`
+    const { rows } = parseRoundImport(csv, 'csv')
+
+    assert.deepEqual(rows[0].errors, ['Expected 9 or 18 hole scores, found 12'])
+  })
+
+  it('matches a format and round type by key or label', () => {
+    const csv = `Date,Course,Format,Type,${NINE.map((_, i) => `H${i + 1}`).join(',')}\n` +
+      `2024-05-18,Lahinch,Individual Stableford,club_competition,${NINE.join(',')}\n` +
+      `2024-05-19,Lahinch,Texas Scramble,Interclub,${NINE.join(',')}`
+    const { rows } = parseRoundImport(csv, 'csv')
+
+    assert.equal(rows[0].playing_format, 'stableford')
+    assert.equal(rows[0].round_type, 'club_competition')
+    assert.equal(rows[1].round_type, 'interclub')
+    assert.deepEqual(rows[1].errors, ['Format "Texas Scramble" is not recognised'])
+  })
+
+  it('reads JSON rounds with hole objects', () => {
+    const content = JSON.stringify({
+      rounds: [{ course: 'Ballybunion', date: '2024-06-01', scores: NINE.map((strokes, i) => ({ hole: i + 1, strokes })) }],
+    })
+    const { rows } = parseRoundImport(content, 'json')
+
+    assert.deepEqual(
+      { row: rows[0].row, course_name: rows[0].course_name, scores: rows[0].scores, errors: rows[0].errors },
+      { row: 1, course_name: 'Ballybunion', scores: NINE, errors: [] }
+    )
+  })
+
+  it('rejects a file it cannot read as a whole', () => {
+    assert.equal(parseRoundImport(HEADER, 'csv').error, 'The CSV needs a header row and at least one round')
+    assert.equal(parseRoundImport('{ rounds', 'json').error, 'The file is not valid JSON')
+    assert.equal(parseRoundImport('[]', 'json').error, 'No rounds found in the file')
+  })
+
+  it(`limits an import to ${MAX_IMPORT_ROWS} rounds`, () => {
+    const lines = Array.from({ length: MAX_IMPORT_ROWS + 1 }, () => buildLine('2024-05-18', 'Lahinch', NINE))
+
+    assert.equal(parseRoundImport(buildCsv(...lines), 'csv').error, `Import up to ${MAX_IMPORT_ROWS} rounds at a time`)
+  })
+})
@@ -0,0 +1,269 @@
+/**
+ * Round Import - historical rounds from CSV or JSON
+ *
+ * Parses Golf Ireland exports and spreadsheets into rounds with per-hole
+ * scores. Column names are matched loosely (e.g. "Date", "date_of_round";
+ * "H1", "Hole 1", "1"). Dates may be ISO (2024-05-18) or Irish (18/05/2024).
+ */
+
+import { PLAYING_FORMATS, PlayingFormat } from '@/lib/handicap';
+import { ROUND_TYPES, RoundType } from '@/lib/round-types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ImportFormat = 'csv' | 'json';
+
+export interface ParsedImportRow {
+  row: number;                       // 1-based, as shown in a spreadsheet (header is row 1 for CSV)
+  course_name: string;
+  date: string | null;               // ISO date, null when it could not be read
+  scores: (number | null)[];         // Index 0 = hole 1; null = hole not played
+  playing_format?: PlayingFormat;
+  round_type?: RoundType;
+  weather?: string;
+  errors: string[];
+}
+
+export interface ParsedImport {
+  rows: ParsedImportRow[];
+  error?: string;                    // The file as a whole could not be read
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const MAX_IMPORT_ROWS = 200;           // Each round is saved (with a weather lookup) one at a time
+export const MAX_HOLE_STROKES = 20;
+
+const DATE_KEYS = ['date', 'date_of_round', 'round_date', 'played', 'date_played'];
+const COURSE_KEYS = ['course', 'course_name', 'club', 'venue'];
+const FORMAT_KEYS = ['format', 'playing_format', 'competition_format'];
+const TYPE_KEYS = ['type', 'round_type'];
+const WEATHER_KEYS = ['weather'];
+
+// ============================================
+// MAIN FUNCTIONS
+// ============================================
+
+/**
+ * Parse an uploaded file of rounds
+ */
+export function parseRoundImport(content: string, format: ImportFormat): ParsedImport {
+  const parsed = format === 'json' ? parseJson(content) : parseCsv(content);
+
+  if (!parsed.error && parsed.rows.length === 0) {
+    return { rows: [], error: 'No rounds found in the file' };
+  }
+  if (parsed.rows.length > MAX_IMPORT_ROWS) {
+    return { rows: [], error: `Import up to ${MAX_IMPORT_ROWS} rounds at a time` };
+  }
+  return parsed;
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function parseCsv(content: string): ParsedImport {
+  const lines = content.split(/\r?\n/).filter((line) => line.trim() !== '');
+
+  if (lines.length < 2) {
+    return { rows: [], error: 'The CSV needs a header row and at least one round' };
+  }
+
+  const headers = splitCsvLine(lines[0]).map(normaliseKey);
+
+  const rows = lines.slice(1).map((line, i) => {
+    const values = splitCsvLine(line);
+    const record: Record<string, string> = {};
+    headers.forEach((header, col) => {
+      record[header] = (values[col] ?? '').trim();
+    });
+    return toImportRow(record, i + 2);
+  });
+
+  return { rows };
+}
+
+function parseJson(content: string): ParsedImport {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    return { rows: [], error: 'The file is not valid JSON' };
+  }
+
+  const list = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object' && Array.isArray((data as { rounds?: unknown }).rounds)
+      ? (data as { rounds: unknown[] }).rounds
+      : null;
+
+  if (!list) {
+    return { rows: [], error: 'Expected a list of rounds (or an object with a "rounds" list)' };
+  }
+
+  const rows = list.map((item, i) => {
+    if (!item || typeof item !== 'object') {
+      return { row: i + 1, course_name: '', date: null, scores: [], errors: ['Not a round object'] };
+    }
+
+    const record: Record<string, string> = {};
+    let holeList: unknown = null;
+
+    Object.entries(item as Record<string, unknown>).forEach(([key, value]) => {
+      const normalised = normaliseKey(key);
+      if (['scores', 'holes', 'hole_scores'].includes(normalised) && Array.isArray(value)) {
+        holeList = value;
+      } else if (value !== null && value !== undefined && typeof value !== 'object') {
+        record[normalised] = String(value).trim();
+      }
+    });
+
+    // Hole scores as [4, 5, 3, ...] or [{ hole: 1, strokes: 4 }, ...]
+    if (Array.isArray(holeList)) {
+      (holeList as unknown[]).forEach((entry, index) => {
+        if (entry && typeof entry === 'object') {
+          const hole = Number((entry as { hole?: unknown; hole_number?: unknown }).hole ?? (entry as { hole_number?: unknown }).hole_number);
+          const strokes = (entry as { strokes?: unknown; score?: unknown }).strokes ?? (entry as { score?: unknown }).score;
+          if (Number.isInteger(hole)) record[`h${hole}`] = strokes == null ? '' : String(strokes);
+        } else {
+          record[`h${index + 1}`] = entry == null ? '' : String(entry);
+        }
+      });
+    }
+
+    return toImportRow(record, i + 1);
+  });
+
+  return { rows };
+}
+
+// One round from a record of normalised column names to raw values
+function toImportRow(record: Record<string, string>, row: number): ParsedImportRow {
+  const errors: string[] = [];
+
+  const courseName = pick(record, COURSE_KEYS);
+  if (!courseName) errors.push('Course is missing');
+
+  const rawDate = pick(record, DATE_KEYS);
+  const date = rawDate ? parseDate(rawDate) : null;
+  if (!rawDate) errors.push('Date is missing');
+  else if (!date) errors.push(`Date "${rawDate}" is not a valid date (use YYYY-MM-DD or DD/MM/YYYY)`);
+
+  // Hole columns: h1, hole1, hole_1 or 1 (normalised to h1)
+  const scores: (number | null)[] = [];
+  for (let hole = 1; hole <= 18; hole++) {
+    const raw = record[`h${hole}`];
+    if (raw === undefined) break;
+    if (raw === '' || raw === '-' || raw.toLowerCase() === 'x') {
+      scores.push(null);
+      continue;
+    }
+    const strokes = Number(raw);
+    if (!Number.isInteger(strokes) || strokes < 1 || strokes > MAX_HOLE_STROKES) {
+      errors.push(`Hole ${hole}: "${raw}" is not a valid score`);
+      scores.push(null);
+    } else {
+      scores.push(strokes);
+    }
+  }
+
+  // Drop trailing blank holes so a 9-hole round in an 18-column sheet reads as 9 holes
+  while (scores.length > 9 && scores.slice(9).every((s) => s === null)) scores.splice(9);
+
+  if (scores.length === 0) errors.push('No hole scores found (expected columns H1 to H18)');
+  else if (scores.length !== 9 && scores.length !== 18) errors.push(`Expected 9 or 18 hole scores, found ${scores.length}`);
+  else if (scores.every((s) => s === null)) errors.push('Every hole is blank');
+
+  const rawFormat = pick(record, FORMAT_KEYS);
+  const playingFormat = rawFormat ? matchOption(rawFormat, PLAYING_FORMATS) : undefined;
+  if (rawFormat && !playingFormat) errors.push(`Format "${rawFormat}" is not recognised`);
+
+  const rawType = pick(record, TYPE_KEYS);
+  const roundType = rawType ? matchOption(rawType, ROUND_TYPES) : undefined;
+  if (rawType && !roundType) errors.push(`Round type "${rawType}" is not recognised`);
+
+  return {
+    row,
+    course_name: courseName,
+    date,
+    scores,
+    playing_format: playingFormat,
+    round_type: roundType,
+    weather: pick(record, WEATHER_KEYS) || undefined,
+    errors,
+  };
+}
+
+// "Hole 1" / "hole_1" / "H1" / "1" -> "h1"; other headers -> snake_case
+function normaliseKey(key: string): string {
+  const snake = key.toLowerCase().trim().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  const hole = snake.match(/^(?:h|hole_?)?(\d{1,2})$/);
+  return hole ? `h${Number(hole[1])}` : snake;
+}
+
+function pick(record: Record<string, string>, keys: string[]): string {
+  for (const key of keys) {
+    if (record[key]) return record[key];
+  }
+  return '';
+}
+
+// Match a key or label, e.g. "stableford" or "Individual Stableford"
+function matchOption<K extends string>(raw: string, options: Record<K, { label: string }>): K | undefined {
+  const value = normaliseKey(raw);
+  return (Object.keys(options) as K[]).find(
+    (key) => key === value || normaliseKey(options[key].label) === value
+  );
+}
+
+function parseDate(raw: string): string | null {
+  let year: number, month: number, day: number;
+
+  const iso = raw.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const irish = raw.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (irish) {
+    [day, month, year] = [Number(irish[1]), Number(irish[2]), Number(irish[3])];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().split('T')[0];
+}
+
+// Split one CSV line, honouring quoted fields ("Portmarnock, Links")
+function splitCsvLine(line: string): string[] {
+  const values: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if ((char === ',' || char === ';') && !inQuotes) {
+      values.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  values.push(current);
+  return values;
+}
@@ -0,0 +1,64 @@
+/**
+ * Round Types - competition vs general play
+ *
+ * Every round is a club competition, an interclub match or general play,
+ * and can be linked to a named event (date, venue and format). Reports,
+ * Squad Insights, the leaderboard and the simulator filter by type so
+ * selection can lean on competitive rounds.
+ */
+
+import type { PlayingFormat } from '@/lib/handicap';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type RoundType = 'club_competition' | 'interclub' | 'general_play';
+
+// Filter choice on the stats views ('competitive' = competition or interclub)
+export type RoundTypeFilter = 'all' | 'competitive' | RoundType;
+
+// A named competition or match rounds can be linked to
+export interface GolfEvent {
+  id: string;
+  name: string;
+  event_date: string;
+  course_id: string | null;
+  playing_format: PlayingFormat;
+  round_type: Exclude<RoundType, 'general_play'>;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const ROUND_TYPES: Record<RoundType, { label: string; competitive: boolean }> = {
+  club_competition: { label: 'Club Competition', competitive: true },
+  interclub: { label: 'Interclub Match', competitive: true },
+  general_play: { label: 'General Play', competitive: false },
+};
+
+export const ROUND_TYPE_FILTER_OPTIONS: { value: RoundTypeFilter; label: string }[] = [
+  { value: 'all', label: 'All Rounds' },
+  { value: 'competitive', label: 'Competitive Only' },
+  { value: 'club_competition', label: 'Club Competitions' },
+  { value: 'interclub', label: 'Interclub Matches' },
+  { value: 'general_play', label: 'General Play' },
+];
+
+// ============================================
+// MAIN FUNCTIONS
+// ============================================
+
+/**
+ * Whether a round's type passes the selected filter
+ *
+ * Rounds saved before types existed have no type and count as general play.
+ */
+export function matchesRoundType(roundType: string | null | undefined, filter: RoundTypeFilter): boolean {
+  if (filter === 'all') return true;
+
+  const type = (roundType || 'general_play') as RoundType;
+  if (filter === 'competitive') return ROUND_TYPES[type]?.competitive ?? false;
+  return type === filter;
+}
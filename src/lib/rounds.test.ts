@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { buildRoundRecord, HoleData, RoundData } from './rounds'
+
+// ============================================
+// FIXTURES
+// ============================================
+
+// Answers every query on a table with its rows, ignoring filters
+const fakeClient = (tables: Record<string, Record<string, unknown>[]>) => {
+  const query = (rows: Record<string, unknown>[]) => {
+    const builder = {
+      select: () => builder,
+      eq: () => builder,
+      order: () => builder,
+      single: async () => ({ data: rows[0] ?? null, error: rows[0] ? null : { message: 'Not found' } }),
+      then: (resolve: (result: { data: unknown; error: null }) => unknown) => resolve({ data: rows, error: null }),
+    }
+    return builder
+  }
+  return { from: (table: string) => query(tables[table] || []) } as unknown as SupabaseClient
+}
+
+const COURSE_ID = 'course-1'
+
+// Par 72, rating 72.0 / slope 113, stroke indexes odd on the front nine
+const courseHoles = Array.from({ length: 18 }, (_, i) => ({
+  hole_number: i + 1,
+  stroke_index: i < 9 ? i * 2 + 1 : (i - 9) * 2 + 2,
+}))
+
+const client = fakeClient({
+  courses: [{
+    id: COURSE_ID,
+    name: 'Royal Dublin',
+    location: null,
+    rating: 72.0,
+    slope: 113,
+    standard_scratch: 72,
+    hole_count: 18,
+    front_loop_id: null,
+    back_loop_id: null,
+  }],
+  profiles: [{ home_club: null, handicap_index: 18.0 }],
+  course_holes: courseHoles,
+})
+
+const buildNine = (strokes: number): RoundData => ({
+  course_id: COURSE_ID,
+  course_name: 'Royal Dublin',
+  date: '2026-06-01',
+  weather: 'Sunny',
+  wind_conditions: '',
+  course_rating: 72.0,
+  slope_rating: 113,
+  round_length: 9,
+  holes: Array.from({ length: 18 }, (_, i): HoleData => ({
+    hole: i + 1,
+    par: 4,
+    distance: 380,
+    strokes: i < 9 ? strokes : null,
+  })),
+})
+
+// ============================================
+// TESTS
+// ============================================
+
+describe('buildRoundRecord', () => {
+  it('rates a nine on an 18-hole course as a nine', async () => {
+    const result = await buildRoundRecord(client, 'player-1', buildNine(5))
+
+    assert.equal(result.success, true)
+    if (!result.success) return
+
+    // Half the index on half the rating and the nine's par
+    assert.equal(result.record.round.course_handicap, 9)
+    assert.equal(result.record.round.total_par, 36)
+    // 45 - 36.0 plus the expected 10.56 for the unplayed nine
+    assert.equal(result.record.totals.scoreDifferential, 19.6)
+  })
+
+  it('gives a nine its strokes on every hole played', async () => {
+    const result = await buildRoundRecord(client, 'player-1', buildNine(5))
+
+    assert.equal(result.success, true)
+    if (!result.success) return
+
+    // A bogey on each hole with a stroke on each is a net par: 2 points a hole
+    assert.equal(result.record.totals.stablefordPoints, 18)
+    assert.deepEqual(result.record.scores.map((s) => s.stroke_index), [1, 3, 5, 7, 9, 11, 13, 15, 17])
+  })
+})
@@ -0,0 +1,381 @@
+/**
+ * Round Utility - builds the stored record for a scorecard
+ *
+ * Shared by saving a new round and editing an existing one: looks up the
+ * course, home/away and weather, applies the WHS adjustments and works out
+ * every total that is stored on `rounds` and `round_scores`, including the
+ * nine-hole loops played when the course is built from them and the
+ * rating version in force on the day.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { fetchHistoricalWeather } from '@/lib/weather';
+import {
+  calculateCourseHandicap,
+  calculatePlayingHandicap,
+  calculateScoreDifferential,
+  getPlayedCourseRating,
+  getRoundHandicapIndex,
+  HandicapHistoryEntry,
+  PlayingFormat,
+} from '@/lib/handicap';
+import { adjustHoleScores, isGreenInRegulation, scoreHoles } from '@/lib/scoring';
+import {
+  calculateHoleStrokesGained,
+  getShotStrokes,
+  ShotInput,
+  StrokesGainedBreakdown,
+  sumStrokesGained,
+  validateShots,
+} from '@/lib/strokes-gained';
+import type { RoundType } from '@/lib/round-types';
+import { getLoopHole } from '@/lib/course-loops';
+import { fetchRatingVersions, pickRatingVersion } from '@/lib/course-ratings';
+
+// ============================================
+// TYPES
+// ============================================
+
+// Tee shot result on a par 4 or 5
+export type FairwayResult = 'hit' | 'left' | 'right';
+
+// Optional per-hole shot statistics (null = not recorded)
+export interface HoleShotStats {
+  putts?: number | null;
+  fairway?: FairwayResult | null;
+  gir?: boolean | null;
+  sandShots?: number | null;
+  penalties?: number | null;
+}
+
+export interface HoleData extends HoleShotStats {
+  hole: number;
+  par: number;
+  distance: number;
+  strokeIndex?: number;
+  strokes: number | null;
+  shots?: ShotInput[] | null;                // Optional shot-by-shot entry
+}
+
+export interface RoundData {
+  course_id: string;
+  course_name: string;
+  date: string;
+  weather: string;
+  wind_conditions: string;
+  course_rating: number | null;
+  slope_rating: number | null;
+  holes: HoleData[];
+  round_length?: 9 | 18;
+  playing_format?: PlayingFormat;
+  marker_id?: string | null;                 // Playing partner asked to attest the card
+  round_type?: RoundType;
+  event_id?: string | null;                  // Named competition or match (its type wins)
+  scorecard_path?: string | null;            // Stored scorecard image the round was read from
+  tee_id?: string | null;                    // Tees played (their rating, slope and par replace the course's)
+}
+
+export interface RoundTotals {
+  totalStrokes: number;
+  adjustedGrossScore: number;
+  scoreToPar: number;
+  netStrokes: number;
+  stablefordPoints: number;
+  scoreDifferential: number | null;
+  strokesGained: StrokesGainedBreakdown | null;  // Holes with shot-by-shot entry only
+}
+
+export interface RoundRecord {
+  round: Record<string, unknown>;            // Columns for the `rounds` row (without user_id)
+  scores: Record<string, unknown>[];         // `round_scores` rows (without round_id)
+  totals: RoundTotals;
+}
+
+// Structured error returned by the save/update round database functions
+export interface RoundValidationError {
+  field: string;
+  message: string;
+}
+
+// Result of save_round_with_scores / update_round_with_scores
+export interface RoundFunctionResult {
+  success: boolean;
+  round_id?: string;
+  duplicate?: boolean;                       // client_ref already saved (offline resubmission)
+  errors?: RoundValidationError[];
+}
+
+export type RoundRecordResult =
+  | { success: true; record: RoundRecord }
+  | { success: false; error: string };
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const FAIRWAY_OPTIONS: { value: FairwayResult; label: string }[] = [
+  { value: 'hit', label: 'Hit' },
+  { value: 'left', label: 'Left' },
+  { value: 'right', label: 'Right' },
+];
+
+// ============================================
+// MAIN FUNCTIONS
+// ============================================
+
+/**
+ * Build the stored round and hole score rows for a scorecard
+ *
+ * @param supabase - Client used for the course, profile and hole lookups
+ * @param playerId - Owner of the round (their home club and index on the day are used)
+ * @param data - Scorecard as entered
+ * @param pcc - Playing Conditions Calculation to apply, when already known for the day
+ */
+export async function buildRoundRecord(
+  supabase: SupabaseClient,
+  playerId: string,
+  data: RoundData,
+  pcc: number | null = null
+): Promise<RoundRecordResult> {
+  // 1. Verify the course exists
+  const { data: course, error: courseError } = await supabase
+    .from('courses')
+    .select('id, name, location, rating, slope, standard_scratch, hole_count, front_loop_id, back_loop_id')
+    .eq('id', data.course_id)
+    .single();
+
+  if (courseError || !course) {
+    return { success: false, error: 'Selected course not found. Please select a valid course.' };
+  }
+
+  // 1b. Tees played, when chosen, carry their own rating, slope and par
+  let tee: { rating: number | null; slope: number | null; par: number | null } | null = null;
+
+  if (data.tee_id) {
+    const { data: teeData } = await supabase
+      .from('course_tees')
+      .select('rating, slope, par')
+      .eq('id', data.tee_id)
+      .eq('course_id', course.id)
+      .single();
+
+    if (!teeData) {
+      return { success: false, error: 'The selected tees are not on this course.' };
+    }
+    tee = teeData;
+  }
+
+  // 1c. The rating in force on the day played (a later re-rating does not change it)
+  const ratingVersion = pickRatingVersion(await fetchRatingVersions(supabase, course.id), data.tee_id || null, data.date);
+
+  // 2. Determine home/away using startsWith against the player's home_club
+  let isHome: boolean | null = null;
+  const { data: playerProfile } = await supabase
+    .from('profiles')
+    .select('home_club, handicap_index')
+    .eq('id', playerId)
+    .single();
+
+  if (playerProfile?.home_club && course.name) {
+    isHome = course.name.startsWith(playerProfile.home_club);
+  }
+
+  // 2b. The index the player held going into the round (imports can be years old)
+  const { data: handicapHistory } = await supabase
+    .from('handicap_history')
+    .select('user_id, handicap_index, effective_date')
+    .eq('user_id', playerId)
+    .order('effective_date', { ascending: true });
+
+  // 3. Fetch weather data automatically
+  let weatherCategory = data.weather || 'Other';
+  let tempC: number | null = null;
+  let windSpeedKph: number | null = null;
+
+  if (course.location && data.date) {
+    try {
+      const weatherData = await fetchHistoricalWeather(data.date, course.location);
+
+      if (weatherData) {
+        if (!data.weather || data.weather === '' || data.weather === 'Other') {
+          weatherCategory = weatherData.weather;
+        }
+        tempC = weatherData.temp_c;
+        windSpeedKph = weatherData.wind_speed_kph;
+
+        console.log(`Weather auto-populated: ${weatherCategory}, ${tempC}°C, ${windSpeedKph} kph`);
+      }
+    } catch (weatherError) {
+      console.warn('Weather lookup failed, using manual input:', weatherError);
+    }
+  }
+
+  // 4. Apply net double bogey adjustment and calculate totals
+  const holesPlayed = data.round_length || 18;
+
+  // Stroke index allocation comes from the course's own hole data
+  const { data: courseHoles } = await supabase
+    .from('course_holes')
+    .select('hole_number, stroke_index')
+    .eq('course_id', course.id);
+
+  const strokeIndexMap = new Map<number, number>(
+    (courseHoles || []).map((ch) => [ch.hole_number, ch.stroke_index])
+  );
+
+  const activeHoles = data.holes.slice(0, holesPlayed).map((h) => ({
+    ...h,
+    strokeIndex: strokeIndexMap.get(h.hole) ?? h.strokeIndex,
+  }));
+  const cardPar = activeHoles.reduce((sum, h) => sum + h.par, 0);
+
+  // The tees' par covers the full course, so it replaces the card's when the round is full length
+  const totalPar = tee?.par && holesPlayed === (course.hole_count || 18) ? tee.par : cardPar;
+
+  // A nine-hole round on a composed course only plays its front loop
+  const frontLoopId: string | null = course.front_loop_id ?? null;
+  const backLoopId: string | null = holesPlayed === 18 ? course.back_loop_id ?? null : null;
+
+  // Shot-by-shot holes must account for every stroke on the card
+  for (const h of activeHoles) {
+    if (!h.shots || h.shots.length === 0 || !h.strokes) continue;
+
+    const shotError = validateShots(h.shots);
+    if (shotError) {
+      return { success: false, error: `Hole ${h.hole}: ${shotError}` };
+    }
+    if (getShotStrokes(h.shots) !== h.strokes) {
+      return { success: false, error: `Hole ${h.hole}: shots entered do not add up to the score of ${h.strokes}` };
+    }
+  }
+
+  // Rating of the day (tees' before the course's), else today's tee or course rating; SSS when there is no WHS rating
+  const courseRating = ratingVersion
+    ? ratingVersion.rating ?? course.standard_scratch
+    : tee?.rating ?? course.rating ?? course.standard_scratch;
+  const slopeRating = ratingVersion ? ratingVersion.slope : tee?.slope ?? course.slope;
+  // A nine on an 18-hole course is rated as a nine, to match the nine's par
+  const playedRating = courseRating
+    ? getPlayedCourseRating(Number(courseRating), holesPlayed, course.hole_count)
+    : null;
+  const handicapIndex = getRoundHandicapIndex(
+    (handicapHistory || []) as HandicapHistoryEntry[],
+    data.date,
+    playerProfile?.handicap_index
+  );
+
+  const courseHandicap = handicapIndex !== null && playedRating
+    ? calculateCourseHandicap(handicapIndex, slopeRating, playedRating, totalPar, holesPlayed)
+    : null;
+  const playingFormat = data.playing_format || 'stroke_play';
+  const playingHandicap = courseHandicap !== null
+    ? calculatePlayingHandicap(courseHandicap, playingFormat)
+    : null;
+
+  // Played holes are capped at net double bogey; unplayed holes count as net par in the adjusted score only
+  const adjustedHoles = adjustHoleScores(activeHoles, courseHandicap, holesPlayed);
+
+  // Net and Stableford scores use the playing handicap for the format
+  const scoredHoles = scoreHoles(adjustedHoles, playingHandicap, holesPlayed);
+  const finalHoles = activeHoles.map((h, i) => ({ ...h, ...adjustedHoles[i], ...scoredHoles[i] }));
+
+  // Gross totals only count the holes actually played
+  const totalStrokes = finalHoles.reduce((sum, h) => sum + (h.strokes ?? 0), 0);
+  const playedPar = finalHoles.every((h) => h.played)
+    ? totalPar
+    : finalHoles.reduce((sum, h) => sum + (h.played ? h.par : 0), 0);
+  const adjustedGrossScore = finalHoles.reduce((sum, h) => sum + h.adjustedStrokes, 0);
+  const netStrokes = totalStrokes - (playingHandicap ?? 0);
+  const stablefordPoints = finalHoles.reduce((sum, h) => sum + h.stablefordPoints, 0);
+
+  // Strokes gained for each hole played shot by shot
+  const holeStrokesGained = finalHoles.map((h) =>
+    h.played && h.shots && h.shots.length > 0 ? calculateHoleStrokesGained(h.shots, h.par) : null
+  );
+  const trackedHoles = holeStrokesGained.filter((sg): sg is StrokesGainedBreakdown => sg !== null);
+  const strokesGained = trackedHoles.length > 0 ? sumStrokesGained(trackedHoles) : null;
+
+  // The loop hole behind each course hole, so scores line up across compositions
+  const loopHoles = finalHoles.map((h) => getLoopHole(h.hole, frontLoopId, backLoopId));
+
+  // 5. WHS score differential from the adjusted gross score
+  const scoreDifferential = playedRating
+    ? calculateScoreDifferential({
+        adjustedGross: adjustedGrossScore,
+        courseRating: playedRating,
+        slopeRating,
+        holesPlayed,
+        pcc: pcc ?? 0,
+        handicapIndex,
+      })
+    : null;
+
+  return {
+    success: true,
+    record: {
+      round: {
+        course_id: course.id,
+        date_of_round: data.date,
+        weather: weatherCategory,
+        wind_conditions: data.wind_conditions || null,
+        temp_c: tempC,
+        wind_speed_kph: windSpeedKph,
+        total_strokes: totalStrokes,
+        total_par: totalPar,
+        score_to_par: totalStrokes - playedPar,
+        adjusted_gross_score: adjustedGrossScore,
+        net_strokes: netStrokes,
+        stableford_points: stablefordPoints,
+        course_handicap: courseHandicap,
+        playing_format: playingFormat,
+        playing_handicap: playingHandicap,
+        holes_played: holesPlayed,
+        is_home: isHome,
+        pcc,
+        score_differential: scoreDifferential,
+        marker_id: data.marker_id || null,
+        round_type: data.round_type || 'general_play',
+        event_id: data.event_id || null,
+        scorecard_path: data.scorecard_path || null,
+        tee_id: data.tee_id || null,
+        front_loop_id: frontLoopId,
+        back_loop_id: backLoopId,
+        rating_id: ratingVersion?.id ?? null,
+      },
+      scores: finalHoles.map((hole, i) => ({
+        hole_number: hole.hole,
+        par: hole.par,
+        distance: hole.distance,
+        stroke_index: hole.strokeIndex,
+        strokes: hole.strokes,
+        adjusted_strokes: hole.adjustedStrokes,
+        net_strokes: hole.netStrokes,
+        stableford_points: hole.stablefordPoints,
+        // Shot statistics only apply to holes actually played
+        putts: hole.played ? hole.putts ?? null : null,
+        fairway: hole.played && hole.par > 3 ? hole.fairway ?? null : null,
+        gir: hole.strokes !== null
+          ? hole.gir ?? (hole.putts != null ? isGreenInRegulation(hole.par, hole.strokes, hole.putts) : null)
+          : null,
+        sand_shots: hole.played ? hole.sandShots ?? null : null,
+        penalty_strokes: hole.played ? hole.penalties ?? null : null,
+        shots: holeStrokesGained[i] ? hole.shots : null,
+        sg_off_the_tee: holeStrokesGained[i]?.offTheTee ?? null,
+        sg_approach: holeStrokesGained[i]?.approach ?? null,
+        sg_around_green: holeStrokesGained[i]?.aroundTheGreen ?? null,
+        sg_putting: holeStrokesGained[i]?.putting ?? null,
+        loop_id: loopHoles[i]?.loopId ?? null,
+        loop_hole_number: loopHoles[i]?.loopHoleNumber ?? null,
+      })),
+      totals: {
+        totalStrokes,
+        adjustedGrossScore,
+        scoreToPar: totalStrokes - playedPar,
+        netStrokes,
+        stablefordPoints,
+        scoreDifferential,
+        strokesGained,
+      },
+    },
+  };
+}
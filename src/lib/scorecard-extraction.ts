@@ -0,0 +1,268 @@
+/**
+ * Scorecard Extraction - reading a scorecard photo into round data
+ *
+ * Each provider turns an uploaded image into the same extracted shape.
+ * The provider is chosen by SCORECARD_EXTRACTION_PROVIDER:
+ *   gemini (default) - Google Gemini vision model, needs GEMINI_API_KEY
+ *   local            - deterministic stand-in that reads a JSON fixture named
+ *                      after the image (portmarnock-test-1.jpg ->
+ *                      portmarnock-test-1.json) from SCORECARD_FIXTURES_DIR,
+ *                      so the upload flow can be exercised offline
+ *
+ * PDFs (e.g. cards emailed by a club) may hold one scorecard per page; the
+ * provider returns every card with the page it was read from,
+ * splitExtractedCards separates them and readCardPages checks the pages.
+ *
+ * A provider that cannot read a card reports the failure; it never
+ * substitutes other data. What it does read is untrusted until checked by
+ * validateExtractedScorecard (see scorecard-validation).
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+
+// ============================================
+// TYPES
+// ============================================
+
+// Scorecard after validation; numbers that could not be read are null
+export interface ExtractedScorecard {
+  round_details: {
+    course_name: string;
+    date_of_round: string;
+    course_rating: number | null;
+    slope_rating: number | null;
+    total_adj_gross: number | null;
+  };
+  grounded_info: {
+    course_type: string;
+    location: string;
+    weather_conditions: string;
+  };
+  hole_data: Array<{
+    hole: number;
+    par: number | null;
+    distance: number | null;
+    strokes: number | null;
+    putts?: number | null;           // Only when the card has a putts column
+  }>;
+}
+
+export type ExtractionProviderName = 'gemini' | 'local';
+
+export interface ScorecardImage {
+  name: string;
+  mimeType: string;
+  bytes: Buffer;
+}
+
+export interface ExtractionResult {
+  success: boolean;
+  raw?: unknown;                     // Parsed JSON exactly as the provider returned it (a list for PDFs)
+  error?: string;
+}
+
+// PDF page a card was read from, or why it could not be placed
+export interface CardPage {
+  page: number | null;
+  error?: string;
+}
+
+export interface ScorecardExtractionProvider {
+  name: ExtractionProviderName;
+  extract(image: ScorecardImage): Promise<ExtractionResult>;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const PDF_MIME_TYPE = 'application/pdf';
+export const SCORECARD_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'];
+export const MAX_SCORECARD_BYTES = 10 * 1024 * 1024;
+export const MAX_PDF_PAGES = 10;
+
+const GEMINI_MODEL = 'gemini-1.5-flash';
+const DEFAULT_FIXTURES_DIR = 'fixtures/scorecards';
+
+const EXTRACTION_PROMPT = `
+    You are a Golf Scorecard Parser.
+    Extract data from this Golf Ireland scorecard image.
+
+    REQUIRED OUTPUT (JSON ONLY):
+    {
+      "round_details": {
+        "course_name": "string (extract from text)",
+        "date_of_round": "YYYY-MM-DD (default to today if missing)",
+        "course_rating": number (from header),
+        "slope_rating": number (from header),
+        "total_adj_gross": number (final score)
+      },
+      "grounded_info": {
+        "course_type": "string (Links/Parkland/Heathland/Cliffside/Desert/Resort - infer from name)",
+        "location": "string (infer from name)",
+        "weather_conditions": "string (infer from date/location e.g., 'Windy, 14°C')"
+      },
+      "hole_data": [
+        // Array of 18 objects
+        // IMPORTANT: Map the scorecard "GROSS" column to the "strokes" key
+        // Include "putts" only if the card has a putts column
+        { "hole": 1, "par": number, "distance": number, "strokes": number, "putts": number }
+        // ... through 18
+      ]
+    }
+  `;
+
+// A PDF holds one scorecard per page, each in the single-card shape above plus its page
+const PDF_PROMPT_SUFFIX = `
+    This is a PDF. Each page is a separate scorecard.
+    Return JSON ONLY of the form { "scorecards": [ ... ] } with one object per scorecard,
+    each in the REQUIRED OUTPUT shape above plus "page": number (the 1-based PDF page it is on).
+    Skip blank pages and pages without a scorecard; never guess a page number.
+  `;
+
+// ============================================
+// MAIN FUNCTIONS
+// ============================================
+
+/**
+ * Provider named by SCORECARD_EXTRACTION_PROVIDER (Gemini when unset)
+ *
+ * @returns The provider, or null when the configured name is not recognised
+ */
+export function getExtractionProvider(
+  name: string = process.env.SCORECARD_EXTRACTION_PROVIDER || 'gemini'
+): ScorecardExtractionProvider | null {
+  switch (name.trim().toLowerCase()) {
+    case 'gemini':
+      return geminiProvider;
+    case 'local':
+      return localProvider;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Number of pages in a PDF (0 when it cannot be told without a full parser)
+ *
+ * Counts page objects ("/Type /Page", not the "/Type /Pages" tree nodes).
+ * PDFs that compress their object streams hide these, so 0 means unknown.
+ */
+export function countPdfPages(bytes: Buffer): number {
+  return (bytes.toString('latin1').match(/\/Type\s*\/Page(?![a-zA-Z])/g) || []).length;
+}
+
+/**
+ * The PDF page each card reports it was read from
+ *
+ * Pages must be whole numbers within the PDF (or MAX_PDF_PAGES when its page
+ * count is unknown), and no two cards can claim the same page. Cards are
+ * never placed by their position in the list: a skipped blank page would
+ * shift every later card onto the wrong page.
+ */
+export function readCardPages(cards: unknown[], pageCount: number): CardPage[] {
+  const lastPage = pageCount > 0 ? pageCount : MAX_PDF_PAGES;
+  const reported = cards.map((raw) =>
+    raw && typeof raw === 'object' ? Number((raw as { page?: unknown }).page) : NaN
+  );
+
+  return reported.map((page) => {
+    if (!Number.isInteger(page) || page < 1 || page > lastPage) {
+      return { page: null, error: 'The scorecard reader did not say which page this card is on.' };
+    }
+    if (reported.filter((p) => p === page).length > 1) {
+      return { page: null, error: `More than one card was read from page ${page}.` };
+    }
+    return { page };
+  });
+}
+
+/**
+ * Separate a provider result into one raw card per scorecard
+ *
+ * Accepts a single card, a list of cards or { scorecards: [...] }.
+ */
+export function splitExtractedCards(raw: unknown): unknown[] {
+  if (Array.isArray(raw)) return raw;
+  if (raw && typeof raw === 'object' && Array.isArray((raw as { scorecards?: unknown }).scorecards)) {
+    return (raw as { scorecards: unknown[] }).scorecards;
+  }
+  return [raw];
+}
+
+// ============================================
+// PROVIDERS
+// ============================================
+
+const geminiProvider: ScorecardExtractionProvider = {
+  name: 'gemini',
+
+  async extract(image) {
+    const apiKey = process.env.GEMINI_API_KEY;
+
+    if (!apiKey) {
+      return { success: false, error: 'Scorecard reading is not configured (GEMINI_API_KEY is missing).' };
+    }
+
+    try {
+      const model = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model: GEMINI_MODEL });
+
+      const prompt = image.mimeType === PDF_MIME_TYPE ? EXTRACTION_PROMPT + PDF_PROMPT_SUFFIX : EXTRACTION_PROMPT;
+
+      const result = await model.generateContent([
+        prompt,
+        {
+          inlineData: {
+            data: image.bytes.toString('base64'),
+            mimeType: image.mimeType,
+          },
+        },
+      ]);
+
+      const text = result.response.text();
+      return parseExtractedJson(text.replace(/```json/g, '').replace(/```/g, '').trim());
+    } catch (error) {
+      console.error('Gemini extraction error:', error);
+      return {
+        success: false,
+        error: `Could not read the scorecard: ${error instanceof Error ? error.message : 'the scorecard reader did not respond'}`,
+      };
+    }
+  },
+};
+
+const localProvider: ScorecardExtractionProvider = {
+  name: 'local',
+
+  async extract(image) {
+    const fixturesDir = process.env.SCORECARD_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+    const fixtureName = `${path.parse(image.name).name}.json`;
+    const fixturePath = path.resolve(process.cwd(), fixturesDir, fixtureName);
+
+    let text: string;
+    try {
+      text = await readFile(fixturePath, 'utf8');
+    } catch {
+      return {
+        success: false,
+        error: `No local scorecard fixture for "${image.name}" (expected ${path.join(fixturesDir, fixtureName)}).`,
+      };
+    }
+
+    return parseExtractedJson(text);
+  },
+};
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function parseExtractedJson(text: string): ExtractionResult {
+  try {
+    return { success: true, raw: JSON.parse(text) };
+  } catch {
+    return { success: false, error: 'Could not read the scorecard: the result was not valid JSON.' };
+  }
+}
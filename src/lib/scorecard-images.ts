@@ -0,0 +1,104 @@
+/**
+ * Scorecard Images - the uploaded card kept alongside its round
+ *
+ * A photo or PDF is stored in the private `scorecards` bucket as
+ * <player id>/<random id>.<ext> when it is read, and the saved round
+ * records that path in `rounds.scorecard_path`. Every card from one PDF
+ * shares the file, so an image is only removed once no round links to it.
+ * Uploads whose cards are skipped or abandoned before saving are removed
+ * the same way.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const SCORECARD_BUCKET = 'scorecards';
+
+// Signed links are short-lived; pages ask for a fresh one each time
+export const SCORECARD_URL_TTL_SECONDS = 600;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+  'image/heif': 'heif',
+  'application/pdf': 'pdf',
+};
+
+// ============================================
+// MAIN FUNCTIONS
+// ============================================
+
+/**
+ * Where a player's uploaded scorecard is stored
+ */
+export function buildScorecardPath(playerId: string, mimeType: string): string {
+  return `${playerId}/${crypto.randomUUID()}.${EXTENSIONS[mimeType] || 'bin'}`;
+}
+
+/**
+ * Whether a stored scorecard is a PDF rather than a photo
+ */
+export function isPdfScorecard(path: string): boolean {
+  return path.toLowerCase().endsWith('.pdf');
+}
+
+/**
+ * Store an uploaded scorecard in the player's folder
+ *
+ * @returns The stored path, or null if the upload failed (the card can still be saved without it)
+ */
+export async function storeScorecardImage(
+  supabase: SupabaseClient,
+  playerId: string,
+  mimeType: string,
+  bytes: Buffer
+): Promise<string | null> {
+  const path = buildScorecardPath(playerId, mimeType);
+
+  const { error } = await supabase.storage
+    .from(SCORECARD_BUCKET)
+    .upload(path, bytes, { contentType: mimeType });
+
+  if (error) {
+    console.warn('Scorecard image upload failed:', error.message);
+    return null;
+  }
+  return path;
+}
+
+/**
+ * Remove stored scorecards that no round links to any more
+ *
+ * Call after rounds are deleted, or when uploaded cards are discarded
+ * unsaved; images still shared with another round (other pages of the
+ * same PDF, a merged round) are kept.
+ *
+ * @param paths - scorecard_path of the rounds or cards that were removed
+ */
+export async function removeScorecardImages(
+  supabase: SupabaseClient,
+  paths: (string | null | undefined)[]
+): Promise<void> {
+  const candidates = [...new Set(paths.filter((p): p is string => !!p))];
+  if (candidates.length === 0) return;
+
+  const { data: stillLinked } = await supabase
+    .from('rounds')
+    .select('scorecard_path')
+    .in('scorecard_path', candidates);
+
+  const linked = new Set((stillLinked || []).map((r) => r.scorecard_path));
+  const unused = candidates.filter((p) => !linked.has(p));
+  if (unused.length === 0) return;
+
+  const { error } = await supabase.storage.from(SCORECARD_BUCKET).remove(unused);
+
+  if (error) {
+    console.warn('Scorecard image cleanup failed:', error.message);
+  }
+}
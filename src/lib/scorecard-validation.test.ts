@@ -0,0 +1,128 @@
+import { describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { checkParsAgainstCourse, ConfidenceFlag, validateExtractedScorecard } from './scorecard-validation'
+
+// ============================================
+// FIXTURES
+// ============================================
+
+type RawHole = Record<string, unknown>
+
+// A clean nine-hole card: par 4s of 350 yards, a 5 on every hole
+const buildHoles = (count = 9): RawHole[] =>
+  Array.from({ length: count }, (_, i) => ({ hole: i + 1, par: 4, distance: 350, strokes: 5 }))
+
+const buildCard = (holes: RawHole[] = buildHoles(), totalAdjGross: unknown = 45) => ({
+  round_details: {
+    course_name: 'Pine Valley',
+    date_of_round: '2026-05-01',
+    course_rating: 72.0,
+    slope_rating: 113,
+    total_adj_gross: totalAdjGross,
+  },
+  grounded_info: { course_type: 'Parkland', location: 'Surrey', weather_conditions: 'Dry' },
+  hole_data: holes,
+})
+
+const withHole = (hole: number, changes: RawHole): RawHole[] =>
+  buildHoles().map((h) => (h.hole === hole ? { ...h, ...changes } : h))
+
+const flagsFor = (raw: unknown): ConfidenceFlag[] => validateExtractedScorecard(raw).confidence?.flags ?? []
+
+// ============================================
+// TESTS
+// ============================================
+
+describe('validateExtractedScorecard', () => {
+  it('accepts a clean card with full confidence', () => {
+    const result = validateExtractedScorecard(buildCard())
+
+    assert.equal(result.success, true)
+    assert.deepEqual(result.confidence, { score: 100, flags: [] })
+    assert.equal(result.data?.hole_data.length, 9)
+  })
+
+  it('rejects a result with no hole scores', () => {
+    assert.equal(validateExtractedScorecard(buildCard([])).success, false)
+    assert.equal(validateExtractedScorecard('not a card').success, false)
+  })
+
+  it('clears and flags a hole score out of range', () => {
+    const result = validateExtractedScorecard(buildCard(withHole(3, { strokes: 25 }), null))
+
+    assert.equal(result.data?.hole_data[2].strokes, null)
+    assert.ok(
+      result.confidence?.flags.some(
+        (f) => f.field === 'strokes' && f.hole === 3 && f.reason === 'Hole 3 score of 25 is not plausible'
+      )
+    )
+  })
+
+  it('keeps but flags a score well over par', () => {
+    const result = validateExtractedScorecard(buildCard(withHole(4, { strokes: 10 }), 50))
+
+    assert.equal(result.data?.hole_data[3].strokes, 10)
+    assert.deepEqual(result.confidence?.flags, [
+      { field: 'strokes', hole: 4, reason: 'Hole 4 score of 10 on a par 4 is unusually high' },
+    ])
+  })
+
+  it('clears and flags putts greater than the hole score', () => {
+    const result = validateExtractedScorecard(buildCard(withHole(2, { strokes: 3, putts: 4 }), 43))
+
+    assert.equal(result.data?.hole_data[1].strokes, 3)
+    assert.equal(result.data?.hole_data[1].putts, null)
+    assert.deepEqual(result.confidence?.flags, [
+      { field: 'putts', hole: 2, reason: 'Hole 2 has 4 putts but a score of 3' },
+    ])
+  })
+
+  it('keeps putts up to the hole score', () => {
+    const result = validateExtractedScorecard(buildCard(withHole(2, { strokes: 3, putts: 3 }), 43))
+
+    assert.equal(result.data?.hole_data[1].putts, 3)
+    assert.deepEqual(result.confidence?.flags, [])
+  })
+
+  it('does not flag a card with no putts column', () => {
+    const result = validateExtractedScorecard(buildCard())
+
+    assert.ok(result.data?.hole_data.every((h) => h.putts === null))
+    assert.ok(!result.confidence?.flags.some((f) => f.field === 'putts'))
+  })
+
+  it('flags a missing hole and keeps an empty entry for it', () => {
+    const holes = buildHoles().filter((h) => h.hole !== 6)
+    const result = validateExtractedScorecard(buildCard(holes))
+
+    assert.deepEqual(result.data?.hole_data[5], { hole: 6, par: null, distance: null, strokes: null, putts: null })
+    assert.deepEqual(result.confidence?.flags, [{ field: 'strokes', hole: 6, reason: 'Hole 6 was not read' }])
+  })
+
+  it('treats a card with a hole past 9 as 18 holes', () => {
+    const result = validateExtractedScorecard(buildCard(buildHoles(10), null))
+
+    assert.equal(result.data?.hole_data.length, 18)
+    assert.deepEqual(
+      result.confidence?.flags.filter((f) => f.hole !== undefined).map((f) => f.hole),
+      [11, 12, 13, 14, 15, 16, 17, 18]
+    )
+  })
+
+  it('flags a card total that does not match the hole scores', () => {
+    assert.deepEqual(flagsFor(buildCard(buildHoles(), 48)), [
+      { field: 'total_adj_gross', reason: 'Card total 48 is more than the hole scores add up to (45)' },
+    ])
+  })
+})
+
+describe('checkParsAgainstCourse', () => {
+  it('flags the holes whose par differs from the course', () => {
+    const data = validateExtractedScorecard(buildCard(withHole(7, { par: 3 }))).data!
+    const courseHoles = Array.from({ length: 9 }, (_, i) => ({ hole_number: i + 1, par: 4 }))
+
+    assert.deepEqual(checkParsAgainstCourse(data, courseHoles), [
+      { field: 'par', hole: 7, reason: 'Card shows par 3 for hole 7, the course has par 4' },
+    ])
+  })
+})
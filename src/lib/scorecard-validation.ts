@@ -0,0 +1,258 @@
+/**
+ * Scorecard Validation - checking what was read off a scorecard photo
+ *
+ * The extraction provider's JSON is checked field by field: anything
+ * missing, non-numeric or out of range is cleared or flagged, and the card
+ * is cross-checked against itself (hole scores vs the card total, putts vs
+ * each hole's score) and, once the player picks the course, against its
+ * `course_holes` pars.
+ * Flagged fields are low confidence and shown to the player to confirm.
+ */
+
+import type { ExtractedScorecard } from '@/lib/scorecard-extraction';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ScorecardDetailField =
+  | 'course_name'
+  | 'date_of_round'
+  | 'course_rating'
+  | 'slope_rating'
+  | 'total_adj_gross';
+
+export type ScorecardHoleField = 'par' | 'distance' | 'strokes' | 'putts';
+
+// A field that could not be read cleanly or fails a cross-check
+export interface ConfidenceFlag {
+  field: ScorecardDetailField | ScorecardHoleField;
+  hole?: number;                     // Set for hole fields
+  reason: string;
+}
+
+export interface ExtractionConfidence {
+  score: number;                     // 0-100: share of fields read without a flag
+  flags: ConfidenceFlag[];
+}
+
+export interface ScorecardValidationResult {
+  success: boolean;
+  data?: ExtractedScorecard;
+  confidence?: ExtractionConfidence;
+  error?: string;
+}
+
+interface CourseHolePar {
+  hole_number: number;
+  par: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const RANGES = {
+  course_rating: { min: 50, max: 85 },
+  slope_rating: { min: 55, max: 155 },
+  total_adj_gross: { min: 18, max: 200 },
+  par: { min: 3, max: 6 },
+  distance: { min: 50, max: 700 },
+  strokes: { min: 1, max: 20 },
+  putts: { min: 0, max: 10 },
+};
+
+// Scores this far over par are possible but more often a misread digit
+const UNLIKELY_OVER_PAR = 5;
+
+const DETAIL_FIELD_COUNT = 5;
+const HOLE_FIELD_COUNT = 3;
+
+// ============================================
+// MAIN FUNCTIONS
+// ============================================
+
+/**
+ * Validate a provider's raw JSON into a scorecard with confidence flags
+ *
+ * @param raw - Parsed JSON from the extraction provider
+ * @returns The cleaned scorecard, or an error when it has no usable hole data
+ */
+export function validateExtractedScorecard(raw: unknown): ScorecardValidationResult {
+  if (!isRecord(raw)) {
+    return { success: false, error: 'Could not read the scorecard: the result was not a scorecard.' };
+  }
+
+  const flags: ConfidenceFlag[] = [];
+  const details = isRecord(raw.round_details) ? raw.round_details : {};
+  const grounded = isRecord(raw.grounded_info) ? raw.grounded_info : {};
+
+  if (!Array.isArray(raw.hole_data) || raw.hole_data.length === 0) {
+    return { success: false, error: 'Could not read any hole scores from the scorecard.' };
+  }
+
+  // Round details
+  const courseName = readText(details.course_name);
+  if (!courseName) flags.push({ field: 'course_name', reason: 'Course name was not read' });
+
+  const today = new Date().toISOString().split('T')[0];
+  let dateOfRound = readText(details.date_of_round);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateOfRound) || isNaN(new Date(dateOfRound).getTime())) {
+    flags.push({ field: 'date_of_round', reason: dateOfRound ? `"${dateOfRound}" is not a date` : 'Date was not read' });
+    dateOfRound = '';
+  } else if (dateOfRound > today) {
+    flags.push({ field: 'date_of_round', reason: 'Date is in the future' });
+  }
+
+  const courseRating = readNumber(details.course_rating, 'course_rating', flags, 'Course rating');
+  const slopeRating = readNumber(details.slope_rating, 'slope_rating', flags, 'Slope rating');
+  const totalAdjGross = readNumber(details.total_adj_gross, 'total_adj_gross', flags, 'Card total');
+
+  // Holes: one entry per hole number, 9 or 18 of them
+  const byHole = new Map<number, Record<string, unknown>>();
+  raw.hole_data.forEach((entry, index) => {
+    if (!isRecord(entry)) return;
+    const hole = Number(entry.hole ?? index + 1);
+    if (Number.isInteger(hole) && hole >= 1 && hole <= 18 && !byHole.has(hole)) byHole.set(hole, entry);
+  });
+
+  const holeCount = Math.max(...byHole.keys(), 0) <= 9 ? 9 : 18;
+  const holeData: ExtractedScorecard['hole_data'] = [];
+
+  for (let hole = 1; hole <= holeCount; hole++) {
+    const entry = byHole.get(hole);
+
+    if (!entry) {
+      flags.push({ field: 'strokes', hole, reason: `Hole ${hole} was not read` });
+      holeData.push({ hole, par: null, distance: null, strokes: null, putts: null });
+      continue;
+    }
+
+    const par = readNumber(entry.par, 'par', flags, `Hole ${hole} par`, hole);
+    const distance = readNumber(entry.distance, 'distance', flags, `Hole ${hole} distance`, hole);
+    const strokes = readNumber(entry.strokes, 'strokes', flags, `Hole ${hole} score`, hole);
+
+    if (par !== null && strokes !== null && strokes > par + UNLIKELY_OVER_PAR) {
+      flags.push({ field: 'strokes', hole, reason: `Hole ${hole} score of ${strokes} on a par ${par} is unusually high` });
+    }
+
+    // Putts are optional: most cards have no putts column
+    let putts = entry.putts === undefined || entry.putts === null || entry.putts === ''
+      ? null
+      : readNumber(entry.putts, 'putts', flags, `Hole ${hole} putts`, hole);
+
+    if (putts !== null && strokes !== null && putts > strokes) {
+      flags.push({ field: 'putts', hole, reason: `Hole ${hole} has ${putts} putts but a score of ${strokes}` });
+      putts = null;
+    }
+
+    holeData.push({ hole, par, distance, strokes, putts });
+  }
+
+  // Cross-check: the card total against the hole scores
+  const scores = holeData.map((h) => h.strokes);
+  if (totalAdjGross !== null && scores.every((s) => s !== null)) {
+    const holeSum = (scores as number[]).reduce((sum, s) => sum + s, 0);
+    if (holeSum < totalAdjGross) {
+      flags.push({
+        field: 'total_adj_gross',
+        reason: `Card total ${totalAdjGross} is more than the hole scores add up to (${holeSum})`,
+      });
+    } else if (holeSum > totalAdjGross) {
+      flags.push({
+        field: 'total_adj_gross',
+        reason: `Hole scores add up to ${holeSum} but the card total is ${totalAdjGross} (fine if holes were capped at net double bogey)`,
+      });
+    }
+  }
+
+  return {
+    success: true,
+    data: {
+      round_details: {
+        course_name: courseName,
+        date_of_round: dateOfRound,
+        course_rating: courseRating,
+        slope_rating: slopeRating,
+        total_adj_gross: totalAdjGross,
+      },
+      grounded_info: {
+        course_type: readText(grounded.course_type),
+        location: readText(grounded.location),
+        weather_conditions: readText(grounded.weather_conditions),
+      },
+      hole_data: holeData,
+    },
+    confidence: buildConfidence(flags, holeData.length),
+  };
+}
+
+/**
+ * Cross-check the card's pars against the chosen course
+ *
+ * A different par usually means the card was misread or matched to the
+ * wrong course, so that hole's score is flagged for the player to confirm.
+ */
+export function checkParsAgainstCourse(data: ExtractedScorecard, courseHoles: CourseHolePar[]): ConfidenceFlag[] {
+  const coursePars = new Map(courseHoles.map((h) => [h.hole_number, h.par]));
+
+  return data.hole_data
+    .filter((h) => h.par !== null && coursePars.has(h.hole) && coursePars.get(h.hole) !== h.par)
+    .map((h) => ({
+      field: 'par' as const,
+      hole: h.hole,
+      reason: `Card shows par ${h.par} for hole ${h.hole}, the course has par ${coursePars.get(h.hole)}`,
+    }));
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function buildConfidence(flags: ConfidenceFlag[], holeCount: number): ExtractionConfidence {
+  const flaggedFields = new Set(flags.map((f) => `${f.hole ?? ''}:${f.field}`));
+  const totalFields = DETAIL_FIELD_COUNT + holeCount * HOLE_FIELD_COUNT;
+
+  return {
+    score: Math.round(100 * Math.max(0, 1 - flaggedFields.size / totalFields)),
+    flags,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function readText(value: unknown): string {
+  return typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+}
+
+// A number within the field's range; anything else is flagged and cleared
+function readNumber(
+  value: unknown,
+  field: keyof typeof RANGES,
+  flags: ConfidenceFlag[],
+  label: string,
+  hole?: number
+): number | null {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  const flagField: ConfidenceFlag['field'] = field;
+
+  if (typeof number !== 'number' || !Number.isFinite(number)) {
+    flags.push({
+      field: flagField,
+      hole,
+      reason: value === undefined || value === null || value === '' ? `${label} was not read` : `${label} "${String(value)}" is not a number`,
+    });
+    return null;
+  }
+
+  const { min, max } = RANGES[field];
+  const wholeNumber = field !== 'course_rating';
+  if (number < min || number > max || (wholeNumber && !Number.isInteger(number))) {
+    flags.push({ field: flagField, hole, reason: `${label} of ${number} is not plausible` });
+    return null;
+  }
+
+  return number;
+}
@@ -0,0 +1,127 @@
+import { describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import {
+  adjustHoleScores,
+  getAllocationIndexes,
+  getNetDoubleBogey,
+  getStablefordPoints,
+  getStrokesReceived,
+  parseScoringMode,
+  scoreHoles,
+} from './scoring'
+
+describe('getStrokesReceived', () => {
+  it('gives a stroke on each hole up to the handicap', () => {
+    assert.equal(getStrokesReceived(5, 5, 18), 1)
+    assert.equal(getStrokesReceived(5, 6, 18), 0)
+  })
+
+  it('gives a second stroke on the hardest holes past 18', () => {
+    assert.equal(getStrokesReceived(20, 2, 18), 2)
+    assert.equal(getStrokesReceived(20, 3, 18), 1)
+  })
+
+  it('allocates over the nine holes of a nine', () => {
+    assert.equal(getStrokesReceived(10, 1, 9), 2)
+    assert.equal(getStrokesReceived(10, 9, 9), 1)
+  })
+
+  it('takes strokes back from the easiest holes for a plus handicap', () => {
+    assert.equal(getStrokesReceived(-2, 18, 18), -1)
+    assert.equal(getStrokesReceived(-2, 17, 18), -1)
+    // No stroke back on the next hardest: its net double bogey stays at par + 2
+    assert.equal(getNetDoubleBogey(4, getStrokesReceived(-2, 16, 18)), 6)
+  })
+})
+
+describe('getAllocationIndexes', () => {
+  it("keeps the card's stroke indexes when they fit the holes played", () => {
+    const holes = [{ hole: 1, strokeIndex: 2 }, { hole: 2, strokeIndex: 1 }, { hole: 3 }]
+
+    assert.deepEqual(getAllocationIndexes(holes, 18), [2, 1, 3])
+  })
+
+  it('ranks a nine played off an 18-hole card 1-9', () => {
+    const strokeIndexes = [3, 17, 9, 1, 13, 5, 15, 7, 11]
+    const holes = strokeIndexes.map((strokeIndex, i) => ({ hole: i + 1, strokeIndex }))
+
+    assert.deepEqual(getAllocationIndexes(holes, 9), [2, 9, 5, 1, 7, 3, 8, 4, 6])
+  })
+})
+
+describe('adjustHoleScores', () => {
+  it('caps a played hole at net double bogey', () => {
+    const holes = [
+      { hole: 1, par: 4, strokeIndex: 1, strokes: 9 },
+      { hole: 2, par: 4, strokeIndex: 2, strokes: 9 },
+    ]
+
+    // A course handicap of 1 gives a stroke on stroke index 1 only
+    assert.deepEqual(adjustHoleScores(holes, 1, 18).map((h) => h.adjustedStrokes), [7, 6])
+  })
+
+  it('caps a player without an index at par + 5', () => {
+    const [hole] = adjustHoleScores([{ hole: 1, par: 4, strokeIndex: 1, strokes: 11 }], null, 18)
+
+    assert.equal(hole.adjustedStrokes, 9)
+    assert.equal(hole.strokesReceived, 0)
+  })
+
+  it('counts an unplayed hole as net par without gross strokes', () => {
+    const [hole] = adjustHoleScores([{ hole: 1, par: 4, strokeIndex: 1, strokes: null }], 18, 18)
+
+    assert.deepEqual(
+      { strokes: hole.strokes, adjustedStrokes: hole.adjustedStrokes, played: hole.played },
+      { strokes: null, adjustedStrokes: 5, played: false }
+    )
+  })
+})
+
+describe('getStablefordPoints', () => {
+  it('scores 2 for a net par and one more per stroke under', () => {
+    assert.equal(getStablefordPoints(4, 5, 1), 2)
+    assert.equal(getStablefordPoints(5, 4, 1), 4)
+  })
+
+  it('never scores below zero', () => {
+    assert.equal(getStablefordPoints(4, 9, 0), 0)
+  })
+})
+
+describe('scoreHoles', () => {
+  const holes = adjustHoleScores(
+    [
+      { hole: 1, par: 4, strokeIndex: 1, strokes: 5 },
+      { hole: 2, par: 4, strokeIndex: 2, strokes: null },
+    ],
+    18,
+    18
+  )
+
+  it('scores each played hole net and Stableford from the playing handicap', () => {
+    assert.deepEqual(scoreHoles(holes, 18, 18), [
+      { hole: 1, netStrokes: 4, stablefordPoints: 2 },
+      { hole: 2, netStrokes: null, stablefordPoints: 0 },
+    ])
+  })
+
+  it('scores off scratch without a playing handicap', () => {
+    assert.deepEqual(scoreHoles(holes, null, 18)[0], { hole: 1, netStrokes: 5, stablefordPoints: 1 })
+  })
+})
+
+describe('parseScoringMode', () => {
+  it('reads a known scoring mode', () => {
+    assert.equal(parseScoringMode('stableford'), 'stableford')
+  })
+
+  it('falls back to gross for a missing or unknown mode', () => {
+    assert.equal(parseScoringMode(null), 'gross')
+    assert.equal(parseScoringMode('medal'), 'gross')
+  })
+
+  it('ignores keys inherited from Object', () => {
+    assert.equal(parseScoringMode('constructor'), 'gross')
+    assert.equal(parseScoringMode('toString'), 'gross')
+  })
+})
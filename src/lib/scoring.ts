@@ -0,0 +1,253 @@
+/**
+ * Scoring Utility - per-hole handicap strokes, WHS score adjustment
+ * and net / Stableford scoring
+ *
+ * Allocates handicap strokes by stroke index, caps each hole at
+ * net double bogey for the adjusted gross score and scores each hole
+ * net and Stableford from the playing handicap.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface HoleScoreInput {
+  hole: number;
+  par: number;
+  strokeIndex?: number;
+  strokes: number | null;
+}
+
+export interface AdjustedHoleScore {
+  hole: number;
+  par: number;
+  strokeIndex: number;
+  strokes: number | null;   // Gross strokes, null when the hole was not played
+  adjustedStrokes: number;  // Capped at net double bogey (net par when not played)
+  strokesReceived: number;
+  played: boolean;
+}
+
+export interface ScoredHole {
+  hole: number;
+  netStrokes: number | null;   // Null when the hole was not played
+  stablefordPoints: number;
+}
+
+export interface RoundScoreFields {
+  total_strokes: number | null;
+  net_strokes?: number | null;
+  stableford_points?: number | null;
+}
+
+// How a round is scored on leaderboards, rankings and reports
+export type ScoringMode = 'gross' | 'net' | 'stableford';
+
+// Which score a stats view is built from
+export type ScoreBasis = 'gross' | 'adjusted';
+
+export const SCORE_BASIS_OPTIONS: { value: ScoreBasis; label: string }[] = [
+  { value: 'gross', label: 'Raw Gross' },
+  { value: 'adjusted', label: 'Adjusted Gross' },
+];
+
+export const SCORING_MODES: Record<ScoringMode, { label: string; unit: string; higherIsBetter: boolean }> = {
+  gross: { label: 'Gross', unit: 'strokes', higherIsBetter: false },
+  net: { label: 'Net', unit: 'net', higherIsBetter: false },
+  stableford: { label: 'Stableford', unit: 'pts', higherIsBetter: true },
+};
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Maximum hole score over par for a player without a Handicap Index
+const NO_INDEX_MAX_OVER_PAR = 5;
+
+// ============================================
+// MAIN FUNCTIONS
+// ============================================
+
+/**
+ * Handicap strokes received on a hole
+ *
+ * Strokes are given on the lowest stroke indexes first; a plus handicap
+ * gives strokes back starting from the highest stroke index.
+ */
+export function getStrokesReceived(
+  courseHandicap: number,
+  strokeIndex: number,
+  holeCount: number
+): number {
+  if (courseHandicap >= 0) {
+    const base = Math.floor(courseHandicap / holeCount);
+    const remainder = courseHandicap % holeCount;
+    return base + (strokeIndex <= remainder ? 1 : 0);
+  }
+
+  const plus = Math.abs(courseHandicap);
+  const base = Math.floor(plus / holeCount);
+  const remainder = plus % holeCount;
+  return -(base + (strokeIndex > holeCount - remainder ? 1 : 0));
+}
+
+/**
+ * Stroke index each hole receives strokes by
+ *
+ * The card's own stroke indexes, unless they run past the holes played (a
+ * nine played off an 18-hole card): then the holes are ranked 1-9 in the
+ * order of their stroke indexes.
+ */
+export function getAllocationIndexes(holes: { hole: number; strokeIndex?: number }[], holeCount: number): number[] {
+  const indexes = holes.map((h) => h.strokeIndex ?? h.hole);
+
+  if (indexes.every((index) => index <= holeCount)) {
+    return indexes;
+  }
+
+  const ranked = holes
+    .map((h, i) => ({ i, index: indexes[i], hole: h.hole }))
+    .sort((a, b) => a.index - b.index || a.hole - b.hole);
+  const ranks = new Array<number>(holes.length);
+  ranked.forEach((entry, rank) => {
+    ranks[entry.i] = rank + 1;
+  });
+  return ranks;
+}
+
+/**
+ * Net double bogey: par + 2 + handicap strokes received
+ */
+export function getNetDoubleBogey(par: number, strokesReceived: number): number {
+  return par + 2 + strokesReceived;
+}
+
+/**
+ * Apply the WHS hole score adjustment to a card
+ *
+ * - Played holes are capped at net double bogey (par + 5 without an index)
+ * - Unplayed holes count as net par in the adjusted score only; their
+ *   gross strokes stay empty
+ *
+ * @param holes - Hole scores as entered (null strokes = not played)
+ * @param courseHandicap - Player's course handicap, or null when they have no index
+ * @param holeCount - Number of holes played (for stroke allocation)
+ */
+export function adjustHoleScores(
+  holes: HoleScoreInput[],
+  courseHandicap: number | null,
+  holeCount: number
+): AdjustedHoleScore[] {
+  const allocationIndexes = getAllocationIndexes(holes, holeCount);
+
+  return holes.map((h, i) => {
+    const strokeIndex = h.strokeIndex ?? h.hole;
+    const received = courseHandicap !== null
+      ? getStrokesReceived(courseHandicap, allocationIndexes[i], holeCount)
+      : 0;
+    const maxScore = courseHandicap !== null
+      ? getNetDoubleBogey(h.par, received)
+      : h.par + NO_INDEX_MAX_OVER_PAR;
+    const strokes = h.strokes !== null && h.strokes > 0 ? h.strokes : null;
+
+    return {
+      hole: h.hole,
+      par: h.par,
+      strokeIndex,
+      strokes,
+      adjustedStrokes: strokes !== null ? Math.min(strokes, maxScore) : h.par + received,
+      strokesReceived: received,
+      played: strokes !== null,
+    };
+  });
+}
+
+/**
+ * Green in regulation: on the green with two strokes left for par
+ */
+export function isGreenInRegulation(par: number, strokes: number, putts: number): boolean {
+  return strokes - putts <= par - 2;
+}
+
+/**
+ * Net score for a hole: gross strokes less handicap strokes received
+ */
+export function getNetStrokes(strokes: number, strokesReceived: number): number {
+  return strokes - strokesReceived;
+}
+
+/**
+ * Stableford points for a hole: 2 for a net par, one more or less per
+ * stroke under or over, never below zero
+ */
+export function getStablefordPoints(par: number, strokes: number, strokesReceived: number): number {
+  return Math.max(0, par + 2 - getNetStrokes(strokes, strokesReceived));
+}
+
+/**
+ * Score each hole net and Stableford from the playing handicap
+ *
+ * Unplayed holes score no Stableford points and have no net score.
+ *
+ * @param holes - Adjusted hole scores (stroke index and played flag)
+ * @param playingHandicap - Player's playing handicap, or null to score off scratch
+ * @param holeCount - Number of holes played (for stroke allocation)
+ */
+export function scoreHoles(
+  holes: AdjustedHoleScore[],
+  playingHandicap: number | null,
+  holeCount: number
+): ScoredHole[] {
+  const allocationIndexes = getAllocationIndexes(holes, holeCount);
+
+  return holes.map((h, i) => {
+    if (h.strokes === null) {
+      return { hole: h.hole, netStrokes: null, stablefordPoints: 0 };
+    }
+
+    const received = playingHandicap !== null
+      ? getStrokesReceived(playingHandicap, allocationIndexes[i], holeCount)
+      : 0;
+
+    return {
+      hole: h.hole,
+      netStrokes: getNetStrokes(h.strokes, received),
+      stablefordPoints: getStablefordPoints(h.par, h.strokes, received),
+    };
+  });
+}
+
+/**
+ * A round's score in the given scoring mode, or null when it has none
+ */
+export function getRoundScore(round: RoundScoreFields, mode: ScoringMode): number | null {
+  const value = mode === 'stableford'
+    ? round.stableford_points
+    : mode === 'net'
+      ? round.net_strokes
+      : round.total_strokes;
+
+  return value === null || value === undefined ? null : Number(value);
+}
+
+/**
+ * Read a scoring mode from a query string or setting, defaulting to gross
+ */
+export function parseScoringMode(value: string | null | undefined): ScoringMode {
+  return value && Object.hasOwn(SCORING_MODES, value) ? (value as ScoringMode) : 'gross';
+}
+
+/**
+ * Sort comparator putting the better score first for the scoring mode
+ */
+export function compareScores(a: number, b: number, mode: ScoringMode): number {
+  return SCORING_MODES[mode].higherIsBetter ? b - a : a - b;
+}
+
+/**
+ * Best score from a list for the scoring mode
+ */
+export function getBestScore(scores: number[], mode: ScoringMode): number | null {
+  if (scores.length === 0) return null;
+  return SCORING_MODES[mode].higherIsBetter ? Math.max(...scores) : Math.min(...scores);
+}
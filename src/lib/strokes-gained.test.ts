@@ -0,0 +1,135 @@
+import { describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import {
+  calculateHoleStrokesGained,
+  fromStoredStrokesGained,
+  getExpectedStrokes,
+  getShotCategory,
+  getShotStrokes,
+  perEighteenHoles,
+  ShotInput,
+  validateShots,
+} from './strokes-gained'
+
+// ============================================
+// FIXTURES
+// ============================================
+
+// Par 4: drive to 140 yards, approach to 20 feet, two putts
+const parFour: ShotInput[] = [
+  { lie: 'tee', distance: 400 },
+  { lie: 'fairway', distance: 140 },
+  { lie: 'green', distance: 20 },
+  { lie: 'green', distance: 3 },
+]
+
+// Par 3: tee shot into a bunker, splash out to 5 feet, one putt
+const parThree: ShotInput[] = [
+  { lie: 'tee', distance: 180 },
+  { lie: 'sand', distance: 20 },
+  { lie: 'green', distance: 5 },
+]
+
+// ============================================
+// TESTS
+// ============================================
+
+describe('getExpectedStrokes', () => {
+  it('reads a table entry', () => {
+    assert.equal(getExpectedStrokes('tee', 400), 3.99)
+    assert.equal(getExpectedStrokes('green', 20), 1.87)
+  })
+
+  it('interpolates between entries', () => {
+    assert.ok(Math.abs(getExpectedStrokes('fairway', 150) - 2.945) < 1e-9)
+  })
+
+  it('clamps outside the table', () => {
+    assert.equal(getExpectedStrokes('green', 0.5), 1.0)
+    assert.equal(getExpectedStrokes('tee', 700), 4.82)
+  })
+})
+
+describe('getShotCategory', () => {
+  it('counts a par 3 tee shot as an approach', () => {
+    assert.equal(getShotCategory({ lie: 'tee', distance: 180 }, 3), 'approach')
+    assert.equal(getShotCategory({ lie: 'tee', distance: 400 }, 4), 'offTheTee')
+  })
+
+  it('counts shots from 30 yards in as around the green', () => {
+    assert.equal(getShotCategory({ lie: 'rough', distance: 30 }, 4), 'aroundTheGreen')
+    assert.equal(getShotCategory({ lie: 'fairway', distance: 31 }, 4), 'approach')
+  })
+})
+
+describe('calculateHoleStrokesGained', () => {
+  it('splits a par 4 into off the tee, approach and putting', () => {
+    assert.deepEqual(calculateHoleStrokesGained(parFour, 4), {
+      offTheTee: 0.08,
+      approach: 0.04,
+      aroundTheGreen: 0,
+      putting: -0.13,
+      total: -0.01,
+    })
+  })
+
+  it('counts a bunker shot around the green', () => {
+    assert.deepEqual(calculateHoleStrokesGained(parThree, 3), {
+      offTheTee: 0,
+      approach: -0.48,
+      aroundTheGreen: 0.3,
+      putting: 0.23,
+      total: 0.05,
+    })
+  })
+
+  it('charges a penalty stroke to the shot that incurred it', () => {
+    const shots = [{ ...parFour[0], penalty: true }, ...parFour.slice(1)]
+
+    assert.equal(calculateHoleStrokesGained(shots, 4).offTheTee, -0.92)
+    assert.equal(getShotStrokes(shots), 5)
+  })
+})
+
+describe('validateShots', () => {
+  it('accepts a hole started from the tee with every distance', () => {
+    assert.equal(validateShots(parFour), null)
+  })
+
+  it('rejects missing or partial shot data', () => {
+    assert.equal(validateShots([]), 'No shots entered')
+    assert.equal(validateShots(parFour.slice(1)), 'The first shot must be from the tee')
+    assert.equal(
+      validateShots([parFour[0], { lie: 'fairway', distance: Number.NaN }]),
+      'Every shot needs a distance to the hole'
+    )
+  })
+})
+
+describe('fromStoredStrokesGained', () => {
+  it('reads a hole played shot by shot', () => {
+    assert.deepEqual(
+      fromStoredStrokesGained({ sg_off_the_tee: 0.08, sg_approach: 0.04, sg_around_green: 0, sg_putting: -0.13 }),
+      { offTheTee: 0.08, approach: 0.04, aroundTheGreen: 0, putting: -0.13, total: -0.01 }
+    )
+  })
+
+  it('skips a hole with any category missing', () => {
+    assert.equal(
+      fromStoredStrokesGained({ sg_off_the_tee: 0.08, sg_approach: null, sg_around_green: 0, sg_putting: -0.13 }),
+      null
+    )
+  })
+})
+
+describe('perEighteenHoles', () => {
+  it('scales a nine tracked shot by shot to 18 holes', () => {
+    const nine = { offTheTee: 0.5, approach: -1.0, aroundTheGreen: 0.25, putting: 0, total: -0.25 }
+
+    assert.deepEqual(perEighteenHoles(nine, 9), { offTheTee: 1, approach: -2, aroundTheGreen: 0.5, putting: 0, total: -0.5 })
+  })
+
+  it('has no figure without tracked holes', () => {
+    assert.equal(perEighteenHoles({ offTheTee: 0, approach: 0, aroundTheGreen: 0, putting: 0, total: 0 }, 0), null)
+  })
+})
@@ -0,0 +1,260 @@
+/**
+ * Strokes Gained Utility - shot-level performance against a scoring baseline
+ *
+ * Each shot is valued as the drop in expected strokes-to-hole-out from where
+ * it was played to where it finished, minus the stroke taken. Expected strokes
+ * come from a bundled tour-level baseline table (after Mark Broadie's published
+ * averages), so a positive value means the shot was better than the baseline.
+ *
+ * Distances are in yards, except on the green where they are in feet.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ShotLie = 'tee' | 'fairway' | 'rough' | 'sand' | 'recovery' | 'green';
+
+export type StrokesGainedCategory = 'offTheTee' | 'approach' | 'aroundTheGreen' | 'putting';
+
+// Where a shot was played from; the next shot's start is where it finished
+export interface ShotInput {
+  lie: ShotLie;
+  distance: number;           // Yards to the hole (feet on the green)
+  penalty?: boolean;          // Shot incurred a one-stroke penalty
+}
+
+export interface StrokesGainedBreakdown {
+  offTheTee: number;
+  approach: number;
+  aroundTheGreen: number;
+  putting: number;
+  total: number;
+}
+
+// Strokes gained columns stored on a `round_scores` row
+export interface StoredStrokesGained {
+  sg_off_the_tee: number | null;
+  sg_approach: number | null;
+  sg_around_green: number | null;
+  sg_putting: number | null;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const SHOT_LIES: { value: ShotLie; label: string }[] = [
+  { value: 'tee', label: 'Tee' },
+  { value: 'fairway', label: 'Fairway' },
+  { value: 'rough', label: 'Rough' },
+  { value: 'sand', label: 'Sand' },
+  { value: 'recovery', label: 'Recovery' },
+  { value: 'green', label: 'Green' },
+];
+
+export const STROKES_GAINED_CATEGORIES: { key: StrokesGainedCategory; label: string; shortLabel: string }[] = [
+  { key: 'offTheTee', label: 'Off the Tee', shortLabel: 'OTT' },
+  { key: 'approach', label: 'Approach', shortLabel: 'APP' },
+  { key: 'aroundTheGreen', label: 'Around the Green', shortLabel: 'ARG' },
+  { key: 'putting', label: 'Putting', shortLabel: 'PUTT' },
+];
+
+// Shots from inside this distance (yards, off the green) are around the green
+const AROUND_GREEN_MAX_YARDS = 30;
+
+// Expected strokes to hole out by lie: [distance, strokes], sorted by distance
+const BASELINE: Record<ShotLie, [number, number][]> = {
+  tee: [
+    [100, 2.92], [120, 2.99], [140, 2.97], [160, 2.99], [180, 3.05], [200, 3.12],
+    [220, 3.17], [240, 3.25], [260, 3.45], [280, 3.65], [300, 3.71], [320, 3.79],
+    [340, 3.86], [360, 3.92], [380, 3.96], [400, 3.99], [420, 4.02], [440, 4.08],
+    [460, 4.17], [480, 4.28], [500, 4.41], [520, 4.54], [540, 4.65], [560, 4.74],
+    [580, 4.79], [600, 4.82],
+  ],
+  fairway: [
+    [5, 2.10], [10, 2.18], [20, 2.40], [30, 2.52], [40, 2.60], [60, 2.70],
+    [80, 2.75], [100, 2.80], [120, 2.85], [140, 2.91], [160, 2.98], [180, 3.08],
+    [200, 3.19], [220, 3.32], [240, 3.45], [260, 3.58], [280, 3.69], [300, 3.78],
+    [350, 3.97], [400, 4.11], [450, 4.27], [500, 4.45], [550, 4.62], [600, 4.78],
+  ],
+  rough: [
+    [5, 2.15], [10, 2.34], [20, 2.59], [30, 2.70], [40, 2.78], [60, 2.91],
+    [80, 2.96], [100, 3.02], [120, 3.08], [140, 3.15], [160, 3.23], [180, 3.31],
+    [200, 3.42], [220, 3.53], [240, 3.64], [260, 3.74], [280, 3.83], [300, 3.90],
+    [350, 4.08], [400, 4.25], [450, 4.42], [500, 4.60], [550, 4.77], [600, 4.93],
+  ],
+  sand: [
+    [5, 2.30], [10, 2.43], [20, 2.53], [30, 2.66], [40, 2.82], [60, 3.15],
+    [80, 3.24], [100, 3.23], [120, 3.21], [140, 3.22], [160, 3.28], [180, 3.40],
+    [200, 3.55], [220, 3.70], [240, 3.84], [260, 3.93], [280, 4.00], [300, 4.04],
+    [350, 4.20], [400, 4.37], [450, 4.54], [500, 4.72], [550, 4.89], [600, 5.05],
+  ],
+  recovery: [
+    [20, 3.20], [40, 3.35], [60, 3.50], [80, 3.65], [100, 3.80], [120, 3.78],
+    [140, 3.80], [160, 3.81], [180, 3.82], [200, 3.87], [220, 3.92], [240, 3.97],
+    [260, 4.03], [280, 4.10], [300, 4.20], [400, 4.55], [500, 4.90], [600, 5.20],
+  ],
+  green: [
+    [1, 1.00], [2, 1.01], [3, 1.04], [4, 1.13], [5, 1.23], [6, 1.34],
+    [7, 1.42], [8, 1.50], [9, 1.56], [10, 1.61], [15, 1.78], [20, 1.87],
+    [30, 1.98], [40, 2.06], [50, 2.14], [60, 2.21], [90, 2.40],
+  ],
+};
+
+// ============================================
+// MAIN FUNCTIONS
+// ============================================
+
+/**
+ * Baseline strokes to hole out from a lie and distance
+ *
+ * Interpolates linearly between table entries and clamps outside the table.
+ */
+export function getExpectedStrokes(lie: ShotLie, distance: number): number {
+  const table = BASELINE[lie];
+
+  if (distance <= table[0][0]) return table[0][1];
+  if (distance >= table[table.length - 1][0]) return table[table.length - 1][1];
+
+  for (let i = 1; i < table.length; i++) {
+    const [upperDistance, upperStrokes] = table[i];
+    if (distance <= upperDistance) {
+      const [lowerDistance, lowerStrokes] = table[i - 1];
+      const ratio = (distance - lowerDistance) / (upperDistance - lowerDistance);
+      return lowerStrokes + ratio * (upperStrokes - lowerStrokes);
+    }
+  }
+
+  return table[table.length - 1][1];
+}
+
+/**
+ * Category a shot counts towards
+ *
+ * Tee shots on par 4s and 5s are off the tee; par 3 tee shots are approaches.
+ */
+export function getShotCategory(shot: ShotInput, par: number): StrokesGainedCategory {
+  if (shot.lie === 'green') return 'putting';
+  if (shot.lie === 'tee' && par > 3) return 'offTheTee';
+  if (shot.lie !== 'tee' && shot.distance <= AROUND_GREEN_MAX_YARDS) return 'aroundTheGreen';
+  return 'approach';
+}
+
+/**
+ * Strokes taken on a hole from its shots, penalty strokes included
+ */
+export function getShotStrokes(shots: ShotInput[]): number {
+  return shots.reduce((sum, shot) => sum + 1 + (shot.penalty ? 1 : 0), 0);
+}
+
+/**
+ * Empty breakdown (all categories zero)
+ */
+export function emptyStrokesGained(): StrokesGainedBreakdown {
+  return { offTheTee: 0, approach: 0, aroundTheGreen: 0, putting: 0, total: 0 };
+}
+
+/**
+ * Strokes gained on one hole, split by category
+ *
+ * @param shots - Shots in order; the last shot is assumed holed
+ * @param par - Hole par (decides whether the tee shot is off the tee)
+ */
+export function calculateHoleStrokesGained(shots: ShotInput[], par: number): StrokesGainedBreakdown {
+  const breakdown = emptyStrokesGained();
+
+  shots.forEach((shot, i) => {
+    const next = shots[i + 1];
+    const expectedBefore = getExpectedStrokes(shot.lie, shot.distance);
+    const expectedAfter = next ? getExpectedStrokes(next.lie, next.distance) : 0;
+    const gained = expectedBefore - expectedAfter - 1 - (shot.penalty ? 1 : 0);
+
+    breakdown[getShotCategory(shot, par)] += gained;
+  });
+
+  return roundBreakdown(breakdown);
+}
+
+/**
+ * Add up breakdowns (holes into a round, or rounds into a player total)
+ */
+export function sumStrokesGained(breakdowns: StrokesGainedBreakdown[]): StrokesGainedBreakdown {
+  const total = emptyStrokesGained();
+
+  breakdowns.forEach((b) => {
+    total.offTheTee += b.offTheTee;
+    total.approach += b.approach;
+    total.aroundTheGreen += b.aroundTheGreen;
+    total.putting += b.putting;
+  });
+
+  return roundBreakdown(total);
+}
+
+/**
+ * Scale a total over some number of tracked holes to an 18-hole figure,
+ * so players who track only part of their rounds compare fairly
+ */
+export function perEighteenHoles(breakdown: StrokesGainedBreakdown, holes: number): StrokesGainedBreakdown | null {
+  if (holes <= 0) return null;
+
+  const scale = 18 / holes;
+  return roundBreakdown({
+    offTheTee: breakdown.offTheTee * scale,
+    approach: breakdown.approach * scale,
+    aroundTheGreen: breakdown.aroundTheGreen * scale,
+    putting: breakdown.putting * scale,
+    total: 0,
+  });
+}
+
+/**
+ * Breakdown from a stored hole score, or null if the hole was not played shot by shot
+ */
+export function fromStoredStrokesGained(row: StoredStrokesGained): StrokesGainedBreakdown | null {
+  if (row.sg_off_the_tee === null || row.sg_approach === null || row.sg_around_green === null || row.sg_putting === null) {
+    return null;
+  }
+
+  return roundBreakdown({
+    offTheTee: Number(row.sg_off_the_tee),
+    approach: Number(row.sg_approach),
+    aroundTheGreen: Number(row.sg_around_green),
+    putting: Number(row.sg_putting),
+    total: 0,
+  });
+}
+
+/**
+ * Check a hole's shots are usable: the tee shot comes first and every
+ * distance is a positive number
+ *
+ * @returns Error message, or null when the shots are valid
+ */
+export function validateShots(shots: ShotInput[]): string | null {
+  if (shots.length === 0) return 'No shots entered';
+  if (shots[0].lie !== 'tee') return 'The first shot must be from the tee';
+  if (shots.some((s) => !(s.distance > 0))) return 'Every shot needs a distance to the hole';
+  return null;
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function roundBreakdown(b: StrokesGainedBreakdown): StrokesGainedBreakdown {
+  const round2 = (n: number) => Math.round(n * 100) / 100;
+  const offTheTee = round2(b.offTheTee);
+  const approach = round2(b.approach);
+  const aroundTheGreen = round2(b.aroundTheGreen);
+  const putting = round2(b.putting);
+
+  return {
+    offTheTee,
+    approach,
+    aroundTheGreen,
+    putting,
+    total: round2(offTheTee + approach + aroundTheGreen + putting),
+  };
+}
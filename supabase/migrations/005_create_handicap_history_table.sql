@@ -0,0 +1,46 @@
+-- World Handicap System support
+-- Stores the score differential for every round and a dated history of each player's computed Handicap Index
+
+-- Score differential for each round (NULL when the course has no rating)
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS score_differential DECIMAL(4,1);
+
+-- Where the profile's handicap_index came from: typed in by the player or computed from rounds
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS handicap_index_source TEXT NOT NULL DEFAULT 'self_reported'
+  CHECK (handicap_index_source IN ('self_reported', 'calculated'));
+
+-- Create handicap_history table: one row per recalculation
+CREATE TABLE IF NOT EXISTS handicap_history (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  handicap_index DECIMAL(3,1) NOT NULL CHECK (handicap_index <= 54.0),
+  effective_date DATE NOT NULL,
+  rounds_considered INTEGER NOT NULL CHECK (rounds_considered >= 1 AND rounds_considered <= 20),
+  differentials_used INTEGER NOT NULL CHECK (differentials_used >= 1 AND differentials_used <= 8),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_handicap_history_user_id ON handicap_history(user_id);
+CREATE INDEX IF NOT EXISTS idx_handicap_history_effective_date ON handicap_history(user_id, effective_date DESC);
+
+-- Enable Row Level Security
+ALTER TABLE handicap_history ENABLE ROW LEVEL SECURITY;
+
+-- Allow all authenticated users to read handicap history (rankings and simulator)
+CREATE POLICY "Allow authenticated users to read handicap_history"
+ON handicap_history FOR SELECT
+TO authenticated
+USING (true);
+
+-- Allow players to record their own history, and admins to record it on a player's behalf
+CREATE POLICY "Users and admins can insert handicap_history"
+ON handicap_history FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  )
+);
@@ -0,0 +1,13 @@
+-- Net double bogey adjustment (WHS Rule 3.1)
+-- Stores the adjusted gross score next to the raw gross, per round and per hole
+
+-- Adjusted gross score for the round (sum of per-hole adjusted strokes)
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS adjusted_gross_score INTEGER;
+
+-- Stroke index and adjusted strokes for each hole score
+ALTER TABLE round_scores ADD COLUMN IF NOT EXISTS stroke_index INTEGER CHECK (stroke_index >= 1 AND stroke_index <= 18);
+ALTER TABLE round_scores ADD COLUMN IF NOT EXISTS adjusted_strokes INTEGER CHECK (adjusted_strokes >= 1 AND adjusted_strokes <= 20);
+
+-- Existing rounds: fall back to the raw gross until they are re-saved
+UPDATE rounds SET adjusted_gross_score = total_strokes WHERE adjusted_gross_score IS NULL;
+UPDATE round_scores SET adjusted_strokes = strokes WHERE adjusted_strokes IS NULL;
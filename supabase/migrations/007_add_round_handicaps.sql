@@ -0,0 +1,14 @@
+-- Course handicap and playing handicap per round
+-- Stored at entry time so net scores can be derived later even if the index changes
+
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS course_handicap INTEGER;
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS playing_handicap INTEGER;
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS playing_format TEXT NOT NULL DEFAULT 'stroke_play'
+  CHECK (playing_format IN (
+    'stroke_play',
+    'stableford',
+    'match_play',
+    'fourball_stroke_play',
+    'fourball_match_play',
+    'foursomes'
+  ));
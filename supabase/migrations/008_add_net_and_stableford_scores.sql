@@ -0,0 +1,11 @@
+-- Net strokes and Stableford points per hole and per round
+-- Scored from the playing handicap using the course_holes stroke index allocation
+
+ALTER TABLE round_scores ADD COLUMN IF NOT EXISTS net_strokes INTEGER;
+ALTER TABLE round_scores ADD COLUMN IF NOT EXISTS stableford_points INTEGER CHECK (stableford_points >= 0);
+
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS net_strokes INTEGER;
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS stableford_points INTEGER CHECK (stableford_points >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_rounds_net_strokes ON rounds(net_strokes);
+CREATE INDEX IF NOT EXISTS idx_rounds_stableford_points ON rounds(stableford_points);
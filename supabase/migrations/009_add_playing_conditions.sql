@@ -0,0 +1,7 @@
+-- Playing Conditions Calculation (WHS Rule 5.6)
+-- PCC applied to a round's score differential; NULL until the batch job has run for its day
+
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS pcc INTEGER CHECK (pcc >= -1 AND pcc <= 3);
+
+-- Rounds are grouped by course and day when the PCC is calculated
+CREATE INDEX IF NOT EXISTS idx_rounds_course_date ON rounds(course_id, date_of_round);
@@ -0,0 +1,75 @@
+-- Edit a saved round: update the round and replace its hole scores in one transaction
+-- Called from the updateRound server action; only the round's owner or an admin may edit
+
+CREATE OR REPLACE FUNCTION update_round_with_scores(
+  p_round_id UUID,
+  p_round JSONB,
+  p_scores JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Owner-or-admin check (mirrors deleteRound)
+  IF NOT EXISTS (
+    SELECT 1 FROM rounds
+    WHERE id = p_round_id
+    AND (
+      user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('Admin', 'Super Admin')
+      )
+    )
+  ) THEN
+    RAISE EXCEPTION 'Round not found or permission denied' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE rounds SET
+    course_id = (p_round->>'course_id')::UUID,
+    date_of_round = (p_round->>'date_of_round')::DATE,
+    weather = p_round->>'weather',
+    wind_conditions = p_round->>'wind_conditions',
+    temp_c = (p_round->>'temp_c')::NUMERIC,
+    wind_speed_kph = (p_round->>'wind_speed_kph')::NUMERIC,
+    total_strokes = (p_round->>'total_strokes')::INTEGER,
+    total_par = (p_round->>'total_par')::INTEGER,
+    score_to_par = (p_round->>'score_to_par')::INTEGER,
+    adjusted_gross_score = (p_round->>'adjusted_gross_score')::INTEGER,
+    net_strokes = (p_round->>'net_strokes')::INTEGER,
+    stableford_points = (p_round->>'stableford_points')::INTEGER,
+    course_handicap = (p_round->>'course_handicap')::INTEGER,
+    playing_format = p_round->>'playing_format',
+    playing_handicap = (p_round->>'playing_handicap')::INTEGER,
+    holes_played = (p_round->>'holes_played')::INTEGER,
+    is_home = (p_round->>'is_home')::BOOLEAN,
+    pcc = (p_round->>'pcc')::INTEGER,
+    score_differential = (p_round->>'score_differential')::DECIMAL(4,1)
+  WHERE id = p_round_id;
+
+  DELETE FROM round_scores WHERE round_id = p_round_id;
+
+  INSERT INTO round_scores (
+    round_id, hole_number, par, distance, stroke_index,
+    strokes, adjusted_strokes, net_strokes, stableford_points
+  )
+  SELECT
+    p_round_id, s.hole_number, s.par, s.distance, s.stroke_index,
+    s.strokes, s.adjusted_strokes, s.net_strokes, s.stableford_points
+  FROM jsonb_to_recordset(p_scores) AS s(
+    hole_number INTEGER,
+    par INTEGER,
+    distance INTEGER,
+    stroke_index INTEGER,
+    strokes INTEGER,
+    adjusted_strokes INTEGER,
+    net_strokes INTEGER,
+    stableford_points INTEGER
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION update_round_with_scores(UUID, JSONB, JSONB) TO authenticated;
@@ -0,0 +1,249 @@
+-- Atomic round save
+-- The round and its hole scores are written by one function call, so a failed
+-- hole score insert can no longer leave an orphan round behind.
+-- Both functions return { success, round_id } or { success: false, errors: [{ field, message }] }
+
+-- ============================================
+-- VALIDATION
+-- ============================================
+
+CREATE OR REPLACE FUNCTION validate_round_scores(
+  p_round JSONB,
+  p_scores JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_errors JSONB := '[]'::JSONB;
+  v_holes INTEGER := COALESCE((p_round->>'holes_played')::INTEGER, 18);
+BEGIN
+  -- Course must exist
+  IF p_round->>'course_id' IS NULL THEN
+    v_errors := v_errors || jsonb_build_object('field', 'course_id', 'message', 'A course is required');
+  ELSIF NOT EXISTS (SELECT 1 FROM courses WHERE id::TEXT = p_round->>'course_id') THEN
+    v_errors := v_errors || jsonb_build_object('field', 'course_id', 'message', 'Selected course not found');
+  END IF;
+
+  -- Date must be given and not in the future
+  IF p_round->>'date_of_round' IS NULL THEN
+    v_errors := v_errors || jsonb_build_object('field', 'date_of_round', 'message', 'Date of round is required');
+  ELSIF (p_round->>'date_of_round')::DATE > CURRENT_DATE THEN
+    v_errors := v_errors || jsonb_build_object('field', 'date_of_round', 'message', 'Date of round cannot be in the future');
+  END IF;
+
+  IF v_holes NOT IN (9, 18) THEN
+    v_errors := v_errors || jsonb_build_object('field', 'holes_played', 'message', 'A round must be 9 or 18 holes');
+  END IF;
+
+  -- One score per hole, each within range
+  IF p_scores IS NULL OR jsonb_typeof(p_scores) <> 'array' THEN
+    RETURN v_errors || jsonb_build_object('field', 'scores', 'message', 'Hole scores are required');
+  END IF;
+
+  IF jsonb_array_length(p_scores) <> v_holes THEN
+    v_errors := v_errors || jsonb_build_object(
+      'field', 'scores',
+      'message', format('Expected %s hole scores but received %s', v_holes, jsonb_array_length(p_scores))
+    );
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_scores) AS s(hole_number INTEGER, strokes INTEGER)
+    WHERE s.hole_number IS NULL OR s.hole_number < 1 OR s.hole_number > v_holes
+  ) THEN
+    v_errors := v_errors || jsonb_build_object('field', 'hole_number', 'message', format('Hole numbers must be between 1 and %s', v_holes));
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_scores) AS s(hole_number INTEGER)
+    GROUP BY s.hole_number HAVING COUNT(*) > 1
+  ) THEN
+    v_errors := v_errors || jsonb_build_object('field', 'hole_number', 'message', 'Each hole can only be scored once');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_scores) AS s(strokes INTEGER)
+    WHERE s.strokes IS NULL OR s.strokes < 1 OR s.strokes > 20
+  ) THEN
+    v_errors := v_errors || jsonb_build_object('field', 'strokes', 'message', 'Hole scores must be between 1 and 20');
+  END IF;
+
+  RETURN v_errors;
+END;
+$$;
+
+-- ============================================
+-- SAVE NEW ROUND
+-- ============================================
+
+CREATE OR REPLACE FUNCTION save_round_with_scores(
+  p_round JSONB,
+  p_scores JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_errors JSONB;
+  v_round_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'errors', jsonb_build_array(jsonb_build_object('field', 'user_id', 'message', 'Not authenticated. Please log in.'))
+    );
+  END IF;
+
+  v_errors := validate_round_scores(p_round, p_scores);
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'errors', v_errors);
+  END IF;
+
+  INSERT INTO rounds (
+    user_id, course_id, date_of_round, weather, wind_conditions, temp_c, wind_speed_kph,
+    total_strokes, total_par, score_to_par, adjusted_gross_score, net_strokes, stableford_points,
+    course_handicap, playing_format, playing_handicap, holes_played, is_home, pcc, score_differential
+  )
+  VALUES (
+    auth.uid(),
+    (p_round->>'course_id')::UUID,
+    (p_round->>'date_of_round')::DATE,
+    p_round->>'weather',
+    p_round->>'wind_conditions',
+    (p_round->>'temp_c')::NUMERIC,
+    (p_round->>'wind_speed_kph')::NUMERIC,
+    (p_round->>'total_strokes')::INTEGER,
+    (p_round->>'total_par')::INTEGER,
+    (p_round->>'score_to_par')::INTEGER,
+    (p_round->>'adjusted_gross_score')::INTEGER,
+    (p_round->>'net_strokes')::INTEGER,
+    (p_round->>'stableford_points')::INTEGER,
+    (p_round->>'course_handicap')::INTEGER,
+    COALESCE(p_round->>'playing_format', 'stroke_play'),
+    (p_round->>'playing_handicap')::INTEGER,
+    (p_round->>'holes_played')::INTEGER,
+    (p_round->>'is_home')::BOOLEAN,
+    (p_round->>'pcc')::INTEGER,
+    (p_round->>'score_differential')::DECIMAL(4,1)
+  )
+  RETURNING id INTO v_round_id;
+
+  INSERT INTO round_scores (
+    round_id, hole_number, par, distance, stroke_index,
+    strokes, adjusted_strokes, net_strokes, stableford_points
+  )
+  SELECT
+    v_round_id, s.hole_number, s.par, s.distance, s.stroke_index,
+    s.strokes, s.adjusted_strokes, s.net_strokes, s.stableford_points
+  FROM jsonb_to_recordset(p_scores) AS s(
+    hole_number INTEGER,
+    par INTEGER,
+    distance INTEGER,
+    stroke_index INTEGER,
+    strokes INTEGER,
+    adjusted_strokes INTEGER,
+    net_strokes INTEGER,
+    stableford_points INTEGER
+  );
+
+  RETURN jsonb_build_object('success', true, 'round_id', v_round_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_round_with_scores(JSONB, JSONB) TO authenticated;
+
+-- ============================================
+-- EDIT ROUND (same result shape as save)
+-- ============================================
+
+DROP FUNCTION IF EXISTS update_round_with_scores(UUID, JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION update_round_with_scores(
+  p_round_id UUID,
+  p_round JSONB,
+  p_scores JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_errors JSONB;
+BEGIN
+  -- Owner-or-admin check (mirrors deleteRound)
+  IF NOT EXISTS (
+    SELECT 1 FROM rounds
+    WHERE id = p_round_id
+    AND (
+      user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('Admin', 'Super Admin')
+      )
+    )
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'errors', jsonb_build_array(jsonb_build_object('field', 'round_id', 'message', 'Round not found or permission denied'))
+    );
+  END IF;
+
+  v_errors := validate_round_scores(p_round, p_scores);
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'errors', v_errors);
+  END IF;
+
+  UPDATE rounds SET
+    course_id = (p_round->>'course_id')::UUID,
+    date_of_round = (p_round->>'date_of_round')::DATE,
+    weather = p_round->>'weather',
+    wind_conditions = p_round->>'wind_conditions',
+    temp_c = (p_round->>'temp_c')::NUMERIC,
+    wind_speed_kph = (p_round->>'wind_speed_kph')::NUMERIC,
+    total_strokes = (p_round->>'total_strokes')::INTEGER,
+    total_par = (p_round->>'total_par')::INTEGER,
+    score_to_par = (p_round->>'score_to_par')::INTEGER,
+    adjusted_gross_score = (p_round->>'adjusted_gross_score')::INTEGER,
+    net_strokes = (p_round->>'net_strokes')::INTEGER,
+    stableford_points = (p_round->>'stableford_points')::INTEGER,
+    course_handicap = (p_round->>'course_handicap')::INTEGER,
+    playing_format = COALESCE(p_round->>'playing_format', 'stroke_play'),
+    playing_handicap = (p_round->>'playing_handicap')::INTEGER,
+    holes_played = (p_round->>'holes_played')::INTEGER,
+    is_home = (p_round->>'is_home')::BOOLEAN,
+    pcc = (p_round->>'pcc')::INTEGER,
+    score_differential = (p_round->>'score_differential')::DECIMAL(4,1)
+  WHERE id = p_round_id;
+
+  DELETE FROM round_scores WHERE round_id = p_round_id;
+
+  INSERT INTO round_scores (
+    round_id, hole_number, par, distance, stroke_index,
+    strokes, adjusted_strokes, net_strokes, stableford_points
+  )
+  SELECT
+    p_round_id, s.hole_number, s.par, s.distance, s.stroke_index,
+    s.strokes, s.adjusted_strokes, s.net_strokes, s.stableford_points
+  FROM jsonb_to_recordset(p_scores) AS s(
+    hole_number INTEGER,
+    par INTEGER,
+    distance INTEGER,
+    stroke_index INTEGER,
+    strokes INTEGER,
+    adjusted_strokes INTEGER,
+    net_strokes INTEGER,
+    stableford_points INTEGER
+  );
+
+  RETURN jsonb_build_object('success', true, 'round_id', p_round_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION update_round_with_scores(UUID, JSONB, JSONB) TO authenticated;
@@ -0,0 +1,185 @@
+-- Per-hole shot statistics: putts, fairway, green in regulation, sand shots and penalties
+-- All optional; NULL means the player did not record it for that hole
+
+ALTER TABLE round_scores ADD COLUMN IF NOT EXISTS putts INTEGER
+  CHECK (putts >= 0 AND putts <= 10 AND putts <= strokes);
+ALTER TABLE round_scores ADD COLUMN IF NOT EXISTS fairway TEXT
+  CHECK (fairway IN ('hit', 'left', 'right'));
+ALTER TABLE round_scores ADD COLUMN IF NOT EXISTS gir BOOLEAN;
+ALTER TABLE round_scores ADD COLUMN IF NOT EXISTS sand_shots INTEGER CHECK (sand_shots >= 0 AND sand_shots <= 10);
+ALTER TABLE round_scores ADD COLUMN IF NOT EXISTS penalty_strokes INTEGER CHECK (penalty_strokes >= 0 AND penalty_strokes <= 10);
+
+-- ============================================
+-- HOLE SCORE INSERT (shared by save and edit)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION insert_round_scores(
+  p_round_id UUID,
+  p_scores JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO round_scores (
+    round_id, hole_number, par, distance, stroke_index,
+    strokes, adjusted_strokes, net_strokes, stableford_points,
+    putts, fairway, gir, sand_shots, penalty_strokes
+  )
+  SELECT
+    p_round_id, s.hole_number, s.par, s.distance, s.stroke_index,
+    s.strokes, s.adjusted_strokes, s.net_strokes, s.stableford_points,
+    s.putts, s.fairway, s.gir, s.sand_shots, s.penalty_strokes
+  FROM jsonb_to_recordset(p_scores) AS s(
+    hole_number INTEGER,
+    par INTEGER,
+    distance INTEGER,
+    stroke_index INTEGER,
+    strokes INTEGER,
+    adjusted_strokes INTEGER,
+    net_strokes INTEGER,
+    stableford_points INTEGER,
+    putts INTEGER,
+    fairway TEXT,
+    gir BOOLEAN,
+    sand_shots INTEGER,
+    penalty_strokes INTEGER
+  );
+END;
+$$;
+
+-- ============================================
+-- SAVE NEW ROUND
+-- ============================================
+
+CREATE OR REPLACE FUNCTION save_round_with_scores(
+  p_round JSONB,
+  p_scores JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_errors JSONB;
+  v_round_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'errors', jsonb_build_array(jsonb_build_object('field', 'user_id', 'message', 'Not authenticated. Please log in.'))
+    );
+  END IF;
+
+  v_errors := validate_round_scores(p_round, p_scores);
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'errors', v_errors);
+  END IF;
+
+  INSERT INTO rounds (
+    user_id, course_id, date_of_round, weather, wind_conditions, temp_c, wind_speed_kph,
+    total_strokes, total_par, score_to_par, adjusted_gross_score, net_strokes, stableford_points,
+    course_handicap, playing_format, playing_handicap, holes_played, is_home, pcc, score_differential
+  )
+  VALUES (
+    auth.uid(),
+    (p_round->>'course_id')::UUID,
+    (p_round->>'date_of_round')::DATE,
+    p_round->>'weather',
+    p_round->>'wind_conditions',
+    (p_round->>'temp_c')::NUMERIC,
+    (p_round->>'wind_speed_kph')::NUMERIC,
+    (p_round->>'total_strokes')::INTEGER,
+    (p_round->>'total_par')::INTEGER,
+    (p_round->>'score_to_par')::INTEGER,
+    (p_round->>'adjusted_gross_score')::INTEGER,
+    (p_round->>'net_strokes')::INTEGER,
+    (p_round->>'stableford_points')::INTEGER,
+    (p_round->>'course_handicap')::INTEGER,
+    COALESCE(p_round->>'playing_format', 'stroke_play'),
+    (p_round->>'playing_handicap')::INTEGER,
+    (p_round->>'holes_played')::INTEGER,
+    (p_round->>'is_home')::BOOLEAN,
+    (p_round->>'pcc')::INTEGER,
+    (p_round->>'score_differential')::DECIMAL(4,1)
+  )
+  RETURNING id INTO v_round_id;
+
+  PERFORM insert_round_scores(v_round_id, p_scores);
+
+  RETURN jsonb_build_object('success', true, 'round_id', v_round_id);
+END;
+$$;
+
+-- ============================================
+-- EDIT ROUND
+-- ============================================
+
+CREATE OR REPLACE FUNCTION update_round_with_scores(
+  p_round_id UUID,
+  p_round JSONB,
+  p_scores JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_errors JSONB;
+BEGIN
+  -- Owner-or-admin check (mirrors deleteRound)
+  IF NOT EXISTS (
+    SELECT 1 FROM rounds
+    WHERE id = p_round_id
+    AND (
+      user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN ('Admin', 'Super Admin')
+      )
+    )
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'errors', jsonb_build_array(jsonb_build_object('field', 'round_id', 'message', 'Round not found or permission denied'))
+    );
+  END IF;
+
+  v_errors := validate_round_scores(p_round, p_scores);
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'errors', v_errors);
+  END IF;
+
+  UPDATE rounds SET
+    course_id = (p_round->>'course_id')::UUID,
+    date_of_round = (p_round->>'date_of_round')::DATE,
+    weather = p_round->>'weather',
+    wind_conditions = p_round->>'wind_conditions',
+    temp_c = (p_round->>'temp_c')::NUMERIC,
+    wind_speed_kph = (p_round->>'wind_speed_kph')::NUMERIC,
+    total_strokes = (p_round->>'total_strokes')::INTEGER,
+    total_par = (p_round->>'total_par')::INTEGER,
+    score_to_par = (p_round->>'score_to_par')::INTEGER,
+    adjusted_gross_score = (p_round->>'adjusted_gross_score')::INTEGER,
+    net_strokes = (p_round->>'net_strokes')::INTEGER,
+    stableford_points = (p_round->>'stableford_points')::INTEGER,
+    course_handicap = (p_round->>'course_handicap')::INTEGER,
+    playing_format = COALESCE(p_round->>'playing_format', 'stroke_play'),
+    playing_handicap = (p_round->>'playing_handicap')::INTEGER,
+    holes_played = (p_round->>'holes_played')::INTEGER,
+    is_home = (p_round->>'is_home')::BOOLEAN,
+    pcc = (p_round->>'pcc')::INTEGER,
+    score_differential = (p_round->>'score_differential')::DECIMAL(4,1)
+  WHERE id = p_round_id;
+
+  DELETE FROM round_scores WHERE round_id = p_round_id;
+
+  PERFORM insert_round_scores(p_round_id, p_scores);
+
+  RETURN jsonb_build_object('success', true, 'round_id', p_round_id);
+END;
+$$;
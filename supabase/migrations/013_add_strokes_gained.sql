@@ -0,0 +1,76 @@
+-- Shot-by-shot entry and strokes gained
+-- A hole may optionally record every shot (lie + distance to the hole). The
+-- strokes gained split for the hole is calculated in the app from the bundled
+-- baseline table and stored alongside the shots so it can be aggregated cheaply.
+
+ALTER TABLE round_scores ADD COLUMN IF NOT EXISTS shots JSONB
+  CHECK (shots IS NULL OR jsonb_typeof(shots) = 'array');
+ALTER TABLE round_scores ADD COLUMN IF NOT EXISTS sg_off_the_tee DECIMAL(5,2);
+ALTER TABLE round_scores ADD COLUMN IF NOT EXISTS sg_approach DECIMAL(5,2);
+ALTER TABLE round_scores ADD COLUMN IF NOT EXISTS sg_around_green DECIMAL(5,2);
+ALTER TABLE round_scores ADD COLUMN IF NOT EXISTS sg_putting DECIMAL(5,2);
+
+-- Squad admins can read hole scores for members of their squads (Squad Insights)
+CREATE POLICY "Squad admins can read member round_scores"
+ON round_scores FOR SELECT
+TO authenticated
+USING (
+  round_id IN (
+    SELECT r.id FROM rounds r
+    JOIN squad_members sm ON sm.user_id = r.user_id
+    JOIN admin_squads ads ON ads.squad_id = sm.squad_id
+    WHERE ads.admin_id = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'Super Admin'
+  )
+);
+
+-- ============================================
+-- HOLE SCORE INSERT (shared by save and edit)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION insert_round_scores(
+  p_round_id UUID,
+  p_scores JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO round_scores (
+    round_id, hole_number, par, distance, stroke_index,
+    strokes, adjusted_strokes, net_strokes, stableford_points,
+    putts, fairway, gir, sand_shots, penalty_strokes,
+    shots, sg_off_the_tee, sg_approach, sg_around_green, sg_putting
+  )
+  SELECT
+    p_round_id, s.hole_number, s.par, s.distance, s.stroke_index,
+    s.strokes, s.adjusted_strokes, s.net_strokes, s.stableford_points,
+    s.putts, s.fairway, s.gir, s.sand_shots, s.penalty_strokes,
+    s.shots, s.sg_off_the_tee, s.sg_approach, s.sg_around_green, s.sg_putting
+  FROM jsonb_to_recordset(p_scores) AS s(
+    hole_number INTEGER,
+    par INTEGER,
+    distance INTEGER,
+    stroke_index INTEGER,
+    strokes INTEGER,
+    adjusted_strokes INTEGER,
+    net_strokes INTEGER,
+    stableford_points INTEGER,
+    putts INTEGER,
+    fairway TEXT,
+    gir BOOLEAN,
+    sand_shots INTEGER,
+    penalty_strokes INTEGER,
+    shots JSONB,
+    sg_off_the_tee DECIMAL(5,2),
+    sg_approach DECIMAL(5,2),
+    sg_around_green DECIMAL(5,2),
+    sg_putting DECIMAL(5,2)
+  );
+END;
+$$;
@@ -0,0 +1,46 @@
+-- Live scoring drafts
+-- A round in progress, saved hole by hole so it can be resumed on another device.
+-- The draft is deleted once it is finalised into a real round.
+CREATE TABLE IF NOT EXISTS round_drafts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  date_of_round DATE NOT NULL,
+  round_length INTEGER NOT NULL DEFAULT 18 CHECK (round_length IN (9, 18)),
+  playing_format TEXT NOT NULL DEFAULT 'stroke_play',
+  weather TEXT,
+  wind_conditions TEXT,
+  -- Scorecard as entered so far (same shape as HoleData in the app)
+  holes JSONB NOT NULL DEFAULT '[]'::JSONB CHECK (jsonb_typeof(holes) = 'array'),
+  current_hole INTEGER NOT NULL DEFAULT 1 CHECK (current_hole >= 1 AND current_hole <= 18),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_round_drafts_user_id ON round_drafts(user_id, updated_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE round_drafts ENABLE ROW LEVEL SECURITY;
+
+-- Drafts are private to the player scoring the round
+CREATE POLICY "Users can read own round_drafts"
+ON round_drafts FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own round_drafts"
+ON round_drafts FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own round_drafts"
+ON round_drafts FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own round_drafts"
+ON round_drafts FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
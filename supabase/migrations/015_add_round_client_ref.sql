@@ -0,0 +1,94 @@
+-- Offline round sync
+-- Rounds entered without a connection are queued on the device with a client-generated
+-- reference. Submitting the same queued round twice (retries, two tabs syncing at once)
+-- returns the round that was already saved instead of creating a duplicate.
+
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS client_ref UUID;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_rounds_user_client_ref
+  ON rounds(user_id, client_ref)
+  WHERE client_ref IS NOT NULL;
+
+-- ============================================
+-- SAVE NEW ROUND (idempotent on client_ref)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION save_round_with_scores(
+  p_round JSONB,
+  p_scores JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_errors JSONB;
+  v_round_id UUID;
+  v_client_ref UUID := (p_round->>'client_ref')::UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'errors', jsonb_build_array(jsonb_build_object('field', 'user_id', 'message', 'Not authenticated. Please log in.'))
+    );
+  END IF;
+
+  -- Already synced from this device: hand back the saved round
+  IF v_client_ref IS NOT NULL THEN
+    SELECT id INTO v_round_id FROM rounds
+    WHERE user_id = auth.uid() AND client_ref = v_client_ref;
+
+    IF v_round_id IS NOT NULL THEN
+      RETURN jsonb_build_object('success', true, 'round_id', v_round_id, 'duplicate', true);
+    END IF;
+  END IF;
+
+  v_errors := validate_round_scores(p_round, p_scores);
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'errors', v_errors);
+  END IF;
+
+  BEGIN
+    INSERT INTO rounds (
+      user_id, course_id, date_of_round, weather, wind_conditions, temp_c, wind_speed_kph,
+      total_strokes, total_par, score_to_par, adjusted_gross_score, net_strokes, stableford_points,
+      course_handicap, playing_format, playing_handicap, holes_played, is_home, pcc, score_differential,
+      client_ref
+    )
+    VALUES (
+      auth.uid(),
+      (p_round->>'course_id')::UUID,
+      (p_round->>'date_of_round')::DATE,
+      p_round->>'weather',
+      p_round->>'wind_conditions',
+      (p_round->>'temp_c')::NUMERIC,
+      (p_round->>'wind_speed_kph')::NUMERIC,
+      (p_round->>'total_strokes')::INTEGER,
+      (p_round->>'total_par')::INTEGER,
+      (p_round->>'score_to_par')::INTEGER,
+      (p_round->>'adjusted_gross_score')::INTEGER,
+      (p_round->>'net_strokes')::INTEGER,
+      (p_round->>'stableford_points')::INTEGER,
+      (p_round->>'course_handicap')::INTEGER,
+      COALESCE(p_round->>'playing_format', 'stroke_play'),
+      (p_round->>'playing_handicap')::INTEGER,
+      (p_round->>'holes_played')::INTEGER,
+      (p_round->>'is_home')::BOOLEAN,
+      (p_round->>'pcc')::INTEGER,
+      (p_round->>'score_differential')::DECIMAL(4,1),
+      v_client_ref
+    )
+    RETURNING id INTO v_round_id;
+  EXCEPTION WHEN unique_violation THEN
+    -- Lost a race with another submission of the same queued round
+    SELECT id INTO v_round_id FROM rounds
+    WHERE user_id = auth.uid() AND client_ref = v_client_ref;
+    RETURN jsonb_build_object('success', true, 'round_id', v_round_id, 'duplicate', true);
+  END;
+
+  PERFORM insert_round_scores(v_round_id, p_scores);
+
+  RETURN jsonb_build_object('success', true, 'round_id', v_round_id);
+END;
+$$;
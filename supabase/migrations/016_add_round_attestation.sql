@@ -0,0 +1,264 @@
+-- Marker attestation
+-- The player names a playing partner as marker when saving a round. The marker attests
+-- or disputes the card; until then the round is pending. Admins choose per view
+-- (leaderboard, weekly digest, simulator) whether pending rounds count.
+
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS marker_id UUID REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS attestation_status TEXT NOT NULL DEFAULT 'pending'
+  CHECK (attestation_status IN ('pending', 'attested', 'disputed'));
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS attested_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS attestation_note TEXT;
+
+-- Rounds recorded before attestation existed keep counting everywhere
+UPDATE rounds SET attestation_status = 'attested' WHERE marker_id IS NULL AND attested_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rounds_marker_pending
+  ON rounds(marker_id)
+  WHERE attestation_status = 'pending';
+
+-- The marker reviews the hole-by-hole card before answering
+CREATE POLICY "Markers can read marked round_scores"
+ON round_scores FOR SELECT
+TO authenticated
+USING (
+  round_id IN (SELECT id FROM rounds WHERE marker_id = auth.uid())
+);
+
+-- ============================================
+-- PER-VIEW SETTING: DO UNATTESTED ROUNDS COUNT?
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS view_settings (
+  view_key TEXT PRIMARY KEY CHECK (view_key IN ('leaderboard', 'weekly_digest', 'simulator')),
+  include_unattested BOOLEAN NOT NULL DEFAULT true,
+  updated_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO view_settings (view_key) VALUES ('leaderboard'), ('weekly_digest'), ('simulator')
+ON CONFLICT (view_key) DO NOTHING;
+
+ALTER TABLE view_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated users to read view_settings"
+ON view_settings FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can update view_settings"
+ON view_settings FOR UPDATE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  )
+);
+
+-- ============================================
+-- MARKER RESPONSE
+-- ============================================
+
+CREATE OR REPLACE FUNCTION respond_to_attestation(
+  p_round_id UUID,
+  p_attest BOOLEAN,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE rounds SET
+    attestation_status = CASE WHEN p_attest THEN 'attested' ELSE 'disputed' END,
+    attested_at = NOW(),
+    attestation_note = NULLIF(TRIM(p_note), '')
+  WHERE id = p_round_id
+  AND marker_id = auth.uid()
+  AND attestation_status = 'pending';
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Attestation request not found or already answered');
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- ============================================
+-- SAVE NEW ROUND (records the marker)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION save_round_with_scores(
+  p_round JSONB,
+  p_scores JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_errors JSONB;
+  v_round_id UUID;
+  v_client_ref UUID := (p_round->>'client_ref')::UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'errors', jsonb_build_array(jsonb_build_object('field', 'user_id', 'message', 'Not authenticated. Please log in.'))
+    );
+  END IF;
+
+  -- Already synced from this device: hand back the saved round
+  IF v_client_ref IS NOT NULL THEN
+    SELECT id INTO v_round_id FROM rounds
+    WHERE user_id = auth.uid() AND client_ref = v_client_ref;
+
+    IF v_round_id IS NOT NULL THEN
+      RETURN jsonb_build_object('success', true, 'round_id', v_round_id, 'duplicate', true);
+    END IF;
+  END IF;
+
+  v_errors := validate_round_scores(p_round, p_scores);
+
+  IF (p_round->>'marker_id')::UUID = auth.uid() THEN
+    v_errors := v_errors || jsonb_build_array(
+      jsonb_build_object('field', 'marker_id', 'message', 'You cannot mark your own card')
+    );
+  END IF;
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'errors', v_errors);
+  END IF;
+
+  BEGIN
+    INSERT INTO rounds (
+      user_id, course_id, date_of_round, weather, wind_conditions, temp_c, wind_speed_kph,
+      total_strokes, total_par, score_to_par, adjusted_gross_score, net_strokes, stableford_points,
+      course_handicap, playing_format, playing_handicap, holes_played, is_home, pcc, score_differential,
+      client_ref, marker_id, attestation_status
+    )
+    VALUES (
+      auth.uid(),
+      (p_round->>'course_id')::UUID,
+      (p_round->>'date_of_round')::DATE,
+      p_round->>'weather',
+      p_round->>'wind_conditions',
+      (p_round->>'temp_c')::NUMERIC,
+      (p_round->>'wind_speed_kph')::NUMERIC,
+      (p_round->>'total_strokes')::INTEGER,
+      (p_round->>'total_par')::INTEGER,
+      (p_round->>'score_to_par')::INTEGER,
+      (p_round->>'adjusted_gross_score')::INTEGER,
+      (p_round->>'net_strokes')::INTEGER,
+      (p_round->>'stableford_points')::INTEGER,
+      (p_round->>'course_handicap')::INTEGER,
+      COALESCE(p_round->>'playing_format', 'stroke_play'),
+      (p_round->>'playing_handicap')::INTEGER,
+      (p_round->>'holes_played')::INTEGER,
+      (p_round->>'is_home')::BOOLEAN,
+      (p_round->>'pcc')::INTEGER,
+      (p_round->>'score_differential')::DECIMAL(4,1),
+      v_client_ref,
+      (p_round->>'marker_id')::UUID,
+      'pending'
+    )
+    RETURNING id INTO v_round_id;
+  EXCEPTION WHEN unique_violation THEN
+    -- Lost a race with another submission of the same queued round
+    SELECT id INTO v_round_id FROM rounds
+    WHERE user_id = auth.uid() AND client_ref = v_client_ref;
+    RETURN jsonb_build_object('success', true, 'round_id', v_round_id, 'duplicate', true);
+  END;
+
+  PERFORM insert_round_scores(v_round_id, p_scores);
+
+  RETURN jsonb_build_object('success', true, 'round_id', v_round_id);
+END;
+$$;
+
+-- ============================================
+-- EDIT ROUND (a changed card needs attesting again)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION update_round_with_scores(
+  p_round_id UUID,
+  p_round JSONB,
+  p_scores JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_errors JSONB;
+  v_owner_id UUID;
+BEGIN
+  -- Owner-or-admin check (mirrors deleteRound)
+  SELECT user_id INTO v_owner_id FROM rounds
+  WHERE id = p_round_id
+  AND (
+    user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('Admin', 'Super Admin')
+    )
+  );
+
+  IF v_owner_id IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'errors', jsonb_build_array(jsonb_build_object('field', 'round_id', 'message', 'Round not found or permission denied'))
+    );
+  END IF;
+
+  v_errors := validate_round_scores(p_round, p_scores);
+
+  IF (p_round->>'marker_id')::UUID = v_owner_id THEN
+    v_errors := v_errors || jsonb_build_array(
+      jsonb_build_object('field', 'marker_id', 'message', 'A player cannot mark their own card')
+    );
+  END IF;
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'errors', v_errors);
+  END IF;
+
+  UPDATE rounds SET
+    course_id = (p_round->>'course_id')::UUID,
+    date_of_round = (p_round->>'date_of_round')::DATE,
+    weather = p_round->>'weather',
+    wind_conditions = p_round->>'wind_conditions',
+    temp_c = (p_round->>'temp_c')::NUMERIC,
+    wind_speed_kph = (p_round->>'wind_speed_kph')::NUMERIC,
+    total_strokes = (p_round->>'total_strokes')::INTEGER,
+    total_par = (p_round->>'total_par')::INTEGER,
+    score_to_par = (p_round->>'score_to_par')::INTEGER,
+    adjusted_gross_score = (p_round->>'adjusted_gross_score')::INTEGER,
+    net_strokes = (p_round->>'net_strokes')::INTEGER,
+    stableford_points = (p_round->>'stableford_points')::INTEGER,
+    course_handicap = (p_round->>'course_handicap')::INTEGER,
+    playing_format = COALESCE(p_round->>'playing_format', 'stroke_play'),
+    playing_handicap = (p_round->>'playing_handicap')::INTEGER,
+    holes_played = (p_round->>'holes_played')::INTEGER,
+    is_home = (p_round->>'is_home')::BOOLEAN,
+    pcc = (p_round->>'pcc')::INTEGER,
+    score_differential = (p_round->>'score_differential')::DECIMAL(4,1),
+    marker_id = (p_round->>'marker_id')::UUID,
+    attestation_status = 'pending',
+    attested_at = NULL,
+    attestation_note = NULL
+  WHERE id = p_round_id;
+
+  DELETE FROM round_scores WHERE round_id = p_round_id;
+
+  PERFORM insert_round_scores(p_round_id, p_scores);
+
+  RETURN jsonb_build_object('success', true, 'round_id', p_round_id);
+END;
+$$;
@@ -0,0 +1,263 @@
+-- Round types and events
+-- A round is a club competition, an interclub match or general play, and can be linked
+-- to a named event with a date, venue and format. Stats views filter by type so team
+-- selection can weight competitive rounds.
+
+CREATE TABLE IF NOT EXISTS events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  event_date DATE NOT NULL,
+  course_id UUID REFERENCES courses(id) ON DELETE SET NULL,
+  playing_format TEXT NOT NULL DEFAULT 'stroke_play',
+  round_type TEXT NOT NULL DEFAULT 'club_competition' CHECK (round_type IN ('club_competition', 'interclub')),
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_events_event_date ON events(event_date DESC);
+
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS round_type TEXT NOT NULL DEFAULT 'general_play'
+  CHECK (round_type IN ('club_competition', 'interclub', 'general_play'));
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS event_id UUID REFERENCES events(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rounds_event_id ON rounds(event_id);
+
+-- Enable Row Level Security
+ALTER TABLE events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated users to read events"
+ON events FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can insert events"
+ON events FOR INSERT
+TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  )
+);
+
+CREATE POLICY "Admins can update events"
+ON events FOR UPDATE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  )
+);
+
+CREATE POLICY "Admins can delete events"
+ON events FOR DELETE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  )
+);
+
+-- ============================================
+-- ROUND TYPE (a linked event decides it)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION event_round_type(p_round JSONB)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT round_type FROM events WHERE id = (p_round->>'event_id')::UUID),
+    p_round->>'round_type',
+    'general_play'
+  );
+$$;
+
+-- ============================================
+-- SAVE NEW ROUND (records type and event)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION save_round_with_scores(
+  p_round JSONB,
+  p_scores JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_errors JSONB;
+  v_round_id UUID;
+  v_client_ref UUID := (p_round->>'client_ref')::UUID;
+  v_round_type TEXT := event_round_type(p_round);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'errors', jsonb_build_array(jsonb_build_object('field', 'user_id', 'message', 'Not authenticated. Please log in.'))
+    );
+  END IF;
+
+  -- Already synced from this device: hand back the saved round
+  IF v_client_ref IS NOT NULL THEN
+    SELECT id INTO v_round_id FROM rounds
+    WHERE user_id = auth.uid() AND client_ref = v_client_ref;
+
+    IF v_round_id IS NOT NULL THEN
+      RETURN jsonb_build_object('success', true, 'round_id', v_round_id, 'duplicate', true);
+    END IF;
+  END IF;
+
+  v_errors := validate_round_scores(p_round, p_scores);
+
+  IF (p_round->>'marker_id')::UUID = auth.uid() THEN
+    v_errors := v_errors || jsonb_build_array(
+      jsonb_build_object('field', 'marker_id', 'message', 'You cannot mark your own card')
+    );
+  END IF;
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'errors', v_errors);
+  END IF;
+
+  BEGIN
+    INSERT INTO rounds (
+      user_id, course_id, date_of_round, weather, wind_conditions, temp_c, wind_speed_kph,
+      total_strokes, total_par, score_to_par, adjusted_gross_score, net_strokes, stableford_points,
+      course_handicap, playing_format, playing_handicap, holes_played, is_home, pcc, score_differential,
+      client_ref, marker_id, attestation_status, round_type, event_id
+    )
+    VALUES (
+      auth.uid(),
+      (p_round->>'course_id')::UUID,
+      (p_round->>'date_of_round')::DATE,
+      p_round->>'weather',
+      p_round->>'wind_conditions',
+      (p_round->>'temp_c')::NUMERIC,
+      (p_round->>'wind_speed_kph')::NUMERIC,
+      (p_round->>'total_strokes')::INTEGER,
+      (p_round->>'total_par')::INTEGER,
+      (p_round->>'score_to_par')::INTEGER,
+      (p_round->>'adjusted_gross_score')::INTEGER,
+      (p_round->>'net_strokes')::INTEGER,
+      (p_round->>'stableford_points')::INTEGER,
+      (p_round->>'course_handicap')::INTEGER,
+      COALESCE(p_round->>'playing_format', 'stroke_play'),
+      (p_round->>'playing_handicap')::INTEGER,
+      (p_round->>'holes_played')::INTEGER,
+      (p_round->>'is_home')::BOOLEAN,
+      (p_round->>'pcc')::INTEGER,
+      (p_round->>'score_differential')::DECIMAL(4,1),
+      v_client_ref,
+      (p_round->>'marker_id')::UUID,
+      'pending',
+      v_round_type,
+      (p_round->>'event_id')::UUID
+    )
+    RETURNING id INTO v_round_id;
+  EXCEPTION WHEN unique_violation THEN
+    -- Lost a race with another submission of the same queued round
+    SELECT id INTO v_round_id FROM rounds
+    WHERE user_id = auth.uid() AND client_ref = v_client_ref;
+    RETURN jsonb_build_object('success', true, 'round_id', v_round_id, 'duplicate', true);
+  END;
+
+  PERFORM insert_round_scores(v_round_id, p_scores);
+
+  RETURN jsonb_build_object('success', true, 'round_id', v_round_id);
+END;
+$$;
+
+-- ============================================
+-- EDIT ROUND (records type and event)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION update_round_with_scores(
+  p_round_id UUID,
+  p_round JSONB,
+  p_scores JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_errors JSONB;
+  v_owner_id UUID;
+  v_round_type TEXT := event_round_type(p_round);
+BEGIN
+  -- Owner-or-admin check (mirrors deleteRound)
+  SELECT user_id INTO v_owner_id FROM rounds
+  WHERE id = p_round_id
+  AND (
+    user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('Admin', 'Super Admin')
+    )
+  );
+
+  IF v_owner_id IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'errors', jsonb_build_array(jsonb_build_object('field', 'round_id', 'message', 'Round not found or permission denied'))
+    );
+  END IF;
+
+  v_errors := validate_round_scores(p_round, p_scores);
+
+  IF (p_round->>'marker_id')::UUID = v_owner_id THEN
+    v_errors := v_errors || jsonb_build_array(
+      jsonb_build_object('field', 'marker_id', 'message', 'A player cannot mark their own card')
+    );
+  END IF;
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'errors', v_errors);
+  END IF;
+
+  UPDATE rounds SET
+    course_id = (p_round->>'course_id')::UUID,
+    date_of_round = (p_round->>'date_of_round')::DATE,
+    weather = p_round->>'weather',
+    wind_conditions = p_round->>'wind_conditions',
+    temp_c = (p_round->>'temp_c')::NUMERIC,
+    wind_speed_kph = (p_round->>'wind_speed_kph')::NUMERIC,
+    total_strokes = (p_round->>'total_strokes')::INTEGER,
+    total_par = (p_round->>'total_par')::INTEGER,
+    score_to_par = (p_round->>'score_to_par')::INTEGER,
+    adjusted_gross_score = (p_round->>'adjusted_gross_score')::INTEGER,
+    net_strokes = (p_round->>'net_strokes')::INTEGER,
+    stableford_points = (p_round->>'stableford_points')::INTEGER,
+    course_handicap = (p_round->>'course_handicap')::INTEGER,
+    playing_format = COALESCE(p_round->>'playing_format', 'stroke_play'),
+    playing_handicap = (p_round->>'playing_handicap')::INTEGER,
+    holes_played = (p_round->>'holes_played')::INTEGER,
+    is_home = (p_round->>'is_home')::BOOLEAN,
+    pcc = (p_round->>'pcc')::INTEGER,
+    score_differential = (p_round->>'score_differential')::DECIMAL(4,1),
+    marker_id = (p_round->>'marker_id')::UUID,
+    round_type = v_round_type,
+    event_id = (p_round->>'event_id')::UUID,
+    attestation_status = 'pending',
+    attested_at = NULL,
+    attestation_note = NULL
+  WHERE id = p_round_id;
+
+  DELETE FROM round_scores WHERE round_id = p_round_id;
+
+  PERFORM insert_round_scores(p_round_id, p_scores);
+
+  RETURN jsonb_build_object('success', true, 'round_id', p_round_id);
+END;
+$$;
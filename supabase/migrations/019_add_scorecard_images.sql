@@ -0,0 +1,268 @@
+-- Scorecard images
+-- The photo or PDF a round was read from is kept in the private "scorecards" storage
+-- bucket under <player id>/<file>, and the round records its path. Players manage their
+-- own folder; markers can view the card they are asked to attest, admins any card.
+
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS scorecard_path TEXT;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('scorecards', 'scorecards', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================
+-- STORAGE POLICIES
+-- ============================================
+
+CREATE POLICY "Players can upload their own scorecards"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'scorecards'
+  AND (storage.foldername(name))[1] = auth.uid()::TEXT
+);
+
+CREATE POLICY "Players can read their own scorecards"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'scorecards'
+  AND (storage.foldername(name))[1] = auth.uid()::TEXT
+);
+
+CREATE POLICY "Players can delete their own scorecards"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'scorecards'
+  AND (storage.foldername(name))[1] = auth.uid()::TEXT
+);
+
+CREATE POLICY "Markers can read scorecards they attest"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'scorecards'
+  AND EXISTS (
+    SELECT 1 FROM rounds
+    WHERE rounds.scorecard_path = storage.objects.name
+    AND rounds.marker_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can read all scorecards"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'scorecards'
+  AND EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  )
+);
+
+CREATE POLICY "Admins can delete all scorecards"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'scorecards'
+  AND EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  )
+);
+
+-- ============================================
+-- SAVE NEW ROUND (records the scorecard image)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION save_round_with_scores(
+  p_round JSONB,
+  p_scores JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_errors JSONB;
+  v_round_id UUID;
+  v_client_ref UUID := (p_round->>'client_ref')::UUID;
+  v_round_type TEXT := event_round_type(p_round);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'errors', jsonb_build_array(jsonb_build_object('field', 'user_id', 'message', 'Not authenticated. Please log in.'))
+    );
+  END IF;
+
+  -- Already synced from this device: hand back the saved round
+  IF v_client_ref IS NOT NULL THEN
+    SELECT id INTO v_round_id FROM rounds
+    WHERE user_id = auth.uid() AND client_ref = v_client_ref;
+
+    IF v_round_id IS NOT NULL THEN
+      RETURN jsonb_build_object('success', true, 'round_id', v_round_id, 'duplicate', true);
+    END IF;
+  END IF;
+
+  v_errors := validate_round_scores(p_round, p_scores);
+
+  IF (p_round->>'marker_id')::UUID = auth.uid() THEN
+    v_errors := v_errors || jsonb_build_array(
+      jsonb_build_object('field', 'marker_id', 'message', 'You cannot mark your own card')
+    );
+  END IF;
+
+  -- Only an image from the player's own folder can be linked
+  IF p_round->>'scorecard_path' IS NOT NULL
+    AND split_part(p_round->>'scorecard_path', '/', 1) <> auth.uid()::TEXT THEN
+    v_errors := v_errors || jsonb_build_array(
+      jsonb_build_object('field', 'scorecard_path', 'message', 'Scorecard image not found')
+    );
+  END IF;
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'errors', v_errors);
+  END IF;
+
+  BEGIN
+    INSERT INTO rounds (
+      user_id, course_id, date_of_round, weather, wind_conditions, temp_c, wind_speed_kph,
+      total_strokes, total_par, score_to_par, adjusted_gross_score, net_strokes, stableford_points,
+      course_handicap, playing_format, playing_handicap, holes_played, is_home, pcc, score_differential,
+      client_ref, marker_id, attestation_status, round_type, event_id, scorecard_path
+    )
+    VALUES (
+      auth.uid(),
+      (p_round->>'course_id')::UUID,
+      (p_round->>'date_of_round')::DATE,
+      p_round->>'weather',
+      p_round->>'wind_conditions',
+      (p_round->>'temp_c')::NUMERIC,
+      (p_round->>'wind_speed_kph')::NUMERIC,
+      (p_round->>'total_strokes')::INTEGER,
+      (p_round->>'total_par')::INTEGER,
+      (p_round->>'score_to_par')::INTEGER,
+      (p_round->>'adjusted_gross_score')::INTEGER,
+      (p_round->>'net_strokes')::INTEGER,
+      (p_round->>'stableford_points')::INTEGER,
+      (p_round->>'course_handicap')::INTEGER,
+      COALESCE(p_round->>'playing_format', 'stroke_play'),
+      (p_round->>'playing_handicap')::INTEGER,
+      (p_round->>'holes_played')::INTEGER,
+      (p_round->>'is_home')::BOOLEAN,
+      (p_round->>'pcc')::INTEGER,
+      (p_round->>'score_differential')::DECIMAL(4,1),
+      v_client_ref,
+      (p_round->>'marker_id')::UUID,
+      'pending',
+      v_round_type,
+      (p_round->>'event_id')::UUID,
+      p_round->>'scorecard_path'
+    )
+    RETURNING id INTO v_round_id;
+  EXCEPTION WHEN unique_violation THEN
+    -- Lost a race with another submission of the same queued round
+    SELECT id INTO v_round_id FROM rounds
+    WHERE user_id = auth.uid() AND client_ref = v_client_ref;
+    RETURN jsonb_build_object('success', true, 'round_id', v_round_id, 'duplicate', true);
+  END;
+
+  PERFORM insert_round_scores(v_round_id, p_scores);
+
+  RETURN jsonb_build_object('success', true, 'round_id', v_round_id);
+END;
+$$;
+
+-- ============================================
+-- MERGE DUPLICATES (keeps a duplicate's scorecard image)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION merge_duplicate_rounds(
+  p_keep_id UUID,
+  p_remove_ids UUID[]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_keep rounds%ROWTYPE;
+  v_removed INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only administrators can merge rounds');
+  END IF;
+
+  SELECT * INTO v_keep FROM rounds WHERE id = p_keep_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Round to keep not found');
+  END IF;
+
+  IF p_keep_id = ANY(p_remove_ids) OR EXISTS (
+    SELECT 1 FROM rounds
+    WHERE id = ANY(p_remove_ids)
+    AND (user_id <> v_keep.user_id OR course_id <> v_keep.course_id OR date_of_round <> v_keep.date_of_round)
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only rounds by the same player on the same course and day can be merged'
+    );
+  END IF;
+
+  -- Round details the kept round is missing
+  UPDATE rounds k SET
+    marker_id = COALESCE(k.marker_id, d.marker_id),
+    event_id = COALESCE(k.event_id, d.event_id),
+    round_type = CASE WHEN k.round_type = 'general_play' THEN COALESCE(d.round_type, k.round_type) ELSE k.round_type END,
+    weather = COALESCE(k.weather, d.weather),
+    wind_conditions = COALESCE(k.wind_conditions, d.wind_conditions),
+    scorecard_path = COALESCE(k.scorecard_path, d.scorecard_path)
+  FROM (
+    SELECT
+      (array_agg(marker_id) FILTER (WHERE marker_id IS NOT NULL))[1] AS marker_id,
+      (array_agg(event_id) FILTER (WHERE event_id IS NOT NULL))[1] AS event_id,
+      (array_agg(round_type) FILTER (WHERE round_type <> 'general_play'))[1] AS round_type,
+      (array_agg(weather) FILTER (WHERE weather IS NOT NULL))[1] AS weather,
+      (array_agg(wind_conditions) FILTER (WHERE wind_conditions IS NOT NULL))[1] AS wind_conditions,
+      (array_agg(scorecard_path) FILTER (WHERE scorecard_path IS NOT NULL))[1] AS scorecard_path
+    FROM rounds
+    WHERE id = ANY(p_remove_ids)
+  ) d
+  WHERE k.id = p_keep_id;
+
+  -- Shot statistics recorded only on a duplicate (same hole, same score)
+  UPDATE round_scores k SET
+    putts = COALESCE(k.putts, d.putts),
+    fairway = COALESCE(k.fairway, d.fairway),
+    gir = COALESCE(k.gir, d.gir),
+    sand_shots = COALESCE(k.sand_shots, d.sand_shots),
+    penalty_strokes = COALESCE(k.penalty_strokes, d.penalty_strokes),
+    shots = COALESCE(k.shots, d.shots),
+    sg_off_the_tee = CASE WHEN k.shots IS NULL THEN d.sg_off_the_tee ELSE k.sg_off_the_tee END,
+    sg_approach = CASE WHEN k.shots IS NULL THEN d.sg_approach ELSE k.sg_approach END,
+    sg_around_green = CASE WHEN k.shots IS NULL THEN d.sg_around_green ELSE k.sg_around_green END,
+    sg_putting = CASE WHEN k.shots IS NULL THEN d.sg_putting ELSE k.sg_putting END
+  FROM round_scores d
+  WHERE k.round_id = p_keep_id
+  AND d.round_id = ANY(p_remove_ids)
+  AND d.hole_number = k.hole_number
+  AND d.strokes IS NOT DISTINCT FROM k.strokes;
+
+  DELETE FROM round_scores WHERE round_id = ANY(p_remove_ids);
+  DELETE FROM rounds WHERE id = ANY(p_remove_ids);
+  GET DIAGNOSTICS v_removed = ROW_COUNT;
+
+  RETURN jsonb_build_object('success', true, 'round_id', p_keep_id, 'removed', v_removed, 'user_id', v_keep.user_id);
+END;
+$$;
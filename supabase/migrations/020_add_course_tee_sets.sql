@@ -0,0 +1,345 @@
+-- Tee sets
+-- A course can be played from several tees, each with its own rating, slope, par and
+-- yardages. Men's and ladies' ratings for the same tees are separate tee sets. Rounds
+-- record the tees played; course-level rating, slope and hole distances stay as the
+-- defaults for rounds entered without tees.
+
+CREATE TABLE IF NOT EXISTS course_tees (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  gender TEXT NOT NULL DEFAULT 'men' CHECK (gender IN ('men', 'ladies')),
+  par INTEGER,
+  rating DECIMAL(4,1),
+  slope INTEGER CHECK (slope IS NULL OR (slope >= 55 AND slope <= 155)),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- One rating per tee for each of men and ladies
+  UNIQUE(course_id, name, gender)
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_tees_course_id ON course_tees(course_id);
+
+-- Hole yardages from each tee set
+CREATE TABLE IF NOT EXISTS course_tee_holes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  tee_id UUID NOT NULL REFERENCES course_tees(id) ON DELETE CASCADE,
+  hole_number INTEGER NOT NULL CHECK (hole_number >= 1 AND hole_number <= 18),
+  distance INTEGER NOT NULL CHECK (distance > 0),
+
+  UNIQUE(tee_id, hole_number)
+);
+
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS tee_id UUID REFERENCES course_tees(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rounds_tee_id ON rounds(tee_id);
+
+-- ============================================
+-- EXISTING COURSES BECOME ONE TEE SET EACH
+-- ============================================
+
+INSERT INTO course_tees (course_id, name, gender, par, rating, slope)
+SELECT id, COALESCE(tee_color, 'White'), 'men', par, COALESCE(rating, standard_scratch), slope
+FROM courses
+ON CONFLICT (course_id, name, gender) DO NOTHING;
+
+INSERT INTO course_tee_holes (tee_id, hole_number, distance)
+SELECT t.id, h.hole_number, h.distance
+FROM course_holes h
+JOIN course_tees t ON t.course_id = h.course_id
+WHERE h.distance > 0
+ON CONFLICT (tee_id, hole_number) DO NOTHING;
+
+UPDATE rounds r SET tee_id = t.id
+FROM course_tees t
+WHERE t.course_id = r.course_id
+AND r.tee_id IS NULL;
+
+-- Enable Row Level Security
+ALTER TABLE course_tees ENABLE ROW LEVEL SECURITY;
+ALTER TABLE course_tee_holes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated users to read course_tees"
+ON course_tees FOR SELECT
+TO authenticated
+USING (true);
+
+-- Anyone adding a course adds its first tees
+CREATE POLICY "Allow authenticated users to insert course_tees"
+ON course_tees FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+CREATE POLICY "Admins can update course_tees"
+ON course_tees FOR UPDATE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  )
+);
+
+CREATE POLICY "Admins can delete course_tees"
+ON course_tees FOR DELETE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  )
+);
+
+CREATE POLICY "Allow authenticated users to read course_tee_holes"
+ON course_tee_holes FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Allow authenticated users to insert course_tee_holes"
+ON course_tee_holes FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+CREATE POLICY "Admins can update course_tee_holes"
+ON course_tee_holes FOR UPDATE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  )
+);
+
+CREATE POLICY "Admins can delete course_tee_holes"
+ON course_tee_holes FOR DELETE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  )
+);
+
+-- ============================================
+-- TEES MUST BELONG TO THE ROUND'S COURSE
+-- ============================================
+
+CREATE OR REPLACE FUNCTION validate_round_tee(p_round JSONB)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_round->>'tee_id' IS NULL THEN '[]'::JSONB
+    WHEN EXISTS (
+      SELECT 1 FROM course_tees
+      WHERE id = (p_round->>'tee_id')::UUID
+      AND course_id = (p_round->>'course_id')::UUID
+    ) THEN '[]'::JSONB
+    ELSE jsonb_build_array(
+      jsonb_build_object('field', 'tee_id', 'message', 'The selected tees are not on this course')
+    )
+  END;
+$$;
+
+-- ============================================
+-- SAVE NEW ROUND (records the tees played)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION save_round_with_scores(
+  p_round JSONB,
+  p_scores JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_errors JSONB;
+  v_round_id UUID;
+  v_client_ref UUID := (p_round->>'client_ref')::UUID;
+  v_round_type TEXT := event_round_type(p_round);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'errors', jsonb_build_array(jsonb_build_object('field', 'user_id', 'message', 'Not authenticated. Please log in.'))
+    );
+  END IF;
+
+  -- Already synced from this device: hand back the saved round
+  IF v_client_ref IS NOT NULL THEN
+    SELECT id INTO v_round_id FROM rounds
+    WHERE user_id = auth.uid() AND client_ref = v_client_ref;
+
+    IF v_round_id IS NOT NULL THEN
+      RETURN jsonb_build_object('success', true, 'round_id', v_round_id, 'duplicate', true);
+    END IF;
+  END IF;
+
+  v_errors := validate_round_scores(p_round, p_scores);
+
+  IF (p_round->>'marker_id')::UUID = auth.uid() THEN
+    v_errors := v_errors || jsonb_build_array(
+      jsonb_build_object('field', 'marker_id', 'message', 'You cannot mark your own card')
+    );
+  END IF;
+
+  -- Only an image from the player's own folder can be linked
+  IF p_round->>'scorecard_path' IS NOT NULL
+    AND split_part(p_round->>'scorecard_path', '/', 1) <> auth.uid()::TEXT THEN
+    v_errors := v_errors || jsonb_build_array(
+      jsonb_build_object('field', 'scorecard_path', 'message', 'Scorecard image not found')
+    );
+  END IF;
+
+  v_errors := v_errors || validate_round_tee(p_round);
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'errors', v_errors);
+  END IF;
+
+  BEGIN
+    INSERT INTO rounds (
+      user_id, course_id, date_of_round, weather, wind_conditions, temp_c, wind_speed_kph,
+      total_strokes, total_par, score_to_par, adjusted_gross_score, net_strokes, stableford_points,
+      course_handicap, playing_format, playing_handicap, holes_played, is_home, pcc, score_differential,
+      client_ref, marker_id, attestation_status, round_type, event_id, scorecard_path, tee_id
+    )
+    VALUES (
+      auth.uid(),
+      (p_round->>'course_id')::UUID,
+      (p_round->>'date_of_round')::DATE,
+      p_round->>'weather',
+      p_round->>'wind_conditions',
+      (p_round->>'temp_c')::NUMERIC,
+      (p_round->>'wind_speed_kph')::NUMERIC,
+      (p_round->>'total_strokes')::INTEGER,
+      (p_round->>'total_par')::INTEGER,
+      (p_round->>'score_to_par')::INTEGER,
+      (p_round->>'adjusted_gross_score')::INTEGER,
+      (p_round->>'net_strokes')::INTEGER,
+      (p_round->>'stableford_points')::INTEGER,
+      (p_round->>'course_handicap')::INTEGER,
+      COALESCE(p_round->>'playing_format', 'stroke_play'),
+      (p_round->>'playing_handicap')::INTEGER,
+      (p_round->>'holes_played')::INTEGER,
+      (p_round->>'is_home')::BOOLEAN,
+      (p_round->>'pcc')::INTEGER,
+      (p_round->>'score_differential')::DECIMAL(4,1),
+      v_client_ref,
+      (p_round->>'marker_id')::UUID,
+      'pending',
+      v_round_type,
+      (p_round->>'event_id')::UUID,
+      p_round->>'scorecard_path',
+      (p_round->>'tee_id')::UUID
+    )
+    RETURNING id INTO v_round_id;
+  EXCEPTION WHEN unique_violation THEN
+    -- Lost a race with another submission of the same queued round
+    SELECT id INTO v_round_id FROM rounds
+    WHERE user_id = auth.uid() AND client_ref = v_client_ref;
+    RETURN jsonb_build_object('success', true, 'round_id', v_round_id, 'duplicate', true);
+  END;
+
+  PERFORM insert_round_scores(v_round_id, p_scores);
+
+  RETURN jsonb_build_object('success', true, 'round_id', v_round_id);
+END;
+$$;
+
+-- ============================================
+-- EDIT ROUND (records the tees played)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION update_round_with_scores(
+  p_round_id UUID,
+  p_round JSONB,
+  p_scores JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_errors JSONB;
+  v_owner_id UUID;
+  v_round_type TEXT := event_round_type(p_round);
+BEGIN
+  -- Owner-or-admin check (mirrors deleteRound)
+  SELECT user_id INTO v_owner_id FROM rounds
+  WHERE id = p_round_id
+  AND (
+    user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('Admin', 'Super Admin')
+    )
+  );
+
+  IF v_owner_id IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'errors', jsonb_build_array(jsonb_build_object('field', 'round_id', 'message', 'Round not found or permission denied'))
+    );
+  END IF;
+
+  v_errors := validate_round_scores(p_round, p_scores);
+
+  IF (p_round->>'marker_id')::UUID = v_owner_id THEN
+    v_errors := v_errors || jsonb_build_array(
+      jsonb_build_object('field', 'marker_id', 'message', 'A player cannot mark their own card')
+    );
+  END IF;
+
+  v_errors := v_errors || validate_round_tee(p_round);
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'errors', v_errors);
+  END IF;
+
+  UPDATE rounds SET
+    course_id = (p_round->>'course_id')::UUID,
+    date_of_round = (p_round->>'date_of_round')::DATE,
+    weather = p_round->>'weather',
+    wind_conditions = p_round->>'wind_conditions',
+    temp_c = (p_round->>'temp_c')::NUMERIC,
+    wind_speed_kph = (p_round->>'wind_speed_kph')::NUMERIC,
+    total_strokes = (p_round->>'total_strokes')::INTEGER,
+    total_par = (p_round->>'total_par')::INTEGER,
+    score_to_par = (p_round->>'score_to_par')::INTEGER,
+    adjusted_gross_score = (p_round->>'adjusted_gross_score')::INTEGER,
+    net_strokes = (p_round->>'net_strokes')::INTEGER,
+    stableford_points = (p_round->>'stableford_points')::INTEGER,
+    course_handicap = (p_round->>'course_handicap')::INTEGER,
+    playing_format = COALESCE(p_round->>'playing_format', 'stroke_play'),
+    playing_handicap = (p_round->>'playing_handicap')::INTEGER,
+    holes_played = (p_round->>'holes_played')::INTEGER,
+    is_home = (p_round->>'is_home')::BOOLEAN,
+    pcc = (p_round->>'pcc')::INTEGER,
+    score_differential = (p_round->>'score_differential')::DECIMAL(4,1),
+    marker_id = (p_round->>'marker_id')::UUID,
+    round_type = v_round_type,
+    event_id = (p_round->>'event_id')::UUID,
+    tee_id = (p_round->>'tee_id')::UUID,
+    attestation_status = 'pending',
+    attested_at = NULL,
+    attestation_note = NULL
+  WHERE id = p_round_id;
+
+  DELETE FROM round_scores WHERE round_id = p_round_id;
+
+  PERFORM insert_round_scores(p_round_id, p_scores);
+
+  RETURN jsonb_build_object('success', true, 'round_id', p_round_id);
+END;
+$$;
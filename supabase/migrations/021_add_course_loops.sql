@@ -0,0 +1,394 @@
+-- Nine-hole loops
+-- Venues with three (or more) nines define each nine once as a loop, with its pars and
+-- yardages. An 18-hole course is then composed from any two loops: it stays a normal
+-- course, with its own rating, slope, tees and stroke index, and records which loop is
+-- played first and second. A nine-hole course can be a single loop. Rounds and hole
+-- scores record the loops played, so the same hole is recognised whichever
+-- composition it was played in.
+
+CREATE TABLE IF NOT EXISTS course_loops (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  venue TEXT NOT NULL,
+  name TEXT NOT NULL,
+  location TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- Each loop name once per venue
+  UNIQUE(venue, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_loops_venue ON course_loops(venue);
+
+CREATE TABLE IF NOT EXISTS course_loop_holes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  loop_id UUID NOT NULL REFERENCES course_loops(id) ON DELETE CASCADE,
+  hole_number INTEGER NOT NULL CHECK (hole_number >= 1 AND hole_number <= 9),
+  par INTEGER NOT NULL CHECK (par >= 3 AND par <= 6),
+  distance INTEGER CHECK (distance > 0),
+
+  UNIQUE(loop_id, hole_number)
+);
+
+-- Holes 1-9 of a course are its front loop, holes 10-18 its back loop
+ALTER TABLE courses ADD COLUMN IF NOT EXISTS front_loop_id UUID REFERENCES course_loops(id) ON DELETE RESTRICT;
+ALTER TABLE courses ADD COLUMN IF NOT EXISTS back_loop_id UUID REFERENCES course_loops(id) ON DELETE RESTRICT;
+ALTER TABLE courses ADD CONSTRAINT courses_distinct_loops
+  CHECK (back_loop_id IS NULL OR (front_loop_id IS NOT NULL AND back_loop_id <> front_loop_id));
+
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS front_loop_id UUID REFERENCES course_loops(id) ON DELETE SET NULL;
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS back_loop_id UUID REFERENCES course_loops(id) ON DELETE SET NULL;
+
+-- The loop hole each score was made on (NULL for courses not built from loops)
+ALTER TABLE round_scores ADD COLUMN IF NOT EXISTS loop_id UUID REFERENCES course_loops(id) ON DELETE SET NULL;
+ALTER TABLE round_scores ADD COLUMN IF NOT EXISTS loop_hole_number INTEGER
+  CHECK (loop_hole_number >= 1 AND loop_hole_number <= 9);
+
+CREATE INDEX IF NOT EXISTS idx_round_scores_loop_hole ON round_scores(loop_id, loop_hole_number);
+
+-- Enable Row Level Security
+ALTER TABLE course_loops ENABLE ROW LEVEL SECURITY;
+ALTER TABLE course_loop_holes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated users to read course_loops"
+ON course_loops FOR SELECT
+TO authenticated
+USING (true);
+
+-- Anyone adding a course can define its loops
+CREATE POLICY "Allow authenticated users to insert course_loops"
+ON course_loops FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+CREATE POLICY "Admins can update course_loops"
+ON course_loops FOR UPDATE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  )
+);
+
+CREATE POLICY "Admins can delete course_loops"
+ON course_loops FOR DELETE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  )
+);
+
+CREATE POLICY "Allow authenticated users to read course_loop_holes"
+ON course_loop_holes FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Allow authenticated users to insert course_loop_holes"
+ON course_loop_holes FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+CREATE POLICY "Admins can update course_loop_holes"
+ON course_loop_holes FOR UPDATE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  )
+);
+
+CREATE POLICY "Admins can delete course_loop_holes"
+ON course_loop_holes FOR DELETE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  )
+);
+
+-- ============================================
+-- LOOPS PLAYED MUST BE THE COURSE'S OWN
+-- ============================================
+
+CREATE OR REPLACE FUNCTION validate_round_loops(p_round JSONB)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_round->>'front_loop_id' IS NULL AND p_round->>'back_loop_id' IS NULL THEN '[]'::JSONB
+    WHEN EXISTS (
+      SELECT 1 FROM courses
+      WHERE id = (p_round->>'course_id')::UUID
+      AND front_loop_id IS NOT DISTINCT FROM (p_round->>'front_loop_id')::UUID
+      AND (p_round->>'back_loop_id' IS NULL OR back_loop_id = (p_round->>'back_loop_id')::UUID)
+    ) THEN '[]'::JSONB
+    ELSE jsonb_build_array(
+      jsonb_build_object('field', 'front_loop_id', 'message', 'The loops played are not part of this course')
+    )
+  END;
+$$;
+
+-- ============================================
+-- HOLE SCORE INSERT (shared by save and edit)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION insert_round_scores(
+  p_round_id UUID,
+  p_scores JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO round_scores (
+    round_id, hole_number, par, distance, stroke_index,
+    strokes, adjusted_strokes, net_strokes, stableford_points,
+    putts, fairway, gir, sand_shots, penalty_strokes,
+    shots, sg_off_the_tee, sg_approach, sg_around_green, sg_putting,
+    loop_id, loop_hole_number
+  )
+  SELECT
+    p_round_id, s.hole_number, s.par, s.distance, s.stroke_index,
+    s.strokes, s.adjusted_strokes, s.net_strokes, s.stableford_points,
+    s.putts, s.fairway, s.gir, s.sand_shots, s.penalty_strokes,
+    s.shots, s.sg_off_the_tee, s.sg_approach, s.sg_around_green, s.sg_putting,
+    s.loop_id, s.loop_hole_number
+  FROM jsonb_to_recordset(p_scores) AS s(
+    hole_number INTEGER,
+    par INTEGER,
+    distance INTEGER,
+    stroke_index INTEGER,
+    strokes INTEGER,
+    adjusted_strokes INTEGER,
+    net_strokes INTEGER,
+    stableford_points INTEGER,
+    putts INTEGER,
+    fairway TEXT,
+    gir BOOLEAN,
+    sand_shots INTEGER,
+    penalty_strokes INTEGER,
+    shots JSONB,
+    sg_off_the_tee DECIMAL(5,2),
+    sg_approach DECIMAL(5,2),
+    sg_around_green DECIMAL(5,2),
+    sg_putting DECIMAL(5,2),
+    loop_id UUID,
+    loop_hole_number INTEGER
+  );
+END;
+$$;
+
+-- ============================================
+-- SAVE NEW ROUND (records the loops played)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION save_round_with_scores(
+  p_round JSONB,
+  p_scores JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_errors JSONB;
+  v_round_id UUID;
+  v_client_ref UUID := (p_round->>'client_ref')::UUID;
+  v_round_type TEXT := event_round_type(p_round);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'errors', jsonb_build_array(jsonb_build_object('field', 'user_id', 'message', 'Not authenticated. Please log in.'))
+    );
+  END IF;
+
+  -- Already synced from this device: hand back the saved round
+  IF v_client_ref IS NOT NULL THEN
+    SELECT id INTO v_round_id FROM rounds
+    WHERE user_id = auth.uid() AND client_ref = v_client_ref;
+
+    IF v_round_id IS NOT NULL THEN
+      RETURN jsonb_build_object('success', true, 'round_id', v_round_id, 'duplicate', true);
+    END IF;
+  END IF;
+
+  v_errors := validate_round_scores(p_round, p_scores);
+
+  IF (p_round->>'marker_id')::UUID = auth.uid() THEN
+    v_errors := v_errors || jsonb_build_array(
+      jsonb_build_object('field', 'marker_id', 'message', 'You cannot mark your own card')
+    );
+  END IF;
+
+  -- Only an image from the player's own folder can be linked
+  IF p_round->>'scorecard_path' IS NOT NULL
+    AND split_part(p_round->>'scorecard_path', '/', 1) <> auth.uid()::TEXT THEN
+    v_errors := v_errors || jsonb_build_array(
+      jsonb_build_object('field', 'scorecard_path', 'message', 'Scorecard image not found')
+    );
+  END IF;
+
+  v_errors := v_errors || validate_round_tee(p_round);
+  v_errors := v_errors || validate_round_loops(p_round);
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'errors', v_errors);
+  END IF;
+
+  BEGIN
+    INSERT INTO rounds (
+      user_id, course_id, date_of_round, weather, wind_conditions, temp_c, wind_speed_kph,
+      total_strokes, total_par, score_to_par, adjusted_gross_score, net_strokes, stableford_points,
+      course_handicap, playing_format, playing_handicap, holes_played, is_home, pcc, score_differential,
+      client_ref, marker_id, attestation_status, round_type, event_id, scorecard_path, tee_id,
+      front_loop_id, back_loop_id
+    )
+    VALUES (
+      auth.uid(),
+      (p_round->>'course_id')::UUID,
+      (p_round->>'date_of_round')::DATE,
+      p_round->>'weather',
+      p_round->>'wind_conditions',
+      (p_round->>'temp_c')::NUMERIC,
+      (p_round->>'wind_speed_kph')::NUMERIC,
+      (p_round->>'total_strokes')::INTEGER,
+      (p_round->>'total_par')::INTEGER,
+      (p_round->>'score_to_par')::INTEGER,
+      (p_round->>'adjusted_gross_score')::INTEGER,
+      (p_round->>'net_strokes')::INTEGER,
+      (p_round->>'stableford_points')::INTEGER,
+      (p_round->>'course_handicap')::INTEGER,
+      COALESCE(p_round->>'playing_format', 'stroke_play'),
+      (p_round->>'playing_handicap')::INTEGER,
+      (p_round->>'holes_played')::INTEGER,
+      (p_round->>'is_home')::BOOLEAN,
+      (p_round->>'pcc')::INTEGER,
+      (p_round->>'score_differential')::DECIMAL(4,1),
+      v_client_ref,
+      (p_round->>'marker_id')::UUID,
+      'pending',
+      v_round_type,
+      (p_round->>'event_id')::UUID,
+      p_round->>'scorecard_path',
+      (p_round->>'tee_id')::UUID,
+      (p_round->>'front_loop_id')::UUID,
+      (p_round->>'back_loop_id')::UUID
+    )
+    RETURNING id INTO v_round_id;
+  EXCEPTION WHEN unique_violation THEN
+    -- Lost a race with another submission of the same queued round
+    SELECT id INTO v_round_id FROM rounds
+    WHERE user_id = auth.uid() AND client_ref = v_client_ref;
+    RETURN jsonb_build_object('success', true, 'round_id', v_round_id, 'duplicate', true);
+  END;
+
+  PERFORM insert_round_scores(v_round_id, p_scores);
+
+  RETURN jsonb_build_object('success', true, 'round_id', v_round_id);
+END;
+$$;
+
+-- ============================================
+-- EDIT ROUND (records the loops played)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION update_round_with_scores(
+  p_round_id UUID,
+  p_round JSONB,
+  p_scores JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_errors JSONB;
+  v_owner_id UUID;
+  v_round_type TEXT := event_round_type(p_round);
+BEGIN
+  -- Owner-or-admin check (mirrors deleteRound)
+  SELECT user_id INTO v_owner_id FROM rounds
+  WHERE id = p_round_id
+  AND (
+    user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('Admin', 'Super Admin')
+    )
+  );
+
+  IF v_owner_id IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'errors', jsonb_build_array(jsonb_build_object('field', 'round_id', 'message', 'Round not found or permission denied'))
+    );
+  END IF;
+
+  v_errors := validate_round_scores(p_round, p_scores);
+
+  IF (p_round->>'marker_id')::UUID = v_owner_id THEN
+    v_errors := v_errors || jsonb_build_array(
+      jsonb_build_object('field', 'marker_id', 'message', 'A player cannot mark their own card')
+    );
+  END IF;
+
+  v_errors := v_errors || validate_round_tee(p_round);
+  v_errors := v_errors || validate_round_loops(p_round);
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'errors', v_errors);
+  END IF;
+
+  UPDATE rounds SET
+    course_id = (p_round->>'course_id')::UUID,
+    date_of_round = (p_round->>'date_of_round')::DATE,
+    weather = p_round->>'weather',
+    wind_conditions = p_round->>'wind_conditions',
+    temp_c = (p_round->>'temp_c')::NUMERIC,
+    wind_speed_kph = (p_round->>'wind_speed_kph')::NUMERIC,
+    total_strokes = (p_round->>'total_strokes')::INTEGER,
+    total_par = (p_round->>'total_par')::INTEGER,
+    score_to_par = (p_round->>'score_to_par')::INTEGER,
+    adjusted_gross_score = (p_round->>'adjusted_gross_score')::INTEGER,
+    net_strokes = (p_round->>'net_strokes')::INTEGER,
+    stableford_points = (p_round->>'stableford_points')::INTEGER,
+    course_handicap = (p_round->>'course_handicap')::INTEGER,
+    playing_format = COALESCE(p_round->>'playing_format', 'stroke_play'),
+    playing_handicap = (p_round->>'playing_handicap')::INTEGER,
+    holes_played = (p_round->>'holes_played')::INTEGER,
+    is_home = (p_round->>'is_home')::BOOLEAN,
+    pcc = (p_round->>'pcc')::INTEGER,
+    score_differential = (p_round->>'score_differential')::DECIMAL(4,1),
+    marker_id = (p_round->>'marker_id')::UUID,
+    round_type = v_round_type,
+    event_id = (p_round->>'event_id')::UUID,
+    tee_id = (p_round->>'tee_id')::UUID,
+    front_loop_id = (p_round->>'front_loop_id')::UUID,
+    back_loop_id = (p_round->>'back_loop_id')::UUID,
+    attestation_status = 'pending',
+    attested_at = NULL,
+    attestation_note = NULL
+  WHERE id = p_round_id;
+
+  DELETE FROM round_scores WHERE round_id = p_round_id;
+
+  PERFORM insert_round_scores(p_round_id, p_scores);
+
+  RETURN jsonb_build_object('success', true, 'round_id', p_round_id);
+END;
+$$;
@@ -0,0 +1,41 @@
+-- One list of course types
+-- The original check allowed Links, Parkland, Heath and Cliffside while the app offered
+-- Parkland, Links, Heathland, Desert and Resort, and some pages read a `type` column
+-- instead of `course_type`. Courses are normalised onto the shared list (see
+-- src/lib/course-types.ts) so type-based averages include every course.
+
+ALTER TABLE courses DROP CONSTRAINT IF EXISTS courses_course_type_check;
+
+-- Older databases kept the type in `type`: carry it over where course_type is empty
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'courses'
+    AND column_name = 'type'
+  ) THEN
+    EXECUTE 'UPDATE courses SET course_type = type WHERE course_type IS NULL AND type IS NOT NULL';
+  END IF;
+END;
+$$;
+
+-- Other spellings map onto the list; anything unrecognised is left untyped
+UPDATE courses SET course_type = CASE lower(trim(course_type))
+  WHEN 'links' THEN 'Links'
+  WHEN 'seaside' THEN 'Links'
+  WHEN 'parkland' THEN 'Parkland'
+  WHEN 'park' THEN 'Parkland'
+  WHEN 'heath' THEN 'Heathland'
+  WHEN 'heathland' THEN 'Heathland'
+  WHEN 'cliffside' THEN 'Cliffside'
+  WHEN 'cliff' THEN 'Cliffside'
+  WHEN 'clifftop' THEN 'Cliffside'
+  WHEN 'desert' THEN 'Desert'
+  WHEN 'resort' THEN 'Resort'
+  ELSE NULL
+END
+WHERE course_type IS NOT NULL;
+
+ALTER TABLE courses ADD CONSTRAINT courses_course_type_check
+  CHECK (course_type IN ('Links', 'Parkland', 'Heathland', 'Cliffside', 'Desert', 'Resort'));
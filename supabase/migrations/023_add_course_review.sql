@@ -0,0 +1,159 @@
+-- Course review
+-- Any player can add a course, which filled the list with near-duplicates such as
+-- "Portmarnock GC" and "Portmarnock Golf Club". Courses added by players now start as
+-- pending until an admin approves them, or merges them into the course they duplicate.
+-- Merging moves every round (and draft, event and tee set) across, fills in hole data
+-- the kept course is missing, and deletes the duplicate in one transaction.
+
+ALTER TABLE courses ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'approved'
+  CHECK (status IN ('pending', 'approved'));
+ALTER TABLE courses ADD COLUMN IF NOT EXISTS submitted_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE courses ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE courses ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE;
+
+-- Existing courses stay approved; new ones wait for review unless an admin adds them
+ALTER TABLE courses ALTER COLUMN status SET DEFAULT 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_courses_pending ON courses(created_at) WHERE status = 'pending';
+
+DROP POLICY IF EXISTS "Allow authenticated users to insert courses" ON courses;
+
+CREATE POLICY "Players submit courses for review"
+ON courses FOR INSERT
+TO authenticated
+WITH CHECK (
+  (status = 'pending' AND submitted_by = auth.uid())
+  OR EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  )
+);
+
+-- Course actions are logged without a target user (the courses go in the details)
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'audit_log'
+    AND column_name = 'target_user_id'
+  ) THEN
+    EXECUTE 'ALTER TABLE audit_log ALTER COLUMN target_user_id DROP NOT NULL';
+  END IF;
+END;
+$$;
+
+-- ============================================
+-- MERGE A DUPLICATE INTO THE COURSE TO KEEP
+-- ============================================
+
+CREATE OR REPLACE FUNCTION merge_courses(
+  p_source_id UUID,
+  p_target_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source courses%ROWTYPE;
+  v_target courses%ROWTYPE;
+  v_rounds_moved INTEGER;
+  v_holes_added INTEGER;
+  v_par_conflicts JSONB;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only administrators can merge courses');
+  END IF;
+
+  IF p_source_id = p_target_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Choose two different courses');
+  END IF;
+
+  SELECT * INTO v_source FROM courses WHERE id = p_source_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Course to merge not found');
+  END IF;
+
+  SELECT * INTO v_target FROM courses WHERE id = p_target_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Course to keep not found');
+  END IF;
+
+  IF COALESCE(v_source.hole_count, 18) <> COALESCE(v_target.hole_count, 18) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A 9-hole and an 18-hole course cannot be merged');
+  END IF;
+
+  -- Holes where the two courses disagree on par (the kept course's holes stand)
+  SELECT COALESCE(jsonb_agg(s.hole_number ORDER BY s.hole_number), '[]'::JSONB) INTO v_par_conflicts
+  FROM course_holes s
+  JOIN course_holes t ON t.course_id = p_target_id AND t.hole_number = s.hole_number
+  WHERE s.course_id = p_source_id
+  AND s.par <> t.par;
+
+  -- Holes and distances only the duplicate recorded
+  INSERT INTO course_holes (course_id, hole_number, par, stroke_index, distance)
+  SELECT p_target_id, hole_number, par, stroke_index, distance
+  FROM course_holes
+  WHERE course_id = p_source_id
+  ON CONFLICT (course_id, hole_number) DO NOTHING;
+  GET DIAGNOSTICS v_holes_added = ROW_COUNT;
+
+  UPDATE course_holes t SET distance = s.distance
+  FROM course_holes s
+  WHERE t.course_id = p_target_id
+  AND s.course_id = p_source_id
+  AND s.hole_number = t.hole_number
+  AND COALESCE(t.distance, 0) <= 0
+  AND s.distance > 0;
+
+  -- Course details the kept course is missing
+  UPDATE courses SET
+    rating = COALESCE(rating, v_source.rating),
+    slope = COALESCE(slope, v_source.slope),
+    standard_scratch = COALESCE(standard_scratch, v_source.standard_scratch),
+    location = COALESCE(location, v_source.location),
+    course_type = COALESCE(course_type, v_source.course_type)
+  WHERE id = p_target_id;
+
+  -- Tees the kept course already has absorb the duplicate's; the rest move across
+  UPDATE rounds r SET tee_id = t.id
+  FROM course_tees s
+  JOIN course_tees t ON t.course_id = p_target_id AND t.name = s.name AND t.gender = s.gender
+  WHERE s.course_id = p_source_id
+  AND r.tee_id = s.id;
+
+  DELETE FROM course_tees s
+  USING course_tees t
+  WHERE s.course_id = p_source_id
+  AND t.course_id = p_target_id
+  AND t.name = s.name
+  AND t.gender = s.gender;
+
+  UPDATE course_tees SET course_id = p_target_id WHERE course_id = p_source_id;
+
+  -- Everything played on or planned for the duplicate
+  UPDATE rounds SET course_id = p_target_id WHERE course_id = p_source_id;
+  GET DIAGNOSTICS v_rounds_moved = ROW_COUNT;
+
+  UPDATE round_drafts SET course_id = p_target_id WHERE course_id = p_source_id;
+  UPDATE events SET course_id = p_target_id WHERE course_id = p_source_id;
+
+  DELETE FROM courses WHERE id = p_source_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'rounds_moved', v_rounds_moved,
+    'holes_added', v_holes_added,
+    'par_conflicts', v_par_conflicts,
+    'source_name', v_source.name,
+    'target_name', v_target.name
+  );
+END;
+$$;
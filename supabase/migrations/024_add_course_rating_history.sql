@@ -0,0 +1,479 @@
+-- Course rating history
+-- Courses are re-rated from time to time, and overwriting courses.rating and slope in place
+-- changed the meaning of every round already played there. Each course (and each tee set)
+-- now keeps dated rating versions; a round pins the version in force on its date_of_round
+-- and its differential and net scores use that rating. The rating and slope columns on
+-- courses and course_tees remain as the version in force today.
+
+CREATE TABLE IF NOT EXISTS course_ratings (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  tee_id UUID REFERENCES course_tees(id) ON DELETE CASCADE,   -- NULL = the course's own rating
+  rating DECIMAL(4,1),
+  slope INTEGER CHECK (slope IS NULL OR (slope >= 55 AND slope <= 155)),
+  effective_from DATE NOT NULL,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CHECK (rating IS NOT NULL OR slope IS NOT NULL),
+
+  -- One version per course or tee set per day
+  UNIQUE NULLS NOT DISTINCT (course_id, tee_id, effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_ratings_course_id ON course_ratings(course_id, effective_from);
+
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS rating_id UUID REFERENCES course_ratings(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rounds_rating_id ON rounds(rating_id);
+
+-- Enable Row Level Security
+ALTER TABLE course_ratings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated users to read course_ratings"
+ON course_ratings FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can insert course_ratings"
+ON course_ratings FOR INSERT
+TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  )
+);
+
+CREATE POLICY "Admins can update course_ratings"
+ON course_ratings FOR UPDATE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  )
+);
+
+CREATE POLICY "Admins can delete course_ratings"
+ON course_ratings FOR DELETE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  )
+);
+
+-- ============================================
+-- RATING IN FORCE ON A DAY
+-- ============================================
+
+-- Mirrors pickRatingVersion in src/lib/course-ratings.ts: the tees' own versions before the
+-- course's, the latest version in force on the day, and the earliest version for rounds
+-- played before any was recorded
+CREATE OR REPLACE FUNCTION rating_in_force(
+  p_course_id UUID,
+  p_tee_id UUID,
+  p_date DATE
+)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT id FROM course_ratings
+  WHERE course_id = p_course_id
+  AND (tee_id = p_tee_id OR tee_id IS NULL)
+  ORDER BY
+    tee_id IS NULL,
+    effective_from <= p_date DESC,
+    CASE WHEN effective_from <= p_date THEN effective_from END DESC,
+    effective_from ASC
+  LIMIT 1;
+$$;
+
+-- ============================================
+-- TODAY'S RATINGS BECOME THE FIRST VERSIONS
+-- ============================================
+
+INSERT INTO course_ratings (course_id, tee_id, rating, slope, effective_from)
+SELECT id, NULL, rating, slope, COALESCE(created_at::DATE, CURRENT_DATE)
+FROM courses
+WHERE rating IS NOT NULL OR slope IS NOT NULL
+ON CONFLICT (course_id, tee_id, effective_from) DO NOTHING;
+
+INSERT INTO course_ratings (course_id, tee_id, rating, slope, effective_from)
+SELECT course_id, id, rating, slope, COALESCE(created_at::DATE, CURRENT_DATE)
+FROM course_tees
+WHERE rating IS NOT NULL OR slope IS NOT NULL
+ON CONFLICT (course_id, tee_id, effective_from) DO NOTHING;
+
+UPDATE rounds SET rating_id = rating_in_force(course_id, tee_id, date_of_round);
+
+-- ============================================
+-- RE-PIN ROUNDS AFTER A RE-RATING
+-- ============================================
+
+-- A backdated re-rating moves rounds already played onto the new version. Differentials are
+-- worked out by the app (see repinRoundRatings) and written here for every player's rounds.
+CREATE OR REPLACE FUNCTION update_round_ratings(p_updates JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only administrators can re-rate courses');
+  END IF;
+
+  UPDATE rounds r SET
+    rating_id = (u->>'rating_id')::UUID,
+    score_differential = (u->>'score_differential')::DECIMAL(4,1)
+  FROM jsonb_array_elements(p_updates) AS u
+  WHERE r.id = (u->>'id')::UUID;
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  RETURN jsonb_build_object('success', true, 'updated', v_updated);
+END;
+$$;
+
+-- ============================================
+-- SAVE NEW ROUND (records the rating version used)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION save_round_with_scores(
+  p_round JSONB,
+  p_scores JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_errors JSONB;
+  v_round_id UUID;
+  v_client_ref UUID := (p_round->>'client_ref')::UUID;
+  v_round_type TEXT := event_round_type(p_round);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'errors', jsonb_build_array(jsonb_build_object('field', 'user_id', 'message', 'Not authenticated. Please log in.'))
+    );
+  END IF;
+
+  -- Already synced from this device: hand back the saved round
+  IF v_client_ref IS NOT NULL THEN
+    SELECT id INTO v_round_id FROM rounds
+    WHERE user_id = auth.uid() AND client_ref = v_client_ref;
+
+    IF v_round_id IS NOT NULL THEN
+      RETURN jsonb_build_object('success', true, 'round_id', v_round_id, 'duplicate', true);
+    END IF;
+  END IF;
+
+  v_errors := validate_round_scores(p_round, p_scores);
+
+  IF (p_round->>'marker_id')::UUID = auth.uid() THEN
+    v_errors := v_errors || jsonb_build_array(
+      jsonb_build_object('field', 'marker_id', 'message', 'You cannot mark your own card')
+    );
+  END IF;
+
+  -- Only an image from the player's own folder can be linked
+  IF p_round->>'scorecard_path' IS NOT NULL
+    AND split_part(p_round->>'scorecard_path', '/', 1) <> auth.uid()::TEXT THEN
+    v_errors := v_errors || jsonb_build_array(
+      jsonb_build_object('field', 'scorecard_path', 'message', 'Scorecard image not found')
+    );
+  END IF;
+
+  v_errors := v_errors || validate_round_tee(p_round);
+  v_errors := v_errors || validate_round_loops(p_round);
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'errors', v_errors);
+  END IF;
+
+  BEGIN
+    INSERT INTO rounds (
+      user_id, course_id, date_of_round, weather, wind_conditions, temp_c, wind_speed_kph,
+      total_strokes, total_par, score_to_par, adjusted_gross_score, net_strokes, stableford_points,
+      course_handicap, playing_format, playing_handicap, holes_played, is_home, pcc, score_differential,
+      client_ref, marker_id, attestation_status, round_type, event_id, scorecard_path, tee_id,
+      front_loop_id, back_loop_id, rating_id
+    )
+    VALUES (
+      auth.uid(),
+      (p_round->>'course_id')::UUID,
+      (p_round->>'date_of_round')::DATE,
+      p_round->>'weather',
+      p_round->>'wind_conditions',
+      (p_round->>'temp_c')::NUMERIC,
+      (p_round->>'wind_speed_kph')::NUMERIC,
+      (p_round->>'total_strokes')::INTEGER,
+      (p_round->>'total_par')::INTEGER,
+      (p_round->>'score_to_par')::INTEGER,
+      (p_round->>'adjusted_gross_score')::INTEGER,
+      (p_round->>'net_strokes')::INTEGER,
+      (p_round->>'stableford_points')::INTEGER,
+      (p_round->>'course_handicap')::INTEGER,
+      COALESCE(p_round->>'playing_format', 'stroke_play'),
+      (p_round->>'playing_handicap')::INTEGER,
+      (p_round->>'holes_played')::INTEGER,
+      (p_round->>'is_home')::BOOLEAN,
+      (p_round->>'pcc')::INTEGER,
+      (p_round->>'score_differential')::DECIMAL(4,1),
+      v_client_ref,
+      (p_round->>'marker_id')::UUID,
+      'pending',
+      v_round_type,
+      (p_round->>'event_id')::UUID,
+      p_round->>'scorecard_path',
+      (p_round->>'tee_id')::UUID,
+      (p_round->>'front_loop_id')::UUID,
+      (p_round->>'back_loop_id')::UUID,
+      (p_round->>'rating_id')::UUID
+    )
+    RETURNING id INTO v_round_id;
+  EXCEPTION WHEN unique_violation THEN
+    -- Lost a race with another submission of the same queued round
+    SELECT id INTO v_round_id FROM rounds
+    WHERE user_id = auth.uid() AND client_ref = v_client_ref;
+    RETURN jsonb_build_object('success', true, 'round_id', v_round_id, 'duplicate', true);
+  END;
+
+  PERFORM insert_round_scores(v_round_id, p_scores);
+
+  RETURN jsonb_build_object('success', true, 'round_id', v_round_id);
+END;
+$$;
+
+-- ============================================
+-- EDIT ROUND (records the rating version used)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION update_round_with_scores(
+  p_round_id UUID,
+  p_round JSONB,
+  p_scores JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_errors JSONB;
+  v_owner_id UUID;
+  v_round_type TEXT := event_round_type(p_round);
+BEGIN
+  -- Owner-or-admin check (mirrors deleteRound)
+  SELECT user_id INTO v_owner_id FROM rounds
+  WHERE id = p_round_id
+  AND (
+    user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('Admin', 'Super Admin')
+    )
+  );
+
+  IF v_owner_id IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'errors', jsonb_build_array(jsonb_build_object('field', 'round_id', 'message', 'Round not found or permission denied'))
+    );
+  END IF;
+
+  v_errors := validate_round_scores(p_round, p_scores);
+
+  IF (p_round->>'marker_id')::UUID = v_owner_id THEN
+    v_errors := v_errors || jsonb_build_array(
+      jsonb_build_object('field', 'marker_id', 'message', 'A player cannot mark their own card')
+    );
+  END IF;
+
+  v_errors := v_errors || validate_round_tee(p_round);
+  v_errors := v_errors || validate_round_loops(p_round);
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'errors', v_errors);
+  END IF;
+
+  UPDATE rounds SET
+    course_id = (p_round->>'course_id')::UUID,
+    date_of_round = (p_round->>'date_of_round')::DATE,
+    weather = p_round->>'weather',
+    wind_conditions = p_round->>'wind_conditions',
+    temp_c = (p_round->>'temp_c')::NUMERIC,
+    wind_speed_kph = (p_round->>'wind_speed_kph')::NUMERIC,
+    total_strokes = (p_round->>'total_strokes')::INTEGER,
+    total_par = (p_round->>'total_par')::INTEGER,
+    score_to_par = (p_round->>'score_to_par')::INTEGER,
+    adjusted_gross_score = (p_round->>'adjusted_gross_score')::INTEGER,
+    net_strokes = (p_round->>'net_strokes')::INTEGER,
+    stableford_points = (p_round->>'stableford_points')::INTEGER,
+    course_handicap = (p_round->>'course_handicap')::INTEGER,
+    playing_format = COALESCE(p_round->>'playing_format', 'stroke_play'),
+    playing_handicap = (p_round->>'playing_handicap')::INTEGER,
+    holes_played = (p_round->>'holes_played')::INTEGER,
+    is_home = (p_round->>'is_home')::BOOLEAN,
+    pcc = (p_round->>'pcc')::INTEGER,
+    score_differential = (p_round->>'score_differential')::DECIMAL(4,1),
+    marker_id = (p_round->>'marker_id')::UUID,
+    round_type = v_round_type,
+    event_id = (p_round->>'event_id')::UUID,
+    tee_id = (p_round->>'tee_id')::UUID,
+    front_loop_id = (p_round->>'front_loop_id')::UUID,
+    back_loop_id = (p_round->>'back_loop_id')::UUID,
+    rating_id = (p_round->>'rating_id')::UUID,
+    attestation_status = 'pending',
+    attested_at = NULL,
+    attestation_note = NULL
+  WHERE id = p_round_id;
+
+  DELETE FROM round_scores WHERE round_id = p_round_id;
+
+  PERFORM insert_round_scores(p_round_id, p_scores);
+
+  RETURN jsonb_build_object('success', true, 'round_id', p_round_id);
+END;
+$$;
+
+-- ============================================
+-- MERGE COURSES (rating versions follow the tees and rounds)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION merge_courses(
+  p_source_id UUID,
+  p_target_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source courses%ROWTYPE;
+  v_target courses%ROWTYPE;
+  v_rounds_moved INTEGER;
+  v_holes_added INTEGER;
+  v_par_conflicts JSONB;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only administrators can merge courses');
+  END IF;
+
+  IF p_source_id = p_target_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Choose two different courses');
+  END IF;
+
+  SELECT * INTO v_source FROM courses WHERE id = p_source_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Course to merge not found');
+  END IF;
+
+  SELECT * INTO v_target FROM courses WHERE id = p_target_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Course to keep not found');
+  END IF;
+
+  IF COALESCE(v_source.hole_count, 18) <> COALESCE(v_target.hole_count, 18) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A 9-hole and an 18-hole course cannot be merged');
+  END IF;
+
+  -- Holes where the two courses disagree on par (the kept course's holes stand)
+  SELECT COALESCE(jsonb_agg(s.hole_number ORDER BY s.hole_number), '[]'::JSONB) INTO v_par_conflicts
+  FROM course_holes s
+  JOIN course_holes t ON t.course_id = p_target_id AND t.hole_number = s.hole_number
+  WHERE s.course_id = p_source_id
+  AND s.par <> t.par;
+
+  -- Holes and distances only the duplicate recorded
+  INSERT INTO course_holes (course_id, hole_number, par, stroke_index, distance)
+  SELECT p_target_id, hole_number, par, stroke_index, distance
+  FROM course_holes
+  WHERE course_id = p_source_id
+  ON CONFLICT (course_id, hole_number) DO NOTHING;
+  GET DIAGNOSTICS v_holes_added = ROW_COUNT;
+
+  UPDATE course_holes t SET distance = s.distance
+  FROM course_holes s
+  WHERE t.course_id = p_target_id
+  AND s.course_id = p_source_id
+  AND s.hole_number = t.hole_number
+  AND COALESCE(t.distance, 0) <= 0
+  AND s.distance > 0;
+
+  -- Course details the kept course is missing
+  UPDATE courses SET
+    rating = COALESCE(rating, v_source.rating),
+    slope = COALESCE(slope, v_source.slope),
+    standard_scratch = COALESCE(standard_scratch, v_source.standard_scratch),
+    location = COALESCE(location, v_source.location),
+    course_type = COALESCE(course_type, v_source.course_type)
+  WHERE id = p_target_id;
+
+  -- Tees the kept course already has absorb the duplicate's; the rest move across
+  UPDATE rounds r SET tee_id = t.id
+  FROM course_tees s
+  JOIN course_tees t ON t.course_id = p_target_id AND t.name = s.name AND t.gender = s.gender
+  WHERE s.course_id = p_source_id
+  AND r.tee_id = s.id;
+
+  DELETE FROM course_tees s
+  USING course_tees t
+  WHERE s.course_id = p_source_id
+  AND t.course_id = p_target_id
+  AND t.name = s.name
+  AND t.gender = s.gender;
+
+  UPDATE course_tees SET course_id = p_target_id WHERE course_id = p_source_id;
+
+  -- Rating versions of the tees that moved go with them
+  UPDATE course_ratings SET course_id = p_target_id
+  WHERE course_id = p_source_id
+  AND tee_id IS NOT NULL;
+
+  -- Everything played on or planned for the duplicate
+  UPDATE rounds SET course_id = p_target_id WHERE course_id = p_source_id;
+  GET DIAGNOSTICS v_rounds_moved = ROW_COUNT;
+
+  UPDATE round_drafts SET course_id = p_target_id WHERE course_id = p_source_id;
+  UPDATE events SET course_id = p_target_id WHERE course_id = p_source_id;
+
+  -- Rounds pinned to the duplicate's own ratings take the kept course's rating of the day
+  UPDATE rounds SET rating_id = rating_in_force(course_id, tee_id, date_of_round)
+  WHERE course_id = p_target_id
+  AND (rating_id IS NULL OR rating_id IN (SELECT id FROM course_ratings WHERE course_id = p_source_id));
+
+  DELETE FROM courses WHERE id = p_source_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'rounds_moved', v_rounds_moved,
+    'holes_added', v_holes_added,
+    'par_conflicts', v_par_conflicts,
+    'source_name', v_source.name,
+    'target_name', v_target.name
+  );
+END;
+$$;
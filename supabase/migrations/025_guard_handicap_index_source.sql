@@ -0,0 +1,109 @@
+-- Guard the calculated Handicap Index
+-- Once a player's index is calculated from their rounds, the profile form stops them editing it,
+-- but the profiles policy still let a player write handicap_index and handicap_index_source
+-- directly. Those columns now change only through publish_handicap_index(), which publishes the
+-- index just recorded in handicap_history, or hands the index back to the player when deletes
+-- or merges leave them with too few scores for a calculated one.
+
+-- ============================================
+-- PUBLISH A PLAYER'S INDEX
+-- ============================================
+
+-- p_handicap_index NULL = too few scores: the index reverts to self-reported
+CREATE OR REPLACE FUNCTION publish_handicap_index(
+  p_user_id UUID,
+  p_handicap_index DECIMAL(3,1)
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_scores INTEGER;
+  v_latest DECIMAL(3,1);
+BEGIN
+  IF auth.uid() IS NOT NULL
+  AND auth.uid() <> p_user_id
+  AND NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Permission denied');
+  END IF;
+
+  SELECT COUNT(*) INTO v_scores
+  FROM rounds
+  WHERE user_id = p_user_id
+  AND score_differential IS NOT NULL;
+
+  IF p_handicap_index IS NULL THEN
+    IF v_scores >= 3 THEN
+      RETURN jsonb_build_object('success', false, 'error', 'The player has enough scores for a calculated index');
+    END IF;
+
+    PERFORM set_config('app.publishing_handicap_index', 'on', true);
+
+    UPDATE profiles SET handicap_index_source = 'self_reported'
+    WHERE id = p_user_id
+    AND handicap_index_source = 'calculated';
+  ELSE
+    IF v_scores < 3 THEN
+      RETURN jsonb_build_object('success', false, 'error', 'At least 3 scores are needed for a calculated index');
+    END IF;
+
+    SELECT handicap_index INTO v_latest
+    FROM handicap_history
+    WHERE user_id = p_user_id
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF v_latest IS DISTINCT FROM p_handicap_index THEN
+      RETURN jsonb_build_object('success', false, 'error', 'The index does not match the latest handicap history');
+    END IF;
+
+    PERFORM set_config('app.publishing_handicap_index', 'on', true);
+
+    UPDATE profiles SET
+      handicap_index = p_handicap_index,
+      handicap_index_source = 'calculated'
+    WHERE id = p_user_id;
+  END IF;
+
+  PERFORM set_config('app.publishing_handicap_index', 'off', true);
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- ============================================
+-- BLOCK DIRECT WRITES
+-- ============================================
+
+-- Signed-in users cannot change the source, or a calculated index, outside publish_handicap_index()
+CREATE OR REPLACE FUNCTION guard_handicap_index_source()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+  AND COALESCE(current_setting('app.publishing_handicap_index', true), 'off') <> 'on'
+  AND (
+    NEW.handicap_index_source IS DISTINCT FROM OLD.handicap_index_source
+    OR (OLD.handicap_index_source = 'calculated' AND NEW.handicap_index IS DISTINCT FROM OLD.handicap_index)
+  ) THEN
+    RAISE EXCEPTION 'The calculated Handicap Index cannot be edited' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_handicap_index_source ON profiles;
+
+CREATE TRIGGER guard_handicap_index_source
+BEFORE UPDATE ON profiles
+FOR EACH ROW
+EXECUTE FUNCTION guard_handicap_index_source();
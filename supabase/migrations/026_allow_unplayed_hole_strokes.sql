@@ -0,0 +1,86 @@
+-- Unplayed holes
+-- Holes left blank on the card were stored with gross strokes of net par, so total_strokes and
+-- raw-basis stats counted holes that were never played. Their strokes are now left empty; net par
+-- only goes into adjusted_strokes, and so into the adjusted gross score, as WHS requires.
+
+ALTER TABLE round_scores ALTER COLUMN strokes DROP NOT NULL;
+
+-- ============================================
+-- VALIDATION (unplayed holes have no strokes)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION validate_round_scores(
+  p_round JSONB,
+  p_scores JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_errors JSONB := '[]'::JSONB;
+  v_holes INTEGER := COALESCE((p_round->>'holes_played')::INTEGER, 18);
+BEGIN
+  -- Course must exist
+  IF p_round->>'course_id' IS NULL THEN
+    v_errors := v_errors || jsonb_build_object('field', 'course_id', 'message', 'A course is required');
+  ELSIF NOT EXISTS (SELECT 1 FROM courses WHERE id::TEXT = p_round->>'course_id') THEN
+    v_errors := v_errors || jsonb_build_object('field', 'course_id', 'message', 'Selected course not found');
+  END IF;
+
+  -- Date must be given and not in the future
+  IF p_round->>'date_of_round' IS NULL THEN
+    v_errors := v_errors || jsonb_build_object('field', 'date_of_round', 'message', 'Date of round is required');
+  ELSIF (p_round->>'date_of_round')::DATE > CURRENT_DATE THEN
+    v_errors := v_errors || jsonb_build_object('field', 'date_of_round', 'message', 'Date of round cannot be in the future');
+  END IF;
+
+  IF v_holes NOT IN (9, 18) THEN
+    v_errors := v_errors || jsonb_build_object('field', 'holes_played', 'message', 'A round must be 9 or 18 holes');
+  END IF;
+
+  -- One score per hole, each within range
+  IF p_scores IS NULL OR jsonb_typeof(p_scores) <> 'array' THEN
+    RETURN v_errors || jsonb_build_object('field', 'scores', 'message', 'Hole scores are required');
+  END IF;
+
+  IF jsonb_array_length(p_scores) <> v_holes THEN
+    v_errors := v_errors || jsonb_build_object(
+      'field', 'scores',
+      'message', format('Expected %s hole scores but received %s', v_holes, jsonb_array_length(p_scores))
+    );
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_scores) AS s(hole_number INTEGER, strokes INTEGER)
+    WHERE s.hole_number IS NULL OR s.hole_number < 1 OR s.hole_number > v_holes
+  ) THEN
+    v_errors := v_errors || jsonb_build_object('field', 'hole_number', 'message', format('Hole numbers must be between 1 and %s', v_holes));
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_scores) AS s(hole_number INTEGER)
+    GROUP BY s.hole_number HAVING COUNT(*) > 1
+  ) THEN
+    v_errors := v_errors || jsonb_build_object('field', 'hole_number', 'message', 'Each hole can only be scored once');
+  END IF;
+
+  -- Unplayed holes have no strokes, but at least one hole must be played
+  IF EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_scores) AS s(strokes INTEGER)
+    WHERE s.strokes < 1 OR s.strokes > 20
+  ) THEN
+    v_errors := v_errors || jsonb_build_object('field', 'strokes', 'message', 'Hole scores must be between 1 and 20');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_scores) AS s(strokes INTEGER)
+    WHERE s.strokes IS NOT NULL
+  ) THEN
+    v_errors := v_errors || jsonb_build_object('field', 'strokes', 'message', 'Enter a score for at least one hole');
+  END IF;
+
+  RETURN v_errors;
+END;
+$$;
@@ -0,0 +1,176 @@
+-- Guard attestation
+-- attestation_status was only protected by the server actions: the rounds update policy let
+-- a player set 'attested' on their own round directly. The attestation columns now change only
+-- through respond_to_attestation() (the marker's answer) and update_round_with_scores() (an
+-- edited card goes back to its marker), and new rounds always start unattested.
+
+-- ============================================
+-- BLOCK DIRECT WRITES
+-- ============================================
+
+CREATE OR REPLACE FUNCTION guard_round_attestation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL
+  OR COALESCE(current_setting('app.changing_attestation', true), 'off') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.attestation_status NOT IN ('unmarked', 'pending')
+    OR NEW.attested_at IS NOT NULL
+    OR NEW.attestation_note IS NOT NULL THEN
+      RAISE EXCEPTION 'A new round cannot be saved as attested' USING ERRCODE = '42501';
+    END IF;
+  ELSIF NEW.attestation_status IS DISTINCT FROM OLD.attestation_status
+  OR NEW.attested_at IS DISTINCT FROM OLD.attested_at
+  OR NEW.attestation_note IS DISTINCT FROM OLD.attestation_note THEN
+    RAISE EXCEPTION 'Only the marker can attest a round' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_round_attestation ON rounds;
+
+CREATE TRIGGER guard_round_attestation
+BEFORE INSERT OR UPDATE ON rounds
+FOR EACH ROW
+EXECUTE FUNCTION guard_round_attestation();
+
+-- ============================================
+-- MARKER RESPONSE
+-- ============================================
+
+CREATE OR REPLACE FUNCTION respond_to_attestation(
+  p_round_id UUID,
+  p_attest BOOLEAN,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.changing_attestation', 'on', true);
+
+  UPDATE rounds SET
+    attestation_status = CASE WHEN p_attest THEN 'attested' ELSE 'disputed' END,
+    attested_at = NOW(),
+    attestation_note = NULLIF(TRIM(p_note), '')
+  WHERE id = p_round_id
+  AND marker_id = auth.uid()
+  AND attestation_status = 'pending';
+
+  PERFORM set_config('app.changing_attestation', 'off', true);
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Attestation request not found or already answered');
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- ============================================
+-- EDIT ROUND (sends the card back to its marker)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION update_round_with_scores(
+  p_round_id UUID,
+  p_round JSONB,
+  p_scores JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_errors JSONB;
+  v_owner_id UUID;
+  v_round_type TEXT := event_round_type(p_round);
+BEGIN
+  -- Owner-or-admin check (mirrors deleteRound)
+  SELECT user_id INTO v_owner_id FROM rounds
+  WHERE id = p_round_id
+  AND (
+    user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('Admin', 'Super Admin')
+    )
+  );
+
+  IF v_owner_id IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'errors', jsonb_build_array(jsonb_build_object('field', 'round_id', 'message', 'Round not found or permission denied'))
+    );
+  END IF;
+
+  v_errors := validate_round_scores(p_round, p_scores);
+
+  IF (p_round->>'marker_id')::UUID = v_owner_id THEN
+    v_errors := v_errors || jsonb_build_array(
+      jsonb_build_object('field', 'marker_id', 'message', 'A player cannot mark their own card')
+    );
+  END IF;
+
+  v_errors := v_errors || validate_round_tee(p_round);
+  v_errors := v_errors || validate_round_loops(p_round);
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'errors', v_errors);
+  END IF;
+
+  -- A changed card goes back to its marker
+  PERFORM set_config('app.changing_attestation', 'on', true);
+
+  UPDATE rounds SET
+    course_id = (p_round->>'course_id')::UUID,
+    date_of_round = (p_round->>'date_of_round')::DATE,
+    weather = p_round->>'weather',
+    wind_conditions = p_round->>'wind_conditions',
+    temp_c = (p_round->>'temp_c')::NUMERIC,
+    wind_speed_kph = (p_round->>'wind_speed_kph')::NUMERIC,
+    total_strokes = (p_round->>'total_strokes')::INTEGER,
+    total_par = (p_round->>'total_par')::INTEGER,
+    score_to_par = (p_round->>'score_to_par')::INTEGER,
+    adjusted_gross_score = (p_round->>'adjusted_gross_score')::INTEGER,
+    net_strokes = (p_round->>'net_strokes')::INTEGER,
+    stableford_points = (p_round->>'stableford_points')::INTEGER,
+    course_handicap = (p_round->>'course_handicap')::INTEGER,
+    playing_format = COALESCE(p_round->>'playing_format', 'stroke_play'),
+    playing_handicap = (p_round->>'playing_handicap')::INTEGER,
+    holes_played = (p_round->>'holes_played')::INTEGER,
+    is_home = (p_round->>'is_home')::BOOLEAN,
+    pcc = (p_round->>'pcc')::INTEGER,
+    score_differential = (p_round->>'score_differential')::DECIMAL(4,1),
+    marker_id = (p_round->>'marker_id')::UUID,
+    round_type = v_round_type,
+    event_id = (p_round->>'event_id')::UUID,
+    tee_id = (p_round->>'tee_id')::UUID,
+    front_loop_id = (p_round->>'front_loop_id')::UUID,
+    back_loop_id = (p_round->>'back_loop_id')::UUID,
+    rating_id = (p_round->>'rating_id')::UUID,
+    attestation_status = CASE WHEN p_round->>'marker_id' IS NULL THEN 'unmarked' ELSE 'pending' END,
+    attested_at = NULL,
+    attestation_note = NULL
+  WHERE id = p_round_id;
+
+  PERFORM set_config('app.changing_attestation', 'off', true);
+
+  DELETE FROM round_scores WHERE round_id = p_round_id;
+
+  PERFORM insert_round_scores(p_round_id, p_scores);
+
+  RETURN jsonb_build_object('success', true, 'round_id', p_round_id);
+END;
+$$;
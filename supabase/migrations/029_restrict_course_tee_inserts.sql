@@ -0,0 +1,41 @@
+-- Restrict adding tee sets
+-- Any signed-in player could add tees, and their yardages, to any course, so a tee set
+-- with its own rating and slope could be slipped onto an approved course and picked for
+-- rounds. Tees are now added by admins, or by the player who submitted the course.
+
+DROP POLICY IF EXISTS "Allow authenticated users to insert course_tees" ON course_tees;
+DROP POLICY IF EXISTS "Allow authenticated users to insert course_tee_holes" ON course_tee_holes;
+
+-- The player adding a course adds its first tees
+CREATE POLICY "Course submitters and admins can insert course_tees"
+ON course_tees FOR INSERT
+TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM courses
+    WHERE courses.id = course_tees.course_id
+    AND courses.submitted_by = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  )
+);
+
+CREATE POLICY "Course submitters and admins can insert course_tee_holes"
+ON course_tee_holes FOR INSERT
+TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM course_tees
+    JOIN courses ON courses.id = course_tees.course_id
+    WHERE course_tees.id = course_tee_holes.tee_id
+    AND courses.submitted_by = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  )
+);
@@ -0,0 +1,53 @@
+-- Rescore re-rated rounds
+-- A re-rating moved rounds onto their new rating and differential, but the course handicap
+-- worked out from the old rating stayed, and with it the playing handicap, the net double
+-- bogey caps in the adjusted gross score, and the net and Stableford scores. The app now
+-- rescores each re-rated round (see repinRoundRatings) and writes the round and hole totals
+-- here along with its rating and differential.
+
+-- ============================================
+-- RE-PIN AND RESCORE ROUNDS AFTER A RE-RATING
+-- ============================================
+
+CREATE OR REPLACE FUNCTION update_round_ratings(p_updates JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only administrators can re-rate courses');
+  END IF;
+
+  UPDATE rounds r SET
+    rating_id = (u->>'rating_id')::UUID,
+    score_differential = (u->>'score_differential')::DECIMAL(4,1),
+    course_handicap = (u->>'course_handicap')::INTEGER,
+    playing_handicap = (u->>'playing_handicap')::INTEGER,
+    adjusted_gross_score = (u->>'adjusted_gross_score')::INTEGER,
+    net_strokes = (u->>'net_strokes')::INTEGER,
+    stableford_points = (u->>'stableford_points')::INTEGER
+  FROM jsonb_array_elements(p_updates) AS u
+  WHERE r.id = (u->>'id')::UUID;
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  -- Hole scores of the rounds above only
+  UPDATE round_scores s SET
+    adjusted_strokes = (h->>'adjusted_strokes')::INTEGER,
+    net_strokes = (h->>'net_strokes')::INTEGER,
+    stableford_points = (h->>'stableford_points')::INTEGER
+  FROM jsonb_array_elements(p_updates) AS u,
+    jsonb_array_elements(COALESCE(u->'scores', '[]'::JSONB)) AS h
+  WHERE s.id = (h->>'id')::UUID
+  AND s.round_id = (u->>'id')::UUID;
+
+  RETURN jsonb_build_object('success', true, 'updated', v_updated);
+END;
+$$;
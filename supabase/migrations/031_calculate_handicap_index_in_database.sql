@@ -0,0 +1,140 @@
+-- Calculate the Handicap Index in the database
+-- publish_handicap_index() only checked the index against the latest handicap_history row, and
+-- players could insert their own history rows, so any index could be recorded and then published.
+-- The index is now worked out from the player's stored differentials by refresh_handicap_index(),
+-- which records the history row and publishes it in one go, and history can no longer be inserted
+-- directly.
+
+-- ============================================
+-- HISTORY IS WRITTEN BY THE CALCULATION ONLY
+-- ============================================
+
+DROP POLICY IF EXISTS "Users and admins can insert handicap_history" ON handicap_history;
+
+DROP FUNCTION IF EXISTS publish_handicap_index(UUID, DECIMAL);
+
+-- ============================================
+-- RECALCULATE AND PUBLISH A PLAYER'S INDEX
+-- ============================================
+
+-- Best 8 of the most recent 20 differentials, with the WHS Rule 5.2 table for shorter records
+-- and soft/hard capping against the Low Handicap Index. Too few scores reverts a calculated
+-- index to self-reported.
+CREATE OR REPLACE FUNCTION refresh_handicap_index(p_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_differentials DECIMAL[];
+  v_latest_date DATE;
+  v_considered INTEGER;
+  v_used INTEGER;
+  v_adjustment DECIMAL;
+  v_index DECIMAL;
+  v_low DECIMAL;
+  v_increase DECIMAL;
+BEGIN
+  IF auth.uid() IS NOT NULL
+  AND auth.uid() <> p_user_id
+  AND NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Permission denied');
+  END IF;
+
+  SELECT
+    array_agg(recent.score_differential ORDER BY recent.date_of_round DESC, recent.created_at DESC),
+    MAX(recent.date_of_round)
+  INTO v_differentials, v_latest_date
+  FROM (
+    SELECT score_differential, date_of_round, created_at
+    FROM rounds
+    WHERE user_id = p_user_id
+    AND score_differential IS NOT NULL
+    ORDER BY date_of_round DESC, created_at DESC
+    LIMIT 20
+  ) recent;
+
+  v_considered := COALESCE(array_length(v_differentials, 1), 0);
+
+  IF v_considered < 3 THEN
+    PERFORM set_config('app.publishing_handicap_index', 'on', true);
+
+    UPDATE profiles SET handicap_index_source = 'self_reported'
+    WHERE id = p_user_id
+    AND handicap_index_source = 'calculated';
+
+    PERFORM set_config('app.publishing_handicap_index', 'off', true);
+
+    RETURN jsonb_build_object('success', true, 'handicap_index', NULL);
+  END IF;
+
+  v_used := CASE
+    WHEN v_considered <= 5 THEN 1
+    WHEN v_considered <= 8 THEN 2
+    WHEN v_considered <= 11 THEN 3
+    WHEN v_considered <= 14 THEN 4
+    WHEN v_considered <= 16 THEN 5
+    WHEN v_considered <= 18 THEN 6
+    WHEN v_considered = 19 THEN 7
+    ELSE 8
+  END;
+
+  v_adjustment := CASE v_considered
+    WHEN 3 THEN -2.0
+    WHEN 4 THEN -1.0
+    WHEN 6 THEN -1.0
+    ELSE 0
+  END;
+
+  SELECT AVG(lowest.differential) INTO v_index
+  FROM (
+    SELECT unnest(v_differentials) AS differential
+    ORDER BY 1
+    LIMIT v_used
+  ) lowest;
+
+  -- Rounded to the nearest tenth, halves upwards
+  v_index := FLOOR((v_index + v_adjustment) * 10 + 0.5) / 10;
+
+  -- Soft cap: increases beyond 3.0 over the Low HI are halved; hard cap at 5.0
+  SELECT MIN(handicap_index) INTO v_low
+  FROM handicap_history
+  WHERE user_id = p_user_id
+  AND effective_date >= v_latest_date - INTERVAL '1 year';
+
+  IF v_low IS NOT NULL THEN
+    v_increase := v_index - v_low;
+    IF v_increase > 3.0 THEN
+      v_index := FLOOR((v_low + LEAST(3.0 + (v_increase - 3.0) / 2, 5.0)) * 10 + 0.5) / 10;
+    END IF;
+  END IF;
+
+  v_index := LEAST(v_index, 54.0);
+
+  INSERT INTO handicap_history (user_id, handicap_index, effective_date, rounds_considered, differentials_used)
+  VALUES (p_user_id, v_index, v_latest_date, v_considered, v_used);
+
+  PERFORM set_config('app.publishing_handicap_index', 'on', true);
+
+  UPDATE profiles SET
+    handicap_index = v_index,
+    handicap_index_source = 'calculated'
+  WHERE id = p_user_id;
+
+  PERFORM set_config('app.publishing_handicap_index', 'off', true);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'handicap_index', v_index,
+    'rounds_considered', v_considered,
+    'differentials_used', v_used
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION refresh_handicap_index(UUID) TO authenticated;
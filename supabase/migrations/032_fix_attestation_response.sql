@@ -0,0 +1,39 @@
+-- Fix the marker's response
+-- respond_to_attestation() reset app.changing_attestation between its UPDATE and the
+-- IF NOT FOUND check. The PERFORM set FOUND again, so a caller who is not the marker, or a
+-- second answer to a card already answered, was told it succeeded. The updated row count is
+-- now read straight after the UPDATE.
+
+CREATE OR REPLACE FUNCTION respond_to_attestation(
+  p_round_id UUID,
+  p_attest BOOLEAN,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  PERFORM set_config('app.changing_attestation', 'on', true);
+
+  UPDATE rounds SET
+    attestation_status = CASE WHEN p_attest THEN 'attested' ELSE 'disputed' END,
+    attested_at = NOW(),
+    attestation_note = NULLIF(TRIM(p_note), '')
+  WHERE id = p_round_id
+  AND marker_id = auth.uid()
+  AND attestation_status = 'pending';
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  PERFORM set_config('app.changing_attestation', 'off', true);
+
+  IF v_updated = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Attestation request not found or already answered');
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
@@ -0,0 +1,316 @@
+-- Guard the scores of marked rounds
+-- guard_round_attestation() only blocked changes to the attestation columns, so a player could
+-- still change the totals or hole scores of a pending, attested or disputed round directly and
+-- keep its status. A marked card's scores now change only through update_round_with_scores(),
+-- which sends it back to its marker, or through admins and the server jobs that rescore rounds
+-- (re-ratings, course and duplicate merges, the PCC job).
+
+-- ============================================
+-- BLOCK DIRECT WRITES TO A MARKED CARD
+-- ============================================
+
+-- Round functions, server jobs and admins write as the card's keepers
+CREATE OR REPLACE FUNCTION can_change_marked_card()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT auth.uid() IS NULL
+  OR COALESCE(current_setting('app.changing_attestation', true), 'off') = 'on'
+  OR EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION guard_round_attestation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL
+  OR COALESCE(current_setting('app.changing_attestation', true), 'off') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.attestation_status NOT IN ('unmarked', 'pending')
+    OR NEW.attested_at IS NOT NULL
+    OR NEW.attestation_note IS NOT NULL THEN
+      RAISE EXCEPTION 'A new round cannot be saved as attested' USING ERRCODE = '42501';
+    END IF;
+  ELSIF NEW.attestation_status IS DISTINCT FROM OLD.attestation_status
+  OR NEW.attested_at IS DISTINCT FROM OLD.attested_at
+  OR NEW.attestation_note IS DISTINCT FROM OLD.attestation_note THEN
+    RAISE EXCEPTION 'Only the marker can attest a round' USING ERRCODE = '42501';
+  ELSIF OLD.attestation_status <> 'unmarked'
+  AND NOT can_change_marked_card()
+  AND (
+    NEW.course_id IS DISTINCT FROM OLD.course_id
+    OR NEW.date_of_round IS DISTINCT FROM OLD.date_of_round
+    OR NEW.holes_played IS DISTINCT FROM OLD.holes_played
+    OR NEW.total_strokes IS DISTINCT FROM OLD.total_strokes
+    OR NEW.total_par IS DISTINCT FROM OLD.total_par
+    OR NEW.score_to_par IS DISTINCT FROM OLD.score_to_par
+    OR NEW.adjusted_gross_score IS DISTINCT FROM OLD.adjusted_gross_score
+    OR NEW.net_strokes IS DISTINCT FROM OLD.net_strokes
+    OR NEW.stableford_points IS DISTINCT FROM OLD.stableford_points
+    OR NEW.course_handicap IS DISTINCT FROM OLD.course_handicap
+    OR NEW.playing_handicap IS DISTINCT FROM OLD.playing_handicap
+    OR NEW.pcc IS DISTINCT FROM OLD.pcc
+    OR NEW.score_differential IS DISTINCT FROM OLD.score_differential
+  ) THEN
+    RAISE EXCEPTION 'A marked card can only be changed by editing the round' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Hole scores of a marked card
+CREATE OR REPLACE FUNCTION guard_marked_round_scores()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_round_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.round_id ELSE NEW.round_id END;
+BEGIN
+  IF NOT can_change_marked_card()
+  AND EXISTS (
+    SELECT 1 FROM rounds
+    WHERE id = v_round_id
+    AND attestation_status <> 'unmarked'
+  ) THEN
+    RAISE EXCEPTION 'A marked card can only be changed by editing the round' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_marked_round_scores ON round_scores;
+
+CREATE TRIGGER guard_marked_round_scores
+BEFORE INSERT OR UPDATE OR DELETE ON round_scores
+FOR EACH ROW
+EXECUTE FUNCTION guard_marked_round_scores();
+
+-- ============================================
+-- SAVE NEW ROUND (writes a pending card's scores)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION save_round_with_scores(
+  p_round JSONB,
+  p_scores JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_errors JSONB;
+  v_round_id UUID;
+  v_client_ref UUID := (p_round->>'client_ref')::UUID;
+  v_round_type TEXT := event_round_type(p_round);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'errors', jsonb_build_array(jsonb_build_object('field', 'user_id', 'message', 'Not authenticated. Please log in.'))
+    );
+  END IF;
+
+  -- Already synced from this device: hand back the saved round
+  IF v_client_ref IS NOT NULL THEN
+    SELECT id INTO v_round_id FROM rounds
+    WHERE user_id = auth.uid() AND client_ref = v_client_ref;
+
+    IF v_round_id IS NOT NULL THEN
+      RETURN jsonb_build_object('success', true, 'round_id', v_round_id, 'duplicate', true);
+    END IF;
+  END IF;
+
+  v_errors := validate_round_scores(p_round, p_scores);
+
+  IF (p_round->>'marker_id')::UUID = auth.uid() THEN
+    v_errors := v_errors || jsonb_build_array(
+      jsonb_build_object('field', 'marker_id', 'message', 'You cannot mark your own card')
+    );
+  END IF;
+
+  -- Only an image from the player's own folder can be linked
+  IF p_round->>'scorecard_path' IS NOT NULL
+    AND split_part(p_round->>'scorecard_path', '/', 1) <> auth.uid()::TEXT THEN
+    v_errors := v_errors || jsonb_build_array(
+      jsonb_build_object('field', 'scorecard_path', 'message', 'Scorecard image not found')
+    );
+  END IF;
+
+  v_errors := v_errors || validate_round_tee(p_round);
+  v_errors := v_errors || validate_round_loops(p_round);
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'errors', v_errors);
+  END IF;
+
+  BEGIN
+    INSERT INTO rounds (
+      user_id, course_id, date_of_round, weather, wind_conditions, temp_c, wind_speed_kph,
+      total_strokes, total_par, score_to_par, adjusted_gross_score, net_strokes, stableford_points,
+      course_handicap, playing_format, playing_handicap, holes_played, is_home, pcc, score_differential,
+      client_ref, marker_id, attestation_status, round_type, event_id, scorecard_path, tee_id,
+      front_loop_id, back_loop_id, rating_id
+    )
+    VALUES (
+      auth.uid(),
+      (p_round->>'course_id')::UUID,
+      (p_round->>'date_of_round')::DATE,
+      p_round->>'weather',
+      p_round->>'wind_conditions',
+      (p_round->>'temp_c')::NUMERIC,
+      (p_round->>'wind_speed_kph')::NUMERIC,
+      (p_round->>'total_strokes')::INTEGER,
+      (p_round->>'total_par')::INTEGER,
+      (p_round->>'score_to_par')::INTEGER,
+      (p_round->>'adjusted_gross_score')::INTEGER,
+      (p_round->>'net_strokes')::INTEGER,
+      (p_round->>'stableford_points')::INTEGER,
+      (p_round->>'course_handicap')::INTEGER,
+      COALESCE(p_round->>'playing_format', 'stroke_play'),
+      (p_round->>'playing_handicap')::INTEGER,
+      (p_round->>'holes_played')::INTEGER,
+      (p_round->>'is_home')::BOOLEAN,
+      (p_round->>'pcc')::INTEGER,
+      (p_round->>'score_differential')::DECIMAL(4,1),
+      v_client_ref,
+      (p_round->>'marker_id')::UUID,
+      CASE WHEN p_round->>'marker_id' IS NULL THEN 'unmarked' ELSE 'pending' END,
+      v_round_type,
+      (p_round->>'event_id')::UUID,
+      p_round->>'scorecard_path',
+      (p_round->>'tee_id')::UUID,
+      (p_round->>'front_loop_id')::UUID,
+      (p_round->>'back_loop_id')::UUID,
+      (p_round->>'rating_id')::UUID
+    )
+    RETURNING id INTO v_round_id;
+  EXCEPTION WHEN unique_violation THEN
+    -- Lost a race with another submission of the same queued round
+    SELECT id INTO v_round_id FROM rounds
+    WHERE user_id = auth.uid() AND client_ref = v_client_ref;
+    RETURN jsonb_build_object('success', true, 'round_id', v_round_id, 'duplicate', true);
+  END;
+
+  PERFORM set_config('app.changing_attestation', 'on', true);
+
+  PERFORM insert_round_scores(v_round_id, p_scores);
+
+  PERFORM set_config('app.changing_attestation', 'off', true);
+
+  RETURN jsonb_build_object('success', true, 'round_id', v_round_id);
+END;
+$$;
+
+
+-- ============================================
+-- EDIT ROUND (writes the card's new scores)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION update_round_with_scores(
+  p_round_id UUID,
+  p_round JSONB,
+  p_scores JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_errors JSONB;
+  v_owner_id UUID;
+  v_round_type TEXT := event_round_type(p_round);
+BEGIN
+  -- Owner-or-admin check (mirrors deleteRound)
+  SELECT user_id INTO v_owner_id FROM rounds
+  WHERE id = p_round_id
+  AND (
+    user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('Admin', 'Super Admin')
+    )
+  );
+
+  IF v_owner_id IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'errors', jsonb_build_array(jsonb_build_object('field', 'round_id', 'message', 'Round not found or permission denied'))
+    );
+  END IF;
+
+  v_errors := validate_round_scores(p_round, p_scores);
+
+  IF (p_round->>'marker_id')::UUID = v_owner_id THEN
+    v_errors := v_errors || jsonb_build_array(
+      jsonb_build_object('field', 'marker_id', 'message', 'A player cannot mark their own card')
+    );
+  END IF;
+
+  v_errors := v_errors || validate_round_tee(p_round);
+  v_errors := v_errors || validate_round_loops(p_round);
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'errors', v_errors);
+  END IF;
+
+  -- A changed card goes back to its marker (its scores are written under the same flag)
+  PERFORM set_config('app.changing_attestation', 'on', true);
+
+  UPDATE rounds SET
+    course_id = (p_round->>'course_id')::UUID,
+    date_of_round = (p_round->>'date_of_round')::DATE,
+    weather = p_round->>'weather',
+    wind_conditions = p_round->>'wind_conditions',
+    temp_c = (p_round->>'temp_c')::NUMERIC,
+    wind_speed_kph = (p_round->>'wind_speed_kph')::NUMERIC,
+    total_strokes = (p_round->>'total_strokes')::INTEGER,
+    total_par = (p_round->>'total_par')::INTEGER,
+    score_to_par = (p_round->>'score_to_par')::INTEGER,
+    adjusted_gross_score = (p_round->>'adjusted_gross_score')::INTEGER,
+    net_strokes = (p_round->>'net_strokes')::INTEGER,
+    stableford_points = (p_round->>'stableford_points')::INTEGER,
+    course_handicap = (p_round->>'course_handicap')::INTEGER,
+    playing_format = COALESCE(p_round->>'playing_format', 'stroke_play'),
+    playing_handicap = (p_round->>'playing_handicap')::INTEGER,
+    holes_played = (p_round->>'holes_played')::INTEGER,
+    is_home = (p_round->>'is_home')::BOOLEAN,
+    pcc = (p_round->>'pcc')::INTEGER,
+    score_differential = (p_round->>'score_differential')::DECIMAL(4,1),
+    marker_id = (p_round->>'marker_id')::UUID,
+    round_type = v_round_type,
+    event_id = (p_round->>'event_id')::UUID,
+    tee_id = (p_round->>'tee_id')::UUID,
+    front_loop_id = (p_round->>'front_loop_id')::UUID,
+    back_loop_id = (p_round->>'back_loop_id')::UUID,
+    rating_id = (p_round->>'rating_id')::UUID,
+    attestation_status = CASE WHEN p_round->>'marker_id' IS NULL THEN 'unmarked' ELSE 'pending' END,
+    attested_at = NULL,
+    attestation_note = NULL
+  WHERE id = p_round_id;
+
+  DELETE FROM round_scores WHERE round_id = p_round_id;
+
+  PERFORM insert_round_scores(p_round_id, p_scores);
+
+  PERFORM set_config('app.changing_attestation', 'off', true);
+
+  RETURN jsonb_build_object('success', true, 'round_id', p_round_id);
+END;
+$$;
@@ -0,0 +1,141 @@
+-- Reconcile loops on a course merge
+-- merge_courses() moved the duplicate's rounds and re-pinned their ratings, but the rounds and
+-- their hole scores kept pointing at the duplicate's nine-hole loops. Moved rounds now take the
+-- kept course's loops (as a round saved on it would) and their hole scores its loop holes;
+-- both are cleared when the kept course is not built from loops.
+
+CREATE OR REPLACE FUNCTION merge_courses(
+  p_source_id UUID,
+  p_target_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source courses%ROWTYPE;
+  v_target courses%ROWTYPE;
+  v_rounds_moved INTEGER;
+  v_holes_added INTEGER;
+  v_par_conflicts JSONB;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only administrators can merge courses');
+  END IF;
+
+  IF p_source_id = p_target_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Choose two different courses');
+  END IF;
+
+  SELECT * INTO v_source FROM courses WHERE id = p_source_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Course to merge not found');
+  END IF;
+
+  SELECT * INTO v_target FROM courses WHERE id = p_target_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Course to keep not found');
+  END IF;
+
+  IF COALESCE(v_source.hole_count, 18) <> COALESCE(v_target.hole_count, 18) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A 9-hole and an 18-hole course cannot be merged');
+  END IF;
+
+  -- Holes where the two courses disagree on par (the kept course's holes stand)
+  SELECT COALESCE(jsonb_agg(s.hole_number ORDER BY s.hole_number), '[]'::JSONB) INTO v_par_conflicts
+  FROM course_holes s
+  JOIN course_holes t ON t.course_id = p_target_id AND t.hole_number = s.hole_number
+  WHERE s.course_id = p_source_id
+  AND s.par <> t.par;
+
+  -- Holes and distances only the duplicate recorded
+  INSERT INTO course_holes (course_id, hole_number, par, stroke_index, distance)
+  SELECT p_target_id, hole_number, par, stroke_index, distance
+  FROM course_holes
+  WHERE course_id = p_source_id
+  ON CONFLICT (course_id, hole_number) DO NOTHING;
+  GET DIAGNOSTICS v_holes_added = ROW_COUNT;
+
+  UPDATE course_holes t SET distance = s.distance
+  FROM course_holes s
+  WHERE t.course_id = p_target_id
+  AND s.course_id = p_source_id
+  AND s.hole_number = t.hole_number
+  AND COALESCE(t.distance, 0) <= 0
+  AND s.distance > 0;
+
+  -- Course details the kept course is missing
+  UPDATE courses SET
+    rating = COALESCE(rating, v_source.rating),
+    slope = COALESCE(slope, v_source.slope),
+    standard_scratch = COALESCE(standard_scratch, v_source.standard_scratch),
+    location = COALESCE(location, v_source.location),
+    course_type = COALESCE(course_type, v_source.course_type)
+  WHERE id = p_target_id;
+
+  -- Tees the kept course already has absorb the duplicate's; the rest move across
+  UPDATE rounds r SET tee_id = t.id
+  FROM course_tees s
+  JOIN course_tees t ON t.course_id = p_target_id AND t.name = s.name AND t.gender = s.gender
+  WHERE s.course_id = p_source_id
+  AND r.tee_id = s.id;
+
+  DELETE FROM course_tees s
+  USING course_tees t
+  WHERE s.course_id = p_source_id
+  AND t.course_id = p_target_id
+  AND t.name = s.name
+  AND t.gender = s.gender;
+
+  UPDATE course_tees SET course_id = p_target_id WHERE course_id = p_source_id;
+
+  -- Rating versions of the tees that moved go with them
+  UPDATE course_ratings SET course_id = p_target_id
+  WHERE course_id = p_source_id
+  AND tee_id IS NOT NULL;
+
+  -- Hole scores of the moved rounds sit on the kept course's loops (none when it has none)
+  UPDATE round_scores s SET
+    loop_id = CASE WHEN s.hole_number <= 9 THEN v_target.front_loop_id ELSE v_target.back_loop_id END,
+    loop_hole_number = CASE
+      WHEN s.hole_number <= 9 AND v_target.front_loop_id IS NOT NULL THEN s.hole_number
+      WHEN s.hole_number > 9 AND v_target.back_loop_id IS NOT NULL THEN s.hole_number - 9
+    END
+  FROM rounds r
+  WHERE s.round_id = r.id
+  AND r.course_id = p_source_id;
+
+  -- Everything played on or planned for the duplicate; a nine only plays the front loop
+  UPDATE rounds SET
+    course_id = p_target_id,
+    front_loop_id = v_target.front_loop_id,
+    back_loop_id = CASE WHEN holes_played = 9 THEN NULL ELSE v_target.back_loop_id END
+  WHERE course_id = p_source_id;
+  GET DIAGNOSTICS v_rounds_moved = ROW_COUNT;
+
+  UPDATE round_drafts SET course_id = p_target_id WHERE course_id = p_source_id;
+  UPDATE events SET course_id = p_target_id WHERE course_id = p_source_id;
+
+  -- Rounds pinned to the duplicate's own ratings take the kept course's rating of the day
+  UPDATE rounds SET rating_id = rating_in_force(course_id, tee_id, date_of_round)
+  WHERE course_id = p_target_id
+  AND (rating_id IS NULL OR rating_id IN (SELECT id FROM course_ratings WHERE course_id = p_source_id));
+
+  DELETE FROM courses WHERE id = p_source_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'rounds_moved', v_rounds_moved,
+    'holes_added', v_holes_added,
+    'par_conflicts', v_par_conflicts,
+    'source_name', v_source.name,
+    'target_name', v_target.name
+  );
+END;
+$$;
+
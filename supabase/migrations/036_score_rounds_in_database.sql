@@ -0,0 +1,486 @@
+-- Score rounds in the database
+-- save_round_with_scores() and update_round_with_scores() stored the totals, course handicap,
+-- PCC and score differential sent by the client, so a player calling them directly could save
+-- any differential and have it published as their Handicap Index. score_round() now works all
+-- of them out from the stored hole scores, the rating in force on the day and the player's
+-- index going into the round, as buildRoundRecord does in the app, and players can no longer
+-- write those columns themselves.
+
+-- ============================================
+-- HANDICAP STROKES ON A HOLE
+-- ============================================
+
+-- Mirrors getStrokesReceived in src/lib/scoring.ts (a plus handicap gives strokes back from
+-- the highest stroke index)
+CREATE OR REPLACE FUNCTION strokes_received(
+  p_handicap INTEGER,
+  p_stroke_index INTEGER,
+  p_holes INTEGER
+)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_handicap IS NULL THEN 0
+    WHEN p_handicap >= 0 THEN
+      p_handicap / p_holes + CASE WHEN p_stroke_index <= p_handicap % p_holes THEN 1 ELSE 0 END
+    ELSE
+      -(ABS(p_handicap) / p_holes + CASE WHEN p_stroke_index > p_holes - ABS(p_handicap) % p_holes THEN 1 ELSE 0 END)
+  END
+$$;
+
+-- ============================================
+-- SCORE A ROUND FROM ITS HOLE SCORES
+-- ============================================
+
+-- Called by the round functions once the hole scores are in. It runs as the caller, so its writes
+-- are rejected by the guard outside their app.changing_attestation window.
+CREATE OR REPLACE FUNCTION score_round(p_round_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_round rounds%ROWTYPE;
+  v_course courses%ROWTYPE;
+  v_tee course_tees%ROWTYPE;
+  v_version course_ratings%ROWTYPE;
+  v_holes INTEGER;
+  v_rating DECIMAL;
+  v_slope DECIMAL;
+  v_index DECIMAL;
+  v_card_par INTEGER;
+  v_total_par INTEGER;
+  v_played_par INTEGER;
+  v_all_played BOOLEAN;
+  v_total_strokes INTEGER;
+  v_course_handicap INTEGER;
+  v_playing_handicap INTEGER;
+  v_adjusted INTEGER;
+  v_stableford INTEGER;
+  v_pcc INTEGER;
+  v_differential DECIMAL;
+BEGIN
+  SELECT * INTO v_round FROM rounds WHERE id = p_round_id;
+  SELECT * INTO v_course FROM courses WHERE id = v_round.course_id;
+  SELECT * INTO v_tee FROM course_tees WHERE id = v_round.tee_id AND course_id = v_round.course_id;
+  SELECT * INTO v_version FROM course_ratings
+  WHERE id = rating_in_force(v_round.course_id, v_round.tee_id, v_round.date_of_round);
+
+  v_holes := CASE WHEN v_round.holes_played = 9 THEN 9 ELSE 18 END;
+
+  -- Rating of the day (tees' before the course's), else today's tee or course rating; SSS when
+  -- there is no WHS rating. A nine on an 18-hole course is rated at half the course rating.
+  IF v_version.id IS NOT NULL THEN
+    v_rating := COALESCE(v_version.rating, v_course.standard_scratch);
+    v_slope := v_version.slope;
+  ELSE
+    v_rating := COALESCE(v_tee.rating, v_course.rating, v_course.standard_scratch);
+    v_slope := COALESCE(v_tee.slope, v_course.slope);
+  END IF;
+
+  IF v_slope IS NULL OR v_slope <= 0 THEN
+    v_slope := 113;
+  END IF;
+
+  IF v_holes = 9 AND COALESCE(v_course.hole_count, 18) = 18 THEN
+    v_rating := v_rating / 2;
+  END IF;
+
+  -- The index going into the round, else the one on the profile
+  SELECT handicap_index INTO v_index
+  FROM handicap_history
+  WHERE user_id = v_round.user_id
+  AND effective_date < v_round.date_of_round
+  ORDER BY effective_date DESC, created_at DESC
+  LIMIT 1;
+
+  IF v_index IS NULL THEN
+    SELECT handicap_index INTO v_index FROM profiles WHERE id = v_round.user_id;
+  END IF;
+
+  -- The tees' par covers the full course, so it replaces the card's when the round is full length
+  SELECT
+    SUM(par),
+    COALESCE(SUM(strokes), 0),
+    COALESCE(SUM(par) FILTER (WHERE strokes IS NOT NULL), 0),
+    bool_and(strokes IS NOT NULL)
+  INTO v_card_par, v_total_strokes, v_played_par, v_all_played
+  FROM round_scores
+  WHERE round_id = p_round_id;
+
+  v_total_par := CASE
+    WHEN v_tee.par IS NOT NULL AND v_holes = COALESCE(v_course.hole_count, 18) THEN v_tee.par
+    ELSE v_card_par
+  END;
+
+  IF v_all_played THEN
+    v_played_par := v_total_par;
+  END IF;
+
+  -- Course and playing handicap, rounded halves upwards as in the app
+  IF v_index IS NOT NULL AND v_rating IS NOT NULL THEN
+    v_course_handicap := FLOOR(
+      (CASE WHEN v_holes = 9 THEN v_index / 2 ELSE v_index END) * (v_slope / 113)
+      + (v_rating - v_total_par) + 0.5
+    );
+    v_playing_handicap := FLOOR(v_course_handicap * CASE v_round.playing_format
+      WHEN 'match_play' THEN 1.0
+      WHEN 'fourball_stroke_play' THEN 0.85
+      WHEN 'fourball_match_play' THEN 0.9
+      WHEN 'foursomes' THEN 0.5
+      ELSE 0.95
+    END + 0.5);
+  END IF;
+
+  -- Net double bogey (par + 5 without an index), unplayed holes at net par; strokes go by the
+  -- stroke indexes, ranked 1-9 when a nine is played off an 18-hole card's indexes
+  WITH ranked AS (
+    SELECT
+      s.id, s.par, s.strokes,
+      COALESCE(s.stroke_index, s.hole_number) AS stroke_index,
+      ROW_NUMBER() OVER (ORDER BY COALESCE(s.stroke_index, s.hole_number), s.hole_number) AS stroke_rank,
+      MAX(COALESCE(s.stroke_index, s.hole_number)) OVER () AS highest_index
+    FROM round_scores s
+    WHERE s.round_id = p_round_id
+  ),
+  received AS (
+    SELECT
+      r.id, r.par, r.strokes,
+      strokes_received(v_course_handicap, allocation.stroke_index, v_holes) AS course_strokes,
+      strokes_received(v_playing_handicap, allocation.stroke_index, v_holes) AS playing_strokes
+    FROM ranked r,
+    LATERAL (
+      SELECT CASE WHEN r.highest_index > v_holes THEN r.stroke_rank::INTEGER ELSE r.stroke_index END AS stroke_index
+    ) allocation
+  )
+  UPDATE round_scores s SET
+    adjusted_strokes = CASE
+      WHEN r.strokes IS NULL THEN r.par + r.course_strokes
+      WHEN v_course_handicap IS NULL THEN LEAST(r.strokes, r.par + 5)
+      ELSE LEAST(r.strokes, r.par + 2 + r.course_strokes)
+    END,
+    net_strokes = CASE WHEN r.strokes IS NULL THEN NULL ELSE r.strokes - r.playing_strokes END,
+    stableford_points = CASE
+      WHEN r.strokes IS NULL THEN 0
+      ELSE GREATEST(0, r.par + 2 - (r.strokes - r.playing_strokes))
+    END
+  FROM received r
+  WHERE s.id = r.id;
+
+  SELECT SUM(adjusted_strokes), SUM(stableford_points) INTO v_adjusted, v_stableford
+  FROM round_scores
+  WHERE round_id = p_round_id;
+
+  -- The PCC already worked out for the course and day (the daily job sets it otherwise)
+  SELECT pcc INTO v_pcc
+  FROM rounds
+  WHERE course_id = v_round.course_id
+  AND date_of_round = v_round.date_of_round
+  AND pcc IS NOT NULL
+  ORDER BY id = p_round_id DESC
+  LIMIT 1;
+
+  -- A nine is completed with the expected differential for the unplayed nine, or doubled
+  -- when the player has no index
+  IF v_rating IS NOT NULL THEN
+    v_differential := (113 / v_slope) * (v_adjusted - v_rating - COALESCE(v_pcc, 0));
+
+    IF v_holes = 9 THEN
+      v_differential := CASE
+        WHEN v_index IS NOT NULL THEN v_differential + v_index * 0.52 + 1.2
+        ELSE v_differential * 2
+      END;
+    END IF;
+
+    v_differential := FLOOR(v_differential * 10 + 0.5) / 10;
+  END IF;
+
+  UPDATE rounds SET
+    rating_id = v_version.id,
+    total_strokes = v_total_strokes,
+    total_par = v_total_par,
+    score_to_par = v_total_strokes - v_played_par,
+    adjusted_gross_score = v_adjusted,
+    net_strokes = v_total_strokes - COALESCE(v_playing_handicap, 0),
+    stableford_points = v_stableford,
+    course_handicap = v_course_handicap,
+    playing_handicap = v_playing_handicap,
+    pcc = v_pcc,
+    score_differential = v_differential
+  WHERE id = p_round_id;
+END;
+$$;
+
+-- ============================================
+-- BLOCK DIRECT WRITES OF THE SCORING
+-- ============================================
+
+CREATE OR REPLACE FUNCTION guard_round_attestation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL
+  OR COALESCE(current_setting('app.changing_attestation', true), 'off') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.attestation_status NOT IN ('unmarked', 'pending')
+    OR NEW.attested_at IS NOT NULL
+    OR NEW.attestation_note IS NOT NULL THEN
+      RAISE EXCEPTION 'A new round cannot be saved as attested' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT can_change_marked_card()
+    AND (
+      NEW.total_strokes IS NOT NULL
+      OR NEW.total_par IS NOT NULL
+      OR NEW.score_to_par IS NOT NULL
+      OR NEW.adjusted_gross_score IS NOT NULL
+      OR NEW.net_strokes IS NOT NULL
+      OR NEW.stableford_points IS NOT NULL
+      OR NEW.course_handicap IS NOT NULL
+      OR NEW.playing_handicap IS NOT NULL
+      OR NEW.pcc IS NOT NULL
+      OR NEW.score_differential IS NOT NULL
+      OR NEW.rating_id IS NOT NULL
+    ) THEN
+      RAISE EXCEPTION 'A round is scored from its hole scores' USING ERRCODE = '42501';
+    END IF;
+  ELSIF NEW.attestation_status IS DISTINCT FROM OLD.attestation_status
+  OR NEW.attested_at IS DISTINCT FROM OLD.attested_at
+  OR NEW.attestation_note IS DISTINCT FROM OLD.attestation_note THEN
+    RAISE EXCEPTION 'Only the marker can attest a round' USING ERRCODE = '42501';
+  ELSIF NOT can_change_marked_card()
+  AND (
+    NEW.total_strokes IS DISTINCT FROM OLD.total_strokes
+    OR NEW.total_par IS DISTINCT FROM OLD.total_par
+    OR NEW.score_to_par IS DISTINCT FROM OLD.score_to_par
+    OR NEW.adjusted_gross_score IS DISTINCT FROM OLD.adjusted_gross_score
+    OR NEW.net_strokes IS DISTINCT FROM OLD.net_strokes
+    OR NEW.stableford_points IS DISTINCT FROM OLD.stableford_points
+    OR NEW.course_handicap IS DISTINCT FROM OLD.course_handicap
+    OR NEW.playing_handicap IS DISTINCT FROM OLD.playing_handicap
+    OR NEW.pcc IS DISTINCT FROM OLD.pcc
+    OR NEW.score_differential IS DISTINCT FROM OLD.score_differential
+    OR NEW.rating_id IS DISTINCT FROM OLD.rating_id
+  ) THEN
+    RAISE EXCEPTION 'A round is scored from its hole scores' USING ERRCODE = '42501';
+  ELSIF OLD.attestation_status <> 'unmarked'
+  AND NOT can_change_marked_card()
+  AND (
+    NEW.course_id IS DISTINCT FROM OLD.course_id
+    OR NEW.date_of_round IS DISTINCT FROM OLD.date_of_round
+    OR NEW.holes_played IS DISTINCT FROM OLD.holes_played
+  ) THEN
+    RAISE EXCEPTION 'A marked card can only be changed by editing the round' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================
+-- SAVE NEW ROUND (scored from its hole scores)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION save_round_with_scores(
+  p_round JSONB,
+  p_scores JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_errors JSONB;
+  v_round_id UUID;
+  v_client_ref UUID := (p_round->>'client_ref')::UUID;
+  v_round_type TEXT := event_round_type(p_round);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'errors', jsonb_build_array(jsonb_build_object('field', 'user_id', 'message', 'Not authenticated. Please log in.'))
+    );
+  END IF;
+
+  -- Already synced from this device: hand back the saved round
+  IF v_client_ref IS NOT NULL THEN
+    SELECT id INTO v_round_id FROM rounds
+    WHERE user_id = auth.uid() AND client_ref = v_client_ref;
+
+    IF v_round_id IS NOT NULL THEN
+      RETURN jsonb_build_object('success', true, 'round_id', v_round_id, 'duplicate', true);
+    END IF;
+  END IF;
+
+  v_errors := validate_round_scores(p_round, p_scores);
+
+  IF (p_round->>'marker_id')::UUID = auth.uid() THEN
+    v_errors := v_errors || jsonb_build_array(
+      jsonb_build_object('field', 'marker_id', 'message', 'You cannot mark your own card')
+    );
+  END IF;
+
+  -- Only an image from the player's own folder can be linked
+  IF p_round->>'scorecard_path' IS NOT NULL
+    AND split_part(p_round->>'scorecard_path', '/', 1) <> auth.uid()::TEXT THEN
+    v_errors := v_errors || jsonb_build_array(
+      jsonb_build_object('field', 'scorecard_path', 'message', 'Scorecard image not found')
+    );
+  END IF;
+
+  v_errors := v_errors || validate_round_tee(p_round);
+  v_errors := v_errors || validate_round_loops(p_round);
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'errors', v_errors);
+  END IF;
+
+  BEGIN
+    INSERT INTO rounds (
+      user_id, course_id, date_of_round, weather, wind_conditions, temp_c, wind_speed_kph,
+      playing_format, holes_played, is_home,
+      client_ref, marker_id, attestation_status, round_type, event_id, scorecard_path, tee_id,
+      front_loop_id, back_loop_id
+    )
+    VALUES (
+      auth.uid(),
+      (p_round->>'course_id')::UUID,
+      (p_round->>'date_of_round')::DATE,
+      p_round->>'weather',
+      p_round->>'wind_conditions',
+      (p_round->>'temp_c')::NUMERIC,
+      (p_round->>'wind_speed_kph')::NUMERIC,
+      COALESCE(p_round->>'playing_format', 'stroke_play'),
+      (p_round->>'holes_played')::INTEGER,
+      (p_round->>'is_home')::BOOLEAN,
+      v_client_ref,
+      (p_round->>'marker_id')::UUID,
+      CASE WHEN p_round->>'marker_id' IS NULL THEN 'unmarked' ELSE 'pending' END,
+      v_round_type,
+      (p_round->>'event_id')::UUID,
+      p_round->>'scorecard_path',
+      (p_round->>'tee_id')::UUID,
+      (p_round->>'front_loop_id')::UUID,
+      (p_round->>'back_loop_id')::UUID
+    )
+    RETURNING id INTO v_round_id;
+  EXCEPTION WHEN unique_violation THEN
+    -- Lost a race with another submission of the same queued round
+    SELECT id INTO v_round_id FROM rounds
+    WHERE user_id = auth.uid() AND client_ref = v_client_ref;
+    RETURN jsonb_build_object('success', true, 'round_id', v_round_id, 'duplicate', true);
+  END;
+
+  PERFORM set_config('app.changing_attestation', 'on', true);
+
+  PERFORM insert_round_scores(v_round_id, p_scores);
+  PERFORM score_round(v_round_id);
+
+  PERFORM set_config('app.changing_attestation', 'off', true);
+
+  RETURN jsonb_build_object('success', true, 'round_id', v_round_id);
+END;
+$$;
+
+-- ============================================
+-- EDIT ROUND (scored from the new hole scores)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION update_round_with_scores(
+  p_round_id UUID,
+  p_round JSONB,
+  p_scores JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_errors JSONB;
+  v_owner_id UUID;
+  v_round_type TEXT := event_round_type(p_round);
+BEGIN
+  -- Owner-or-admin check (mirrors deleteRound)
+  SELECT user_id INTO v_owner_id FROM rounds
+  WHERE id = p_round_id
+  AND (
+    user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('Admin', 'Super Admin')
+    )
+  );
+
+  IF v_owner_id IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'errors', jsonb_build_array(jsonb_build_object('field', 'round_id', 'message', 'Round not found or permission denied'))
+    );
+  END IF;
+
+  v_errors := validate_round_scores(p_round, p_scores);
+
+  IF (p_round->>'marker_id')::UUID = v_owner_id THEN
+    v_errors := v_errors || jsonb_build_array(
+      jsonb_build_object('field', 'marker_id', 'message', 'A player cannot mark their own card')
+    );
+  END IF;
+
+  v_errors := v_errors || validate_round_tee(p_round);
+  v_errors := v_errors || validate_round_loops(p_round);
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'errors', v_errors);
+  END IF;
+
+  -- A changed card goes back to its marker (its scores are written under the same flag)
+  PERFORM set_config('app.changing_attestation', 'on', true);
+
+  -- The day's PCC stays with the round unless it moved to another course or day
+  UPDATE rounds SET
+    pcc = CASE
+      WHEN course_id = (p_round->>'course_id')::UUID
+      AND date_of_round = (p_round->>'date_of_round')::DATE THEN pcc
+    END,
+    course_id = (p_round->>'course_id')::UUID,
+    date_of_round = (p_round->>'date_of_round')::DATE,
+    weather = p_round->>'weather',
+    wind_conditions = p_round->>'wind_conditions',
+    temp_c = (p_round->>'temp_c')::NUMERIC,
+    wind_speed_kph = (p_round->>'wind_speed_kph')::NUMERIC,
+    playing_format = COALESCE(p_round->>'playing_format', 'stroke_play'),
+    holes_played = (p_round->>'holes_played')::INTEGER,
+    is_home = (p_round->>'is_home')::BOOLEAN,
+    marker_id = (p_round->>'marker_id')::UUID,
+    round_type = v_round_type,
+    event_id = (p_round->>'event_id')::UUID,
+    tee_id = (p_round->>'tee_id')::UUID,
+    front_loop_id = (p_round->>'front_loop_id')::UUID,
+    back_loop_id = (p_round->>'back_loop_id')::UUID,
+    attestation_status = CASE WHEN p_round->>'marker_id' IS NULL THEN 'unmarked' ELSE 'pending' END,
+    attested_at = NULL,
+    attestation_note = NULL
+  WHERE id = p_round_id;
+
+  DELETE FROM round_scores WHERE round_id = p_round_id;
+
+  PERFORM insert_round_scores(p_round_id, p_scores);
+  PERFORM score_round(p_round_id);
+
+  PERFORM set_config('app.changing_attestation', 'off', true);
+
+  RETURN jsonb_build_object('success', true, 'round_id', p_round_id);
+END;
+$$;
+
@@ -0,0 +1,135 @@
+-- Carry attestation through duplicate merges
+-- merge_duplicate_rounds() took a duplicate's marker when the kept round had none but left its
+-- attestation_status alone, so the merged round could have a marker and still be 'unmarked',
+-- and a duplicate's attestation was lost with it. A marker gained in a merge now has to attest
+-- the kept card ('pending'), unless a duplicate was attested by that marker with the same hole
+-- scores, in which case its attestation is kept.
+
+-- ============================================
+-- MERGE DUPLICATES (keeps the card's attestation)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION merge_duplicate_rounds(
+  p_keep_id UUID,
+  p_remove_ids UUID[]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_keep rounds%ROWTYPE;
+  v_attested rounds%ROWTYPE;
+  v_removed INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('Admin', 'Super Admin')
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only administrators can merge rounds');
+  END IF;
+
+  SELECT * INTO v_keep FROM rounds WHERE id = p_keep_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Round to keep not found');
+  END IF;
+
+  IF p_keep_id = ANY(p_remove_ids) OR EXISTS (
+    SELECT 1 FROM rounds
+    WHERE id = ANY(p_remove_ids)
+    AND (user_id <> v_keep.user_id OR course_id <> v_keep.course_id OR date_of_round <> v_keep.date_of_round)
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Only rounds by the same player on the same course and day can be merged'
+    );
+  END IF;
+
+  -- An attested duplicate of the same card (same marker, same hole scores) carries its attestation
+  IF v_keep.attestation_status <> 'attested' THEN
+    SELECT * INTO v_attested FROM rounds d
+    WHERE d.id = ANY(p_remove_ids)
+    AND d.attestation_status = 'attested'
+    AND (v_keep.marker_id IS NULL OR d.marker_id = v_keep.marker_id)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM (SELECT hole_number, strokes FROM round_scores WHERE round_id = p_keep_id) k
+      FULL JOIN (SELECT hole_number, strokes FROM round_scores WHERE round_id = d.id) s
+      ON s.hole_number = k.hole_number
+      WHERE k.hole_number IS NULL
+      OR s.hole_number IS NULL
+      OR k.strokes IS DISTINCT FROM s.strokes
+    )
+    LIMIT 1;
+  END IF;
+
+  PERFORM set_config('app.changing_attestation', 'on', true);
+
+  -- Round details the kept round is missing
+  UPDATE rounds k SET
+    marker_id = COALESCE(k.marker_id, d.marker_id),
+    event_id = COALESCE(k.event_id, d.event_id),
+    round_type = CASE WHEN k.round_type = 'general_play' THEN COALESCE(d.round_type, k.round_type) ELSE k.round_type END,
+    weather = COALESCE(k.weather, d.weather),
+    wind_conditions = COALESCE(k.wind_conditions, d.wind_conditions),
+    scorecard_path = COALESCE(k.scorecard_path, d.scorecard_path)
+  FROM (
+    SELECT
+      (array_agg(marker_id) FILTER (WHERE marker_id IS NOT NULL))[1] AS marker_id,
+      (array_agg(event_id) FILTER (WHERE event_id IS NOT NULL))[1] AS event_id,
+      (array_agg(round_type) FILTER (WHERE round_type <> 'general_play'))[1] AS round_type,
+      (array_agg(weather) FILTER (WHERE weather IS NOT NULL))[1] AS weather,
+      (array_agg(wind_conditions) FILTER (WHERE wind_conditions IS NOT NULL))[1] AS wind_conditions,
+      (array_agg(scorecard_path) FILTER (WHERE scorecard_path IS NOT NULL))[1] AS scorecard_path
+    FROM rounds
+    WHERE id = ANY(p_remove_ids)
+  ) d
+  WHERE k.id = p_keep_id;
+
+  -- Otherwise a marker taken from a duplicate has still to attest the kept card
+  IF v_attested.id IS NOT NULL THEN
+    UPDATE rounds SET
+      marker_id = v_attested.marker_id,
+      attestation_status = 'attested',
+      attested_at = v_attested.attested_at,
+      attestation_note = v_attested.attestation_note
+    WHERE id = p_keep_id;
+  ELSIF v_keep.marker_id IS NULL THEN
+    UPDATE rounds SET
+      attestation_status = 'pending',
+      attested_at = NULL,
+      attestation_note = NULL
+    WHERE id = p_keep_id
+    AND marker_id IS NOT NULL;
+  END IF;
+
+  PERFORM set_config('app.changing_attestation', 'off', true);
+
+  -- Shot statistics recorded only on a duplicate (same hole, same score)
+  UPDATE round_scores k SET
+    putts = COALESCE(k.putts, d.putts),
+    fairway = COALESCE(k.fairway, d.fairway),
+    gir = COALESCE(k.gir, d.gir),
+    sand_shots = COALESCE(k.sand_shots, d.sand_shots),
+    penalty_strokes = COALESCE(k.penalty_strokes, d.penalty_strokes),
+    shots = COALESCE(k.shots, d.shots),
+    sg_off_the_tee = CASE WHEN k.shots IS NULL THEN d.sg_off_the_tee ELSE k.sg_off_the_tee END,
+    sg_approach = CASE WHEN k.shots IS NULL THEN d.sg_approach ELSE k.sg_approach END,
+    sg_around_green = CASE WHEN k.shots IS NULL THEN d.sg_around_green ELSE k.sg_around_green END,
+    sg_putting = CASE WHEN k.shots IS NULL THEN d.sg_putting ELSE k.sg_putting END
+  FROM round_scores d
+  WHERE k.round_id = p_keep_id
+  AND d.round_id = ANY(p_remove_ids)
+  AND d.hole_number = k.hole_number
+  AND d.strokes IS NOT DISTINCT FROM k.strokes;
+
+  DELETE FROM round_scores WHERE round_id = ANY(p_remove_ids);
+  DELETE FROM rounds WHERE id = ANY(p_remove_ids);
+  GET DIAGNOSTICS v_removed = ROW_COUNT;
+
+  RETURN jsonb_build_object('success', true, 'round_id', p_keep_id, 'removed', v_removed, 'user_id', v_keep.user_id);
+END;
+$$;
@@ -0,0 +1,10 @@
+-- Round details on live drafts
+-- A live round was finalised with only its course, date, length and format, so its marker,
+-- tees, round type and event had to be added by editing the saved round. Drafts now carry
+-- them from the start and pass them to the round when it is finalised.
+
+ALTER TABLE round_drafts ADD COLUMN IF NOT EXISTS marker_id UUID REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE round_drafts ADD COLUMN IF NOT EXISTS tee_id UUID REFERENCES course_tees(id) ON DELETE SET NULL;
+ALTER TABLE round_drafts ADD COLUMN IF NOT EXISTS round_type TEXT NOT NULL DEFAULT 'general_play'
+  CHECK (round_type IN ('club_competition', 'interclub', 'general_play'));
+ALTER TABLE round_drafts ADD COLUMN IF NOT EXISTS event_id UUID REFERENCES events(id) ON DELETE SET NULL;
@@ -0,0 +1,77 @@
+import { PGlite } from '@electric-sql/pglite'
+import * as fs from 'fs'
+import * as path from 'path'
+
+const testsDir = path.resolve(process.cwd(), 'supabase/tests')
+const migrationsDir = path.resolve(process.cwd(), 'supabase/migrations')
+
+/**
+ * An in-memory Postgres with the project's setup and every migration applied
+ */
+export async function createTestDatabase(): Promise<PGlite> {
+  const db = new PGlite()
+
+  await db.exec(fs.readFileSync(path.join(testsDir, 'setup.sql'), 'utf8'))
+
+  for (const file of fs.readdirSync(migrationsDir).filter((f) => f.endsWith('.sql')).sort()) {
+    try {
+      await db.exec(fs.readFileSync(path.join(migrationsDir, file), 'utf8'))
+    } catch (error) {
+      throw new Error(`${file}: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  return db
+}
+
+/**
+ * Add a player (auth user and profile) and return their id
+ */
+export async function createPlayer(db: PGlite, fullName: string, role = 'User'): Promise<string> {
+  const { rows } = await db.query<{ id: string }>('INSERT INTO auth.users (email) VALUES ($1) RETURNING id', [
+    `${fullName.toLowerCase().replace(/\s+/g, '.')}@pgc-test.com`,
+  ])
+  const id = rows[0].id
+
+  await db.query(
+    "INSERT INTO profiles (id, full_name, role, approval_status) VALUES ($1, $2, $3, 'approved')",
+    [id, fullName, role]
+  )
+
+  return id
+}
+
+/**
+ * Act as the given user for the following calls (null signs out)
+ */
+export async function signInAs(db: PGlite, userId: string | null): Promise<void> {
+  await db.query("SELECT set_config('request.jwt.claim.sub', $1, false)", [userId ?? ''])
+}
+
+/**
+ * Run queries as the API's authenticated role, so row level security applies
+ */
+export async function asAuthenticated<T>(db: PGlite, run: () => Promise<T>): Promise<T> {
+  await db.exec('SET ROLE authenticated')
+  try {
+    return await run()
+  } finally {
+    await db.exec('RESET ROLE')
+  }
+}
+
+/**
+ * Call a function that returns JSONB and hand back its result
+ */
+export async function callFunction<T = Record<string, unknown>>(
+  db: PGlite,
+  name: string,
+  args: unknown[]
+): Promise<T> {
+  const params = args.map((_, i) => `$${i + 1}`).join(', ')
+  const { rows } = await db.query<{ result: T }>(
+    `SELECT ${name}(${params}) AS result`,
+    args.map((arg) => (arg !== null && typeof arg === 'object' ? JSON.stringify(arg) : arg))
+  )
+  return rows[0].result
+}
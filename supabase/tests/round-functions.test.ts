@@ -0,0 +1,615 @@
+import { after, before, beforeEach, describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import type { PGlite } from '@electric-sql/pglite'
+import { asAuthenticated, callFunction, createPlayer, createTestDatabase, signInAs } from './database'
+
+// ============================================
+// FIXTURES
+// ============================================
+
+interface SaveResult {
+  success: boolean
+  round_id?: string
+  errors?: { field: string; message: string }[]
+}
+
+const HOLES = 9
+
+const buildRound = (courseId: string) => ({
+  course_id: courseId,
+  date_of_round: '2026-06-01',
+  holes_played: HOLES,
+})
+
+const buildScores = (strokes = 4, putts: number | null = 2) =>
+  Array.from({ length: HOLES }, (_, i) => ({
+    hole_number: i + 1,
+    par: 4,
+    stroke_index: i + 1,
+    strokes,
+    adjusted_strokes: strokes,
+    putts,
+  }))
+
+const countRows = async (db: PGlite, sql: string, params: unknown[]) => {
+  const { rows } = await db.query<{ count: number }>(`SELECT COUNT(*)::INTEGER AS count FROM ${sql}`, params)
+  return rows[0].count
+}
+
+// ============================================
+// TESTS
+// ============================================
+
+describe('save_round_with_scores', () => {
+  let db: PGlite
+  let playerId: string
+  let courseId: string
+  let ratedCourseId: string
+
+  before(async () => {
+    db = await createTestDatabase()
+    playerId = await createPlayer(db, 'Shane Lowry')
+
+    const { rows } = await db.query<{ id: string }>(
+      "INSERT INTO courses (name, hole_count, status) VALUES ('Portmarnock', 9, 'approved') RETURNING id"
+    )
+    courseId = rows[0].id
+
+    const rated = await db.query<{ id: string }>(
+      "INSERT INTO courses (name, hole_count, rating, slope, status) VALUES ('Portmarnock Links', 9, 36.0, 113, 'approved') RETURNING id"
+    )
+    ratedCourseId = rated.rows[0].id
+  })
+
+  after(async () => {
+    await db.close()
+  })
+
+  beforeEach(async () => {
+    await signInAs(db, playerId)
+  })
+
+  it('saves the round and its hole scores', async () => {
+    const result = await callFunction<SaveResult>(db, 'save_round_with_scores', [buildRound(courseId), buildScores()])
+
+    assert.equal(result.success, true)
+    assert.equal(await countRows(db, 'round_scores WHERE round_id = $1', [result.round_id]), HOLES)
+  })
+
+  it('saves a round without a marker as unmarked', async () => {
+    const result = await callFunction<SaveResult>(db, 'save_round_with_scores', [buildRound(courseId), buildScores()])
+
+    const { rows } = await db.query<{ attestation_status: string }>(
+      'SELECT attestation_status FROM rounds WHERE id = $1',
+      [result.round_id]
+    )
+    assert.equal(rows[0].attestation_status, 'unmarked')
+  })
+
+  it('scores the round from its hole scores rather than the totals sent', async () => {
+    const result = await callFunction<SaveResult>(db, 'save_round_with_scores', [
+      { ...buildRound(ratedCourseId), total_strokes: 30, adjusted_gross_score: 30, score_differential: -20 },
+      buildScores(5),
+    ])
+
+    const { rows } = await db.query<{ total_strokes: number; adjusted_gross_score: number; score_differential: string }>(
+      'SELECT total_strokes, adjusted_gross_score, score_differential FROM rounds WHERE id = $1',
+      [result.round_id]
+    )
+    // No index yet: the nine's differential is doubled
+    assert.deepEqual({ ...rows[0], score_differential: Number(rows[0].score_differential) }, {
+      total_strokes: 45,
+      adjusted_gross_score: 45,
+      score_differential: 18,
+    })
+  })
+
+  it('stops the player writing a differential directly', async () => {
+    const result = await callFunction<SaveResult>(db, 'save_round_with_scores', [buildRound(ratedCourseId), buildScores()])
+
+    await assert.rejects(
+      db.query('UPDATE rounds SET score_differential = -20 WHERE id = $1', [result.round_id]),
+      /scored from its hole scores/
+    )
+  })
+
+  it('rejects a course that does not exist', async () => {
+    const roundsBefore = await countRows(db, 'rounds WHERE user_id = $1', [playerId])
+
+    const result = await callFunction<SaveResult>(db, 'save_round_with_scores', [
+      buildRound('00000000-0000-0000-0000-000000000000'),
+      buildScores(),
+    ])
+
+    assert.equal(result.success, false)
+    assert.deepEqual(result.errors?.map((e) => e.field), ['course_id'])
+    assert.equal(await countRows(db, 'rounds WHERE user_id = $1', [playerId]), roundsBefore)
+  })
+
+  it('rejects a signed-out caller', async () => {
+    await signInAs(db, null)
+
+    const result = await callFunction<SaveResult>(db, 'save_round_with_scores', [buildRound(courseId), buildScores()])
+
+    assert.equal(result.success, false)
+    assert.deepEqual(result.errors?.map((e) => e.field), ['user_id'])
+  })
+
+  it('leaves no round behind when a hole score fails to insert', async () => {
+    const roundsBefore = await countRows(db, 'rounds WHERE user_id = $1', [playerId])
+
+    // Putts above the column's limit pass validation but fail the insert
+    await assert.rejects(
+      callFunction(db, 'save_round_with_scores', [buildRound(courseId), buildScores(4, 11)]),
+      /violates check constraint/
+    )
+
+    assert.equal(await countRows(db, 'rounds WHERE user_id = $1', [playerId]), roundsBefore)
+  })
+})
+
+describe('update_round_with_scores', () => {
+  let db: PGlite
+  let playerId: string
+  let otherPlayerId: string
+  let courseId: string
+  let roundId: string
+
+  before(async () => {
+    db = await createTestDatabase()
+    playerId = await createPlayer(db, 'Padraig Harrington')
+    otherPlayerId = await createPlayer(db, 'Rory McIlroy')
+
+    const { rows } = await db.query<{ id: string }>(
+      "INSERT INTO courses (name, hole_count, status) VALUES ('Lahinch', 9, 'approved') RETURNING id"
+    )
+    courseId = rows[0].id
+
+    await signInAs(db, playerId)
+    const saved = await callFunction<SaveResult>(db, 'save_round_with_scores', [buildRound(courseId), buildScores()])
+    roundId = saved.round_id!
+  })
+
+  after(async () => {
+    await db.close()
+  })
+
+  beforeEach(async () => {
+    await signInAs(db, playerId)
+  })
+
+  const storedRound = async () => {
+    const { rows } = await db.query<{ course_id: string; total_strokes: number }>(
+      'SELECT course_id, total_strokes FROM rounds WHERE id = $1',
+      [roundId]
+    )
+    return rows[0]
+  }
+
+  it('rejects a course that does not exist', async () => {
+    const result = await callFunction<SaveResult>(db, 'update_round_with_scores', [
+      roundId,
+      buildRound('00000000-0000-0000-0000-000000000000'),
+      buildScores(5),
+    ])
+
+    assert.equal(result.success, false)
+    assert.deepEqual(result.errors?.map((e) => e.field), ['course_id'])
+    assert.deepEqual(await storedRound(), { course_id: courseId, total_strokes: 36 })
+  })
+
+  it("rejects another player's round", async () => {
+    await signInAs(db, otherPlayerId)
+
+    const result = await callFunction<SaveResult>(db, 'update_round_with_scores', [
+      roundId,
+      buildRound(courseId),
+      buildScores(5),
+    ])
+
+    assert.equal(result.success, false)
+    assert.deepEqual(result.errors?.map((e) => e.field), ['round_id'])
+    assert.equal((await storedRound()).total_strokes, 36)
+  })
+
+  it('keeps the round and its scores when a hole score fails to insert', async () => {
+    await assert.rejects(
+      callFunction(db, 'update_round_with_scores', [roundId, buildRound(courseId), buildScores(5, 11)]),
+      /violates check constraint/
+    )
+
+    assert.equal((await storedRound()).total_strokes, 36)
+    assert.equal(await countRows(db, 'round_scores WHERE round_id = $1 AND strokes = 4', [roundId]), HOLES)
+  })
+
+  it('updates the round and replaces its scores', async () => {
+    const result = await callFunction<SaveResult>(db, 'update_round_with_scores', [
+      roundId,
+      buildRound(courseId),
+      buildScores(5),
+    ])
+
+    assert.equal(result.success, true)
+    assert.equal((await storedRound()).total_strokes, 45)
+    assert.equal(await countRows(db, 'round_scores WHERE round_id = $1 AND strokes = 5', [roundId]), HOLES)
+  })
+})
+
+describe('respond_to_attestation', () => {
+  let db: PGlite
+  let playerId: string
+  let markerId: string
+  let roundId: string
+
+  before(async () => {
+    db = await createTestDatabase()
+    playerId = await createPlayer(db, 'Leona Maguire')
+    markerId = await createPlayer(db, 'Stephanie Meadow')
+
+    const { rows } = await db.query<{ id: string }>(
+      "INSERT INTO courses (name, hole_count, status) VALUES ('Ballybunion', 9, 'approved') RETURNING id"
+    )
+
+    await signInAs(db, playerId)
+    const saved = await callFunction<SaveResult>(db, 'save_round_with_scores', [
+      { ...buildRound(rows[0].id), marker_id: markerId },
+      buildScores(),
+    ])
+    roundId = saved.round_id!
+  })
+
+  after(async () => {
+    await db.close()
+  })
+
+  const attestationStatus = async () => {
+    const { rows } = await db.query<{ attestation_status: string }>(
+      'SELECT attestation_status FROM rounds WHERE id = $1',
+      [roundId]
+    )
+    return rows[0].attestation_status
+  }
+
+  it('stops the player attesting their own round directly', async () => {
+    await signInAs(db, playerId)
+
+    await assert.rejects(
+      db.query("UPDATE rounds SET attestation_status = 'attested' WHERE id = $1", [roundId]),
+      /Only the marker can attest a round/
+    )
+    assert.equal(await attestationStatus(), 'pending')
+  })
+
+  it('stops a round being saved as attested', async () => {
+    await signInAs(db, playerId)
+
+    await assert.rejects(
+      db.query(
+        "INSERT INTO rounds (user_id, date_of_round, attestation_status) VALUES ($1, '2026-06-01', 'attested')",
+        [playerId]
+      ),
+      /cannot be saved as attested/
+    )
+  })
+
+  it('rejects an answer from someone other than the marker', async () => {
+    await signInAs(db, playerId)
+
+    const result = await callFunction<{ success: boolean }>(db, 'respond_to_attestation', [roundId, true, null])
+
+    assert.equal(result.success, false)
+    assert.equal(await attestationStatus(), 'pending')
+  })
+
+  it('records the marker attesting the card', async () => {
+    await signInAs(db, markerId)
+
+    const result = await callFunction<{ success: boolean }>(db, 'respond_to_attestation', [roundId, true, null])
+
+    assert.equal(result.success, true)
+    assert.equal(await attestationStatus(), 'attested')
+  })
+
+  it("stops the player changing an attested card's scores directly", async () => {
+    await signInAs(db, playerId)
+
+    await assert.rejects(
+      db.query("UPDATE rounds SET date_of_round = '2026-06-02' WHERE id = $1", [roundId]),
+      /marked card can only be changed by editing the round/
+    )
+    await assert.rejects(
+      db.query('UPDATE round_scores SET strokes = 3 WHERE round_id = $1', [roundId]),
+      /marked card can only be changed by editing the round/
+    )
+    assert.equal(await countRows(db, 'round_scores WHERE round_id = $1 AND strokes = 4', [roundId]), HOLES)
+  })
+
+  it('rejects a second answer to a card already answered', async () => {
+    await signInAs(db, markerId)
+
+    const result = await callFunction<{ success: boolean }>(db, 'respond_to_attestation', [roundId, false, 'Wrong score'])
+
+    assert.equal(result.success, false)
+    assert.equal(await attestationStatus(), 'attested')
+  })
+
+  it('sends an edited card back to its marker', async () => {
+    await signInAs(db, playerId)
+
+    const { rows } = await db.query<{ course_id: string }>('SELECT course_id FROM rounds WHERE id = $1', [roundId])
+    const result = await callFunction<SaveResult>(db, 'update_round_with_scores', [
+      roundId,
+      { ...buildRound(rows[0].course_id), marker_id: markerId },
+      buildScores(5),
+    ])
+
+    assert.equal(result.success, true)
+    assert.equal(await attestationStatus(), 'pending')
+    assert.equal(await countRows(db, 'round_scores WHERE round_id = $1 AND strokes = 5', [roundId]), HOLES)
+  })
+
+  it('lets the player delete a marked round with its scores', async () => {
+    await signInAs(db, playerId)
+
+    await db.query('DELETE FROM rounds WHERE id = $1', [roundId])
+
+    assert.equal(await countRows(db, 'round_scores WHERE round_id = $1', [roundId]), 0)
+  })
+})
+
+describe('update_round_ratings', () => {
+  let db: PGlite
+  let playerId: string
+  let adminId: string
+  let roundId: string
+
+  before(async () => {
+    db = await createTestDatabase()
+    playerId = await createPlayer(db, 'Paul McGinley')
+    adminId = await createPlayer(db, 'Des Smyth', 'Admin')
+
+    const { rows } = await db.query<{ id: string }>(
+      "INSERT INTO courses (name, hole_count, status) VALUES ('Royal County Down', 9, 'approved') RETURNING id"
+    )
+
+    await signInAs(db, playerId)
+    const saved = await callFunction<SaveResult>(db, 'save_round_with_scores', [buildRound(rows[0].id), buildScores()])
+    roundId = saved.round_id!
+  })
+
+  after(async () => {
+    await db.close()
+  })
+
+  const rescoredRound = async () => {
+    const { rows } = await db.query<{ id: string }>('SELECT id FROM round_scores WHERE round_id = $1', [roundId])
+    return {
+      id: roundId,
+      rating_id: null,
+      score_differential: 3.2,
+      course_handicap: 6,
+      playing_handicap: 6,
+      adjusted_gross_score: 40,
+      net_strokes: 34,
+      stableford_points: 20,
+      scores: rows.map((row) => ({ id: row.id, adjusted_strokes: 4, net_strokes: 3, stableford_points: 3 })),
+    }
+  }
+
+  it('stops a player rescoring rounds', async () => {
+    await signInAs(db, playerId)
+
+    const result = await callFunction<{ success: boolean }>(db, 'update_round_ratings', [[await rescoredRound()]])
+
+    assert.equal(result.success, false)
+  })
+
+  it('writes the rescored round and hole totals', async () => {
+    await signInAs(db, adminId)
+
+    const result = await callFunction<{ success: boolean }>(db, 'update_round_ratings', [[await rescoredRound()]])
+
+    assert.equal(result.success, true)
+    const { rows } = await db.query<{ course_handicap: number; net_strokes: number; stableford_points: number }>(
+      'SELECT course_handicap, net_strokes, stableford_points FROM rounds WHERE id = $1',
+      [roundId]
+    )
+    assert.deepEqual(rows[0], { course_handicap: 6, net_strokes: 34, stableford_points: 20 })
+    assert.equal(await countRows(db, 'round_scores WHERE round_id = $1 AND stableford_points = 3', [roundId]), HOLES)
+  })
+})
+
+describe('refresh_handicap_index', () => {
+  let db: PGlite
+  let playerId: string
+
+  before(async () => {
+    db = await createTestDatabase()
+    playerId = await createPlayer(db, 'Pamela Feggans')
+
+    for (const [date, differential] of [['2026-05-01', 12.4], ['2026-05-08', 10.1], ['2026-05-15', 14.0]]) {
+      await db.query(
+        'INSERT INTO rounds (user_id, date_of_round, score_differential) VALUES ($1, $2, $3)',
+        [playerId, date, differential]
+      )
+    }
+  })
+
+  after(async () => {
+    await db.close()
+  })
+
+  beforeEach(async () => {
+    await signInAs(db, playerId)
+  })
+
+  it('stops a player recording their own handicap history', async () => {
+    await assert.rejects(
+      asAuthenticated(db, () =>
+        db.query(
+          "INSERT INTO handicap_history (user_id, handicap_index, effective_date, rounds_considered, differentials_used) VALUES ($1, 0.1, '2026-05-15', 3, 1)",
+          [playerId]
+        )
+      ),
+      /row-level security/
+    )
+  })
+
+  it('calculates, records and publishes the index from the stored differentials', async () => {
+    const result = await callFunction<{ success: boolean; handicap_index: string }>(db, 'refresh_handicap_index', [
+      playerId,
+    ])
+
+    // Lowest of 3 differentials, less 2.0
+    assert.equal(result.success, true)
+    assert.equal(Number(result.handicap_index), 8.1)
+    const { rows } = await db.query<{ handicap_index: string; handicap_index_source: string }>(
+      'SELECT handicap_index, handicap_index_source FROM profiles WHERE id = $1',
+      [playerId]
+    )
+    assert.deepEqual(rows[0], { handicap_index: '8.1', handicap_index_source: 'calculated' })
+    assert.equal(await countRows(db, 'handicap_history WHERE user_id = $1', [playerId]), 1)
+  })
+
+  it('dates the history by the latest round it uses', async () => {
+    await callFunction(db, 'refresh_handicap_index', [playerId])
+
+    assert.equal(await countRows(db, "handicap_history WHERE user_id = $1 AND effective_date = '2026-05-15'", [playerId]), 2)
+  })
+
+  it('soft caps against the lowest index in the year before the latest round', async () => {
+    await signInAs(db, null)
+    await db.query(
+      "INSERT INTO handicap_history (user_id, handicap_index, effective_date, rounds_considered, differentials_used) VALUES ($1, 4.0, '2026-01-10', 3, 1), ($1, 2.0, '2026-05-20', 3, 1)",
+      [playerId]
+    )
+
+    const result = await callFunction<{ handicap_index: string }>(db, 'refresh_handicap_index', [playerId])
+
+    // 8.1 is 4.1 over the 4.0 Low HI: the 1.1 beyond 3.0 is halved (the later 2.0 is ignored)
+    assert.equal(Number(result.handicap_index), 7.6)
+  })
+})
+
+describe('merge_courses', () => {
+  let db: PGlite
+  let adminId: string
+  let loops: Record<string, string>
+
+  before(async () => {
+    db = await createTestDatabase()
+    const playerId = await createPlayer(db, 'Christy OConnor')
+    adminId = await createPlayer(db, 'Joe Carr', 'Admin')
+
+    const { rows: loopRows } = await db.query<{ id: string; name: string }>(
+      "INSERT INTO course_loops (venue, name) VALUES ('Druids Glen', 'Red'), ('Druids Glen', 'Blue'), ('Druids Glen', 'Green'), ('Druids Glen', 'Yellow') RETURNING id, name"
+    )
+    loops = Object.fromEntries(loopRows.map((loop) => [loop.name, loop.id]))
+
+    await db.query(
+      "INSERT INTO courses (name, hole_count, status, front_loop_id, back_loop_id) VALUES ('Druids Glen Red Blue', 18, 'pending', $1, $2), ('Druids Glen', 18, 'approved', $3, $4)",
+      [loops.Red, loops.Blue, loops.Green, loops.Yellow]
+    )
+
+    const { rows } = await db.query<{ id: string }>(
+      "INSERT INTO rounds (user_id, course_id, date_of_round, holes_played, front_loop_id, back_loop_id) SELECT $1, id, '2026-06-01', 18, front_loop_id, back_loop_id FROM courses WHERE name = 'Druids Glen Red Blue' RETURNING id",
+      [playerId]
+    )
+    await db.query(
+      'INSERT INTO round_scores (round_id, hole_number, par, strokes, loop_id, loop_hole_number) VALUES ($1, 1, 4, 4, $2, 1), ($1, 10, 4, 5, $3, 1)',
+      [rows[0].id, loops.Red, loops.Blue]
+    )
+  })
+
+  after(async () => {
+    await db.close()
+  })
+
+  it("moves the duplicate's rounds and hole scores onto the kept course's loops", async () => {
+    await signInAs(db, adminId)
+    const { rows: courses } = await db.query<{ id: string; name: string }>('SELECT id, name FROM courses')
+    const idOf = (name: string) => courses.find((c) => c.name === name)!.id
+
+    const result = await callFunction<{ success: boolean }>(db, 'merge_courses', [
+      idOf('Druids Glen Red Blue'),
+      idOf('Druids Glen'),
+    ])
+
+    assert.equal(result.success, true)
+    const { rows: rounds } = await db.query<{ front_loop_id: string; back_loop_id: string }>(
+      'SELECT front_loop_id, back_loop_id FROM rounds'
+    )
+    assert.deepEqual(rounds, [{ front_loop_id: loops.Green, back_loop_id: loops.Yellow }])
+    const { rows: scores } = await db.query<{ hole_number: number; loop_id: string; loop_hole_number: number }>(
+      'SELECT hole_number, loop_id, loop_hole_number FROM round_scores ORDER BY hole_number'
+    )
+    assert.deepEqual(scores, [
+      { hole_number: 1, loop_id: loops.Green, loop_hole_number: 1 },
+      { hole_number: 10, loop_id: loops.Yellow, loop_hole_number: 1 },
+    ])
+  })
+})
+
+describe('merge_duplicate_rounds', () => {
+  let db: PGlite
+  let playerId: string
+  let markerId: string
+  let adminId: string
+  let courseId: string
+
+  before(async () => {
+    db = await createTestDatabase()
+    playerId = await createPlayer(db, 'Philip Walton')
+    markerId = await createPlayer(db, 'Ronan Rafferty')
+    adminId = await createPlayer(db, 'Eamonn Darcy', 'Admin')
+
+    const { rows } = await db.query<{ id: string }>(
+      "INSERT INTO courses (name, hole_count, status) VALUES ('The European Club', 9, 'approved') RETURNING id"
+    )
+    courseId = rows[0].id
+  })
+
+  after(async () => {
+    await db.close()
+  })
+
+  const saveCard = async (strokes: number, marked: boolean) => {
+    await signInAs(db, playerId)
+    const saved = await callFunction<SaveResult>(db, 'save_round_with_scores', [
+      { ...buildRound(courseId), marker_id: marked ? markerId : null },
+      buildScores(strokes),
+    ])
+
+    if (marked) {
+      await signInAs(db, markerId)
+      await callFunction(db, 'respond_to_attestation', [saved.round_id, true, null])
+    }
+
+    return saved.round_id!
+  }
+
+  const mergeInto = async (keepId: string, removeId: string) => {
+    await signInAs(db, adminId)
+    await callFunction(db, 'merge_duplicate_rounds', [keepId, `{${removeId}}`])
+
+    const { rows } = await db.query<{ marker_id: string; attestation_status: string }>(
+      'SELECT marker_id, attestation_status FROM rounds WHERE id = $1',
+      [keepId]
+    )
+    return rows[0]
+  }
+
+  it("keeps a duplicate's attestation when its hole scores are the same", async () => {
+    const keepId = await saveCard(4, false)
+    const removeId = await saveCard(4, true)
+
+    assert.deepEqual(await mergeInto(keepId, removeId), { marker_id: markerId, attestation_status: 'attested' })
+  })
+
+  it('sends the kept card to a marker taken from a duplicate with other scores', async () => {
+    const keepId = await saveCard(4, false)
+    const removeId = await saveCard(5, true)
+
+    assert.deepEqual(await mergeInto(keepId, removeId), { marker_id: markerId, attestation_status: 'pending' })
+  })
+})
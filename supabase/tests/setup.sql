@@ -0,0 +1,150 @@
+-- Test database setup
+-- The migrations run on top of what the Supabase project provides: the auth and storage
+-- schemas, the API roles, and the profiles and rounds tables created with the project.
+-- This recreates just enough of them to run the migrations on a plain Postgres.
+
+CREATE ROLE anon NOLOGIN;
+CREATE ROLE authenticated NOLOGIN;
+CREATE ROLE service_role NOLOGIN;
+
+-- As on Supabase, the API roles reach every table, leaving row level security to decide
+GRANT USAGE ON SCHEMA public TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated, service_role;
+
+-- ============================================
+-- AUTH
+-- ============================================
+
+CREATE SCHEMA auth;
+
+GRANT USAGE ON SCHEMA auth TO anon, authenticated, service_role;
+
+CREATE TABLE auth.users (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT
+);
+
+-- The signed-in user, as set by the test through request.jwt.claim.sub
+CREATE FUNCTION auth.uid()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NULLIF(current_setting('request.jwt.claim.sub', true), '')::UUID
+$$;
+
+-- ============================================
+-- STORAGE
+-- ============================================
+
+CREATE SCHEMA storage;
+
+CREATE TABLE storage.buckets (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  public BOOLEAN DEFAULT false
+);
+
+CREATE TABLE storage.objects (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bucket_id TEXT REFERENCES storage.buckets(id),
+  name TEXT,
+  owner UUID
+);
+
+CREATE FUNCTION storage.foldername(name TEXT)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (string_to_array(name, '/'))[1:array_length(string_to_array(name, '/'), 1) - 1]
+$$;
+
+-- ============================================
+-- PROJECT TABLES
+-- ============================================
+
+-- Created with the project; 001_create_courses_table.sql leaves an existing table alone
+CREATE TABLE courses (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  par INTEGER NOT NULL DEFAULT 72,
+  rating DECIMAL(4,1),
+  slope INTEGER,
+  standard_scratch DECIMAL(4,1),
+  tees TEXT DEFAULT 'White',
+  tee_color TEXT,
+  hole_count INTEGER DEFAULT 18,
+  course_type TEXT,
+  location TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE profiles (
+  id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  full_name TEXT,
+  email TEXT,
+  home_club TEXT,
+  handicap_index DECIMAL(3,1),
+  gui_number TEXT,
+  avatar_url TEXT,
+  role TEXT NOT NULL DEFAULT 'User',
+  approval_status TEXT NOT NULL DEFAULT 'pending',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE rounds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  course_id UUID,
+  date_of_round DATE NOT NULL,
+  weather TEXT,
+  wind_conditions TEXT,
+  temp_c NUMERIC,
+  wind_speed_kph NUMERIC,
+  total_strokes INTEGER,
+  total_par INTEGER,
+  score_to_par INTEGER,
+  holes_played INTEGER,
+  is_home BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE rounds ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE course_holes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  hole_number INTEGER NOT NULL CHECK (hole_number >= 1 AND hole_number <= 18),
+  par INTEGER NOT NULL CHECK (par >= 3 AND par <= 6),
+  stroke_index INTEGER NOT NULL CHECK (stroke_index >= 1 AND stroke_index <= 18),
+  distance INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(course_id, hole_number)
+);
+
+CREATE TABLE round_scores (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  round_id UUID NOT NULL REFERENCES rounds(id) ON DELETE CASCADE,
+  course_hole_id UUID REFERENCES course_holes(id) ON DELETE CASCADE,
+  hole_number INTEGER NOT NULL,
+  par INTEGER,
+  distance INTEGER,
+  strokes INTEGER NOT NULL CHECK (strokes >= 1 AND strokes <= 20),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(round_id, hole_number)
+);
+
+CREATE TABLE squads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL
+);
+
+CREATE TABLE squad_members (
+  squad_id UUID NOT NULL REFERENCES squads(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  PRIMARY KEY (squad_id, user_id)
+);